@@ -1,35 +1,54 @@
 import React, { useState, useEffect } from 'react';
-import { AppView, ConstitutionTopic, TopicProgress } from './types';
-import { TOPICS } from './constants';
+import { AppView, ArticleMastery, ConstitutionTopic, TopicProgress } from './types';
 import { StudyView } from './components/StudyView';
 import { QuizView } from './components/QuizView';
 import { ChatAssistant } from './components/ChatAssistant';
-import { BookIcon, ChatIcon, QuizIcon, HomeIcon } from './components/Icons';
+import { SettingsView } from './components/SettingsView';
+import { ReviewSession } from './components/ReviewSession';
+import { FlashcardDeck } from './components/FlashcardDeck';
+import { ArticleBrowser, BrowserTab } from './components/ArticleBrowser';
+import { SyllabusManager } from './components/SyllabusManager';
+import { ProfileManager } from './components/ProfileManager';
+import { ProfileSwitcher } from './components/ProfileSwitcher';
+import { ProfileLock } from './components/ProfileLock';
+import { countDueCards, endOfToday } from './services/srs';
+import { loadSyllabus } from './services/syllabus';
+import { loadGuidedMode, loadProgress, saveGuidedMode } from './services/progress';
+import { subscribeStorageErrors } from './services/storage';
+import { getActiveProfile, isProfileUnlocked } from './services/profiles';
+import { formatArticleIds, formatTopicArticles } from './services/articleRefs';
+import { computeArticleMastery, getWeakArticles } from './services/articleMastery';
+import { BookIcon, ChatIcon, QuizIcon, HomeIcon, ScaleIcon, SettingsIcon } from './components/Icons';
 
 export default function App() {
   const [currentView, setCurrentView] = useState<AppView>(AppView.HOME);
   const [selectedTopic, setSelectedTopic] = useState<ConstitutionTopic | null>(null);
+  // Topic whose article range the legislation browser opens on (null browses every law) and its first tab
+  const [articleTopic, setArticleTopic] = useState<ConstitutionTopic | null>(null);
+  const [articleTab, setArticleTab] = useState<BrowserTab>('index');
+  const [topics, setTopics] = useState<ConstitutionTopic[]>(() => loadSyllabus());
   
-  // Inicialización perezosa: lee de localStorage inmediatamente al iniciar la app
-  const [guidedMode, setGuidedMode] = useState(() => {
-    const saved = localStorage.getItem('guided_mode');
-    return saved === 'true';
-  });
+  // Inicialización perezosa: el almacenamiento ya está cargado antes del primer render
+  const [guidedMode, setGuidedMode] = useState(() => loadGuidedMode());
   
   const [progress, setProgress] = useState<Record<string, TopicProgress>>({});
+  const [dueCount, setDueCount] = useState(0);
+  const [mastery, setMastery] = useState<Record<string, ArticleMastery>>({});
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [locked, setLocked] = useState(() => !isProfileUnlocked(getActiveProfile()));
+
+  useEffect(() => subscribeStorageErrors(setStorageError), []);
 
   useEffect(() => {
-    // Load progress from localStorage
-    const savedProgress = localStorage.getItem('topic_progress');
-    if (savedProgress) {
-      setProgress(JSON.parse(savedProgress));
-    }
+    setProgress(loadProgress());
+    setDueCount(countDueCards(endOfToday()));
+    setMastery(computeArticleMastery());
   }, [currentView]); // Reload progress when view changes
 
   const toggleGuidedMode = () => {
     const newVal = !guidedMode;
     setGuidedMode(newVal);
-    localStorage.setItem('guided_mode', newVal.toString());
+    saveGuidedMode(newVal);
   };
 
   const handleStartStudy = (topic: ConstitutionTopic) => {
@@ -42,12 +61,23 @@ export default function App() {
     setCurrentView(AppView.QUIZ);
   };
 
+  const handleStartFlashcards = (topic: ConstitutionTopic) => {
+    setSelectedTopic(topic);
+    setCurrentView(AppView.FLASHCARDS);
+  };
+
+  const handleBrowseArticles = (topic: ConstitutionTopic | null, tab: BrowserTab = 'index') => {
+    setArticleTopic(topic);
+    setArticleTab(tab);
+    setCurrentView(AppView.ARTICLES);
+  };
+
   const isTopicLocked = (index: number) => {
     if (!guidedMode) return false;
     if (index === 0) return false; // First topic always unlocked
     
     // Check if previous topic is passed
-    const prevTopic = TOPICS[index - 1];
+    const prevTopic = topics[index - 1];
     const prevProgress = progress[prevTopic.id];
     return !prevProgress?.isPassed;
   };
@@ -56,12 +86,34 @@ export default function App() {
     switch (currentView) {
       case AppView.STUDY:
         if (!selectedTopic) return null;
-        return <StudyView topic={selectedTopic} onBack={() => setCurrentView(AppView.TOPIC_LIST)} />;
+        return <StudyView topic={selectedTopic} topics={topics} onBack={() => setCurrentView(AppView.TOPIC_LIST)} />;
       case AppView.QUIZ:
         if (!selectedTopic) return null;
-        return <QuizView topic={selectedTopic} onBack={() => setCurrentView(AppView.TOPIC_LIST)} />;
+        return <QuizView topic={selectedTopic} topics={topics} onBack={() => setCurrentView(AppView.TOPIC_LIST)} />;
+      case AppView.FLASHCARDS:
+        if (!selectedTopic) return null;
+        return <FlashcardDeck topic={selectedTopic} onBack={() => setCurrentView(AppView.TOPIC_LIST)} />;
+      case AppView.ARTICLES:
+        return (
+          <ArticleBrowser
+            key={`${articleTopic?.id ?? 'all'}-${articleTab}`}
+            topics={topics}
+            focusTopic={articleTopic}
+            initialTab={articleTab}
+            onClearFocus={() => setArticleTopic(null)}
+            onBack={() => setCurrentView(articleTopic ? AppView.TOPIC_LIST : AppView.HOME)}
+          />
+        );
       case AppView.CHAT:
         return <ChatAssistant />;
+      case AppView.REVIEW:
+        return <ReviewSession onExit={() => setCurrentView(AppView.HOME)} />;
+      case AppView.SETTINGS:
+        return <SettingsView />;
+      case AppView.SYLLABUS:
+        return <SyllabusManager topics={topics} onChange={setTopics} onBack={() => setCurrentView(AppView.TOPIC_LIST)} />;
+      case AppView.PROFILES:
+        return <ProfileManager onBack={() => setCurrentView(AppView.HOME)} />;
       case AppView.TOPIC_LIST:
         return (
           <div className="p-4 md:p-8 max-w-7xl mx-auto overflow-y-auto h-full">
@@ -85,6 +137,12 @@ export default function App() {
                     <div className={`w-4 h-4 bg-white rounded-full shadow-md transform transition-transform duration-300 ${guidedMode ? 'translate-x-6' : 'translate-x-0'}`}></div>
                   </button>
                 </div>
+                <button
+                  onClick={() => setCurrentView(AppView.SYLLABUS)}
+                  className="self-start md:self-auto flex items-center gap-2 text-slate-300 hover:text-white transition-colors border border-slate-600 hover:border-slate-400 px-4 py-2 rounded-lg"
+                >
+                  <SettingsIcon className="w-5 h-5" /> Editar temario
+                </button>
                 <button 
                   onClick={() => setCurrentView(AppView.HOME)}
                   className="self-start md:self-auto flex items-center gap-2 text-spanishYellow hover:text-white transition-colors border border-spanishYellow/30 hover:border-spanishYellow px-4 py-2 rounded-lg"
@@ -95,10 +153,11 @@ export default function App() {
             </header>
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 pb-20">
-              {TOPICS.map((topic, index) => {
+              {topics.map((topic, index) => {
                 const locked = isTopicLocked(index);
                 const topicProgress = progress[topic.id];
                 const isPassed = topicProgress?.isPassed;
+                const weakArticles = getWeakArticles(mastery, topic.articles);
 
                 return (
                   <div key={topic.id} className={`bg-slate-800 rounded-xl border transition-all shadow-lg overflow-hidden flex flex-col group relative ${locked ? 'border-slate-700 opacity-60 grayscale' : 'border-slate-700 hover:border-spanishRed hover:shadow-[0_0_15px_rgba(170,21,27,0.3)]'}`}>
@@ -107,9 +166,13 @@ export default function App() {
                     
                     <div className="p-6 flex-1">
                       <div className="flex justify-between items-start mb-4">
-                        <span className="text-xs font-bold bg-slate-900 text-spanishYellow border border-spanishYellow/20 px-2 py-1 rounded uppercase tracking-wide">
-                          {topic.articles}
-                        </span>
+                        <button
+                          onClick={() => handleBrowseArticles(topic)}
+                          className="text-xs font-bold bg-slate-900 text-spanishYellow border border-spanishYellow/20 hover:border-spanishYellow px-2 py-1 rounded uppercase tracking-wide transition-colors"
+                          title="Ver los artículos del tema"
+                        >
+                          📜 {formatTopicArticles(topic) || 'Legislación'}
+                        </button>
                         {locked ? (
                           <span className="text-slate-500">🔒 Bloqueado</span>
                         ) : isPassed ? (
@@ -120,6 +183,15 @@ export default function App() {
                       </div>
                       <h3 className={`text-xl font-bold text-slate-100 mb-2 transition-colors ${!locked && 'group-hover:text-spanishRed'}`}>{topic.title}</h3>
                       <p className="text-slate-400 text-sm leading-relaxed">{topic.description}</p>
+                      {weakArticles.length > 0 && (
+                        <button
+                          onClick={() => handleBrowseArticles(topic, 'mastery')}
+                          className="mt-3 text-xs text-red-300 hover:text-red-200 text-left"
+                          title="Ver el mapa de dominio del tema"
+                        >
+                          ⚠ {weakArticles.length === 1 ? 'Artículo flojo' : `${weakArticles.length} artículos flojos`}: {formatArticleIds(weakArticles)}
+                        </button>
+                      )}
                     </div>
                     
                     <div className="p-4 bg-slate-900/50 border-t border-slate-700 flex gap-2">
@@ -137,6 +209,14 @@ export default function App() {
                       >
                         <QuizIcon /> Test
                       </button>
+                      <button
+                        onClick={() => !locked && handleStartFlashcards(topic)}
+                        disabled={locked}
+                        className={`flex items-center justify-center py-2 px-3 rounded text-sm font-medium transition-colors ${locked ? 'bg-slate-800 text-slate-600 cursor-not-allowed' : 'bg-slate-700 hover:bg-slate-600 text-white hover:text-spanishYellow'}`}
+                        title="Flashcards"
+                      >
+                        🃏
+                      </button>
                     </div>
                   </div>
                 );
@@ -215,6 +295,10 @@ export default function App() {
     }
   };
 
+  if (locked) {
+    return <ProfileLock profile={getActiveProfile()} onUnlock={() => setLocked(false)} />;
+  }
+
   return (
     <div className="flex h-screen bg-slate-950 text-slate-100 overflow-hidden font-sans selection:bg-spanishRed selection:text-white">
       {/* Sidebar Navigation */}
@@ -222,13 +306,15 @@ export default function App() {
         {/* Spanish Flag Border on the right */}
         <div className="absolute right-[-4px] top-0 bottom-0 w-1 bg-gradient-to-b from-spanishRed via-spanishYellow to-spanishRed"></div>
 
-        <div className="mb-10 px-4 flex justify-center md:justify-start cursor-pointer group" onClick={() => setCurrentView(AppView.HOME)}>
+        <div className="mb-6 px-4 flex justify-center md:justify-start cursor-pointer group" onClick={() => setCurrentView(AppView.HOME)}>
            <div className="w-10 h-10 bg-gradient-to-br from-spanishRed to-red-800 rounded-lg shadow-lg flex items-center justify-center font-bold text-white text-xl border border-spanishYellow/50 group-hover:scale-110 transition-transform">
              <span className="text-spanishYellow">CE</span>
            </div>
            <span className="hidden md:block ml-3 font-bold text-lg mt-1 tracking-tight group-hover:text-spanishYellow transition-colors">AI Tutor</span>
         </div>
 
+        <ProfileSwitcher onManage={() => setCurrentView(AppView.PROFILES)} />
+
         <div className="flex-1 w-full space-y-3 px-3">
            <button 
             onClick={() => setCurrentView(AppView.HOME)}
@@ -240,12 +326,20 @@ export default function App() {
 
           <button 
             onClick={() => setCurrentView(AppView.TOPIC_LIST)}
-            className={`w-full flex items-center gap-4 p-3 rounded-lg transition-all border ${currentView === AppView.TOPIC_LIST || currentView === AppView.STUDY || currentView === AppView.QUIZ ? 'bg-spanishRed text-white border-spanishRed shadow-lg shadow-red-900/40' : 'text-slate-400 border-transparent hover:bg-slate-800 hover:text-white hover:border-slate-700'}`}
+            className={`w-full flex items-center gap-4 p-3 rounded-lg transition-all border ${currentView === AppView.TOPIC_LIST || currentView === AppView.STUDY || currentView === AppView.QUIZ || currentView === AppView.FLASHCARDS ? 'bg-spanishRed text-white border-spanishRed shadow-lg shadow-red-900/40' : 'text-slate-400 border-transparent hover:bg-slate-800 hover:text-white hover:border-slate-700'}`}
           >
             <div className="w-6"><BookIcon /></div>
             <span className="hidden md:block font-medium">Temario</span>
           </button>
           
+          <button
+            onClick={() => handleBrowseArticles(null)}
+            className={`w-full flex items-center gap-4 p-3 rounded-lg transition-all border ${currentView === AppView.ARTICLES ? 'bg-spanishRed text-white border-spanishRed shadow-lg shadow-red-900/40' : 'text-slate-400 border-transparent hover:bg-slate-800 hover:text-white hover:border-slate-700'}`}
+          >
+            <div className="w-6"><ScaleIcon /></div>
+            <span className="hidden md:block font-medium">Legislación</span>
+          </button>
+
           <button 
             onClick={() => setCurrentView(AppView.CHAT)}
             className={`w-full flex items-center gap-4 p-3 rounded-lg transition-all border ${currentView === AppView.CHAT ? 'bg-spanishRed text-white border-spanishRed shadow-lg shadow-red-900/40' : 'text-slate-400 border-transparent hover:bg-slate-800 hover:text-white hover:border-slate-700'}`}
@@ -253,6 +347,27 @@ export default function App() {
             <div className="w-6"><ChatIcon /></div>
             <span className="hidden md:block font-medium">Asistente</span>
           </button>
+
+          <button 
+            onClick={() => setCurrentView(AppView.REVIEW)}
+            className={`w-full flex items-center gap-4 p-3 rounded-lg transition-all border ${currentView === AppView.REVIEW ? 'bg-spanishRed text-white border-spanishRed shadow-lg shadow-red-900/40' : 'text-slate-400 border-transparent hover:bg-slate-800 hover:text-white hover:border-slate-700'}`}
+          >
+            <div className="w-6 relative">
+              <QuizIcon />
+              {dueCount > 0 && (
+                <span className="absolute -top-2 -right-2 min-w-[1.1rem] h-[1.1rem] px-1 bg-spanishYellow text-slate-900 text-[10px] font-bold rounded-full flex items-center justify-center">{dueCount}</span>
+              )}
+            </div>
+            <span className="hidden md:block font-medium">Repaso de hoy</span>
+          </button>
+
+          <button 
+            onClick={() => setCurrentView(AppView.SETTINGS)}
+            className={`w-full flex items-center gap-4 p-3 rounded-lg transition-all border ${currentView === AppView.SETTINGS ? 'bg-spanishRed text-white border-spanishRed shadow-lg shadow-red-900/40' : 'text-slate-400 border-transparent hover:bg-slate-800 hover:text-white hover:border-slate-700'}`}
+          >
+            <div className="w-6"><SettingsIcon /></div>
+            <span className="hidden md:block font-medium">Ajustes</span>
+          </button>
         </div>
 
         <div className="mt-auto px-4 text-[10px] text-slate-600 hidden md:block text-center">
@@ -265,6 +380,13 @@ export default function App() {
       <main className="flex-1 relative overflow-hidden bg-slate-950 bg-[url('https://www.transparenttextures.com/patterns/cubes.png')]">
         {renderContent()}
       </main>
+
+      {storageError && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 max-w-lg w-[90%] bg-red-900/90 border border-red-500 text-white px-4 py-3 rounded-lg shadow-xl text-sm flex items-start gap-3">
+          <span className="flex-1">{storageError}</span>
+          <button onClick={() => setStorageError(null)} className="text-red-200 hover:text-white">✕</button>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
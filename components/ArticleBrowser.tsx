@@ -0,0 +1,357 @@
+import React, { useMemo, useState } from 'react';
+import { ConstitutionTopic, LawDivision, LawId, LegalArticle } from '../types';
+import { LAWS } from '../data/legalCorpus';
+import { formatArticleLabel, getArticleById } from '../services/retrieval';
+import {
+  articleSnippet,
+  countDivisionArticles,
+  describeArticle,
+  formatDivisionRange,
+  getArticleTopics,
+  getCitingArticles,
+  getCrossReferences,
+  getDivisionArticles,
+  getDivisionPath,
+  getLawArticles,
+  getLawStructure,
+  getMissingRanges,
+  getUnplacedArticles,
+  officialArticleUrl,
+  officialTextUrl,
+  searchArticles,
+  splitCrossReferences
+} from '../services/articleBrowser';
+import { formatArticleRange, formatArticleRanges, formatTopicArticles, isArticleInRanges } from '../services/articleRefs';
+import { MASTERY_LEVEL_LABELS, computeArticleMastery, masteryLevel, masteryScore } from '../services/articleMastery';
+import { ArticleMasteryMap } from './ArticleMasteryMap';
+import { BackIcon } from './Icons';
+
+interface ArticleBrowserProps {
+  topics: ConstitutionTopic[];
+  focusTopic: ConstitutionTopic | null; // Opened from a topic card: only its article range is listed
+  initialTab?: BrowserTab;
+  onClearFocus: () => void;
+  onBack: () => void;
+}
+
+export type BrowserTab = 'index' | 'mastery';
+
+const LAW_IDS = Object.keys(LAWS) as LawId[];
+
+const DIVISION_STYLES: Record<LawDivision['kind'], string> = {
+  titulo: 'text-sm font-bold text-white',
+  capitulo: 'text-sm font-semibold text-slate-200',
+  seccion: 'text-xs font-semibold text-slate-300'
+};
+
+const officialLinkClass = "text-spanishYellow/80 hover:text-white underline decoration-dotted";
+
+interface DivisionNodeProps {
+  law: LawId;
+  division: LawDivision;
+  articles: LegalArticle[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}
+
+const ArticleButton: React.FC<{ article: LegalArticle; selected: boolean; onSelect: (id: string) => void }> = ({ article, selected, onSelect }) => (
+  <button
+    onClick={() => onSelect(article.id)}
+    className={`block w-full text-left text-xs px-2 py-1 rounded transition-colors ${selected ? 'bg-spanishRed text-white' : 'text-slate-300 hover:bg-slate-700 hover:text-spanishYellow'}`}
+  >
+    <span className="font-bold">Art. {article.number}</span>{article.title ? ` · ${article.title}` : ''}
+  </button>
+);
+
+const DivisionNode: React.FC<DivisionNodeProps> = ({ law, division, articles, selectedId, onSelect }) => {
+  const count = countDivisionArticles(division, articles);
+  const [open, setOpen] = useState(count > 0);
+  const own = getDivisionArticles(division, articles);
+
+  return (
+    <div className="ml-2 border-l border-slate-700 pl-2 my-1">
+      <button onClick={() => setOpen(!open)} className="w-full text-left py-1 group">
+        <span className={DIVISION_STYLES[division.kind]}>
+          <span className="text-slate-500 mr-1">{open ? '▾' : '▸'}</span>
+          {division.label}
+        </span>
+        <span className="text-[11px] text-slate-500 ml-2">{formatDivisionRange(division)} · {count} {count === 1 ? 'artículo' : 'artículos'}</span>
+        <span className="block text-xs text-slate-400 ml-4 group-hover:text-slate-200">{division.title}</span>
+      </button>
+      {open && (
+        <div className="ml-2">
+          {own.map(article => (
+            <ArticleButton key={article.id} article={article} selected={article.id === selectedId} onSelect={onSelect} />
+          ))}
+          {(division.children ?? []).map(child => (
+            <DivisionNode key={child.label} law={law} division={child} articles={articles} selectedId={selectedId} onSelect={onSelect} />
+          ))}
+          {count === 0 && (
+            <p className="text-[11px] text-slate-600 italic px-2 py-1">
+              Sin artículos en la selección · <a href={officialTextUrl(law, division.from)} target="_blank" rel="noreferrer" className={officialLinkClass}>leer en el BOE ↗</a>
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ArticleBrowser: React.FC<ArticleBrowserProps> = ({ topics, focusTopic, initialTab = 'index', onClearFocus, onBack }) => {
+  const focusRanges = useMemo(() => focusTopic?.articles ?? [], [focusTopic]);
+  const focusLaws = useMemo(() => Array.from(new Set(focusRanges.map(range => range.law))), [focusRanges]);
+
+  const [law, setLaw] = useState<LawId>(focusLaws[0] ?? 'CE');
+  const [query, setQuery] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [tab, setTab] = useState<BrowserTab>(initialTab);
+  const mastery = useMemo(() => computeArticleMastery(), []);
+
+  const lawArticles = useMemo(
+    () => getLawArticles(law).filter(article => focusRanges.length === 0 || isArticleInRanges(article, focusRanges)),
+    [law, focusRanges]
+  );
+  const structure = getLawStructure(law).filter(division =>
+    focusRanges.length === 0 || countDivisionArticles(division, lawArticles) > 0
+  );
+  const unplaced = getUnplacedArticles(law, lawArticles);
+  const missing = useMemo(() => focusRanges.length > 0 ? getMissingRanges(law, focusRanges) : [], [law, focusRanges]);
+  const results = useMemo(() => query.trim() ? searchArticles(query) : [], [query]);
+
+  const selected = selectedId ? getArticleById(selectedId) : undefined;
+
+  const openArticle = (id: string) => {
+    const article = getArticleById(id);
+    if (!article) return;
+    setLaw(article.law);
+    setSelectedId(id);
+    setTab('index');
+  };
+
+  const renderArticle = (article: LegalArticle) => {
+    const path = getDivisionPath(article);
+    const references = getCrossReferences(article);
+    const citing = getCitingArticles(article.id);
+    const articleTopics = getArticleTopics(article, topics);
+    const articleMastery = mastery[article.id];
+
+    return (
+      <div className="bg-slate-800 border border-slate-700 rounded-xl p-6">
+        <p className="text-[11px] text-slate-500 mb-1">
+          {[LAWS[article.law].shortName, ...path.map(division => division.label)].join(' › ')}
+        </p>
+        <h2 className="text-2xl font-bold text-spanishYellow">{formatArticleLabel(article)}</h2>
+        <p className="text-xs text-slate-400 mb-2">
+          {article.title ?? path[path.length - 1]?.title ?? LAWS[article.law].fullName}
+        </p>
+        <p className="text-[11px] text-slate-500 mb-4">
+          Dominio: {articleMastery
+            ? `${MASTERY_LEVEL_LABELS[masteryLevel(articleMastery)]} · ${articleMastery.correct}/${articleMastery.answered} aciertos en test (${Math.round(masteryScore(articleMastery) * 100)}% en las últimas ${articleMastery.recent.length})`
+            : 'aún no has respondido preguntas sobre este artículo'}
+        </p>
+        <p className="text-sm text-slate-200 leading-relaxed whitespace-pre-line">
+          {splitCrossReferences(article).map((part, idx) => {
+            if (!part.targetId) return <React.Fragment key={idx}>{part.text}</React.Fragment>;
+            const target = getArticleById(part.targetId);
+            const officialUrl = officialArticleUrl(part.targetId);
+            if (target) {
+              return (
+                <button key={idx} onClick={() => openArticle(target.id)} className="text-spanishYellow underline decoration-dotted hover:text-white">
+                  {part.text}
+                </button>
+              );
+            }
+            return officialUrl ? (
+              <a key={idx} href={officialUrl} target="_blank" rel="noreferrer" className="underline decoration-dotted decoration-slate-500 hover:text-white" title="No incluido en la selección: abrir en el BOE">{part.text}</a>
+            ) : (
+              <span key={idx} className="underline decoration-dotted decoration-slate-600" title="Artículo no incluido en la selección">{part.text}</span>
+            );
+          })}
+        </p>
+
+        {references.length > 0 && (
+          <div className="mt-6">
+            <h4 className="text-xs uppercase tracking-wider font-bold text-slate-400 mb-2">Remite a</h4>
+            <div className="flex flex-wrap gap-2">
+              {references.map(id => {
+                const target = getArticleById(id);
+                const [targetLaw, number] = id.split('-');
+                const officialUrl = officialArticleUrl(id);
+                if (target) {
+                  return (
+                    <button key={id} onClick={() => openArticle(id)} className="text-[11px] font-bold bg-slate-900 text-spanishYellow border border-spanishYellow/30 hover:border-spanishYellow px-2 py-1 rounded">
+                      📜 {formatArticleLabel(target)}
+                    </button>
+                  );
+                }
+                const label = `Art. ${number} ${LAWS[targetLaw as LawId]?.shortName ?? targetLaw}`;
+                return officialUrl ? (
+                  <a key={id} href={officialUrl} target="_blank" rel="noreferrer" className="text-[11px] bg-slate-900 text-slate-400 border border-slate-700 hover:border-slate-500 hover:text-white px-2 py-1 rounded" title="No incluido en la selección: abrir en el BOE">
+                    {label} ↗
+                  </a>
+                ) : (
+                  <span key={id} className="text-[11px] bg-slate-900 text-slate-500 border border-slate-700 px-2 py-1 rounded" title="Artículo no incluido en la selección">
+                    {label}
+                  </span>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {citing.length > 0 && (
+          <div className="mt-4">
+            <h4 className="text-xs uppercase tracking-wider font-bold text-slate-400 mb-2">Citado en</h4>
+            <div className="flex flex-wrap gap-2">
+              {citing.map(source => (
+                <button key={source.id} onClick={() => openArticle(source.id)} className="text-[11px] font-bold bg-slate-900 text-spanishYellow border border-spanishYellow/30 hover:border-spanishYellow px-2 py-1 rounded">
+                  📜 {formatArticleLabel(source)}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {articleTopics.length > 0 && (
+          <div className="mt-4">
+            <h4 className="text-xs uppercase tracking-wider font-bold text-slate-400 mb-2">En el temario</h4>
+            <ul className="text-xs text-slate-300 space-y-1">
+              {articleTopics.map(topic => <li key={topic.id}>{topic.title}</li>)}
+            </ul>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-4 md:p-8 max-w-7xl mx-auto overflow-y-auto h-full">
+      <header className="mb-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-1">Legislación</h1>
+          <p className="text-slate-400 text-sm">
+            Selección de los artículos más preguntados de cada norma, ordenados por Títulos, Capítulos y Secciones. No es el texto íntegro: el resto se abre en el BOE.
+          </p>
+        </div>
+        <button onClick={onBack} className="self-start md:self-auto flex items-center gap-2 text-spanishYellow hover:text-white transition-colors border border-spanishYellow/30 hover:border-spanishYellow px-4 py-2 rounded-lg">
+          <BackIcon /> Volver
+        </button>
+      </header>
+
+      {focusTopic && (
+        <div className="mb-4 p-3 rounded-lg border border-spanishYellow/30 bg-slate-800 flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-slate-300 font-medium mr-1">{focusTopic.title}:</span>
+          {focusRanges.length > 0 ? focusRanges.map((range, idx) => (
+            <button
+              key={idx}
+              onClick={() => setLaw(range.law)}
+              className={`text-[11px] font-bold px-2 py-1 rounded border ${range.law === law ? 'bg-spanishYellow text-slate-900 border-spanishYellow' : 'bg-slate-900 text-spanishYellow border-spanishYellow/30 hover:border-spanishYellow'}`}
+            >
+              {formatArticleRange(range)}
+            </button>
+          )) : (
+            <span className="text-slate-500 text-xs">«{formatTopicArticles(focusTopic) || 'Sin artículos'}» no corresponde a ninguna norma incluida.</span>
+          )}
+          <button onClick={onClearFocus} className="ml-auto text-xs text-slate-400 hover:text-white underline">Ver todas las normas</button>
+          {missing.length > 0 && (
+            <p className="w-full text-xs text-slate-400">
+              Sin texto en la aplicación: {formatArticleRanges(missing)} · <a href={officialTextUrl(law)} target="_blank" rel="noreferrer" className={officialLinkClass}>texto consolidado en el BOE ↗</a>
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-2 mb-4 border-b border-slate-700">
+        {([['index', 'Índice y búsqueda'], ['mastery', 'Mapa de dominio']] as [BrowserTab, string][]).map(([id, label]) => (
+          <button
+            key={id}
+            onClick={() => setTab(id)}
+            className={`px-4 py-2 text-sm font-bold border-b-2 -mb-px transition-colors ${tab === id ? 'border-spanishRed text-white' : 'border-transparent text-slate-400 hover:text-white'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'mastery' ? (
+        <div className="pb-20">
+          <ArticleMasteryMap mastery={mastery} ranges={focusRanges.length > 0 ? focusRanges : undefined} onOpenArticle={openArticle} />
+        </div>
+      ) : (
+        <>
+          <input
+            className="w-full mb-4 bg-slate-800 text-white rounded-lg border border-slate-600 px-4 py-2 focus:outline-none focus:border-spanishYellow placeholder-slate-500 text-sm"
+            placeholder="Buscar en el texto de los artículos («sufragio», «art. 140 CE»…)"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+          />
+
+          {!query.trim() && (
+            <div className="flex flex-wrap gap-2 mb-4">
+              {LAW_IDS.filter(id => focusRanges.length === 0 || focusLaws.includes(id)).map(id => (
+                <button
+                  key={id}
+                  onClick={() => { setLaw(id); setSelectedId(null); }}
+                  className={`px-3 py-1.5 rounded-lg text-sm font-bold border transition-colors ${id === law ? 'bg-spanishRed text-white border-spanishRed' : 'bg-slate-800 text-slate-300 border-slate-700 hover:border-slate-500'}`}
+                  title={LAWS[id].fullName}
+                >
+                  {LAWS[id].shortName}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-5 gap-6 pb-20">
+            <div className="lg:col-span-2 bg-slate-900 border border-slate-700 rounded-xl p-3 max-h-[70vh] overflow-y-auto">
+              {query.trim() ? (
+                results.length > 0 ? (
+                  <ul className="space-y-2">
+                    {results.map(article => (
+                      <li key={article.id}>
+                        <button
+                          onClick={() => openArticle(article.id)}
+                          className={`w-full text-left p-2 rounded-lg border transition-colors ${article.id === selectedId ? 'border-spanishRed bg-slate-800' : 'border-transparent hover:bg-slate-800'}`}
+                        >
+                          <span className="block text-sm font-bold text-spanishYellow">{describeArticle(article)}</span>
+                          <span className="block text-xs text-slate-400 mt-1">{articleSnippet(article, query)}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-slate-500 p-2">Ningún artículo de la selección coincide con la búsqueda.</p>
+                )
+              ) : (
+                <>
+                  <h3 className="text-xs uppercase tracking-wider font-bold text-slate-400 px-2 mb-1">{LAWS[law].fullName}</h3>
+                  <p className="text-[11px] text-slate-500 px-2 mb-2">
+                    {getLawArticles(law).length} artículos incluidos · <a href={officialTextUrl(law)} target="_blank" rel="noreferrer" className={officialLinkClass}>texto íntegro en el BOE ↗</a>
+                  </p>
+                  {structure.map(division => (
+                    <DivisionNode key={`${law}-${division.label}`} law={law} division={division} articles={lawArticles} selectedId={selectedId} onSelect={setSelectedId} />
+                  ))}
+                  {unplaced.length > 0 && (
+                    <div className="ml-2 border-l border-slate-700 pl-2 my-1">
+                      <p className="text-sm font-bold text-white py-1">Otros artículos</p>
+                      {unplaced.map(article => (
+                        <ArticleButton key={article.id} article={article} selected={article.id === selectedId} onSelect={setSelectedId} />
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+
+            <div className="lg:col-span-3">
+              {selected ? renderArticle(selected) : (
+                <div className="h-full min-h-[200px] flex items-center justify-center border border-dashed border-slate-700 rounded-xl text-slate-500 text-sm p-6 text-center">
+                  Elige un artículo del índice o busca por palabras para leerlo con sus remisiones.
+                </div>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React from 'react';
+import { ArticleMastery, ArticleRange, LawId } from '../types';
+import { LAWS } from '../data/legalCorpus';
+import { getLawStructure } from '../services/articleBrowser';
+import { articleRefId, formatArticleIds, isNumberInRanges } from '../services/articleRefs';
+import { MASTERY_LEVEL_LABELS, MasteryLevel, getWeakArticles, masteryLevel, masteryScore } from '../services/articleMastery';
+import { getArticleById } from '../services/retrieval';
+
+interface ArticleMasteryMapProps {
+  mastery: Record<string, ArticleMastery>;
+  ranges?: ArticleRange[]; // Only these articles; every outlined law when missing
+  onOpenArticle: (id: string) => void;
+}
+
+const LEVEL_STYLES: Record<MasteryLevel, string> = {
+  none: 'bg-slate-800 text-slate-600',
+  weak: 'bg-red-600 text-white',
+  fair: 'bg-amber-500 text-slate-900',
+  strong: 'bg-emerald-600 text-white'
+};
+
+const LAW_IDS = Object.keys(LAWS) as LawId[];
+
+// One cell per article, grouped by Título (or Capítulo when the law has no Títulos)
+export const ArticleMasteryMap: React.FC<ArticleMasteryMapProps> = ({ mastery, ranges, onOpenArticle }) => {
+  const laws = ranges ? LAW_IDS.filter(law => ranges.some(range => range.law === law)) : LAW_IDS;
+  const weak = getWeakArticles(mastery, ranges ?? LAW_IDS.map(law => ({ law })));
+
+  const inScope = (law: LawId, number: number) => !ranges || isNumberInRanges(law, number, ranges);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+        {(Object.keys(LEVEL_STYLES) as MasteryLevel[]).map(level => (
+          <span key={level} className="flex items-center gap-1.5">
+            <span className={`w-3 h-3 rounded-sm ${LEVEL_STYLES[level]}`}></span> {MASTERY_LEVEL_LABELS[level]}
+          </span>
+        ))}
+        <span className="text-slate-500">· Según tus últimas respuestas de test a preguntas sobre cada artículo</span>
+      </div>
+
+      {weak.length > 0 && (
+        <p className="text-sm p-3 rounded-lg border border-red-500/30 bg-red-900/10 text-red-300">
+          ⚠ Artículos flojos: <span className="font-bold">{formatArticleIds(weak)}</span>
+        </p>
+      )}
+
+      {laws.map(law => (
+        <div key={law}>
+          <h3 className="text-sm font-bold text-white mb-2">{LAWS[law].fullName}</h3>
+          <div className="space-y-2">
+            {getLawStructure(law).map(division => {
+              const numbers: number[] = [];
+              for (let n = division.from; n <= division.to; n++) if (inScope(law, n)) numbers.push(n);
+              if (numbers.length === 0) return null;
+              return (
+                <div key={division.label} className="flex flex-col sm:flex-row gap-1 sm:gap-3">
+                  <span className="sm:w-28 flex-none text-[11px] text-slate-400 pt-0.5" title={division.title}>{division.label}</span>
+                  <div className="flex flex-wrap gap-0.5">
+                    {numbers.map(number => {
+                      const id = articleRefId(law, number);
+                      const entry = mastery[id];
+                      const level = masteryLevel(entry);
+                      const inCorpus = !!getArticleById(id);
+                      const detail = entry
+                        ? `${entry.correct}/${entry.answered} aciertos · últimas ${entry.recent.length}: ${Math.round(masteryScore(entry) * 100)}%`
+                        : MASTERY_LEVEL_LABELS.none;
+                      return (
+                        <button
+                          key={id}
+                          onClick={() => inCorpus && onOpenArticle(id)}
+                          className={`w-6 h-6 rounded-sm text-[9px] font-bold leading-6 text-center ${LEVEL_STYLES[level]} ${inCorpus ? 'ring-1 ring-inset ring-spanishYellow/40 hover:ring-spanishYellow' : 'cursor-default'}`}
+                          title={`Art. ${number} ${LAWS[law].shortName} · ${detail}${inCorpus ? '' : ' · texto no incluido'}`}
+                        >
+                          {number}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { QuizAttempt, QuizMode } from '../types';
+import { deleteAttempt, getTopicAttempts } from '../services/attempts';
+import { formatDuration } from '../services/examBuilder';
+
+interface AttemptHistoryProps {
+  topicId: string;
+  onReview: (attempt: QuizAttempt) => void;
+  onRetake: (attempt: QuizAttempt) => void;
+}
+
+const MODE_LABELS: Record<QuizMode, string> = {
+  [QuizMode.REAL]: 'Examen',
+  [QuizMode.REVIEW]: 'Repaso',
+  [QuizMode.PAPER]: 'En papel'
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('es-ES', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const AttemptHistory: React.FC<AttemptHistoryProps> = ({ topicId, onReview, onRetake }) => {
+  const [attempts, setAttempts] = useState<QuizAttempt[]>(() => getTopicAttempts(topicId));
+
+  if (attempts.length === 0) return null;
+
+  // Oldest to newest so the trend reads left to right
+  const trend = [...attempts].reverse().slice(-20);
+
+  const handleDelete = (attemptId: string) => {
+    if (!window.confirm('¿Eliminar este intento del historial?')) return;
+    deleteAttempt(attemptId);
+    setAttempts(getTopicAttempts(topicId));
+  };
+
+  return (
+    <div className="mt-10 text-left">
+      <h2 className="text-xs uppercase tracking-wider text-slate-400 font-bold mb-3">Historial de intentos ({attempts.length})</h2>
+
+      <div className="flex items-end gap-1 h-16 mb-4 bg-slate-800 border border-slate-700 rounded-xl p-2" title="Evolución de la nota (últimos 20 intentos)">
+        {trend.map(attempt => (
+          <div
+            key={attempt.id}
+            className={`flex-1 rounded-t ${attempt.examScore.isPassed ? 'bg-emerald-500/70' : 'bg-red-500/70'}`}
+            style={{ height: `${Math.max(4, attempt.examScore.percentage)}%` }}
+            title={`${formatDate(attempt.date)} · ${attempt.examScore.percentage}%`}
+          />
+        ))}
+      </div>
+
+      <div className="space-y-2 max-h-80 overflow-y-auto pr-1">
+        {attempts.map(attempt => (
+          <div key={attempt.id} className="bg-slate-800 border border-slate-700 rounded-lg p-3 flex flex-wrap items-center gap-3">
+            <div className="flex-1 min-w-[10rem]">
+              <p className="text-sm text-white font-medium">
+                <span className={attempt.examScore.isPassed ? 'text-emerald-400' : 'text-red-400'}>{attempt.examScore.percentage}%</span>
+                <span className="text-slate-500"> · {attempt.examScore.net} / {attempt.questions.length} netas</span>
+              </p>
+              <p className="text-xs text-slate-500">
+                {formatDate(attempt.date)} · {MODE_LABELS[attempt.mode] ?? 'Repaso'}{attempt.mode !== QuizMode.PAPER && ` · ${formatDuration(attempt.durationMs)}`}
+                {attempt.topicIds.length > 1 && ` · ${attempt.topicIds.length} temas`}
+              </p>
+            </div>
+            <button onClick={() => onReview(attempt)} className="px-3 py-1.5 rounded text-xs font-bold bg-slate-700 hover:bg-slate-600 border border-slate-600 text-white">
+              Ver
+            </button>
+            <button onClick={() => onRetake(attempt)} className="px-3 py-1.5 rounded text-xs font-bold bg-spanishRed hover:bg-red-700 text-white">
+              Repetir
+            </button>
+            <button onClick={() => handleDelete(attempt.id)} className="px-2 py-1.5 rounded text-xs text-slate-500 hover:text-red-400" title="Eliminar intento">
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
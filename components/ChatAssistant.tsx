@@ -1,20 +1,54 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { ChatMessage, FailedQuestion } from '../types';
-import { chatWithTutor } from '../services/geminiService';
-import { LoadingSpinner } from './Icons';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import Markdown from 'react-markdown';
+import { ChatConversation, ChatMessage } from '../types';
+import { streamChatWithTutor, summarizeChatTurns } from '../services/geminiService';
+import { linkifyCitations } from '../services/citations';
+import { hasMistakesLog, loadMistakes } from '../services/progress';
+import { downloadFile } from '../services/exportUtils';
+import {
+  buildTutorHistory,
+  conversationToMarkdown,
+  createConversation,
+  DEFAULT_CONVERSATION_TITLE,
+  generateTitle,
+  getMessagesToSummarize,
+  loadActiveConversationId,
+  loadConversations,
+  messageToTurn,
+  saveActiveConversationId,
+  saveConversations,
+  searchConversations
+} from '../services/conversations';
+import { ArticleModal, CitationChips, citationLinkRenderer } from './Citations';
+
+const WELCOME_TEXT = '¡Hola! Soy tu asistente legal. Pregúntame cualquier duda sobre la Constitución Española o sobre cómo preparar tus oposiciones. También puedo ayudarte a repasar tus fallos en los test.';
 
 export const ChatAssistant: React.FC = () => {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-      id: 'welcome',
-      role: 'model',
-      text: '¡Hola! Soy tu asistente legal. Pregúntame cualquier duda sobre la Constitución Española o sobre cómo preparar tus oposiciones. También puedo ayudarte a repasar tus fallos en los test.',
-      timestamp: Date.now()
-    }
-  ]);
+  const [conversations, setConversations] = useState<ChatConversation[]>(() => {
+    const stored = loadConversations();
+    return stored.length > 0 ? stored : [createConversation()];
+  });
+  const [activeId, setActiveId] = useState<string>(() => {
+    const storedId = loadActiveConversationId();
+    return conversations.some(c => c.id === storedId) ? storedId! : conversations[0].id;
+  });
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
+  const [openArticleId, setOpenArticleId] = useState<string | null>(null);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+  const [showSidebar, setShowSidebar] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Latest conversations, also updated after the view closes mid-reply so they can still be saved
+  const conversationsRef = useRef(conversations);
+  const renderCitationLink = useMemo(() => citationLinkRenderer(setOpenArticleId), []);
+
+  const activeConversation = conversations.find(c => c.id === activeId) ?? conversations[0];
+  const messages = activeConversation.messages;
+  const visibleConversations = useMemo(() => searchConversations(conversations, search), [conversations, search]);
 
   useEffect(() => {
     if (scrollRef.current) {
@@ -22,10 +56,45 @@ export const ChatAssistant: React.FC = () => {
     }
   }, [messages]);
 
-  const handleSend = async (overrideText?: string) => {
+  // Streaming updates many times per second, so the reply is persisted once complete. The
+  // question and the summary are saved as soon as they change.
+  useEffect(() => {
+    if (!streamingId) saveConversations(conversations);
+  }, [conversations, streamingId]);
+
+  useEffect(() => {
+    saveActiveConversationId(activeId);
+  }, [activeId]);
+
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    saveConversations(conversationsRef.current);
+  }, []);
+
+  const changeConversations = (change: (list: ChatConversation[]) => ChatConversation[]) => {
+    conversationsRef.current = change(conversationsRef.current);
+    setConversations(change);
+  };
+
+  const updateConversation = (id: string, updater: (conversation: ChatConversation) => ChatConversation) => {
+    changeConversations(list => list.map(c => c.id === id ? { ...updater(c), updatedAt: Date.now() } : c));
+  };
+
+  const appendModelNote = (text: string) => {
+    const msg: ChatMessage = {
+      id: Date.now().toString(),
+      role: 'model',
+      text,
+      timestamp: Date.now()
+    };
+    updateConversation(activeConversation.id, c => ({ ...c, messages: [...c.messages, msg] }));
+  };
+
+  const handleSend = async (overrideText?: string, title?: string) => {
     const textToSend = overrideText || input;
     if (!textToSend.trim() || loading) return;
 
+    const conversation = activeConversation;
     const userMsg: ChatMessage = {
       id: Date.now().toString(),
       role: 'user',
@@ -33,124 +102,306 @@ export const ChatAssistant: React.FC = () => {
       timestamp: Date.now()
     };
 
-    setMessages(prev => [...prev, userMsg]);
+    updateConversation(conversation.id, c => ({
+      ...c,
+      title: c.titleEdited || c.messages.some(m => m.role === 'user') ? c.title : (title || generateTitle(textToSend)),
+      messages: [...c.messages, userMsg]
+    }));
     setInput('');
     setLoading(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-    const apiHistory = messages.map(m => ({role: m.role, text: m.text}));
-    const responseText = await chatWithTutor(userMsg.text, apiHistory);
+    // Keep the request bounded: older messages are folded into the running summary first
+    let summarized = conversation;
+    const toSummarize = getMessagesToSummarize(conversation);
+    if (toSummarize.length > 0) {
+      const summary = await summarizeChatTurns(conversation.summary, toSummarize.map(messageToTurn));
+      summarized = { ...conversation, summary, summarizedCount: conversation.summarizedCount + toSummarize.length };
+      updateConversation(conversation.id, c => ({ ...c, summary: summarized.summary, summarizedCount: summarized.summarizedCount }));
+    }
 
-    const modelMsg: ChatMessage = {
-      id: (Date.now() + 1).toString(),
-      role: 'model',
-      text: responseText,
-      timestamp: Date.now()
-    };
+    const apiHistory = buildTutorHistory(summarized);
+    const modelMsgId = (Date.now() + 1).toString();
+
+    // The reply bubble appears with the first chunk and grows as the rest streams in
+    const stream = controller.signal.aborted ? [] : streamChatWithTutor(userMsg.text, apiHistory, controller.signal);
+    for await (const partial of stream) {
+      const modelMsg: ChatMessage = {
+        id: modelMsgId,
+        role: 'model',
+        text: partial.text,
+        timestamp: Date.now(),
+        citations: partial.citations
+      };
+      setStreamingId(modelMsgId);
+      updateConversation(conversation.id, c => ({
+        ...c,
+        messages: c.messages.some(m => m.id === modelMsgId)
+          ? c.messages.map(m => m.id === modelMsgId ? modelMsg : m)
+          : [...c.messages, modelMsg]
+      }));
+    }
 
-    setMessages(prev => [...prev, modelMsg]);
+    if (controller.signal.aborted) {
+      updateConversation(conversation.id, c => ({
+        ...c,
+        messages: c.messages.map(m => m.id === modelMsgId ? { ...m, text: `${m.text}\n\n_(respuesta interrumpida)_` } : m)
+      }));
+    }
+    abortRef.current = null;
+    setStreamingId(null);
     setLoading(false);
+    // Once the view has closed, state updates no longer reach the save effect
+    saveConversations(conversationsRef.current);
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleNewConversation = () => {
+    // Reuse an untouched conversation instead of piling up empty ones
+    const empty = conversations.find(c => c.messages.length === 0);
+    if (empty) {
+      setActiveId(empty.id);
+    } else {
+      const conversation = createConversation();
+      changeConversations(prev => [conversation, ...prev]);
+      setActiveId(conversation.id);
+    }
+    setShowSidebar(false);
+  };
+
+  const handleSelect = (id: string) => {
+    setActiveId(id);
+    setShowSidebar(false);
+  };
+
+  const startRename = (conversation: ChatConversation) => {
+    setRenamingId(conversation.id);
+    setRenameText(conversation.title);
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameText.trim()) {
+      updateConversation(renamingId, c => ({ ...c, title: renameText.trim(), titleEdited: true }));
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (id: string) => {
+    if (!window.confirm('¿Eliminar esta conversación? No se puede deshacer.')) return;
+    const remaining = conversations.filter(c => c.id !== id);
+    const next = remaining.length > 0 ? remaining : [createConversation()];
+    changeConversations(() => next);
+    if (id === activeId) setActiveId(searchConversations(next, '')[0].id);
+  };
+
+  const handleExport = () => {
+    downloadFile(conversationToMarkdown(activeConversation), `${activeConversation.title.replace(/\s+/g, '_')}.md`, 'text/markdown');
   };
 
   const handleReviewMistakes = () => {
-    const storedMistakes = localStorage.getItem('failed_questions');
-    if (!storedMistakes) {
-      const msg: ChatMessage = {
-        id: Date.now().toString(),
-        role: 'model',
-        text: 'No tienes fallos registrados todavía. Realiza algunos test primero para que pueda ayudarte a repasar.',
-        timestamp: Date.now()
-      };
-      setMessages(prev => [...prev, msg]);
+    if (!hasMistakesLog()) {
+      appendModelNote('No tienes fallos registrados todavía. Realiza algunos test primero para que pueda ayudarte a repasar.');
       return;
     }
 
-    const mistakes: FailedQuestion[] = JSON.parse(storedMistakes);
+    const mistakes = loadMistakes();
     if (mistakes.length === 0) {
-      const msg: ChatMessage = {
-        id: Date.now().toString(),
-        role: 'model',
-        text: '¡Enhorabuena! No tienes fallos pendientes de repasar.',
-        timestamp: Date.now()
-      };
-      setMessages(prev => [...prev, msg]);
+      appendModelNote('¡Enhorabuena! No tienes fallos pendientes de repasar.');
       return;
     }
 
     // Get last 5 mistakes to prevent huge prompt
     const recentMistakes = mistakes.slice(-5);
-    const mistakesText = recentMistakes.map((m, i) => 
+    const mistakesText = recentMistakes.map((m, i) =>
       `${i+1}. Tema: ${m.topicTitle}\n   Pregunta: ${m.question}\n   Mi respuesta: ${m.userAnswer}\n   Correcta: ${m.correctAnswer}\n`
     ).join('\n');
 
     const prompt = `Hola tutor, he fallado estas preguntas en mis últimos test. Por favor, explícamelas de forma sencilla y dame alguna regla mnemotécnica para no volver a fallarlas:\n\n${mistakesText}`;
-    
-    handleSend(prompt);
+
+    handleSend(prompt, 'Repaso de fallos');
   };
 
   return (
-    <div className="flex flex-col h-full bg-slate-900">
-      <div className="flex-none p-4 border-b border-slate-700 bg-slate-900 z-10 flex justify-between items-center relative">
-        <div className="absolute top-0 left-0 w-full h-[2px] bg-gradient-to-r from-spanishRed via-spanishYellow to-spanishRed"></div>
-        <h2 className="text-xl font-bold text-white flex items-center gap-2">
-          <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse border border-green-400"></span>
-          Asistente Constitucional
-        </h2>
-        <button 
-          onClick={handleReviewMistakes}
-          disabled={loading}
-          className="text-xs bg-slate-800 hover:bg-slate-700 text-spanishYellow border border-spanishYellow/30 px-3 py-1.5 rounded-lg transition-colors flex items-center gap-2"
-        >
-          <span className="text-lg">↺</span> Repasar Fallos
-        </button>
-      </div>
-
-      <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-slate-950" ref={scrollRef}>
-        {messages.map((msg) => (
-          <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-            <div 
-              className={`max-w-[85%] md:max-w-[70%] rounded-2xl px-5 py-3 text-sm md:text-base leading-relaxed shadow-md ${
-                msg.role === 'user' 
-                  ? 'bg-spanishRed text-white rounded-br-sm' 
-                  : 'bg-slate-800 text-slate-200 rounded-bl-sm border border-slate-700'
-              }`}
+    <div className="flex h-full bg-slate-900 relative">
+      <aside className={`${showSidebar ? 'flex' : 'hidden'} md:flex flex-col w-full md:w-72 flex-none border-r border-slate-700 bg-slate-900 absolute md:static inset-0 z-20`}>
+        <div className="p-4 border-b border-slate-700 space-y-3">
+          <div className="flex gap-2">
+            <button
+              onClick={handleNewConversation}
+              className="flex-1 bg-spanishRed hover:bg-red-700 text-white py-2 rounded-lg text-sm font-bold shadow-lg"
             >
-              {msg.text.split('\n').map((line, i) => (
-                 <p key={i} className="min-h-[1rem] mb-1">{line}</p>
-              ))}
-            </div>
+              + Nueva conversación
+            </button>
+            <button onClick={() => setShowSidebar(false)} className="md:hidden px-3 text-slate-400 hover:text-white">✕</button>
           </div>
-        ))}
-        {loading && (
-          <div className="flex justify-start">
-             <div className="bg-slate-800 px-4 py-3 rounded-2xl rounded-bl-sm border border-slate-700 flex items-center gap-2">
-                <div className="w-2 h-2 bg-spanishYellow rounded-full animate-bounce" style={{animationDelay: '0ms'}}></div>
-                <div className="w-2 h-2 bg-spanishRed rounded-full animate-bounce" style={{animationDelay: '150ms'}}></div>
-                <div className="w-2 h-2 bg-spanishYellow rounded-full animate-bounce" style={{animationDelay: '300ms'}}></div>
-             </div>
-          </div>
-        )}
-      </div>
-
-      <div className="flex-none p-4 border-t border-slate-700 bg-slate-900">
-        <div className="relative max-w-4xl mx-auto flex gap-2">
           <input
             type="text"
-            className="flex-1 bg-slate-800 text-white rounded-xl border border-slate-600 px-4 py-3 focus:outline-none focus:border-spanishYellow placeholder-slate-500"
-            placeholder="Escribe tu duda aquí..."
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-            disabled={loading}
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder="Buscar conversaciones..."
+            className="w-full bg-slate-800 text-white rounded-lg border border-slate-600 px-3 py-2 text-sm focus:outline-none focus:border-spanishYellow placeholder-slate-500"
           />
-          <button 
-            onClick={() => handleSend()}
-            disabled={loading || !input.trim()}
-            className="bg-spanishRed hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed text-white px-6 rounded-xl font-medium transition-colors shadow-lg"
-          >
-            Enviar
-          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-2 space-y-1">
+          {visibleConversations.map(conversation => (
+            <div
+              key={conversation.id}
+              className={`group rounded-lg px-3 py-2 cursor-pointer border ${conversation.id === activeConversation.id ? 'bg-slate-800 border-spanishYellow/40' : 'border-transparent hover:bg-slate-800'}`}
+              onClick={() => handleSelect(conversation.id)}
+            >
+              {renamingId === conversation.id ? (
+                <input
+                  autoFocus
+                  value={renameText}
+                  onChange={e => setRenameText(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  onClick={e => e.stopPropagation()}
+                  className="w-full bg-slate-900 text-white rounded border border-spanishYellow px-2 py-1 text-sm"
+                />
+              ) : (
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 text-sm text-slate-200 truncate" title={conversation.title}>{conversation.title}</span>
+                  <button
+                    onClick={e => { e.stopPropagation(); startRename(conversation); }}
+                    className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-spanishYellow text-xs"
+                    title="Renombrar"
+                  >
+                    ✎
+                  </button>
+                  <button
+                    onClick={e => { e.stopPropagation(); handleDelete(conversation.id); }}
+                    disabled={loading && conversation.id === activeConversation.id}
+                    className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-red-400 text-xs disabled:hidden"
+                    title="Eliminar"
+                  >
+                    ✕
+                  </button>
+                </div>
+              )}
+              <p className="text-[11px] text-slate-500 mt-0.5">
+                {new Date(conversation.updatedAt).toLocaleDateString('es-ES')} · {conversation.messages.length} mensajes
+              </p>
+            </div>
+          ))}
+          {visibleConversations.length === 0 && (
+            <p className="text-sm text-slate-500 text-center mt-6">Sin resultados</p>
+          )}
+        </div>
+      </aside>
+
+      <div className="flex flex-col flex-1 min-w-0">
+        <div className="flex-none p-4 border-b border-slate-700 bg-slate-900 z-10 flex justify-between items-center gap-2 relative">
+          <div className="absolute top-0 left-0 w-full h-[2px] bg-gradient-to-r from-spanishRed via-spanishYellow to-spanishRed"></div>
+          <div className="flex items-center gap-2 min-w-0">
+            <button onClick={() => setShowSidebar(true)} className="md:hidden text-slate-400 hover:text-white text-lg" title="Conversaciones">☰</button>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2 min-w-0">
+              <span className="w-2 h-2 flex-none rounded-full bg-green-500 animate-pulse border border-green-400"></span>
+              <span className="truncate">{activeConversation.title === DEFAULT_CONVERSATION_TITLE ? 'Asistente Constitucional' : activeConversation.title}</span>
+            </h2>
+          </div>
+          <div className="flex gap-2 flex-none">
+            <button
+              onClick={handleExport}
+              disabled={messages.length === 0}
+              className="text-xs bg-slate-800 hover:bg-slate-700 text-slate-300 border border-slate-600 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-40"
+              title="Exportar a Markdown"
+            >
+              ⬇ .md
+            </button>
+            <button
+              onClick={handleReviewMistakes}
+              disabled={loading}
+              className="text-xs bg-slate-800 hover:bg-slate-700 text-spanishYellow border border-spanishYellow/30 px-3 py-1.5 rounded-lg transition-colors flex items-center gap-2"
+            >
+              <span className="text-lg">↺</span> Repasar Fallos
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-slate-950" ref={scrollRef}>
+          {messages.length === 0 && (
+            <div className="flex justify-start">
+              <div className="max-w-[85%] md:max-w-[70%] rounded-2xl px-5 py-3 text-sm md:text-base leading-relaxed shadow-md bg-slate-800 text-slate-200 rounded-bl-sm border border-slate-700">
+                {WELCOME_TEXT}
+              </div>
+            </div>
+          )}
+          {activeConversation.summarizedCount > 0 && (
+            <p className="text-center text-[11px] text-slate-600">
+              Los {activeConversation.summarizedCount} primeros mensajes se envían al tutor resumidos
+            </p>
+          )}
+          {messages.map((msg) => (
+            <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div
+                className={`max-w-[85%] md:max-w-[70%] rounded-2xl px-5 py-3 text-sm md:text-base leading-relaxed shadow-md ${
+                  msg.role === 'user'
+                    ? 'bg-spanishRed text-white rounded-br-sm'
+                    : 'bg-slate-800 text-slate-200 rounded-bl-sm border border-slate-700'
+                }`}
+              >
+                {msg.role === 'model' ? (
+                  <div className="prose prose-invert prose-sm max-w-none">
+                    <Markdown components={{ a: renderCitationLink }}>{linkifyCitations(msg.text)}</Markdown>
+                    {msg.id === streamingId && <span className="inline-block w-2 h-4 bg-spanishYellow animate-pulse align-middle" />}
+                    <CitationChips ids={msg.citations} onOpen={setOpenArticleId} />
+                  </div>
+                ) : msg.text.split('\n').map((line, i) => (
+                   <p key={i} className="min-h-[1rem] mb-1">{line}</p>
+                ))}
+              </div>
+            </div>
+          ))}
+          {loading && !streamingId && (
+            <div className="flex justify-start">
+               <div className="bg-slate-800 px-4 py-3 rounded-2xl rounded-bl-sm border border-slate-700 flex items-center gap-2">
+                  <div className="w-2 h-2 bg-spanishYellow rounded-full animate-bounce" style={{animationDelay: '0ms'}}></div>
+                  <div className="w-2 h-2 bg-spanishRed rounded-full animate-bounce" style={{animationDelay: '150ms'}}></div>
+                  <div className="w-2 h-2 bg-spanishYellow rounded-full animate-bounce" style={{animationDelay: '300ms'}}></div>
+               </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex-none p-4 border-t border-slate-700 bg-slate-900">
+          <div className="relative max-w-4xl mx-auto flex gap-2">
+            <input
+              type="text"
+              className="flex-1 bg-slate-800 text-white rounded-xl border border-slate-600 px-4 py-3 focus:outline-none focus:border-spanishYellow placeholder-slate-500"
+              placeholder="Escribe tu duda aquí..."
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+              disabled={loading}
+            />
+            {loading ? (
+              <button
+                onClick={handleStop}
+                className="bg-slate-700 hover:bg-slate-600 text-white px-6 rounded-xl font-medium transition-colors border border-slate-500"
+              >
+                ■ Detener
+              </button>
+            ) : (
+              <button
+                onClick={() => handleSend()}
+                disabled={!input.trim()}
+                className="bg-spanishRed hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed text-white px-6 rounded-xl font-medium transition-colors shadow-lg"
+              >
+                Enviar
+              </button>
+            )}
+          </div>
         </div>
       </div>
+      <ArticleModal articleId={openArticleId} onClose={() => setOpenArticleId(null)} />
     </div>
   );
-};
\ No newline at end of file
+};
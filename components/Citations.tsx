@@ -0,0 +1,80 @@
+import React from 'react';
+import { ExtraProps } from 'react-markdown';
+import { LAWS } from '../data/legalCorpus';
+import { formatArticleLabel, getArticleById } from '../services/retrieval';
+import { formatPassageLabel, getPassageById } from '../services/documents';
+import { CITATION_HREF_PREFIX, getCitationLabel } from '../services/citations';
+
+interface ArticleModalProps {
+  articleId: string | null;
+  onClose: () => void;
+}
+
+// Also opens passages of the student's uploaded material, which share the citation markers
+export const ArticleModal: React.FC<ArticleModalProps> = ({ articleId, onClose }) => {
+  const article = articleId ? getArticleById(articleId) : undefined;
+  const passage = articleId && !article ? getPassageById(articleId) : undefined;
+  if (!article && !passage) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4" onClick={onClose}>
+      <div className="bg-slate-900 border border-spanishYellow/50 rounded-xl shadow-2xl max-w-2xl w-full max-h-[80vh] overflow-y-auto p-6" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-start mb-4 border-b border-slate-700 pb-3">
+          <div>
+            <h3 className="text-lg font-bold text-spanishYellow">{article ? formatArticleLabel(article) : formatPassageLabel(passage!)}</h3>
+            <p className="text-xs text-slate-400">
+              {article
+                ? `${LAWS[article.law].fullName}${article.title ? ` · ${article.title}` : ''}`
+                : `Fragmento ${passage!.index} de tu material de estudio`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">✕</button>
+        </div>
+        <p className="text-sm text-slate-200 leading-relaxed whitespace-pre-line">{article ? article.text : passage!.text}</p>
+      </div>
+    </div>
+  );
+};
+
+interface CitationChipsProps {
+  ids?: string[];
+  onOpen: (id: string) => void;
+}
+
+export const CitationChips: React.FC<CitationChipsProps> = ({ ids, onOpen }) => {
+  const sources = (ids || [])
+    .map(id => ({ id, label: getCitationLabel(id), isArticle: !!getArticleById(id) }))
+    .filter(source => source.label);
+  if (sources.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mt-3">
+      {sources.map(source => (
+        <button
+          key={source.id}
+          onClick={() => onOpen(source.id)}
+          className={`text-[11px] font-bold bg-slate-900 border px-2 py-1 rounded transition-colors ${source.isArticle ? 'text-spanishYellow border-spanishYellow/30 hover:border-spanishYellow' : 'text-sky-300 border-sky-400/30 hover:border-sky-300'}`}
+        >
+          {source.isArticle ? '📜' : '📄'} {source.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+// Markdown `a` renderer: citation links open the article modal, other links behave normally
+export const citationLinkRenderer = (onOpen: (id: string) => void) =>
+  ({ node, href, children, ...props }: React.ComponentProps<'a'> & ExtraProps) => {
+    if (href && href.startsWith(CITATION_HREF_PREFIX)) {
+      return (
+        <a
+          href={href}
+          onClick={(e: React.MouseEvent) => { e.preventDefault(); onOpen(href.slice(CITATION_HREF_PREFIX.length)); }}
+          className="text-spanishYellow underline decoration-dotted hover:text-white cursor-pointer"
+        >
+          {children}
+        </a>
+      );
+    }
+    return <a href={href} target="_blank" rel="noreferrer" {...props}>{children}</a>;
+  };
@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { DiagramNodeLevel, InteractiveDiagram } from '../types';
+import {
+  DIAGRAM_LEVEL_LABELS,
+  addChildNode,
+  canAddNodes,
+  deleteDiagramNode,
+  getDiagramNode,
+  getNodePath,
+  getSubtreeIds,
+  moveDiagramNode,
+  updateDiagramNode
+} from '../services/diagram';
+
+interface DiagramNodeEditorProps {
+  diagram: InteractiveDiagram;
+  nodeId: string;
+  expanding: boolean; // An AI expansion is running; edits wait until it is merged
+  onChange: (diagram: InteractiveDiagram) => void;
+  onSelect: (nodeId: string | null) => void;
+  onExpand: () => void;
+}
+
+// Same colours as the classDefs of the generated Mermaid source
+const LEVEL_SWATCHES: Record<DiagramNodeLevel, string> = {
+  main: 'bg-spanishRed border-spanishYellow text-white',
+  sub: 'bg-slate-800 border-spanishYellow text-spanishYellow',
+  detail: 'bg-slate-900 border-slate-600 border-dashed text-slate-300'
+};
+
+// Side panel of the mind map in edit mode. Text fields are saved when they lose focus, so one
+// rename is one undo step.
+export const DiagramNodeEditor: React.FC<DiagramNodeEditorProps> = ({ diagram, nodeId, expanding, onChange, onSelect, onExpand }) => {
+  const node = getDiagramNode(diagram, nodeId);
+  const [label, setLabel] = useState(node?.label ?? '');
+  const [detail, setDetail] = useState(node?.detail ?? '');
+
+  // Undo and redo change the node under the open panel
+  useEffect(() => {
+    setLabel(node?.label ?? '');
+    setDetail(node?.detail ?? '');
+  }, [node?.label, node?.detail]);
+
+  if (!node) return null;
+  const isRoot = !node.parent;
+  const subtree = getSubtreeIds(diagram, node.id);
+  const parentOptions = diagram.nodes.filter(other => !subtree.includes(other.id));
+
+  const commitLabel = () => {
+    if (label.trim() && label.trim() !== node.label) onChange(updateDiagramNode(diagram, node.id, { label }));
+    else setLabel(node.label);
+  };
+
+  const commitDetail = () => {
+    if (detail.trim() !== (node.detail ?? '')) onChange(updateDiagramNode(diagram, node.id, { detail }));
+  };
+
+  const handleAddChild = () => {
+    const added = addChildNode(diagram, node.id, 'Nuevo nodo');
+    onChange(added.diagram);
+    onSelect(added.nodeId);
+  };
+
+  const handleDelete = () => {
+    const descendants = subtree.length - 1;
+    const message = descendants > 0
+      ? `¿Eliminar «${node.label}» y los ${descendants} nodos que cuelgan de él?`
+      : `¿Eliminar «${node.label}»?`;
+    if (!window.confirm(message)) return;
+    onChange(deleteDiagramNode(diagram, node.id));
+    onSelect(node.parent ?? null);
+  };
+
+  return (
+    <div className="absolute top-4 right-4 w-72 md:w-80 max-h-[85%] overflow-y-auto bg-slate-900/95 border border-spanishYellow/50 shadow-2xl rounded-xl p-4 z-20 backdrop-blur-sm scrollbar-thin scrollbar-thumb-slate-600">
+      <div className="flex justify-between items-start mb-3 border-b border-slate-700 pb-2">
+        <div>
+          <h4 className="font-bold text-spanishYellow">Editar nodo</h4>
+          <p className="text-[11px] text-slate-500">{getNodePath(diagram, node.id).map(n => n.label).join(' › ')}</p>
+        </div>
+        <button onClick={() => onSelect(null)} className="text-slate-400 hover:text-white">✕</button>
+      </div>
+
+      <fieldset disabled={expanding} className="space-y-3 text-sm disabled:opacity-60">
+        <label className="block">
+          <span className="text-xs text-slate-400">Texto</span>
+          <input
+            value={label}
+            onChange={e => setLabel(e.target.value)}
+            onBlur={commitLabel}
+            onKeyDown={e => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+            className="mt-1 w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-white focus:border-spanishYellow outline-none"
+          />
+        </label>
+
+        <div>
+          <span className="text-xs text-slate-400">Color</span>
+          <div className="mt-1 flex gap-1.5">
+            {(Object.keys(DIAGRAM_LEVEL_LABELS) as DiagramNodeLevel[]).map(level => (
+              <button
+                key={level}
+                onClick={() => level !== node.level && onChange(updateDiagramNode(diagram, node.id, { level }))}
+                className={`flex-1 px-2 py-1 rounded border-2 text-xs font-bold ${LEVEL_SWATCHES[level]} ${level === node.level ? 'ring-2 ring-white/70' : 'opacity-60 hover:opacity-100'}`}
+              >
+                {DIAGRAM_LEVEL_LABELS[level]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <label className="block">
+          <span className="text-xs text-slate-400">Explicación</span>
+          <textarea
+            value={detail}
+            onChange={e => setDetail(e.target.value)}
+            onBlur={commitDetail}
+            rows={5}
+            placeholder="Lo que se muestra al pulsar el nodo. Puedes citar artículos como [[CE-140]]."
+            className="mt-1 w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-slate-200 focus:border-spanishYellow outline-none resize-y"
+          />
+        </label>
+
+        {!isRoot && (
+          <label className="block">
+            <span className="text-xs text-slate-400">Cuelga de</span>
+            <select
+              value={node.parent}
+              onChange={e => onChange(moveDiagramNode(diagram, node.id, e.target.value))}
+              className="mt-1 w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-white"
+            >
+              {parentOptions.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+            </select>
+          </label>
+        )}
+
+        <div className="grid grid-cols-2 gap-2 pt-1">
+          <button
+            onClick={handleAddChild}
+            disabled={!canAddNodes(diagram)}
+            className="bg-slate-800 border border-slate-600 text-slate-200 hover:bg-slate-700 disabled:opacity-40 text-xs font-bold py-2 rounded"
+          >
+            + Añadir hijo
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={isRoot}
+            className="bg-slate-800 border border-red-900/60 text-red-300 hover:bg-red-900/30 disabled:opacity-40 text-xs font-bold py-2 rounded"
+            title={isRoot ? 'El nodo raíz no se puede eliminar' : undefined}
+          >
+            🗑 Eliminar
+          </button>
+        </div>
+      </fieldset>
+
+      <button
+        onClick={onExpand}
+        disabled={expanding || !canAddNodes(diagram)}
+        className="mt-2 w-full flex items-center justify-center gap-2 bg-spanishRed hover:bg-red-700 disabled:opacity-60 text-white text-xs font-bold py-2 px-3 rounded transition-colors shadow-md border border-red-800"
+      >
+        {expanding ? <span className="animate-pulse">Ampliando rama...</span> : '✨ Ampliar esta rama con IA'}
+      </button>
+      {!canAddNodes(diagram) && <p className="mt-2 text-[11px] text-slate-500">El mapa ya tiene el máximo de nodos.</p>}
+    </div>
+  );
+};
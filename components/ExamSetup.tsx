@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { BlankAnswerPolicy, ConstitutionTopic, ExamConfig, QuestionSource } from '../types';
+import { allocateQuestions, PENALTY_PRESETS } from '../services/examBuilder';
+import { getBankSizes } from '../services/questionBank';
+import { loadAISettings } from '../services/aiProvider';
+import { MOCK_QUESTION_LIMIT } from '../services/providers/mockProvider';
+
+interface ExamSetupProps {
+  config: ExamConfig;
+  topics: ConstitutionTopic[];
+  onChange: (config: ExamConfig) => void;
+}
+
+const QUESTION_COUNT_PRESETS = [5, 10, 25, 50, 100];
+
+const SOURCE_OPTIONS: [QuestionSource, string][] = [
+  ['bank', 'Banco local (IA solo si faltan)'],
+  ['generate', 'Generar preguntas nuevas']
+];
+
+const sectionClass = "bg-slate-800 border border-slate-700 rounded-xl p-4 mb-4 text-left";
+const labelClass = "text-xs uppercase tracking-wider text-slate-400 font-bold mb-3 block";
+
+export const ExamSetup: React.FC<ExamSetupProps> = ({ config, topics, onChange }) => {
+  const allocation = allocateQuestions(config.topics, config.questionCount);
+  const isPresetPenalty = PENALTY_PRESETS.some(p => Math.abs(p.value - config.penalty) < 1e-6);
+  const [warningsText, setWarningsText] = useState(config.warningMinutes.join(', '));
+  const [bankSizes] = useState(() => getBankSizes());
+  const bankedForSelection = config.topics.reduce((sum, t) => sum + Math.min(bankSizes[t.topicId] ?? 0, allocation[t.topicId] ?? 0), 0);
+  // The offline provider has a fixed set of questions per tema
+  const [isMock] = useState(() => loadAISettings().provider === 'mock');
+  const maxCount = isMock ? Math.min(100, MOCK_QUESTION_LIMIT * Math.max(1, config.topics.filter(t => t.weight > 0).length)) : 100;
+
+  // Parsed on blur so the user can type the comma separated list freely
+  const commitWarnings = () => {
+    const warningMinutes = Array.from(new Set(
+      warningsText.split(/[,\s]+/).map(v => parseInt(v, 10)).filter(v => v > 0)
+    )).sort((a, b) => b - a);
+    setWarningsText(warningMinutes.join(', '));
+    onChange({ ...config, warningMinutes });
+  };
+
+  const toggleTopic = (topicId: string) => {
+    const selected = config.topics.some(t => t.topicId === topicId);
+    onChange({
+      ...config,
+      topics: selected
+        ? config.topics.filter(t => t.topicId !== topicId)
+        : [...config.topics, { topicId, weight: 1 }]
+    });
+  };
+
+  const setWeight = (topicId: string, weight: number) => {
+    onChange({
+      ...config,
+      topics: config.topics.map(t => t.topicId === topicId ? { ...t, weight: Math.max(1, weight) } : t)
+    });
+  };
+
+  return (
+    <div className="mb-8">
+      <div className={sectionClass}>
+        <span className={labelClass}>Temas y peso</span>
+        <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+          {topics.map(topic => {
+            const entry = config.topics.find(t => t.topicId === topic.id);
+            return (
+              <div key={topic.id} className="flex items-center gap-3">
+                <input type="checkbox" checked={!!entry} onChange={() => toggleTopic(topic.id)} className="accent-spanishRed" />
+                <span className={`flex-1 text-sm ${entry ? 'text-white' : 'text-slate-500'}`}>{topic.title}</span>
+                {(bankSizes[topic.id] ?? 0) > 0 && (
+                  <span className="text-[10px] text-slate-500" title="Preguntas guardadas en el banco">{bankSizes[topic.id]} en banco</span>
+                )}
+                {entry && (
+                  <>
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={entry.weight}
+                      onChange={e => setWeight(topic.id, parseInt(e.target.value, 10) || 1)}
+                      className="w-14 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-white"
+                      title="Peso relativo del tema"
+                    />
+                    <span className="w-10 text-right text-xs text-spanishYellow">{allocation[topic.id] ?? 0}</span>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className={sectionClass}>
+        <span className={labelClass}>Número de preguntas</span>
+        <div className="flex flex-wrap gap-2 items-center">
+          {QUESTION_COUNT_PRESETS.filter(count => count <= maxCount).map(count => (
+            <button
+              key={count}
+              onClick={() => onChange({ ...config, questionCount: count })}
+              className={`px-3 py-1.5 rounded text-sm font-bold border ${config.questionCount === count ? 'bg-spanishRed border-spanishRed text-white' : 'bg-slate-900 border-slate-600 text-slate-300 hover:border-spanishYellow'}`}
+            >
+              {count}
+            </button>
+          ))}
+          <input
+            type="number"
+            min={1}
+            max={maxCount}
+            value={config.questionCount}
+            onChange={e => onChange({ ...config, questionCount: Math.min(maxCount, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+            className="w-20 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-white"
+          />
+        </div>
+        {isMock && (
+          <p className="text-xs text-slate-500 mt-3">
+            El proveedor de pruebas solo tiene {MOCK_QUESTION_LIMIT} preguntas distintas por tema
+            {config.questionCount > maxCount ? `: el test tendrá como máximo ${maxCount}.` : '.'}
+          </p>
+        )}
+
+        <span className={`${labelClass} mt-4`}>Origen de las preguntas</span>
+        <div className="flex flex-wrap gap-2">
+          {SOURCE_OPTIONS.map(([source, label]) => (
+            <button
+              key={source}
+              onClick={() => onChange({ ...config, questionSource: source })}
+              className={`px-3 py-1.5 rounded text-sm font-bold border ${config.questionSource === source ? 'bg-spanishRed border-spanishRed text-white' : 'bg-slate-900 border-slate-600 text-slate-300 hover:border-spanishYellow'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {config.questionSource === 'bank' && (
+          <p className="text-xs text-slate-500 mt-3">
+            {bankedForSelection} de {config.questionCount} preguntas saldrán del banco (primero las no vistas, después las más falladas)
+            {bankedForSelection < config.questionCount ? `; se generarán ${config.questionCount - bankedForSelection} nuevas.` : '.'}
+          </p>
+        )}
+      </div>
+
+      <div className={sectionClass}>
+        <span className={labelClass}>Penalización por fallo</span>
+        <div className="flex flex-wrap gap-2 items-center mb-4">
+          {PENALTY_PRESETS.map(preset => (
+            <button
+              key={preset.label}
+              onClick={() => onChange({ ...config, penalty: preset.value })}
+              className={`px-3 py-1.5 rounded text-sm font-bold border ${Math.abs(config.penalty - preset.value) < 1e-6 ? 'bg-spanishRed border-spanishRed text-white' : 'bg-slate-900 border-slate-600 text-slate-300 hover:border-spanishYellow'}`}
+            >
+              {preset.label}
+            </button>
+          ))}
+          <label className={`flex items-center gap-2 text-sm ${isPresetPenalty ? 'text-slate-400' : 'text-spanishYellow'}`}>
+            Personalizada
+            <input
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={Math.round(config.penalty * 100) / 100}
+              onChange={e => onChange({ ...config, penalty: Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)) })}
+              className="w-20 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-white"
+            />
+          </label>
+        </div>
+
+        <span className={labelClass}>Preguntas en blanco</span>
+        <div className="flex flex-wrap gap-2 mb-4">
+          {([['neutral', 'No restan'], ['penalize', 'Restan como un fallo']] as [BlankAnswerPolicy, string][]).map(([policy, label]) => (
+            <button
+              key={policy}
+              onClick={() => onChange({ ...config, blankPolicy: policy })}
+              className={`px-3 py-1.5 rounded text-sm font-bold border ${config.blankPolicy === policy ? 'bg-spanishRed border-spanishRed text-white' : 'bg-slate-900 border-slate-600 text-slate-300 hover:border-spanishYellow'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          Aprobado a partir del
+          <input
+            type="number"
+            min={1}
+            max={100}
+            value={config.passMark}
+            onChange={e => onChange({ ...config, passMark: Math.min(100, Math.max(1, parseInt(e.target.value, 10) || 50)) })}
+            className="w-16 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-white"
+          />
+          % de la nota neta
+        </label>
+        <p className="text-xs text-slate-500 mt-3">
+          Nota neta = aciertos − {config.penalty > 0 ? config.penalty.toFixed(2) : '0'} × fallos{config.blankPolicy === 'penalize' ? ' (incluidas las preguntas en blanco)' : ''}.
+        </p>
+      </div>
+
+      <div className={sectionClass}>
+        <span className={labelClass}>Tiempo (solo Modo Examen Real)</span>
+        <label className="flex items-center gap-2 text-sm text-slate-300 mb-3">
+          Límite de
+          <input
+            type="number"
+            min={0}
+            max={300}
+            value={config.timeLimitMinutes}
+            onChange={e => onChange({ ...config, timeLimitMinutes: Math.min(300, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+            className="w-20 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-white"
+          />
+          minutos {config.timeLimitMinutes === 0 && <span className="text-slate-500">(sin límite)</span>}
+        </label>
+        {config.timeLimitMinutes > 0 && (
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            Avisar cuando queden
+            <input
+              type="text"
+              value={warningsText}
+              onChange={e => setWarningsText(e.target.value)}
+              onBlur={commitWarnings}
+              className="w-28 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-white"
+              placeholder="10, 5, 1"
+            />
+            minutos
+          </label>
+        )}
+        <p className="text-xs text-slate-500 mt-3">Al agotarse el tiempo el examen se entrega automáticamente con las respuestas marcadas.</p>
+      </div>
+    </div>
+  );
+};
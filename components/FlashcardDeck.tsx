@@ -0,0 +1,336 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ConstitutionTopic, Flashcard, SrsGrade } from '../types';
+import {
+  FLASHCARD_SOURCE_LABELS,
+  addFlashcards,
+  createManualFlashcard,
+  deleteFlashcard,
+  draftsFromCloze,
+  draftsFromDiagram,
+  draftsFromOutline,
+  getDueFlashcards,
+  getTopicFlashcards,
+  reviewFlashcard,
+  splitCloze,
+  updateFlashcard
+} from '../services/flashcards';
+import { generateClozeCards } from '../services/geminiService';
+import { loadStudyDiagram, loadStudyText } from '../services/studyMaterial';
+import { BackIcon, LoadingSpinner } from './Icons';
+import { ArticleModal, CitationChips } from './Citations';
+import { formatTopicArticles } from '../services/articleRefs';
+
+interface FlashcardDeckProps {
+  topic: ConstitutionTopic;
+  onBack: () => void;
+}
+
+const CLOZE_CARDS_PER_REQUEST = 10;
+
+// Shortcut keys are the position of the button, as in most flashcard apps
+const GRADES: { grade: SrsGrade; key: string; label: string; className: string }[] = [
+  { grade: 1, key: '1', label: 'Otra vez', className: 'bg-red-900/60 hover:bg-red-800 border-red-700' },
+  { grade: 3, key: '2', label: 'Difícil', className: 'bg-slate-700 hover:bg-slate-600 border-slate-600' },
+  { grade: 4, key: '3', label: 'Bien', className: 'bg-spanishRed hover:bg-red-700 border-red-900' },
+  { grade: 5, key: '4', label: 'Fácil', className: 'bg-emerald-700 hover:bg-emerald-600 border-emerald-900' }
+];
+
+const inputClass = "w-full bg-slate-800 text-white rounded-lg border border-slate-600 px-3 py-2 focus:outline-none focus:border-spanishYellow placeholder-slate-500 text-sm";
+
+const formatDue = (due: number) => {
+  const days = Math.ceil((due - Date.now()) / (24 * 60 * 60 * 1000));
+  return days <= 0 ? 'Pendiente' : days === 1 ? 'Mañana' : `En ${days} días`;
+};
+
+// Hidden words of a cloze card are blanked on the front and highlighted once revealed
+const CardText: React.FC<{ text: string; revealed: boolean }> = ({ text, revealed }) => (
+  <>
+    {splitCloze(text).map((part, idx) => !part.hidden ? <span key={idx}>{part.text}</span> : revealed ? (
+      <span key={idx} className="text-spanishYellow font-bold underline decoration-spanishYellow/50">{part.text}</span>
+    ) : (
+      <span key={idx} className="inline-block min-w-[4rem] border-b-2 border-spanishYellow text-center text-spanishYellow">[…]</span>
+    ))}
+  </>
+);
+
+interface CardEditorProps {
+  initialFront?: string;
+  initialBack?: string;
+  onSave: (front: string, back: string) => void;
+  onCancel: () => void;
+}
+
+const CardEditor: React.FC<CardEditorProps> = ({ initialFront = '', initialBack = '', onSave, onCancel }) => {
+  const [front, setFront] = useState(initialFront);
+  const [back, setBack] = useState(initialBack);
+  return (
+    <div className="p-4 rounded-xl border border-spanishYellow/40 bg-slate-800 space-y-3 text-left" onKeyDown={e => e.stopPropagation()}>
+      <label className="block">
+        <span className="text-xs text-slate-400 mb-1 block">Anverso (usa {'{{...}}'} para ocultar palabras)</span>
+        <textarea autoFocus rows={2} className={inputClass} value={front} onChange={e => setFront(e.target.value)} />
+      </label>
+      <label className="block">
+        <span className="text-xs text-slate-400 mb-1 block">Reverso</span>
+        <textarea rows={3} className={inputClass} value={back} onChange={e => setBack(e.target.value)} />
+      </label>
+      <div className="flex gap-2">
+        <button onClick={() => onSave(front, back)} disabled={!front.trim()} className="px-4 py-2 rounded-lg text-sm font-bold bg-spanishRed hover:bg-red-700 text-white disabled:opacity-50">
+          Guardar
+        </button>
+        <button onClick={onCancel} className="px-4 py-2 rounded-lg text-sm text-slate-400 hover:text-white">Cancelar</button>
+      </div>
+    </div>
+  );
+};
+
+export const FlashcardDeck: React.FC<FlashcardDeckProps> = ({ topic, onBack }) => {
+  const [cards, setCards] = useState<Flashcard[]>(() => getTopicFlashcards(topic.id));
+  const [queue, setQueue] = useState<Flashcard[] | null>(null);
+  const [position, setPosition] = useState(0);
+  const [flipped, setFlipped] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const [stats, setStats] = useState({ remembered: 0, again: 0 });
+  const [openArticleId, setOpenArticleId] = useState<string | null>(null);
+
+  const refresh = () => setCards(getTopicFlashcards(topic.id));
+  const dueCount = cards.filter(c => c.due <= Date.now()).length;
+  const reviewing = queue !== null;
+  const card = reviewing ? queue[position] : undefined;
+
+  const startReview = (all: boolean) => {
+    setQueue(all ? getTopicFlashcards(topic.id) : getDueFlashcards(topic.id));
+    setPosition(0);
+    setFlipped(false);
+    setStats({ remembered: 0, again: 0 });
+    setEditingId(null);
+  };
+
+  const exitReview = () => {
+    setQueue(null);
+    setEditingId(null);
+    refresh();
+  };
+
+  const grade = (value: SrsGrade) => {
+    if (!card) return;
+    reviewFlashcard(card.id, value);
+    setStats(prev => value < 3 ? { ...prev, again: prev.again + 1 } : { ...prev, remembered: prev.remembered + 1 });
+    setFlipped(false);
+    setPosition(p => p + 1);
+  };
+
+  const saveEdit = (cardId: string, front: string, back: string) => {
+    const updated = updateFlashcard(cardId, front, back);
+    if (updated && queue) setQueue(queue.map(c => c.id === cardId ? updated : c));
+    setEditingId(null);
+    refresh();
+  };
+
+  // The handler changes on every render, so the listener reads it through a ref
+  const keyHandler = useRef<(e: KeyboardEvent) => void>(() => {});
+  keyHandler.current = (e: KeyboardEvent) => {
+    if (!card || editingId) return;
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+    if (e.key === ' ' || e.key === 'Enter') {
+      e.preventDefault();
+      setFlipped(f => !f);
+    } else if (e.key === 'Escape') {
+      exitReview();
+    } else if (e.key.toLowerCase() === 'e') {
+      e.preventDefault();
+      setEditingId(card.id);
+    } else if (flipped) {
+      const option = GRADES.find(g => g.key === e.key);
+      if (option) grade(option.grade);
+    }
+  };
+
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => keyHandler.current(e);
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, []);
+
+  const generateFromMaterial = () => {
+    const text = loadStudyText(topic.id);
+    const diagram = loadStudyDiagram(topic.id);
+    if (!text && !diagram) {
+      setMessage({ ok: false, text: 'Este tema aún no tiene guía ni esquema guardados. Genéralos primero desde «Estudiar».' });
+      return;
+    }
+    const drafts = [...(text ? draftsFromOutline(text) : []), ...(diagram ? draftsFromDiagram(diagram) : [])];
+    const added = addFlashcards(topic.id, drafts);
+    setMessage({ ok: true, text: added > 0 ? `${added} tarjetas nuevas de la guía y el esquema.` : 'No hay tarjetas nuevas: la guía y el esquema ya están en el mazo.' });
+    refresh();
+  };
+
+  const generateCloze = async () => {
+    setGenerating(true);
+    setMessage(null);
+    const retrievalQuery = `${topic.title} ${topic.description} ${formatTopicArticles(topic)}`;
+    const clozes = await generateClozeCards(topic.title, CLOZE_CARDS_PER_REQUEST, retrievalQuery, topic.id);
+    if (clozes.length === 0) {
+      setMessage({ ok: false, text: 'No se pudieron generar tarjetas. Verifica tu conexión o el proveedor configurado en Ajustes.' });
+    } else {
+      const added = addFlashcards(topic.id, draftsFromCloze(clozes));
+      setMessage({ ok: true, text: `${added} tarjetas de huecos nuevas.` });
+    }
+    setGenerating(false);
+    refresh();
+  };
+
+  const handleDelete = (cardId: string) => {
+    if (!window.confirm('¿Eliminar esta tarjeta?')) return;
+    deleteFlashcard(cardId);
+    refresh();
+  };
+
+  // Review Screen
+  if (reviewing) {
+    if (!card) {
+      return (
+        <div className="flex flex-col items-center justify-center h-full bg-slate-900 p-6 text-center">
+          <h2 className="text-3xl font-bold text-white mb-4">{queue.length === 0 ? 'Nada pendiente' : 'Sesión terminada'}</h2>
+          {queue.length > 0 && (
+            <p className="text-slate-300 mb-6">
+              <span className="text-emerald-400 font-bold">{stats.remembered}</span> recordadas · <span className="text-red-400 font-bold">{stats.again}</span> a repetir
+            </p>
+          )}
+          <button onClick={exitReview} className="px-6 py-3 bg-spanishRed hover:bg-red-700 text-white rounded-lg font-medium shadow-lg">Volver al mazo</button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex flex-col h-full bg-slate-900 text-slate-100 p-4 md:p-8 max-w-3xl mx-auto w-full overflow-y-auto">
+        <div className="flex justify-between items-center mb-6 text-sm text-slate-400">
+          <button onClick={exitReview} className="flex items-center gap-2 text-spanishYellow hover:text-white transition-colors">
+            <BackIcon /> <span>Mazo</span>
+          </button>
+          <span>Tarjeta {position + 1} de {queue.length}</span>
+        </div>
+
+        {editingId === card.id ? (
+          <CardEditor initialFront={card.front} initialBack={card.back} onSave={(front, back) => saveEdit(card.id, front, back)} onCancel={() => setEditingId(null)} />
+        ) : (
+          <button
+            onClick={() => setFlipped(f => !f)}
+            className={`w-full min-h-[18rem] p-8 rounded-2xl border-2 text-center flex flex-col items-center justify-center transition-colors shadow-xl ${flipped ? 'border-spanishYellow bg-slate-800' : 'border-slate-700 bg-slate-800 hover:border-slate-500'}`}
+          >
+            <span className="text-[10px] uppercase tracking-wider text-slate-500 mb-4">{FLASHCARD_SOURCE_LABELS[card.source]} · {flipped ? 'Reverso' : 'Anverso'}</span>
+            <p className="text-xl md:text-2xl font-bold leading-snug"><CardText text={card.front} revealed={flipped} /></p>
+            {flipped && card.back && <p className="mt-6 pt-6 border-t border-slate-700 text-slate-300 leading-relaxed whitespace-pre-wrap">{card.back}</p>}
+          </button>
+        )}
+        {flipped && <CitationChips ids={card.citations} onOpen={setOpenArticleId} />}
+
+        <div className="mt-6 flex flex-wrap justify-center gap-3">
+          {flipped ? GRADES.map(option => (
+            <button key={option.grade} onClick={() => grade(option.grade)} className={`px-5 py-3 rounded-lg font-bold text-white border ${option.className}`}>
+              {option.label} <span className="text-xs opacity-60 ml-1">{option.key}</span>
+            </button>
+          )) : (
+            <button onClick={() => setFlipped(true)} className="px-6 py-3 rounded-lg font-bold bg-spanishRed text-white hover:bg-red-700 shadow-lg">
+              Mostrar respuesta <span className="text-xs opacity-60 ml-1">Espacio</span>
+            </button>
+          )}
+        </div>
+        <p className="mt-6 text-center text-xs text-slate-500">Espacio: girar · 1–4: calificar · E: editar · Esc: salir</p>
+        <ArticleModal articleId={openArticleId} onClose={() => setOpenArticleId(null)} />
+      </div>
+    );
+  }
+
+  // Deck Screen
+  return (
+    <div className="flex flex-col h-full bg-slate-900 text-slate-100 p-6 overflow-y-auto">
+      <button onClick={onBack} className="flex items-center gap-2 text-spanishYellow hover:text-white mb-6 w-fit transition-colors">
+        <BackIcon /> <span>Temario</span>
+      </button>
+      <div className="max-w-3xl mx-auto w-full pb-8">
+        <h1 className="text-3xl font-bold mb-2">Flashcards: {topic.title}</h1>
+        <p className="text-slate-400 mb-6">{cards.length} tarjetas · {dueCount} pendientes de repaso</p>
+
+        <div className="grid md:grid-cols-2 gap-4 mb-6">
+          <button
+            onClick={() => startReview(false)}
+            disabled={dueCount === 0}
+            className="bg-spanishRed hover:bg-red-700 text-white p-6 rounded-xl border border-red-900 transition-all flex flex-col items-center shadow-lg disabled:opacity-50"
+          >
+            <span className="text-xl font-bold mb-1">Repasar ({dueCount})</span>
+            <span className="text-red-100 text-sm">Las tarjetas que tocan hoy</span>
+          </button>
+          <button
+            onClick={() => startReview(true)}
+            disabled={cards.length === 0}
+            className="bg-slate-800 hover:bg-slate-700 text-white p-6 rounded-xl border border-slate-600 hover:border-spanishYellow transition-all flex flex-col items-center disabled:opacity-50"
+          >
+            <span className="text-xl font-bold mb-1">Repasar todas</span>
+            <span className="text-slate-400 text-sm">Todo el mazo, aunque no toque</span>
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          <button onClick={generateFromMaterial} className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-700 hover:bg-slate-600 border border-slate-600">
+            Crear desde la guía y el esquema
+          </button>
+          <button onClick={generateCloze} disabled={generating} className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-700 hover:bg-slate-600 border border-slate-600 disabled:opacity-50">
+            Generar tarjetas de huecos con IA
+          </button>
+          <button onClick={() => setCreating(true)} className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-700 hover:bg-slate-600 border border-slate-600">
+            + Nueva tarjeta
+          </button>
+          {generating && <LoadingSpinner />}
+        </div>
+
+        {message && (
+          <div className={`mb-4 p-3 rounded-lg border text-sm ${message.ok ? 'border-emerald-500/30 bg-emerald-900/10 text-emerald-200' : 'border-red-500/30 bg-red-900/10 text-red-300'}`}>
+            {message.text}
+          </div>
+        )}
+
+        {creating && (
+          <div className="mb-4">
+            <CardEditor
+              onSave={(front, back) => { createManualFlashcard(topic.id, front, back); setCreating(false); refresh(); }}
+              onCancel={() => setCreating(false)}
+            />
+          </div>
+        )}
+
+        {cards.length === 0 ? (
+          <p className="text-slate-500 text-sm text-center py-12">
+            El mazo está vacío. Crea tarjetas a partir de la guía y el esquema del tema, pide tarjetas de huecos a la IA o escribe las tuyas.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {cards.map(c => (
+              <li key={c.id}>
+                {editingId === c.id ? (
+                  <CardEditor initialFront={c.front} initialBack={c.back} onSave={(front, back) => saveEdit(c.id, front, back)} onCancel={() => setEditingId(null)} />
+                ) : (
+                  <div className="p-4 rounded-lg border border-slate-700 bg-slate-800 flex gap-4">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-semibold text-sm"><CardText text={c.front} revealed /></p>
+                      {c.back && <p className="text-xs text-slate-400 mt-1 line-clamp-2">{c.back}</p>}
+                      <p className="text-[10px] uppercase tracking-wider text-slate-500 mt-2">
+                        {FLASHCARD_SOURCE_LABELS[c.source]} · {formatDue(c.due)} · {c.history.length} repasos
+                      </p>
+                    </div>
+                    <div className="flex flex-col gap-1 text-xs">
+                      <button onClick={() => setEditingId(c.id)} className="text-slate-400 hover:text-white">Editar</button>
+                      <button onClick={() => handleDelete(c.id)} className="text-slate-500 hover:text-red-400">Eliminar</button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { ConstitutionTopic, InteractiveDiagram } from '../types';
+import { GuideFormat, GuideSource, buildGuideChapters, buildGuideEpub, buildGuideHtml } from '../services/guideExport';
+import { downloadBlob, downloadFile } from '../services/exportUtils';
+import { hasStudyText, loadStudyDiagram, loadStudyText } from '../services/studyMaterial';
+
+interface GuideExportDialogProps {
+  topic: ConstitutionTopic;
+  topics: ConstitutionTopic[];
+  content: string; // The open guide, which may not be saved yet
+  diagram: InteractiveDiagram | null;
+  onClose: () => void;
+}
+
+const FORMATS: { format: GuideFormat; label: string; hint: string }[] = [
+  { format: 'html', label: 'HTML', hint: 'Un solo archivo que se abre en cualquier navegador' },
+  { format: 'epub', label: 'EPUB', hint: 'Libro para Kindle, Kobo y otros lectores' }
+];
+
+const fileName = (title: string) => title.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_');
+
+// Offline export of the study guide. Other temas with a saved guide can be added to the same
+// file, which becomes one chapter per tema.
+export const GuideExportDialog: React.FC<GuideExportDialogProps> = ({ topic, topics, content, diagram, onClose }) => {
+  const [format, setFormat] = useState<GuideFormat>('html');
+  const [includeDiagrams, setIncludeDiagrams] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<string[]>([topic.id]);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const available = topics.filter(other => other.id === topic.id || hasStudyText(other.id));
+
+  const toggleTopic = (topicId: string) => {
+    setSelectedIds(ids => ids.includes(topicId) ? ids.filter(id => id !== topicId) : [...ids, topicId]);
+  };
+
+  const handleExport = async () => {
+    const sources: GuideSource[] = available
+      .filter(other => selectedIds.includes(other.id))
+      .map(other => other.id === topic.id
+        ? { topic: other, text: content, diagram }
+        : { topic: other, text: loadStudyText(other.id) ?? '', diagram: loadStudyDiagram(other.id) });
+    if (sources.length === 0) return;
+
+    setExporting(true);
+    setError(null);
+    try {
+      const chapters = await buildGuideChapters(sources, includeDiagrams);
+      const title = sources.length === 1 ? sources[0].topic.title : 'Guía de estudio de la Constitución';
+      if (format === 'epub') {
+        downloadBlob(buildGuideEpub(chapters, title), `${fileName(title)}.epub`);
+      } else {
+        downloadFile(buildGuideHtml(chapters, title), `${fileName(title)}.html`, 'text/html;charset=utf-8');
+      }
+      onClose();
+    } catch (exportError) {
+      console.error("Guide export failed:", exportError);
+      setError(exportError instanceof Error ? exportError.message : 'No se pudo generar el archivo.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4" onClick={onClose}>
+      <div className="bg-slate-900 border border-spanishYellow/50 rounded-xl shadow-2xl max-w-lg w-full max-h-[80vh] overflow-y-auto p-6" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-start mb-4 border-b border-slate-700 pb-3">
+          <div>
+            <h3 className="text-lg font-bold text-spanishYellow">📥 Descargar guía offline</h3>
+            <p className="text-xs text-slate-400">Con índice, mapa mental y el texto de los artículos citados</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">✕</button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          {FORMATS.map(option => (
+            <button
+              key={option.format}
+              onClick={() => setFormat(option.format)}
+              className={`text-left p-3 rounded-lg border transition-colors ${format === option.format ? 'border-spanishYellow bg-spanishYellow/10' : 'border-slate-700 hover:border-slate-500'}`}
+            >
+              <span className="block font-bold text-white text-sm">{option.label}</span>
+              <span className="block text-[11px] text-slate-400">{option.hint}</span>
+            </button>
+          ))}
+        </div>
+
+        <p className="text-xs uppercase tracking-wider text-slate-500 font-bold mb-2">Temas incluidos</p>
+        <div className="space-y-1 mb-4 max-h-56 overflow-y-auto scrollbar-thin scrollbar-thumb-slate-600">
+          {available.map(other => (
+            <label key={other.id} className="flex items-center gap-2 text-sm text-slate-300 hover:text-white cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(other.id)}
+                onChange={() => toggleTopic(other.id)}
+                className="accent-spanishRed"
+              />
+              {other.title}
+            </label>
+          ))}
+        </div>
+        {available.length === 1 && (
+          <p className="text-[11px] text-slate-500 mb-4">Genera y guarda la guía de otros temas para reunirlos en un solo libro.</p>
+        )}
+
+        <label className="flex items-center gap-2 text-sm text-slate-300 mb-5 cursor-pointer">
+          <input type="checkbox" checked={includeDiagrams} onChange={e => setIncludeDiagrams(e.target.checked)} className="accent-spanishRed" />
+          Incluir los mapas mentales
+        </label>
+
+        {error && (
+          <div className="mb-4 p-3 rounded-lg border border-red-500/30 bg-red-900/10 text-red-300 text-sm">
+            No se pudo generar la guía: {error}
+          </div>
+        )}
+
+        <button
+          onClick={handleExport}
+          disabled={exporting || selectedIds.length === 0}
+          className="w-full bg-spanishRed hover:bg-red-700 disabled:opacity-50 text-white font-bold py-2.5 rounded-lg transition-colors shadow-md border border-red-800"
+        >
+          {exporting ? <span className="animate-pulse">Preparando...</span> : `Descargar ${FORMATS.find(option => option.format === format)?.label}`}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { QuizQuestion } from '../types';
+import { formatAnswerSheet, optionLetter, parseAnswerSheet } from '../services/printableExam';
+
+interface PaperAnswerSheetProps {
+  title: string;
+  questions: QuizQuestion[];
+  answers: number[];
+  onChange: (answers: number[]) => void;
+  onPrint: () => void;
+  onSubmit: () => void;
+  onCancel: () => void;
+}
+
+// Copies the marks of a filled paper sheet into the app so the attempt can be scored
+export const PaperAnswerSheet: React.FC<PaperAnswerSheetProps> = ({ title, questions, answers, onChange, onPrint, onSubmit, onCancel }) => {
+  const [quickEntry, setQuickEntry] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const toggle = (questionIdx: number, optionIdx: number) => {
+    const next = [...answers];
+    next[questionIdx] = next[questionIdx] === optionIdx ? -1 : optionIdx;
+    onChange(next);
+  };
+
+  const applyQuickEntry = () => {
+    const result = parseAnswerSheet(quickEntry, questions);
+    setErrors(result.errors);
+    if (result.errors.length === 0) onChange(result.answers);
+  };
+
+  const answered = answers.filter(a => a !== -1).length;
+
+  return (
+    <div className="flex flex-col h-full bg-slate-900 text-slate-100 p-4 md:p-8 max-w-3xl mx-auto w-full overflow-y-auto">
+      <div className="flex justify-between items-center mb-6 text-sm text-slate-400">
+        <span>{questions.length} preguntas · {answered} marcadas</span>
+        <span className="uppercase tracking-wider font-bold text-spanishYellow border border-spanishYellow/20 px-2 py-1 rounded">Examen en papel</span>
+      </div>
+
+      <h2 className="text-2xl font-bold mb-2">{title}</h2>
+      <p className="text-slate-400 text-sm mb-6">
+        Imprime el examen con su hoja de respuestas y la plantilla de corrección. Cuando lo hayas hecho, pasa aquí las marcas de tu hoja
+        para corregirlo: se guardará en el historial, en tu progreso y en el registro de fallos como un test en pantalla.
+      </p>
+
+      <button onClick={onPrint} className="mb-8 w-full bg-slate-800 hover:bg-slate-700 text-white p-4 rounded-xl border border-slate-600 hover:border-spanishYellow font-bold transition-all">
+        🖨 Imprimir examen, hoja de respuestas y plantilla
+      </button>
+
+      <h3 className="font-bold text-white mb-1">Entrada rápida</h3>
+      <p className="text-xs text-slate-400 mb-2">
+        Escribe las letras en orden («ABDA-C», con «-» para las que dejaste en blanco) o numeradas («1A 2C 5D»).
+      </p>
+      <div className="flex gap-2 mb-2">
+        <input
+          className="flex-1 bg-slate-800 text-white rounded-lg border border-slate-600 px-3 py-2 font-mono uppercase focus:outline-none focus:border-spanishYellow placeholder-slate-500 text-sm"
+          placeholder={formatAnswerSheet(answers) || 'ABCD'}
+          value={quickEntry}
+          onChange={e => setQuickEntry(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && applyQuickEntry()}
+        />
+        <button onClick={applyQuickEntry} disabled={!quickEntry.trim()} className="px-4 py-2 rounded-lg text-sm font-bold bg-slate-700 hover:bg-slate-600 border border-slate-600 disabled:opacity-50">
+          Aplicar
+        </button>
+      </div>
+      {errors.length > 0 && (
+        <ul className="mb-2 p-3 rounded-lg border border-red-500/30 bg-red-900/10 text-red-300 text-xs space-y-0.5">
+          {errors.map((error, idx) => <li key={idx}>{error}</li>)}
+        </ul>
+      )}
+
+      <h3 className="font-bold text-white mt-6 mb-3">Hoja de respuestas</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-8 gap-y-1.5 mb-8">
+        {questions.map((q, qIdx) => (
+          <div key={qIdx} className="flex items-center gap-1.5">
+            <span className="w-8 text-right text-sm font-bold text-slate-400 mr-1">{qIdx + 1}</span>
+            {q.options.map((_, oIdx) => (
+              <button
+                key={oIdx}
+                onClick={() => toggle(qIdx, oIdx)}
+                className={`w-8 h-8 rounded text-xs font-bold border transition-colors ${
+                  answers[qIdx] === oIdx
+                    ? 'bg-spanishYellow border-spanishYellow text-slate-900'
+                    : 'bg-slate-800 border-slate-700 text-slate-500 hover:border-spanishYellow'
+                }`}
+                title={q.question}
+              >
+                {optionLetter(oIdx)}
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap justify-end gap-3 pb-8">
+        <button
+          onClick={() => (answered === 0 || window.confirm('¿Descartar las marcas introducidas?')) && onCancel()}
+          className="px-6 py-3 rounded-lg font-medium bg-slate-800 text-slate-300 hover:bg-slate-700 border border-slate-700"
+        >
+          Cancelar
+        </button>
+        <button onClick={onSubmit} className="px-6 py-3 rounded-lg font-bold bg-spanishRed text-white hover:bg-red-700 shadow-lg">
+          Corregir hoja ({answered}/{questions.length})
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { LearnerProfile } from '../types';
+import { loadProfiles, markProfileUnlocked, verifyPin } from '../services/profiles';
+import { ProfileAvatar, reloadIntoProfile } from './ProfileSwitcher';
+
+interface ProfileLockProps {
+  profile: LearnerProfile;
+  onUnlock: () => void;
+}
+
+export const ProfileLock: React.FC<ProfileLockProps> = ({ profile, onUnlock }) => {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState(false);
+  const others = loadProfiles().filter(p => p.id !== profile.id);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await verifyPin(profile, pin)) {
+      markProfileUnlocked(profile.id);
+      onUnlock();
+    } else {
+      setError(true);
+      setPin('');
+    }
+  };
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-slate-950 text-slate-100 p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl max-w-sm w-full p-8 relative overflow-hidden">
+        <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-spanishRed via-spanishYellow to-spanishRed"></div>
+        <div className="flex flex-col items-center mb-6">
+          <ProfileAvatar profile={profile} size="w-16 h-16 text-2xl" />
+          <h1 className="text-xl font-bold text-white mt-3">{profile.name}</h1>
+          <p className="text-sm text-slate-400">Introduce tu PIN para continuar</p>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <input
+            type="password"
+            inputMode="numeric"
+            autoFocus
+            value={pin}
+            onChange={e => { setPin(e.target.value); setError(false); }}
+            className="w-full bg-slate-800 text-white text-center tracking-[0.5em] text-lg rounded-lg border border-slate-600 px-3 py-2 focus:outline-none focus:border-spanishYellow"
+          />
+          {error && <p className="text-sm text-red-400 text-center">PIN incorrecto</p>}
+          <button type="submit" disabled={!pin} className="w-full py-3 rounded-lg font-bold bg-spanishRed hover:bg-red-700 text-white disabled:opacity-50">
+            Entrar
+          </button>
+        </form>
+        {others.length > 0 && (
+          <div className="mt-6 pt-4 border-t border-slate-700">
+            <p className="text-xs text-slate-500 mb-2">Cambiar de perfil</p>
+            <div className="flex flex-wrap gap-2">
+              {others.map(other => (
+                <button key={other.id} onClick={() => reloadIntoProfile(other.id)} className="flex items-center gap-2 px-2 py-1 rounded-lg text-sm text-slate-300 hover:text-white hover:bg-slate-800">
+                  <ProfileAvatar profile={other} size="w-6 h-6 text-xs" /> {other.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { LearnerProfile } from '../types';
+import {
+  copySharedMaterial,
+  countSharedMaterial,
+  createProfile,
+  deleteProfile,
+  getActiveProfile,
+  isProfileUnlocked,
+  loadProfiles,
+  renameProfile,
+  setProfilePin,
+  verifyPin
+} from '../services/profiles';
+import { ProfileAvatar, reloadIntoProfile } from './ProfileSwitcher';
+import { BackIcon } from './Icons';
+
+interface ProfileManagerProps {
+  onBack: () => void;
+}
+
+const inputClass = "bg-slate-900 text-white rounded-lg border border-slate-600 px-3 py-2 focus:outline-none focus:border-spanishYellow placeholder-slate-500 text-sm";
+
+type PanelKind = 'unlock' | 'rename' | 'pin' | 'copy';
+type Panel = { profileId: string; kind: PanelKind } | null;
+
+export const ProfileManager: React.FC<ProfileManagerProps> = ({ onBack }) => {
+  const [profiles, setProfiles] = useState<LearnerProfile[]>(() => loadProfiles());
+  const [newName, setNewName] = useState('');
+  const [panel, setPanel] = useState<Panel>(null);
+  const [draft, setDraft] = useState('');
+  const [currentPin, setCurrentPin] = useState('');
+  const [copyTarget, setCopyTarget] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [panelError, setPanelError] = useState<string | null>(null);
+  // Profiles whose PIN was entered on this screen; the active one was unlocked at startup
+  const [unlockedIds, setUnlockedIds] = useState<string[]>(() => {
+    const active = getActiveProfile();
+    return isProfileUnlocked(active) ? [active.id] : [];
+  });
+  const activeId = getActiveProfile().id;
+
+  const refresh = () => setProfiles(loadProfiles());
+
+  // Managing a PIN-protected profile (its PIN, its material, deleting it) needs its PIN first
+  const canManage = (profile: LearnerProfile) => !profile.pinHash || unlockedIds.includes(profile.id);
+
+  const openPanel = (profile: LearnerProfile, kind: PanelKind) => {
+    setPanel({ profileId: profile.id, kind });
+    setDraft(kind === 'rename' ? profile.name : '');
+    setCurrentPin('');
+    setCopyTarget(profiles.find(p => p.id !== profile.id)?.id ?? '');
+    setMessage(null);
+    setPanelError(null);
+  };
+
+  const handleUnlock = async (profile: LearnerProfile) => {
+    if (!await verifyPin(profile, draft)) {
+      setPanelError('PIN incorrecto.');
+      setDraft('');
+      return;
+    }
+    setUnlockedIds(ids => [...ids, profile.id]);
+    setPanel(null);
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    const profile = createProfile(newName);
+    setNewName('');
+    refresh();
+    setMessage(`Perfil "${profile.name}" creado. Empieza sin progreso ni material; puedes copiarle guías y preguntas desde otro perfil.`);
+  };
+
+  const handleRename = (profileId: string) => {
+    renameProfile(profileId, draft);
+    setPanel(null);
+    refresh();
+  };
+
+  const handlePin = async (profile: LearnerProfile, pin: string | null) => {
+    if (!await setProfilePin(profile, currentPin, pin)) {
+      setPanelError('El PIN actual no es correcto.');
+      setCurrentPin('');
+      return;
+    }
+    if (!unlockedIds.includes(profile.id)) setUnlockedIds(ids => [...ids, profile.id]);
+    setPanel(null);
+    refresh();
+    setMessage(pin ? 'PIN guardado.' : 'PIN eliminado.');
+  };
+
+  const handleCopy = (from: LearnerProfile) => {
+    const target = profiles.find(p => p.id === copyTarget);
+    if (!target || !canManage(from)) return;
+    const copied = copySharedMaterial(from.id, target.id);
+    setPanel(null);
+    setMessage(`Copiado a "${target.name}": ${copied.outlines} guías, ${copied.diagrams} esquemas y ${copied.questions} preguntas. El progreso no se copia.`);
+  };
+
+  const handleDelete = (profile: LearnerProfile) => {
+    if (!canManage(profile)) return;
+    if (!window.confirm(`¿Eliminar el perfil "${profile.name}" y todos sus datos (progreso, fallos, guías, conversaciones)? No se puede deshacer.`)) return;
+    deleteProfile(profile.id);
+    refresh();
+  };
+
+  const renderPanel = (profile: LearnerProfile) => {
+    if (!panel || panel.profileId !== profile.id) return null;
+    const error = panelError && <p className="w-full text-xs text-red-400">{panelError}</p>;
+
+    if (panel.kind === 'unlock') {
+      return (
+        <form onSubmit={e => { e.preventDefault(); handleUnlock(profile); }} className="flex flex-wrap gap-2 mt-3">
+          <input type="password" inputMode="numeric" placeholder="PIN del perfil" className={`${inputClass} w-40`} value={draft} onChange={e => setDraft(e.target.value)} autoFocus />
+          <button type="submit" disabled={!draft} className="px-3 py-2 rounded-lg text-sm font-bold bg-spanishRed hover:bg-red-700 text-white disabled:opacity-50">Desbloquear</button>
+          {error}
+        </form>
+      );
+    }
+
+    if (panel.kind === 'rename') {
+      return (
+        <div className="flex gap-2 mt-3">
+          <input className={`${inputClass} flex-1`} value={draft} onChange={e => setDraft(e.target.value)} autoFocus />
+          <button onClick={() => handleRename(profile.id)} disabled={!draft.trim()} className="px-3 py-2 rounded-lg text-sm font-bold bg-spanishRed hover:bg-red-700 text-white disabled:opacity-50">Guardar</button>
+        </div>
+      );
+    }
+
+    if (panel.kind === 'pin') {
+      return (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {profile.pinHash && (
+            <input type="password" inputMode="numeric" placeholder="PIN actual" className={`${inputClass} w-40`} value={currentPin} onChange={e => setCurrentPin(e.target.value)} autoFocus />
+          )}
+          <input type="password" inputMode="numeric" placeholder="Nuevo PIN" className={`${inputClass} w-40`} value={draft} onChange={e => setDraft(e.target.value)} autoFocus={!profile.pinHash} />
+          <button onClick={() => handlePin(profile, draft)} disabled={draft.length < 4 || (!!profile.pinHash && !currentPin)} className="px-3 py-2 rounded-lg text-sm font-bold bg-spanishRed hover:bg-red-700 text-white disabled:opacity-50">Guardar PIN</button>
+          {profile.pinHash && (
+            <button onClick={() => handlePin(profile, null)} disabled={!currentPin} className="px-3 py-2 rounded-lg text-sm bg-slate-700 hover:bg-slate-600 border border-slate-600 disabled:opacity-50">Quitar PIN</button>
+          )}
+          {error}
+          <p className="w-full text-xs text-slate-500">Mínimo 4 caracteres. Se pedirá al abrir la aplicación con este perfil.</p>
+        </div>
+      );
+    }
+
+    const counts = countSharedMaterial(profile.id);
+    return (
+      <div className="mt-3 space-y-2">
+        <p className="text-xs text-slate-400">
+          {counts.outlines} guías, {counts.diagrams} esquemas y {counts.questions} preguntas del banco. Solo se copia el material, nunca el progreso ni los fallos.
+        </p>
+        <div className="flex gap-2">
+          <select className={`${inputClass} flex-1`} value={copyTarget} onChange={e => setCopyTarget(e.target.value)}>
+            {profiles.filter(p => p.id !== profile.id).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <button onClick={() => handleCopy(profile)} disabled={!copyTarget} className="px-3 py-2 rounded-lg text-sm font-bold bg-spanishRed hover:bg-red-700 text-white disabled:opacity-50">Copiar</button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-4 md:p-8 bg-slate-900 text-slate-100">
+      <div className="max-w-3xl mx-auto pb-12">
+        <button onClick={onBack} className="flex items-center gap-2 text-spanishYellow hover:text-white mb-6 transition-colors">
+          <BackIcon /> <span>Inicio</span>
+        </button>
+        <h1 className="text-3xl font-bold text-white mb-2 relative inline-block">
+          Perfiles
+          <span className="absolute bottom-0 left-0 w-full h-1 bg-gradient-to-r from-spanishRed via-spanishYellow to-spanishRed rounded-full"></span>
+        </h1>
+        <p className="text-slate-400 mt-2 mb-6">Cada persona que estudia en este equipo tiene su propio progreso, fallos, guías y conversaciones. Los ajustes de IA son comunes.</p>
+
+        <form onSubmit={handleCreate} className="flex gap-2 mb-6">
+          <input className={`${inputClass} flex-1`} placeholder="Nombre del nuevo perfil" value={newName} onChange={e => setNewName(e.target.value)} />
+          <button type="submit" disabled={!newName.trim()} className="px-4 py-2 rounded-lg text-sm font-bold bg-spanishRed hover:bg-red-700 text-white shadow-lg disabled:opacity-50">+ Crear perfil</button>
+        </form>
+
+        {message && (
+          <div className="mb-6 p-3 rounded-lg border border-emerald-500/30 bg-emerald-900/10 text-emerald-200 text-sm">{message}</div>
+        )}
+
+        <div className="space-y-3">
+          {profiles.map(profile => (
+            <div key={profile.id} className={`bg-slate-800 border rounded-xl p-4 ${profile.id === activeId ? 'border-spanishYellow/50' : 'border-slate-700'}`}>
+              <div className="flex items-center gap-3">
+                <ProfileAvatar profile={profile} size="w-10 h-10" />
+                <div className="flex-1 min-w-0">
+                  <p className="font-bold text-white truncate">
+                    {profile.name} {profile.pinHash && <span title="Protegido con PIN">🔒</span>}
+                  </p>
+                  {profile.id === activeId && <p className="text-xs text-spanishYellow">Perfil activo</p>}
+                </div>
+                <div className="flex flex-wrap justify-end gap-2">
+                  {profile.id !== activeId && (
+                    <button onClick={() => reloadIntoProfile(profile.id)} className="px-3 py-1.5 rounded text-xs font-bold bg-spanishRed hover:bg-red-700 text-white">Usar</button>
+                  )}
+                  {canManage(profile) ? (
+                    <>
+                      <button onClick={() => openPanel(profile, 'rename')} className="px-3 py-1.5 rounded text-xs font-bold bg-slate-700 hover:bg-slate-600 border border-slate-600">Renombrar</button>
+                      <button onClick={() => openPanel(profile, 'pin')} className="px-3 py-1.5 rounded text-xs font-bold bg-slate-700 hover:bg-slate-600 border border-slate-600">PIN</button>
+                      {profiles.length > 1 && (
+                        <button onClick={() => openPanel(profile, 'copy')} className="px-3 py-1.5 rounded text-xs font-bold bg-slate-700 hover:bg-slate-600 border border-slate-600">Copiar material</button>
+                      )}
+                      {profile.id !== activeId && (
+                        <button onClick={() => handleDelete(profile)} className="px-2 py-1.5 rounded text-xs text-slate-500 hover:text-red-400" title="Eliminar perfil">✕</button>
+                      )}
+                    </>
+                  ) : (
+                    <button onClick={() => openPanel(profile, 'unlock')} className="px-3 py-1.5 rounded text-xs font-bold bg-slate-700 hover:bg-slate-600 border border-slate-600">🔒 Gestionar</button>
+                  )}
+                </div>
+              </div>
+              {renderPanel(profile)}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
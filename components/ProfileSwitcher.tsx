@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { LearnerProfile } from '../types';
+import { getActiveProfile, loadProfiles, switchProfile } from '../services/profiles';
+import { flushStorage } from '../services/storage';
+
+interface ProfileSwitcherProps {
+  onManage: () => void;
+}
+
+export const ProfileAvatar: React.FC<{ profile: LearnerProfile; size?: string }> = ({ profile, size = 'w-8 h-8' }) => (
+  <span className={`${size} flex-none rounded-full bg-spanishYellow/20 border border-spanishYellow/50 text-spanishYellow font-bold flex items-center justify-center uppercase`}>
+    {profile.name.trim().charAt(0) || '?'}
+  </span>
+);
+
+// Switching reloads the app so every view starts from the new profile's data
+export const reloadIntoProfile = async (profileId: string) => {
+  switchProfile(profileId);
+  await flushStorage();
+  window.location.reload();
+};
+
+export const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ onManage }) => {
+  const [open, setOpen] = useState(false);
+  const active = getActiveProfile();
+  const profiles = loadProfiles();
+
+  return (
+    <div className="relative w-full px-3 mb-6">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-center md:justify-start gap-3 p-2 rounded-lg border border-slate-700 hover:border-spanishYellow bg-slate-800/50 transition-colors"
+        title={`Perfil: ${active.name}`}
+      >
+        <ProfileAvatar profile={active} />
+        <span className="hidden md:block flex-1 text-left text-sm font-medium truncate">{active.name}</span>
+        <span className="hidden md:block text-slate-500 text-xs">{open ? '▲' : '▼'}</span>
+      </button>
+
+      {open && (
+        <div className="absolute left-3 right-3 md:right-3 top-full mt-1 z-30 min-w-[12rem] bg-slate-900 border border-slate-700 rounded-lg shadow-2xl overflow-hidden">
+          {profiles.map(profile => (
+            <button
+              key={profile.id}
+              onClick={() => profile.id === active.id ? setOpen(false) : reloadIntoProfile(profile.id)}
+              className={`w-full flex items-center gap-3 px-3 py-2 text-left text-sm hover:bg-slate-800 ${profile.id === active.id ? 'text-spanishYellow' : 'text-slate-200'}`}
+            >
+              <ProfileAvatar profile={profile} size="w-6 h-6 text-xs" />
+              <span className="flex-1 truncate">{profile.name}</span>
+              {profile.pinHash && <span title="Protegido con PIN">🔒</span>}
+              {profile.id === active.id && <span>✓</span>}
+            </button>
+          ))}
+          <button
+            onClick={() => { setOpen(false); onManage(); }}
+            className="w-full px-3 py-2 text-left text-xs text-slate-400 hover:text-white hover:bg-slate-800 border-t border-slate-700"
+          >
+            Gestionar perfiles
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+import React, { useRef, useState } from 'react';
+import { ConstitutionTopic } from '../types';
+import {
+  ACCEPTED_QUESTION_FILES,
+  QUESTION_FORMATS,
+  QuestionFormat,
+  QuestionImportReport,
+  detectQuestionFormat,
+  exportBankQuestions,
+  importQuestionsToBank,
+  matchTopicForTags,
+  parseQuestionFile
+} from '../services/questionFormats';
+import { getBankSizes } from '../services/questionBank';
+import { downloadFile } from '../services/exportUtils';
+
+interface QuestionTransferProps {
+  topics: ConstitutionTopic[];
+  onClose: () => void;
+}
+
+interface PendingImport {
+  fileName: string;
+  text: string;
+  format: QuestionFormat;
+  report: QuestionImportReport;
+}
+
+const selectClass = "bg-slate-800 text-white rounded-lg border border-slate-600 px-3 py-2 focus:outline-none focus:border-spanishYellow text-sm";
+
+export const QuestionTransfer: React.FC<QuestionTransferProps> = ({ topics, onClose }) => {
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [fallbackTopicId, setFallbackTopicId] = useState(topics[0]?.id ?? '');
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const [exportTopicId, setExportTopicId] = useState('all');
+  const [exportFormat, setExportFormat] = useState<QuestionFormat>('gift');
+  const [bankSizes, setBankSizes] = useState(() => getBankSizes());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const parse = (fileName: string, text: string, format: QuestionFormat) => {
+    setMessage(null);
+    try {
+      setPending({ fileName, text, format, report: parseQuestionFile(text, format) });
+    } catch (error) {
+      setPending(null);
+      setMessage({ ok: false, text: error instanceof Error ? error.message : 'No se pudo leer el archivo.' });
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    parse(file.name, text, detectQuestionFormat(file.name, text));
+  };
+
+  const handleImport = () => {
+    if (!pending) return;
+    const result = importQuestionsToBank(pending.report.questions, topics, fallbackTopicId);
+    const perTopic = Object.entries(result.perTopic)
+      .map(([topicId, count]) => `${topics.find(t => t.id === topicId)?.title ?? topicId}: ${count}`)
+      .join(' · ');
+    setMessage({
+      ok: true,
+      text: `Añadidas ${result.added} preguntas al banco${result.duplicates > 0 ? ` (${result.duplicates} ya estaban)` : ''}. ${perTopic}`
+    });
+    setPending(null);
+    setBankSizes(getBankSizes());
+  };
+
+  const handleExport = () => {
+    const selected = exportTopicId === 'all' ? topics : topics.filter(t => t.id === exportTopicId);
+    const format = QUESTION_FORMATS.find(f => f.id === exportFormat)!;
+    const name = exportTopicId === 'all' ? 'banco' : exportTopicId;
+    downloadFile(exportBankQuestions(selected, exportFormat), `preguntas-${name}.${format.extension}`, format.mime);
+  };
+
+  const untagged = pending ? pending.report.questions.filter(q => !matchTopicForTags(q.tags ?? [], topics)).length : 0;
+  const exportCount = exportTopicId === 'all'
+    ? Object.values(bankSizes).reduce((sum, n) => sum + n, 0)
+    : bankSizes[exportTopicId] ?? 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4" onClick={onClose}>
+      <div className="bg-slate-900 border border-spanishYellow/50 rounded-xl shadow-2xl max-w-2xl w-full max-h-[85vh] overflow-y-auto p-6" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-start mb-4 border-b border-slate-700 pb-3">
+          <div>
+            <h3 className="text-lg font-bold text-spanishYellow">Banco de preguntas</h3>
+            <p className="text-xs text-slate-400">Moodle GIFT, Aiken, Moodle XML y CSV</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">✕</button>
+        </div>
+
+        <h4 className="font-bold text-white mb-1">Importar</h4>
+        <p className="text-sm text-slate-400 mb-3">
+          Añade preguntas de exámenes oficiales o de tu academia. Se guardan en el banco del tema indicado por su categoría o etiqueta
+          («Tema 3», el título del tema...) y aparecen en los tests junto a las generadas.
+        </p>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full mb-4 py-3 rounded-lg border-2 border-dashed border-slate-600 hover:border-spanishYellow text-slate-300 hover:text-white text-sm font-medium transition-colors"
+        >
+          + Elegir archivo (.gift, .txt, .xml, .csv)
+        </button>
+        <input ref={fileInputRef} type="file" accept={ACCEPTED_QUESTION_FILES} className="hidden" onChange={handleFile} />
+
+        {pending && (
+          <div className="mb-4 p-4 rounded-xl border border-spanishYellow/40 bg-slate-800 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="font-bold text-white text-sm truncate">{pending.fileName}</p>
+              <select
+                className={selectClass}
+                value={pending.format}
+                onChange={e => parse(pending.fileName, pending.text, e.target.value as QuestionFormat)}
+                title="Formato del archivo"
+              >
+                {QUESTION_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+              </select>
+            </div>
+            <p className="text-sm">
+              <span className="text-emerald-400 font-bold">{pending.report.questions.length} válidas</span>
+              {pending.report.rejected.length > 0 && <span className="text-orange-300 font-bold"> · {pending.report.rejected.length} rechazadas</span>}
+            </p>
+
+            {untagged > 0 && (
+              <label className="block text-sm">
+                <span className="text-slate-400 block mb-1">{untagged} preguntas no indican un tema del temario. Guardarlas en:</span>
+                <select className={`${selectClass} w-full`} value={fallbackTopicId} onChange={e => setFallbackTopicId(e.target.value)}>
+                  {topics.map(t => <option key={t.id} value={t.id}>{t.title}</option>)}
+                </select>
+              </label>
+            )}
+
+            {pending.report.rejected.length > 0 && (
+              <div className="max-h-48 overflow-y-auto rounded border border-slate-700">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-slate-400 text-left bg-slate-900">
+                      <th className="px-2 py-1 font-medium">Línea</th>
+                      <th className="px-2 py-1 font-medium">Motivo</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {pending.report.rejected.map((r, idx) => (
+                      <tr key={idx} className="border-t border-slate-700 align-top">
+                        <td className="px-2 py-1 text-slate-400">{r.line}</td>
+                        <td className="px-2 py-1">
+                          <span className="text-orange-200">{r.reason}</span>
+                          {r.excerpt && <span className="block text-slate-500 truncate">{r.excerpt}</span>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <button onClick={handleImport} disabled={pending.report.questions.length === 0} className="px-4 py-2 rounded-lg text-sm font-bold bg-spanishRed hover:bg-red-700 text-white disabled:opacity-50">
+                Añadir al banco
+              </button>
+              <button onClick={() => setPending(null)} className="px-4 py-2 rounded-lg text-sm text-slate-400 hover:text-white">Cancelar</button>
+            </div>
+          </div>
+        )}
+
+        {message && (
+          <div className={`mb-4 p-3 rounded-lg border text-sm ${message.ok ? 'border-emerald-500/30 bg-emerald-900/10 text-emerald-200' : 'border-red-500/30 bg-red-900/10 text-red-300'}`}>
+            {message.text}
+          </div>
+        )}
+
+        <h4 className="font-bold text-white mt-6 mb-1">Exportar</h4>
+        <p className="text-sm text-slate-400 mb-3">Descarga el banco para revisarlo en Excel o subirlo a Moodle. El formato Aiken no admite explicaciones ni etiquetas.</p>
+        <div className="flex flex-wrap gap-2">
+          <select className={`${selectClass} flex-1 min-w-0`} value={exportTopicId} onChange={e => setExportTopicId(e.target.value)}>
+            <option value="all">Todos los temas</option>
+            {topics.map(t => <option key={t.id} value={t.id}>{t.title} ({bankSizes[t.id] ?? 0})</option>)}
+          </select>
+          <select className={selectClass} value={exportFormat} onChange={e => setExportFormat(e.target.value as QuestionFormat)}>
+            {QUESTION_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+          </select>
+          <button onClick={handleExport} disabled={exportCount === 0} className="px-4 py-2 rounded-lg text-sm font-bold bg-slate-700 hover:bg-slate-600 border border-slate-600 disabled:opacity-50">
+            Descargar ({exportCount})
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
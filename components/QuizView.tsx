@@ -1,14 +1,24 @@
-import React, { useState, useEffect } from 'react';
-import { ConstitutionTopic, QuizMode, QuizQuestion, QuizState, FailedQuestion, TopicProgress } from '../types';
-import { generateQuizQuestions } from '../services/geminiService';
+import React, { useState, useEffect, useRef } from 'react';
+import { ConstitutionTopic, QuizMode, QuizQuestion, QuizState, FailedQuestion, ExamConfig, ExamScore, QuizAttempt } from '../types';
+import { recordQuizAnswers } from '../services/srs';
+import { recordAttempt } from '../services/attempts';
+import { recordBankAnswers } from '../services/questionBank';
+import { appendMistakes, recordTopicResult } from '../services/progress';
+import { buildExamQuestions, computeExamScore, createDefaultExamConfig, formatDuration } from '../services/examBuilder';
+import { printExam } from '../services/printableExam';
+import { ExamSetup } from './ExamSetup';
+import { PaperAnswerSheet } from './PaperAnswerSheet';
+import { AttemptHistory } from './AttemptHistory';
 import { BackIcon, LoadingSpinner } from './Icons';
+import { ArticleModal, CitationChips } from './Citations';
 
 interface QuizViewProps {
   topic: ConstitutionTopic;
+  topics: ConstitutionTopic[];
   onBack: () => void;
 }
 
-export const QuizView: React.FC<QuizViewProps> = ({ topic, onBack }) => {
+export const QuizView: React.FC<QuizViewProps> = ({ topic, topics, onBack }) => {
   const [setupMode, setSetupMode] = useState(true);
   const [loading, setLoading] = useState(false);
   const [quizState, setQuizState] = useState<QuizState>({
@@ -17,24 +27,118 @@ export const QuizView: React.FC<QuizViewProps> = ({ topic, onBack }) => {
     currentQuestionIndex: 0,
     isFinished: false,
     score: 0,
-    mode: QuizMode.REVIEW
+    mode: QuizMode.REVIEW,
+    config: createDefaultExamConfig(topic.id),
+    examScore: null,
+    markedForReview: [],
+    timeSpentMs: [],
+    startedAt: 0,
+    finishedAt: null
   });
+  const [openArticleId, setOpenArticleId] = useState<string | null>(null);
+  const [examConfig, setExamConfig] = useState<ExamConfig>(() => createDefaultExamConfig(topic.id));
+  const [now, setNow] = useState(Date.now());
+  const [timeWarning, setTimeWarning] = useState<string | null>(null);
+  const [shortfall, setShortfall] = useState<string | null>(null);
+  const questionEnteredAt = useRef(Date.now());
+  const firedWarnings = useRef<Set<number>>(new Set());
 
-  const startQuiz = async (mode: QuizMode) => {
+  const timeLimitMs = quizState.mode === QuizMode.REAL ? quizState.config.timeLimitMinutes * 60 * 1000 : 0;
+  const remainingMs = timeLimitMs > 0 ? quizState.startedAt + timeLimitMs - now : null;
+  const isRunning = !setupMode && !loading && !quizState.isFinished && quizState.questions.length > 0 && quizState.mode !== QuizMode.PAPER;
+  const isPaper = quizState.mode === QuizMode.PAPER;
+
+  const examTitle = (config: ExamConfig) => config.topics.length > 1
+    ? `Simulacro de ${config.topics.length} temas`
+    : `Simulacro: ${topics.find(t => t.id === config.topics[0]?.topicId)?.title ?? topic.title}`;
+
+  // Passing `questions` retakes a previous attempt instead of generating a new exam
+  const startQuiz = async (mode: QuizMode, config: ExamConfig, questions?: QuizQuestion[]) => {
     setSetupMode(false);
-    setLoading(true);
-    const questions = await generateQuizQuestions(topic.title, 5); // Default 5 questions
+    setShortfall(null);
+    if (!questions) {
+      setLoading(true);
+      questions = await buildExamQuestions(config, topics);
+      if (questions.length > 0 && questions.length < config.questionCount) {
+        setShortfall(`Solo se han podido preparar ${questions.length} de las ${config.questionCount} preguntas pedidas sin repetir ninguna.`);
+      }
+    }
+    const startedAt = Date.now();
+    // Thresholds longer than the whole exam would fire immediately, so skip them
+    firedWarnings.current = new Set(config.warningMinutes.filter(m => m >= config.timeLimitMinutes));
+    questionEnteredAt.current = startedAt;
+    setTimeWarning(null);
+    setNow(startedAt);
     setQuizState({
       questions,
       userAnswers: new Array(questions.length).fill(-1),
       currentQuestionIndex: 0,
       isFinished: false,
       score: 0,
-      mode
+      mode,
+      config,
+      examScore: null,
+      markedForReview: new Array(questions.length).fill(false),
+      timeSpentMs: new Array(questions.length).fill(0),
+      startedAt,
+      finishedAt: null
     });
     setLoading(false);
   };
 
+  const reviewAttempt = (attempt: QuizAttempt) => {
+    setQuizState({
+      questions: attempt.questions,
+      userAnswers: attempt.userAnswers,
+      currentQuestionIndex: 0,
+      isFinished: true,
+      score: attempt.examScore.correct,
+      mode: attempt.mode,
+      config: attempt.config,
+      examScore: attempt.examScore,
+      markedForReview: new Array(attempt.questions.length).fill(false),
+      timeSpentMs: attempt.timeSpentMs,
+      startedAt: attempt.date - attempt.durationMs,
+      finishedAt: attempt.date
+    });
+    setSetupMode(false);
+  };
+
+  // Adds the time since the current question was opened to its running total
+  const accumulateTime = (state: QuizState): number[] => {
+    const current = Date.now();
+    const timeSpentMs = [...state.timeSpentMs];
+    timeSpentMs[state.currentQuestionIndex] = (timeSpentMs[state.currentQuestionIndex] || 0) + (current - questionEnteredAt.current);
+    questionEnteredAt.current = current;
+    return timeSpentMs;
+  };
+
+  const goToQuestion = (index: number) => {
+    if (index < 0 || index >= quizState.questions.length || index === quizState.currentQuestionIndex) return;
+    const timeSpentMs = accumulateTime(quizState);
+    setQuizState(prev => ({
+      ...prev,
+      timeSpentMs,
+      currentQuestionIndex: index
+    }));
+  };
+
+  const toggleMarkForReview = () => {
+    setQuizState(prev => {
+      const markedForReview = [...prev.markedForReview];
+      markedForReview[prev.currentQuestionIndex] = !markedForReview[prev.currentQuestionIndex];
+      return { ...prev, markedForReview };
+    });
+  };
+
+  const clearAnswer = () => {
+    setQuizState(prev => {
+      const userAnswers = [...prev.userAnswers];
+      userAnswers[prev.currentQuestionIndex] = -1;
+      return { ...prev, userAnswers };
+    });
+  };
+
   const handleAnswer = (optionIndex: number) => {
     if (quizState.isFinished) return;
     // In review mode, block answering again if already answered
@@ -51,23 +155,20 @@ export const QuizView: React.FC<QuizViewProps> = ({ topic, onBack }) => {
 
   const nextQuestion = () => {
     if (quizState.currentQuestionIndex < quizState.questions.length - 1) {
-      setQuizState(prev => ({
-        ...prev,
-        currentQuestionIndex: prev.currentQuestionIndex + 1
-      }));
+      goToQuestion(quizState.currentQuestionIndex + 1);
     } else {
       finishQuiz();
     }
   };
 
-  const saveMistakes = (questions: QuizQuestion[], userAnswers: number[]) => {
+  const saveMistakes = (topicTitle: string, questions: QuizQuestion[], userAnswers: number[]) => {
     const mistakes: FailedQuestion[] = [];
     
     questions.forEach((q, idx) => {
       const userAnswerIdx = userAnswers[idx];
       if (userAnswerIdx !== -1 && userAnswerIdx !== q.correctAnswerIndex) {
         mistakes.push({
-          topicTitle: topic.title,
+          topicTitle,
           question: q.question,
           userAnswer: q.options[userAnswerIdx],
           correctAnswer: q.options[q.correctAnswerIndex],
@@ -77,49 +178,65 @@ export const QuizView: React.FC<QuizViewProps> = ({ topic, onBack }) => {
       }
     });
 
-    if (mistakes.length > 0) {
-      const stored = localStorage.getItem('failed_questions');
-      let allMistakes: FailedQuestion[] = stored ? JSON.parse(stored) : [];
-      // Add new mistakes and keep only last 50 to avoid storage overflow
-      allMistakes = [...allMistakes, ...mistakes].slice(-50);
-      localStorage.setItem('failed_questions', JSON.stringify(allMistakes));
-    }
+    appendMistakes(mistakes);
   };
 
-  const saveProgress = (score: number, total: number) => {
-    const percentage = Math.round((score / total) * 100);
-    const isPassed = percentage >= 50; // Pass mark is 50%
+  const finishQuiz = () => {
+    const { questions, userAnswers, config } = quizState;
+    const examScore = computeExamScore(questions, userAnswers, config);
 
-    const storedProgress = localStorage.getItem('topic_progress');
-    const allProgress: Record<string, TopicProgress> = storedProgress ? JSON.parse(storedProgress) : {};
+    // Mistakes, SRS cards and progress are recorded per tema, so mixed exams count for each topic
+    config.topics.forEach(({ topicId }) => {
+      const topicInfo = topics.find(t => t.id === topicId) || topic;
+      const indexes = questions.map((q, idx) => (q.topicId ?? topic.id) === topicId ? idx : -1).filter(idx => idx !== -1);
+      if (indexes.length === 0) return;
+      const topicQuestions = indexes.map(idx => questions[idx]);
+      const topicAnswers = indexes.map(idx => userAnswers[idx]);
 
-    const currentBest = allProgress[topic.id]?.bestScore || 0;
+      saveMistakes(topicInfo.title, topicQuestions, topicAnswers);
+      recordQuizAnswers(topicQuestions, topicAnswers, topicInfo.id, topicInfo.title);
+      recordTopicResult(topicInfo.id, computeExamScore(topicQuestions, topicAnswers, config));
+    });
 
-    allProgress[topic.id] = {
-      topicId: topic.id,
-      isPassed: isPassed || (allProgress[topic.id]?.isPassed ?? false),
-      bestScore: Math.max(currentBest, percentage),
-      lastAttempt: Date.now()
-    };
+    recordBankAnswers(questions, userAnswers);
 
-    localStorage.setItem('topic_progress', JSON.stringify(allProgress));
+    const finishedState: QuizState = {
+      ...quizState,
+      isFinished: true,
+      score: examScore.correct,
+      examScore,
+      // Paper exams only know the total time between printing and correcting
+      timeSpentMs: quizState.mode === QuizMode.PAPER ? quizState.timeSpentMs : accumulateTime(quizState),
+      finishedAt: Date.now()
+    };
+    recordAttempt(finishedState);
+    setQuizState(finishedState);
   };
 
-  const finishQuiz = () => {
-    let score = 0;
-    quizState.questions.forEach((q, idx) => {
-      if (quizState.userAnswers[idx] === q.correctAnswerIndex) score++;
-    });
-    
-    saveMistakes(quizState.questions, quizState.userAnswers);
-    saveProgress(score, quizState.questions.length);
+  // The countdown callback must always submit the latest answers
+  const finishQuizRef = useRef(finishQuiz);
+  finishQuizRef.current = finishQuiz;
 
-    setQuizState(prev => ({
-      ...prev,
-      isFinished: true,
-      score
-    }));
-  };
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  useEffect(() => {
+    if (!isRunning || remainingMs === null) return;
+    if (remainingMs <= 0) {
+      finishQuizRef.current();
+      return;
+    }
+    const crossed = quizState.config.warningMinutes.filter(m => remainingMs <= m * 60 * 1000 && !firedWarnings.current.has(m));
+    if (crossed.length > 0) {
+      crossed.forEach(m => firedWarnings.current.add(m));
+      const minutes = Math.min(...crossed);
+      setTimeWarning(`Quedan ${minutes} ${minutes === 1 ? 'minuto' : 'minutos'}`);
+      setTimeout(() => setTimeWarning(null), 5000);
+    }
+  }, [isRunning, remainingMs, quizState.config.warningMinutes]);
 
   // Setup Screen
   if (setupMode) {
@@ -128,16 +245,19 @@ export const QuizView: React.FC<QuizViewProps> = ({ topic, onBack }) => {
         <button onClick={onBack} className="flex items-center gap-2 text-spanishYellow hover:text-white mb-6 w-fit transition-colors">
           <BackIcon /> <span>Cancelar</span>
         </button>
-        <div className="max-w-xl mx-auto w-full text-center">
+        <div className="max-w-xl mx-auto w-full text-center overflow-y-auto pb-8">
           <div className="mb-6 inline-block p-4 rounded-full bg-slate-800 border border-slate-700 shadow-xl">
             <span className="text-4xl">📝</span>
           </div>
           <h1 className="text-3xl font-bold mb-2">Test: {topic.title}</h1>
-          <p className="text-slate-400 mb-8">Selecciona el modo de evaluación</p>
+          <p className="text-slate-400 mb-8">Configura el examen y selecciona el modo de evaluación</p>
+
+          <ExamSetup config={examConfig} topics={topics} onChange={setExamConfig} />
           
           <div className="grid gap-4">
             <button 
-              onClick={() => startQuiz(QuizMode.REVIEW)}
+              onClick={() => startQuiz(QuizMode.REVIEW, examConfig)}
+              disabled={examConfig.topics.length === 0}
               className="bg-spanishRed hover:bg-red-700 text-white p-6 rounded-xl border border-red-900 transition-all flex flex-col items-center shadow-lg hover:shadow-red-900/30"
             >
               <span className="text-xl font-bold mb-2">Modo Repaso</span>
@@ -145,13 +265,33 @@ export const QuizView: React.FC<QuizViewProps> = ({ topic, onBack }) => {
             </button>
             
             <button 
-              onClick={() => startQuiz(QuizMode.REAL)}
+              onClick={() => startQuiz(QuizMode.REAL, examConfig)}
+              disabled={examConfig.topics.length === 0}
               className="bg-slate-800 hover:bg-slate-700 text-white p-6 rounded-xl border border-slate-600 hover:border-spanishYellow transition-all flex flex-col items-center group"
             >
               <span className="text-xl font-bold mb-2 group-hover:text-spanishYellow transition-colors">Modo Examen Real</span>
-              <span className="text-slate-400 text-sm">Sin feedback inmediato. Resultados al final.</span>
+              <span className="text-slate-400 text-sm">
+                Sin feedback inmediato. Navegación libre{examConfig.timeLimitMinutes > 0 ? ` y ${examConfig.timeLimitMinutes} minutos de tiempo` : ''}. Resultados al final.
+              </span>
+            </button>
+
+            <button
+              onClick={() => startQuiz(QuizMode.PAPER, examConfig)}
+              disabled={examConfig.topics.length === 0}
+              className="bg-slate-800 hover:bg-slate-700 text-white p-6 rounded-xl border border-slate-600 hover:border-spanishYellow transition-all flex flex-col items-center group"
+            >
+              <span className="text-xl font-bold mb-2 group-hover:text-spanishYellow transition-colors">Examen en Papel</span>
+              <span className="text-slate-400 text-sm">
+                Imprime el examen con hoja de respuestas y plantilla. Después pasa tus marcas para corregirlo.
+              </span>
             </button>
           </div>
+
+          <AttemptHistory
+            topicId={topic.id}
+            onReview={reviewAttempt}
+            onRetake={attempt => startQuiz(attempt.mode, attempt.config, attempt.questions)}
+          />
         </div>
       </div>
     );
@@ -177,31 +317,60 @@ export const QuizView: React.FC<QuizViewProps> = ({ topic, onBack }) => {
     );
   }
 
+  // Paper exam: print, then copy the marks of the filled sheet
+  if (isPaper && !quizState.isFinished) {
+    return (
+      <PaperAnswerSheet
+        title={examTitle(quizState.config)}
+        questions={quizState.questions}
+        answers={quizState.userAnswers}
+        onChange={userAnswers => setQuizState(prev => ({ ...prev, userAnswers }))}
+        onPrint={() => printExam(quizState.questions, quizState.config, examTitle(quizState.config))}
+        onSubmit={finishQuiz}
+        onCancel={() => setSetupMode(true)}
+      />
+    );
+  }
+
   // Results Screen
   if (quizState.isFinished) {
+    const examScore = quizState.examScore ?? computeExamScore(quizState.questions, quizState.userAnswers, quizState.config);
     return (
       <div className="flex flex-col h-full bg-slate-900 text-slate-100 p-6 overflow-y-auto">
         <div className="max-w-2xl mx-auto w-full">
            <div className="text-center mb-8">
              <h2 className="text-3xl font-bold mb-2 text-white">Resultados</h2>
              <div className="text-6xl font-bold text-spanishYellow my-6 drop-shadow-md">
-               {quizState.score} <span className="text-2xl text-slate-500">/ {quizState.questions.length}</span>
+               {examScore.net} <span className="text-2xl text-slate-500">/ {quizState.questions.length}</span>
              </div>
+             <p className="text-sm text-slate-400 mb-4">
+               <span className="text-emerald-400 font-bold">{examScore.correct}</span> aciertos · <span className="text-red-400 font-bold">{examScore.wrong}</span> fallos · <span className="text-slate-300 font-bold">{examScore.blank}</span> en blanco
+               {quizState.config.penalty > 0 && <> · Nota neta: <span className="text-white font-bold">{(examScore.percentage / 10).toFixed(2)}</span> / 10</>}
+             </p>
+             {quizState.finishedAt !== null && !isPaper && (
+               <p className="text-xs text-slate-500 mb-4">
+                 Tiempo total: <span className="text-slate-300 font-bold">{formatDuration(quizState.finishedAt - quizState.startedAt)}</span>
+                 {timeLimitMs > 0 && <> de {formatDuration(timeLimitMs)}</>}
+               </p>
+             )}
              <p className="text-slate-300 mb-2 font-medium">
-               {quizState.score === quizState.questions.length ? "¡Excelente! Dominas este tema." : 
-                quizState.score >= quizState.questions.length / 2 ? "Bien hecho, pero hay margen de mejora." : "Necesitas repasar este título."}
+               {examScore.percentage === 100 ? "¡Excelente! Dominas este tema." : 
+                examScore.isPassed ? "Bien hecho, pero hay margen de mejora." : "Necesitas repasar este título."}
              </p>
              <p className="text-xs text-slate-500">
-               {quizState.score >= quizState.questions.length / 2 
-                 ? "Has APROBADO este tema. Se ha guardado tu progreso."
-                 : "No has superado el 50%. Sigue estudiando."}
+               {examScore.isPassed 
+                 ? "Has APROBADO este examen. Se ha guardado tu progreso."
+                 : `No has superado el ${quizState.config.passMark}%. Sigue estudiando.`}
              </p>
            </div>
 
            <div className="space-y-6">
              {quizState.questions.map((q, idx) => (
                <div key={idx} className={`p-4 rounded-lg border ${quizState.userAnswers[idx] === q.correctAnswerIndex ? 'border-emerald-500/50 bg-emerald-900/10' : 'border-red-500/50 bg-red-900/10'}`}>
-                 <p className="font-semibold mb-2">{idx + 1}. {q.question}</p>
+                 <div className="flex justify-between gap-4 mb-2">
+                   <p className="font-semibold">{idx + 1}. {q.question}</p>
+                   {!isPaper && <span className="text-xs text-slate-500 whitespace-nowrap" title="Tiempo dedicado">⏱ {formatDuration(quizState.timeSpentMs[idx] || 0)}</span>}
+                 </div>
                  <div className="text-sm text-slate-300">
                     <p>Tu respuesta: <span className={quizState.userAnswers[idx] === q.correctAnswerIndex ? 'text-emerald-400 font-bold' : 'text-red-400 font-bold'}>
                       {q.options[quizState.userAnswers[idx]] || 'Sin responder'}
@@ -210,61 +379,128 @@ export const QuizView: React.FC<QuizViewProps> = ({ topic, onBack }) => {
                       <p>Correcta: <span className="text-emerald-400 font-bold">{q.options[q.correctAnswerIndex]}</span></p>
                     )}
                  </div>
-                 <p className="mt-2 text-xs text-slate-300 italic bg-slate-800 p-3 rounded border-l-2 border-spanishYellow">{q.explanation}</p>
+                 {q.explanation && <p className="mt-2 text-xs text-slate-300 italic bg-slate-800 p-3 rounded border-l-2 border-spanishYellow">{q.explanation}</p>}
+                 <CitationChips ids={q.citations} onOpen={setOpenArticleId} />
                </div>
              ))}
            </div>
            
-           <div className="flex justify-center gap-4 mt-8 pb-8">
+           <div className="flex flex-wrap justify-center gap-4 mt-8 pb-8">
              <button onClick={onBack} className="px-6 py-3 bg-slate-700 hover:bg-slate-600 rounded-lg font-medium border border-slate-600">Volver al Temario</button>
-             <button onClick={() => startQuiz(quizState.mode)} className="px-6 py-3 bg-spanishRed hover:bg-red-700 text-white rounded-lg font-medium shadow-lg">Repetir Test</button>
+             <button onClick={() => setSetupMode(true)} className="px-6 py-3 bg-slate-700 hover:bg-slate-600 rounded-lg font-medium border border-slate-600">Historial</button>
+             <button onClick={() => printExam(quizState.questions, quizState.config, examTitle(quizState.config))} className="px-6 py-3 bg-slate-700 hover:bg-slate-600 rounded-lg font-medium border border-slate-600">Imprimir</button>
+             <button onClick={() => startQuiz(quizState.mode, quizState.config, quizState.questions)} className="px-6 py-3 bg-slate-700 hover:bg-slate-600 rounded-lg font-medium border border-slate-600">Mismas preguntas</button>
+             <button onClick={() => startQuiz(quizState.mode, quizState.config)} className="px-6 py-3 bg-spanishRed hover:bg-red-700 text-white rounded-lg font-medium shadow-lg">Repetir Test</button>
            </div>
         </div>
+        <ArticleModal articleId={openArticleId} onClose={() => setOpenArticleId(null)} />
       </div>
     );
   }
 
   // Active Quiz Interface
   const currentQ = quizState.questions[quizState.currentQuestionIndex];
-  const hasAnsweredCurrent = quizState.userAnswers[quizState.currentQuestionIndex] !== -1;
-  const isCorrect = hasAnsweredCurrent && quizState.userAnswers[quizState.currentQuestionIndex] === currentQ.correctAnswerIndex;
+  const currentAnswer = quizState.userAnswers[quizState.currentQuestionIndex];
+  const hasAnsweredCurrent = currentAnswer !== -1;
+  const isCorrect = hasAnsweredCurrent && currentAnswer === currentQ.correctAnswerIndex;
+  const isExam = quizState.mode === QuizMode.REAL;
+  const isLastQuestion = quizState.currentQuestionIndex === quizState.questions.length - 1;
+  const isMarked = quizState.markedForReview[quizState.currentQuestionIndex];
+  const answeredCount = quizState.userAnswers.filter(a => a !== -1).length;
+  const isLowOnTime = remainingMs !== null && quizState.config.warningMinutes.some(m => remainingMs <= m * 60 * 1000);
+
+  const submitExam = () => {
+    const blankCount = quizState.questions.length - answeredCount;
+    const markedCount = quizState.markedForReview.filter(Boolean).length;
+    if (blankCount > 0 || markedCount > 0) {
+      const pending = [
+        blankCount > 0 ? `${blankCount} sin responder` : '',
+        markedCount > 0 ? `${markedCount} marcadas para revisar` : ''
+      ].filter(Boolean).join(' y ');
+      if (!window.confirm(`Tienes ${pending}. ¿Entregar el examen de todos modos?`)) return;
+    }
+    finishQuiz();
+  };
 
   return (
-    <div className="flex flex-col h-full bg-slate-900 text-slate-100 p-4 md:p-8 max-w-3xl mx-auto w-full">
+    <div className="flex flex-col h-full bg-slate-900 text-slate-100 p-4 md:p-8 max-w-3xl mx-auto w-full overflow-y-auto">
       <div className="flex justify-between items-center mb-6 text-sm text-slate-400">
         <span>Pregunta {quizState.currentQuestionIndex + 1} de {quizState.questions.length}</span>
-        <span className="uppercase tracking-wider font-bold text-spanishYellow border border-spanishYellow/20 px-2 py-1 rounded">{quizState.mode === QuizMode.REAL ? 'Modo Examen' : 'Modo Repaso'}</span>
+        <div className="flex items-center gap-3">
+          {remainingMs !== null && (
+            <span className={`font-mono font-bold text-base px-2 py-1 rounded border ${isLowOnTime ? 'text-red-400 border-red-500/50 bg-red-900/20 animate-pulse' : 'text-white border-slate-600'}`} title="Tiempo restante">
+              ⏱ {formatDuration(remainingMs)}
+            </span>
+          )}
+          <span className="uppercase tracking-wider font-bold text-spanishYellow border border-spanishYellow/20 px-2 py-1 rounded">{isExam ? 'Modo Examen' : 'Modo Repaso'}</span>
+        </div>
       </div>
 
-      <div className="w-full bg-slate-800 h-2 rounded-full mb-8 overflow-hidden">
-        <div 
-          className="bg-gradient-to-r from-spanishRed to-spanishYellow h-full transition-all duration-300"
-          style={{ width: `${((quizState.currentQuestionIndex) / quizState.questions.length) * 100}%` }}
-        />
-      </div>
+      {shortfall && quizState.currentQuestionIndex === 0 && (
+        <div className="mb-4 p-3 rounded-lg border border-spanishYellow/30 bg-spanishYellow/10 text-spanishYellow text-sm">{shortfall}</div>
+      )}
+
+      {timeWarning && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 bg-red-900/90 border border-red-500 text-white px-6 py-3 rounded-lg shadow-xl font-bold">
+          ⏰ {timeWarning}
+        </div>
+      )}
+
+      {isExam ? (
+        <div className="flex flex-wrap gap-1.5 mb-8">
+          {quizState.questions.map((_, idx) => {
+            const answered = quizState.userAnswers[idx] !== -1;
+            const marked = quizState.markedForReview[idx];
+            const current = idx === quizState.currentQuestionIndex;
+            return (
+              <button
+                key={idx}
+                onClick={() => goToQuestion(idx)}
+                className={`w-8 h-8 rounded text-xs font-bold border transition-colors relative ${
+                  answered ? 'bg-slate-600 border-slate-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-500'
+                } ${current ? 'ring-2 ring-spanishYellow' : ''}`}
+                title={`Pregunta ${idx + 1}${answered ? ' · respondida' : ''}${marked ? ' · marcada' : ''}`}
+              >
+                {idx + 1}
+                {marked && <span className="absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full bg-spanishYellow" />}
+              </button>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="w-full bg-slate-800 h-2 rounded-full mb-8 overflow-hidden">
+          <div 
+            className="bg-gradient-to-r from-spanishRed to-spanishYellow h-full transition-all duration-300"
+            style={{ width: `${((quizState.currentQuestionIndex) / quizState.questions.length) * 100}%` }}
+          />
+        </div>
+      )}
 
+      {currentQ.tags && currentQ.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {currentQ.tags.map(tag => (
+            <span key={tag} className="text-[10px] uppercase tracking-wider px-2 py-0.5 rounded-full bg-slate-800 border border-slate-700 text-slate-400">{tag}</span>
+          ))}
+        </div>
+      )}
       <h2 className="text-xl md:text-2xl font-bold mb-8 leading-snug border-l-4 border-spanishRed pl-4">{currentQ.question}</h2>
 
       <div className="space-y-3 flex-1">
         {currentQ.options.map((option, idx) => {
           let buttonClass = "w-full p-4 rounded-lg border text-left transition-all relative ";
           
-          if (quizState.mode === QuizMode.REVIEW && hasAnsweredCurrent) {
+          if (!isExam && hasAnsweredCurrent) {
             // Show styles immediately in Review Mode
             if (idx === currentQ.correctAnswerIndex) {
                buttonClass += "border-emerald-500 bg-emerald-900/20 text-emerald-100 shadow-[0_0_10px_rgba(16,185,129,0.2)]";
-            } else if (idx === quizState.userAnswers[quizState.currentQuestionIndex]) {
+            } else if (idx === currentAnswer) {
                buttonClass += "border-red-500 bg-red-900/20 text-red-100";
             } else {
                buttonClass += "border-slate-700 bg-slate-800 opacity-50";
             }
-          } else if (quizState.mode === QuizMode.REAL && hasAnsweredCurrent) {
+          } else if (isExam && idx === currentAnswer) {
             // In Real mode, just highlight selection, don't show correct/incorrect
-            if (idx === quizState.userAnswers[quizState.currentQuestionIndex]) {
-               buttonClass += "border-spanishYellow bg-yellow-900/20 text-yellow-100 shadow-[0_0_10px_rgba(241,191,0,0.2)]";
-            } else {
-               buttonClass += "border-slate-700 bg-slate-800 hover:bg-slate-750";
-            }
+            buttonClass += "border-spanishYellow bg-yellow-900/20 text-yellow-100 shadow-[0_0_10px_rgba(241,191,0,0.2)]";
           } else {
             // Default state
             buttonClass += "border-slate-700 bg-slate-800 hover:border-spanishYellow hover:bg-slate-750 hover:text-white";
@@ -274,10 +510,10 @@ export const QuizView: React.FC<QuizViewProps> = ({ topic, onBack }) => {
             <button 
               key={idx}
               onClick={() => handleAnswer(idx)}
-              disabled={hasAnsweredCurrent}
+              disabled={!isExam && hasAnsweredCurrent}
               className={buttonClass}
             >
-               <span className={`inline-block w-6 font-bold mr-2 ${hasAnsweredCurrent && idx === currentQ.correctAnswerIndex ? 'text-emerald-400' : 'text-slate-500'}`}>{String.fromCharCode(65 + idx)}.</span>
+               <span className={`inline-block w-6 font-bold mr-2 ${!isExam && hasAnsweredCurrent && idx === currentQ.correctAnswerIndex ? 'text-emerald-400' : 'text-slate-500'}`}>{String.fromCharCode(65 + idx)}.</span>
                {option}
             </button>
           );
@@ -285,26 +521,71 @@ export const QuizView: React.FC<QuizViewProps> = ({ topic, onBack }) => {
       </div>
 
       {/* Explanation Area (Only Review Mode) */}
-      {quizState.mode === QuizMode.REVIEW && hasAnsweredCurrent && (
+      {!isExam && hasAnsweredCurrent && (
         <div className={`mt-6 p-4 rounded-lg border ${isCorrect ? 'border-emerald-500/30 bg-emerald-900/10' : 'border-red-500/30 bg-red-900/10'}`}>
           <p className="font-bold mb-1">{isCorrect ? '¡Correcto!' : 'Incorrecto'}</p>
-          <p className="text-sm text-slate-300 leading-relaxed">{currentQ.explanation}</p>
+          {currentQ.explanation && <p className="text-sm text-slate-300 leading-relaxed">{currentQ.explanation}</p>}
+          <CitationChips ids={currentQ.citations} onOpen={setOpenArticleId} />
         </div>
       )}
 
-      <div className="mt-8 flex justify-end">
-        <button 
-          onClick={nextQuestion}
-          disabled={!hasAnsweredCurrent}
-          className={`px-6 py-3 rounded-lg font-bold transition-colors ${
-            hasAnsweredCurrent 
-              ? 'bg-spanishRed text-white hover:bg-red-700 shadow-lg' 
-              : 'bg-slate-800 text-slate-500 cursor-not-allowed border border-slate-700'
-          }`}
-        >
-          {quizState.currentQuestionIndex === quizState.questions.length - 1 ? 'Ver Resultados' : 'Siguiente'}
-        </button>
-      </div>
+      {isExam ? (
+        <div className="mt-8 flex flex-wrap justify-between gap-3">
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={toggleMarkForReview}
+              className={`px-4 py-3 rounded-lg font-medium border ${isMarked ? 'bg-yellow-900/20 border-spanishYellow text-spanishYellow' : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'}`}
+            >
+              {isMarked ? '★ Marcada' : '☆ Marcar para revisar'}
+            </button>
+            {hasAnsweredCurrent && (
+              <button onClick={clearAnswer} className="px-4 py-3 rounded-lg font-medium bg-slate-800 text-slate-300 hover:bg-slate-700 border border-slate-700">
+                Borrar respuesta
+              </button>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={() => goToQuestion(quizState.currentQuestionIndex - 1)}
+              disabled={quizState.currentQuestionIndex === 0}
+              className="px-4 py-3 rounded-lg font-medium bg-slate-800 text-slate-300 hover:bg-slate-700 border border-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Anterior
+            </button>
+            {!isLastQuestion && (
+              <button onClick={() => goToQuestion(quizState.currentQuestionIndex + 1)} className="px-4 py-3 rounded-lg font-medium bg-slate-800 text-slate-300 hover:bg-slate-700 border border-slate-700">
+                Siguiente
+              </button>
+            )}
+            <button onClick={submitExam} className="px-6 py-3 rounded-lg font-bold bg-spanishRed text-white hover:bg-red-700 shadow-lg">
+              Entregar examen ({answeredCount}/{quizState.questions.length})
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="mt-8 flex justify-end gap-3">
+          {!hasAnsweredCurrent && (
+            <button 
+              onClick={nextQuestion}
+              className="px-6 py-3 rounded-lg font-medium bg-slate-800 text-slate-300 hover:bg-slate-700 border border-slate-700"
+            >
+              Dejar en blanco
+            </button>
+          )}
+          <button 
+            onClick={nextQuestion}
+            disabled={!hasAnsweredCurrent}
+            className={`px-6 py-3 rounded-lg font-bold transition-colors ${
+              hasAnsweredCurrent 
+                ? 'bg-spanishRed text-white hover:bg-red-700 shadow-lg' 
+                : 'bg-slate-800 text-slate-500 cursor-not-allowed border border-slate-700'
+            }`}
+          >
+            {isLastQuestion ? 'Ver Resultados' : 'Siguiente'}
+          </button>
+        </div>
+      )}
+      <ArticleModal articleId={openArticleId} onClose={() => setOpenArticleId(null)} />
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { SrsCard, SrsGrade } from '../types';
+import { endOfToday, getDueCards, GRADE_FAILED, reviewCard } from '../services/srs';
+import { ArticleModal, CitationChips } from './Citations';
+
+interface ReviewSessionProps {
+  onExit: () => void;
+}
+
+const SELF_GRADES: { grade: SrsGrade; label: string; className: string }[] = [
+  { grade: 3, label: 'Difícil', className: 'bg-slate-700 hover:bg-slate-600 border-slate-600' },
+  { grade: 4, label: 'Bien', className: 'bg-spanishRed hover:bg-red-700 border-red-900' },
+  { grade: 5, label: 'Fácil', className: 'bg-emerald-700 hover:bg-emerald-600 border-emerald-900' }
+];
+
+const formatInterval = (days: number) => days === 1 ? 'mañana' : `en ${days} días`;
+
+export const ReviewSession: React.FC<ReviewSessionProps> = ({ onExit }) => {
+  // Snapshot the due cards when the session starts so rescheduled cards don't reappear
+  const [queue] = useState<SrsCard[]>(() => getDueCards(endOfToday()));
+  const [position, setPosition] = useState(0);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [lastScheduled, setLastScheduled] = useState<SrsCard | null>(null);
+  const [stats, setStats] = useState({ correct: 0, failed: 0 });
+  const [openArticleId, setOpenArticleId] = useState<string | null>(null);
+
+  const card = queue[position];
+  const isFinished = position >= queue.length;
+
+  const grade = (value: SrsGrade) => {
+    if (!card) return;
+    setLastScheduled(reviewCard(card.id, value));
+    setStats(prev => value < 3 ? { ...prev, failed: prev.failed + 1 } : { ...prev, correct: prev.correct + 1 });
+    setSelected(null);
+    setPosition(p => p + 1);
+  };
+
+  if (queue.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full bg-slate-900 p-6 text-center">
+        <span className="text-5xl mb-4">🎉</span>
+        <h2 className="text-2xl font-bold text-white mb-2">Repaso de hoy completado</h2>
+        <p className="text-slate-400 mb-6">No tienes preguntas pendientes. Los fallos de tus test aparecerán aquí cuando toque repasarlos.</p>
+        <button onClick={onExit} className="bg-slate-700 hover:bg-slate-600 px-6 py-3 rounded-lg text-white border border-slate-600">Volver</button>
+      </div>
+    );
+  }
+
+  if (isFinished) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full bg-slate-900 p-6 text-center">
+        <h2 className="text-3xl font-bold text-white mb-4">Sesión terminada</h2>
+        <p className="text-slate-300 mb-2">
+          <span className="text-emerald-400 font-bold">{stats.correct}</span> recordadas · <span className="text-red-400 font-bold">{stats.failed}</span> a repetir
+        </p>
+        {lastScheduled && <p className="text-xs text-slate-500 mb-6">La última tarjeta vuelve {formatInterval(lastScheduled.interval)}.</p>}
+        <button onClick={onExit} className="px-6 py-3 bg-spanishRed hover:bg-red-700 text-white rounded-lg font-medium shadow-lg">Volver</button>
+      </div>
+    );
+  }
+
+  const hasAnswered = selected !== null;
+  const isCorrect = selected === card.question.correctAnswerIndex;
+
+  return (
+    <div className="flex flex-col h-full bg-slate-900 text-slate-100 p-4 md:p-8 max-w-3xl mx-auto w-full overflow-y-auto">
+      <div className="flex justify-between items-center mb-6 text-sm text-slate-400">
+        <span>Tarjeta {position + 1} de {queue.length}</span>
+        <span className="uppercase tracking-wider font-bold text-spanishYellow border border-spanishYellow/20 px-2 py-1 rounded">Repaso de hoy</span>
+      </div>
+
+      <p className="text-xs text-slate-500 mb-2">
+        {card.topicTitle} · {card.history.length} repasos · {card.lapses} fallos · facilidad {card.ease.toFixed(2)}
+      </p>
+      <h2 className="text-xl md:text-2xl font-bold mb-8 leading-snug border-l-4 border-spanishRed pl-4">{card.question.question}</h2>
+
+      <div className="space-y-3">
+        {card.question.options.map((option, idx) => {
+          let buttonClass = "w-full p-4 rounded-lg border text-left transition-all ";
+          if (hasAnswered) {
+            if (idx === card.question.correctAnswerIndex) buttonClass += "border-emerald-500 bg-emerald-900/20 text-emerald-100";
+            else if (idx === selected) buttonClass += "border-red-500 bg-red-900/20 text-red-100";
+            else buttonClass += "border-slate-700 bg-slate-800 opacity-50";
+          } else {
+            buttonClass += "border-slate-700 bg-slate-800 hover:border-spanishYellow hover:text-white";
+          }
+          return (
+            <button key={idx} onClick={() => setSelected(idx)} disabled={hasAnswered} className={buttonClass}>
+              <span className="inline-block w-6 font-bold mr-2 text-slate-500">{String.fromCharCode(65 + idx)}.</span>
+              {option}
+            </button>
+          );
+        })}
+      </div>
+
+      {hasAnswered && (
+        <>
+          <div className={`mt-6 p-4 rounded-lg border ${isCorrect ? 'border-emerald-500/30 bg-emerald-900/10' : 'border-red-500/30 bg-red-900/10'}`}>
+            <p className="font-bold mb-1">{isCorrect ? '¡Correcto!' : 'Incorrecto'}</p>
+            {card.question.explanation && <p className="text-sm text-slate-300 leading-relaxed">{card.question.explanation}</p>}
+            <CitationChips ids={card.question.citations} onOpen={setOpenArticleId} />
+          </div>
+
+          <div className="mt-6 flex flex-wrap justify-end gap-3">
+            {isCorrect ? SELF_GRADES.map(option => (
+              <button key={option.grade} onClick={() => grade(option.grade)} className={`px-5 py-3 rounded-lg font-bold text-white border ${option.className}`}>
+                {option.label}
+              </button>
+            )) : (
+              <button onClick={() => grade(GRADE_FAILED)} className="px-6 py-3 rounded-lg font-bold bg-spanishRed text-white hover:bg-red-700 shadow-lg">
+                Continuar
+              </button>
+            )}
+          </div>
+        </>
+      )}
+      <ArticleModal articleId={openArticleId} onClose={() => setOpenArticleId(null)} />
+    </div>
+  );
+};
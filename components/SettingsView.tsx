@@ -0,0 +1,253 @@
+import React, { useRef, useState } from 'react';
+import { AIProviderId, AISettings } from '../types';
+import { createProvider, loadAISettings, saveAISettings } from '../services/aiProvider';
+import { ParsedBackup, RestoreMode, applyBackup, backupFileName, createBackup, parseBackup, previewBackup } from '../services/backup';
+import { downloadFile } from '../services/exportUtils';
+import { flushStorage } from '../services/storage';
+import { LoadingSpinner } from './Icons';
+import { SyncSettings } from './SyncSettings';
+
+const PROVIDER_OPTIONS: { id: AIProviderId; name: string; description: string }[] = [
+  {
+    id: 'gemini',
+    name: 'Google Gemini',
+    description: 'Proveedor por defecto. Usa la clave GEMINI_API_KEY de .env.local o la que indiques aquí.'
+  },
+  {
+    id: 'openai',
+    name: 'Servidor compatible OpenAI',
+    description: 'Cualquier endpoint /chat/completions: OpenAI, Ollama, llama.cpp, LM Studio...'
+  },
+  {
+    id: 'mock',
+    name: 'Modo sin conexión (pruebas)',
+    description: 'Respuestas deterministas de ejemplo. No necesita clave ni red.'
+  }
+];
+
+const inputClass = "w-full bg-slate-800 text-white rounded-lg border border-slate-600 px-3 py-2 focus:outline-none focus:border-spanishYellow placeholder-slate-500 text-sm";
+
+// Damaged entries listed in the restore preview before it says how many more there are
+const MAX_SKIPPED_SHOWN = 8;
+
+export const SettingsView: React.FC = () => {
+  const [settings, setSettings] = useState<AISettings>(() => loadAISettings());
+  const [saved, setSaved] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<{ ok: boolean; text: string } | null>(null);
+  const [pendingBackup, setPendingBackup] = useState<ParsedBackup | null>(null);
+  const [backupMessage, setBackupMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+
+  const updateGemini = (patch: Partial<AISettings['gemini']>) => {
+    setSettings(prev => ({ ...prev, gemini: { ...prev.gemini, ...patch } }));
+  };
+
+  const updateOpenAI = (patch: Partial<AISettings['openai']>) => {
+    setSettings(prev => ({ ...prev, openai: { ...prev.openai, ...patch } }));
+  };
+
+  const handleSave = () => {
+    saveAISettings(settings);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  const handleTest = async () => {
+    setTesting(true);
+    setTestResult(null);
+    try {
+      // Test the settings being edited, not the ones already saved
+      const reply = await createProvider(settings).chatWithTutor('Responde solo "OK".', [], []);
+      setTestResult({ ok: true, text: reply.slice(0, 200) });
+    } catch (error) {
+      setTestResult({ ok: false, text: error instanceof Error ? error.message : String(error) });
+    }
+    setTesting(false);
+  };
+
+  const handleExportData = () => {
+    downloadFile(JSON.stringify(createBackup()), backupFileName(), 'application/json');
+  };
+
+  const handleBackupFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setBackupMessage(null);
+    try {
+      setPendingBackup(parseBackup(await file.text()));
+    } catch (error) {
+      setPendingBackup(null);
+      setBackupMessage({ ok: false, text: error instanceof Error ? error.message : 'No se pudo leer el archivo.' });
+    }
+  };
+
+  const handleRestore = async (mode: RestoreMode) => {
+    if (!pendingBackup) return;
+    if (mode === 'replace' && !window.confirm('Se borrarán todos los datos de este navegador y se sustituirán por los de la copia. ¿Continuar?')) return;
+    applyBackup(pendingBackup.archive, mode);
+    setPendingBackup(null);
+    setBackupMessage({ ok: true, text: 'Datos restaurados. Recargando la aplicación...' });
+    // Every view reads the restored data from scratch
+    await flushStorage();
+    window.location.reload();
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-4 md:p-8 bg-slate-900 text-slate-100">
+      <div className="max-w-2xl mx-auto">
+        <h1 className="text-3xl font-bold text-white mb-2 relative inline-block">
+          Ajustes
+          <span className="absolute bottom-0 left-0 w-full h-1 bg-gradient-to-r from-spanishRed via-spanishYellow to-spanishRed rounded-full"></span>
+        </h1>
+        <p className="text-slate-400 mt-2 mb-8">Elige qué motor de IA genera los planes, esquemas, tests y respuestas del asistente.</p>
+
+        <div className="grid gap-3 mb-8">
+          {PROVIDER_OPTIONS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setSettings(prev => ({ ...prev, provider: option.id }))}
+              className={`p-4 rounded-xl border text-left transition-all ${settings.provider === option.id ? 'border-spanishYellow bg-yellow-900/10 shadow-[0_0_10px_rgba(241,191,0,0.15)]' : 'border-slate-700 bg-slate-800 hover:border-slate-500'}`}
+            >
+              <span className={`block font-bold mb-1 ${settings.provider === option.id ? 'text-spanishYellow' : 'text-white'}`}>{option.name}</span>
+              <span className="text-sm text-slate-400">{option.description}</span>
+            </button>
+          ))}
+        </div>
+
+        {settings.provider === 'gemini' && (
+          <div className="space-y-4 mb-8">
+            <label className="block">
+              <span className="text-sm text-slate-400 mb-1 block">Modelo</span>
+              <input className={inputClass} value={settings.gemini.model} onChange={e => updateGemini({ model: e.target.value })} />
+            </label>
+            <label className="block">
+              <span className="text-sm text-slate-400 mb-1 block">Clave API (opcional)</span>
+              <input type="password" className={inputClass} placeholder="Se usará GEMINI_API_KEY si lo dejas vacío" value={settings.gemini.apiKey} onChange={e => updateGemini({ apiKey: e.target.value })} />
+            </label>
+          </div>
+        )}
+
+        {settings.provider === 'openai' && (
+          <div className="space-y-4 mb-8">
+            <label className="block">
+              <span className="text-sm text-slate-400 mb-1 block">URL base</span>
+              <input className={inputClass} placeholder="http://localhost:11434/v1" value={settings.openai.baseUrl} onChange={e => updateOpenAI({ baseUrl: e.target.value })} />
+            </label>
+            <label className="block">
+              <span className="text-sm text-slate-400 mb-1 block">Modelo</span>
+              <input className={inputClass} value={settings.openai.model} onChange={e => updateOpenAI({ model: e.target.value })} />
+            </label>
+            <label className="block">
+              <span className="text-sm text-slate-400 mb-1 block">Clave API (opcional en servidores locales)</span>
+              <input type="password" className={inputClass} value={settings.openai.apiKey} onChange={e => updateOpenAI({ apiKey: e.target.value })} />
+            </label>
+          </div>
+        )}
+
+        <label className="flex items-start gap-3 mb-8 p-4 rounded-xl border border-slate-700 bg-slate-800 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.verifyQuizAnswers}
+            onChange={e => setSettings(prev => ({ ...prev, verifyQuizAnswers: e.target.checked }))}
+            className="mt-1 accent-spanishRed"
+          />
+          <span>
+            <span className="block font-bold text-white mb-1">Verificar las respuestas de los tests</span>
+            <span className="text-sm text-slate-400">Tras generar un test, el modelo resuelve cada pregunta sin ver la solución y se descartan aquellas en las que no coincide. Duplica las llamadas a la IA.</span>
+          </span>
+        </label>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button onClick={handleSave} className="px-6 py-3 bg-spanishRed hover:bg-red-700 text-white rounded-lg font-bold shadow-lg">
+            Guardar
+          </button>
+          <button onClick={handleTest} disabled={testing} className="px-6 py-3 bg-slate-700 hover:bg-slate-600 rounded-lg font-medium border border-slate-600 disabled:opacity-50">
+            Probar conexión
+          </button>
+          {testing && <LoadingSpinner />}
+          {saved && <span className="text-spanishYellow text-sm font-medium animate-pulse">✓ Guardado</span>}
+        </div>
+
+        {testResult && (
+          <div className={`mt-6 p-4 rounded-lg border text-sm ${testResult.ok ? 'border-emerald-500/30 bg-emerald-900/10 text-emerald-200' : 'border-red-500/30 bg-red-900/10 text-red-300'}`}>
+            <p className="font-bold mb-1">{testResult.ok ? 'Conexión correcta' : 'Error de conexión'}</p>
+            <p className="whitespace-pre-wrap break-words">{testResult.text}</p>
+          </div>
+        )}
+
+        <h2 className="text-xl font-bold text-white mt-12 mb-2">Mis datos</h2>
+        <p className="text-slate-400 text-sm mb-4">
+          Guarda en un único archivo tu progreso, fallos, guías, esquemas, conversaciones, documentos y ajustes para recuperarlos en otro navegador.
+          Las claves API no se incluyen.
+        </p>
+        <div className="flex flex-wrap gap-3">
+          <button onClick={handleExportData} className="px-6 py-3 bg-slate-700 hover:bg-slate-600 rounded-lg font-medium border border-slate-600">
+            Exportar mis datos
+          </button>
+          <button onClick={() => backupInputRef.current?.click()} className="px-6 py-3 bg-slate-700 hover:bg-slate-600 rounded-lg font-medium border border-slate-600">
+            Importar copia de seguridad
+          </button>
+          <input ref={backupInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleBackupFile} />
+        </div>
+
+        {pendingBackup && (
+          <div className="mt-6 p-4 rounded-xl border border-spanishYellow/40 bg-slate-800">
+            <p className="font-bold text-white mb-1">Copia del {new Date(pendingBackup.archive.exportedAt).toLocaleString('es-ES')}</p>
+            <p className="text-xs text-slate-400 mb-3">Revisa qué contiene antes de restaurarla.</p>
+            <table className="w-full text-sm mb-4">
+              <thead>
+                <tr className="text-slate-400 text-xs text-left">
+                  <th className="py-1 font-medium">Datos</th>
+                  <th className="py-1 font-medium text-right">En este navegador</th>
+                  <th className="py-1 font-medium text-right">En la copia</th>
+                  <th className="py-1 font-medium text-right">Nuevos</th>
+                </tr>
+              </thead>
+              <tbody>
+                {previewBackup(pendingBackup.archive).map(row => (
+                  <tr key={row.label} className="border-t border-slate-700">
+                    <td className="py-1.5 text-slate-200">{row.label}</td>
+                    <td className="py-1.5 text-right text-slate-400">{row.current}</td>
+                    <td className="py-1.5 text-right text-slate-200">{row.incoming}</td>
+                    <td className={`py-1.5 text-right font-bold ${row.added > 0 ? 'text-emerald-400' : 'text-slate-500'}`}>{row.added > 0 ? `+${row.added}` : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {pendingBackup.skippedKeys.length > 0 && (
+              <div className="text-xs text-orange-300 mb-3">
+                <p>Se ignorarán {pendingBackup.skippedKeys.length} entradas dañadas o desconocidas:</p>
+                <p className="mt-1 font-mono text-orange-300/80 break-all">
+                  {pendingBackup.skippedKeys.slice(0, MAX_SKIPPED_SHOWN).join(', ')}
+                  {pendingBackup.skippedKeys.length > MAX_SKIPPED_SHOWN && ` y ${pendingBackup.skippedKeys.length - MAX_SKIPPED_SHOWN} más`}
+                </p>
+              </div>
+            )}
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => handleRestore('merge')} className="px-4 py-2 rounded-lg text-sm font-bold bg-spanishRed hover:bg-red-700 text-white">
+                Combinar con mis datos
+              </button>
+              <button onClick={() => handleRestore('replace')} className="px-4 py-2 rounded-lg text-sm bg-slate-700 hover:bg-slate-600 border border-slate-600">
+                Sustituir todo
+              </button>
+              <button onClick={() => setPendingBackup(null)} className="px-4 py-2 rounded-lg text-sm text-slate-400 hover:text-white">
+                Cancelar
+              </button>
+            </div>
+            <p className="text-xs text-slate-500 mt-3">Al combinar se conservan tus guías, esquemas y ajustes actuales y se añade lo que solo existe en la copia.</p>
+          </div>
+        )}
+
+        {backupMessage && (
+          <div className={`mt-6 p-4 rounded-lg border text-sm ${backupMessage.ok ? 'border-emerald-500/30 bg-emerald-900/10 text-emerald-200' : 'border-red-500/30 bg-red-900/10 text-red-300'}`}>
+            {backupMessage.text}
+          </div>
+        )}
+
+        <SyncSettings />
+      </div>
+    </div>
+  );
+};
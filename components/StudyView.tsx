@@ -1,11 +1,33 @@
-import React, { useState, useEffect, useRef, useMemo } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import Markdown from 'react-markdown';
-import { ConstitutionTopic } from '../types';
-import { generateStudyOutline, generateInteractiveDiagram, InteractiveDiagram } from '../services/geminiService';
+import { ConstitutionTopic, InteractiveDiagram } from '../types';
+import { expandDiagramNode, generateInteractiveDiagram, streamStudyOutline } from '../services/geminiService';
+import { extractCitations, linkifyCitations } from '../services/citations';
 import { BackIcon, LoadingSpinner, BookIcon } from './Icons';
+import { ArticleModal, CitationChips, citationLinkRenderer } from './Citations';
+import { TopicDocuments } from './TopicDocuments';
+import { DiagramNodeEditor } from './DiagramNodeEditor';
+import { GuideExportDialog } from './GuideExportDialog';
+import {
+  DIAGRAM_EXPORT_FORMATS,
+  DiagramExportFormat,
+  diagramToFreeMind,
+  diagramToMarkdown,
+  diagramToOpml,
+  downloadDiagramPng,
+  downloadDiagramSvg,
+  printDiagram
+} from '../services/diagramExport';
+import { getTopicDocuments } from '../services/documents';
+import { downloadFile } from '../services/exportUtils';
+import { hasStudyText, loadStudyDiagram, loadStudyScroll, loadStudyText, saveStudyDiagram, saveStudyMaterial, saveStudyScroll } from '../services/studyMaterial';
+import { formatTopicArticles } from '../services/articleRefs';
+import { headingId } from '../services/guideExport';
+import { diagramToMermaid, getChildNodes, getDiagramNode, getRelatedNodeIds, mermaidNodeId, nodeIdFromMermaid } from '../services/diagram';
 
 interface StudyViewProps {
   topic: ConstitutionTopic;
+  topics: ConstitutionTopic[];
   onBack: () => void;
 }
 
@@ -16,144 +38,59 @@ declare global {
   }
 }
 
-// Helper: Convert text to ID-friendly slug
-const slugify = (text: string) => {
-  return text
-    .toString()
-    .toLowerCase()
-    .normalize('NFD') 
-    .replace(/[\u0300-\u036f]/g, '') 
-    .replace(/\s+/g, '-') 
-    .replace(/[^\w\-]+/g, '') 
-    .replace(/\-\-+/g, '-') 
-    .replace(/^-+/, '') 
-    .replace(/-+$/, ''); 
-};
-
-// Helper: Extract label text from Mermaid node definition
-const getNodeLabelFromChart = (nodeId: string, mermaidCode: string): string | null => {
-  if (!nodeId || !mermaidCode) return null;
-  const regex = new RegExp(`\\b${nodeId}\\s*[\\[\\(\\{]+["']?([^"'\\]\\)\\}]+)["']?[\\]\\)\\}]+`);
-  const match = mermaidCode.match(regex);
-  return match ? match[1] : null;
-};
-
-// Helper: Clean Mermaid code from common syntax errors
-const cleanMermaidCode = (code: string) => {
-  if (!code) return '';
-  
-  // Normalize newlines (handle escaped newlines from JSON)
-  let clean = code.replace(/\\n/g, '\n');
-  
-  // Remove markdown blocks if present
-  clean = clean.replace(/```(?:mermaid|json)?/g, '').replace(/```/g, '').trim();
-  
-  // FIX CRITICAL: Separate fused lines (e.g. "5 5graph" -> "5 5\ngraph")
-  clean = clean.replace(/([0-9a-z;])\s*(graph\s+[A-Z]{2}|flowchart\s+[A-Z]{2})/gi, '$1\n$2');
-  
-  // FIX CRITICAL: Separate fused lines (e.g. ":::mainclassDef" -> ":::main\nclassDef")
-  clean = clean.replace(/([^\n])\s*(classDef)/gi, '$1\n$2');
-
-  // FIX CRITICAL: Separate graph declaration from first node (e.g. "graph LRN1" -> "graph LR\nN1")
-  clean = clean.replace(/(graph\s+[A-Z]{2})([^\s\n])/gi, '$1\n$2');
-
-  // Ensure it starts with graph if missing completely
-  if (!clean.match(/^\s*(graph|flowchart)\s+[A-Z]{2}/)) {
-    // If not found, assume graph LR and prepend
-    clean = 'graph LR\n' + clean;
-  } else {
-    // If found, ensure nothing comes before it (strips preamble garbage)
-    const graphMatch = clean.match(/^\s*(graph|flowchart)\s+[A-Z]{2}/m);
-    if (graphMatch && graphMatch.index !== undefined) {
-      clean = clean.substring(graphMatch.index);
-    }
-  }
-
-  // AGGRESSIVE CLEANING: Fix broken brackets or quotes inside labels
-  clean = clean.replace(/\["([^"]*)"\]/g, (match, content) => {
-    // Remove problematic characters: parens, braces, quotes, semicolons inside the label
-    const safeContent = content.replace(/[\(\)\[\]\{\}"';]/g, ' ').trim();
-    return `["${safeContent}"]`;
-  });
-  
-  // Remove empty lines
-  clean = clean.split('\n').filter(line => line.trim().length > 0).join('\n');
-
-  return clean;
-};
-
-// Helper to parse Mermaid graph syntax for relationships
-const parseGraphRelationships = (mermaidCode: string) => {
-  const parents: Record<string, string[]> = {};
-  const children: Record<string, string[]> = {};
-  
-  const regex = /([A-Za-z0-9_]+)\s*[-=.]*>\s*([A-Za-z0-9_]+)/g;
-  let match;
-  
-  while ((match = regex.exec(mermaidCode)) !== null) {
-    const parent = match[1];
-    const child = match[2];
-    
-    if (!children[parent]) children[parent] = [];
-    if (!children[parent].includes(child)) children[parent].push(child);
-    
-    if (!parents[child]) parents[child] = [];
-    if (!parents[child].includes(parent)) parents[child].push(parent);
-  }
-  
-  return { parents, children };
-};
-
-const downloadSvgAsPng = (filename: string) => {
-  const svgElement = document.querySelector('.mermaid svg') as SVGSVGElement;
-  if (!svgElement) return;
-
-  const serializer = new XMLSerializer();
-  const svgString = serializer.serializeToString(svgElement);
-  
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d');
-  const svgRect = svgElement.getBoundingClientRect();
-  
-  const scale = 2; 
-  canvas.width = svgRect.width * scale;
-  canvas.height = svgRect.height * scale;
+// Mind map edits kept for undo/redo during the session
+interface DiagramHistory {
+  past: InteractiveDiagram[];
+  future: InteractiveDiagram[];
+}
 
-  if (!ctx) return;
+const EMPTY_HISTORY: DiagramHistory = { past: [], future: [] };
+const MAX_UNDO_STEPS = 50;
 
-  const img = new Image();
-  const svgBlob = new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' });
-  const url = URL.createObjectURL(svgBlob);
+// Mermaid renders each node as an element with an id like "flowchart-N3-12"
+const renderedNodeId = (element: Element): string | null => element.id.match(/^flowchart-(N\d+)-/)?.[1] ?? null;
 
-  img.onload = () => {
-    ctx.fillStyle = '#0f172a'; 
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-    
-    const pngUrl = canvas.toDataURL('image/png');
-    const downloadLink = document.createElement('a');
-    downloadLink.href = pngUrl;
-    downloadLink.download = `${filename}.png`;
-    document.body.appendChild(downloadLink);
-    downloadLink.click();
-    document.body.removeChild(downloadLink);
-    
-    URL.revokeObjectURL(url);
+// Indented list of the nodes, shown if Mermaid is unavailable or cannot draw the graph
+const DiagramOutline = ({ diagram, onNodeClick }: { diagram: InteractiveDiagram, onNodeClick: (id: string) => void }) => {
+  const renderBranch = (nodeId: string) => {
+    const children = getChildNodes(diagram, nodeId);
+    if (children.length === 0) return null;
+    return (
+      <ul className="pl-4 border-l border-slate-700 space-y-1 mt-1">
+        {children.map(node => (
+          <li key={node.id}>
+            <button onClick={() => onNodeClick(node.id)} className={`text-left hover:text-white ${node.level === 'sub' ? 'text-spanishYellow font-semibold' : 'text-slate-300'}`}>
+              {node.label}
+            </button>
+            {renderBranch(node.id)}
+          </li>
+        ))}
+      </ul>
+    );
   };
-
-  img.src = url;
+  const root = diagram.nodes[0];
+  return (
+    <div className="w-full h-full overflow-y-auto bg-slate-900 border border-slate-700 rounded-lg p-6 text-sm">
+      <p className="text-xs text-slate-500 mb-4">No se ha podido dibujar el gráfico; este es el mismo esquema en forma de lista.</p>
+      <button onClick={() => onNodeClick(root.id)} className="font-bold text-white border-l-4 border-spanishRed pl-2 hover:text-spanishYellow">{root.label}</button>
+      {renderBranch(root.id)}
+    </div>
+  );
 };
 
-const MermaidChart = ({ chart, onNodeClick, highlightedNodeId }: { chart: string, onNodeClick: (id: string) => void, highlightedNodeId: string | null }) => {
+const MermaidChart = ({ diagram, onNodeClick, highlightedNodeId }: { diagram: InteractiveDiagram, onNodeClick: (id: string) => void, highlightedNodeId: string | null }) => {
   const ref = useRef<HTMLDivElement>(null);
   const [scale, setScale] = useState(1);
   const [position, setPosition] = useState({ x: 0, y: 0 });
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [renderError, setRenderError] = useState(false);
+  const [renderedChart, setRenderedChart] = useState('');
 
-  const cleanChart = useMemo(() => cleanMermaidCode(chart), [chart]);
-  const relationships = useMemo(() => parseGraphRelationships(cleanChart), [cleanChart]);
+  const chart = useMemo(() => diagramToMermaid(diagram), [diagram]);
+  // Edits to a node's explanation keep the chart, so clicks read the latest diagram without a re-render
+  const diagramRef = useRef(diagram);
+  diagramRef.current = diagram;
 
   useEffect(() => {
     window.callNodeClick = (nodeId: string) => {
@@ -162,16 +99,19 @@ const MermaidChart = ({ chart, onNodeClick, highlightedNodeId }: { chart: string
   }, [onNodeClick]);
 
   useEffect(() => {
-    if (ref.current && window.mermaid && cleanChart) {
+    if (!window.mermaid) {
+      setRenderError(true);
+    } else if (ref.current) {
       setRenderError(false);
       try {
         ref.current.innerHTML = '';
         ref.current.removeAttribute('data-processed');
         const id = `mermaid-${Math.random().toString(36).substr(2, 9)}`;
-        window.mermaid.render(id, cleanChart).then((result: any) => {
+        window.mermaid.render(id, chart).then((result: any) => {
            if (ref.current) {
              ref.current.innerHTML = result.svg;
              const svg = ref.current.querySelector('svg');
+             setRenderedChart(chart);
              if(svg) {
                svg.style.width = "100%";
                svg.style.height = "100%";
@@ -185,16 +125,9 @@ const MermaidChart = ({ chart, onNodeClick, highlightedNodeId }: { chart: string
                  
                  htmlNode.addEventListener('click', (e) => {
                     e.stopPropagation();
-                    const elementId = htmlNode.id;
-                    // Format is usually flowchart-{ID}-{Random}
-                    const parts = elementId.split('-');
-                    let mermaidId = elementId;
-                    
-                    if (parts.length >= 2 && (parts[0] === 'flowchart' || parts[0] === 'graph')) {
-                        mermaidId = parts[1];
-                    }
-                    
-                    onNodeClick(mermaidId);
+                    const mermaidId = renderedNodeId(htmlNode);
+                    const nodeId = mermaidId ? nodeIdFromMermaid(diagramRef.current, mermaidId) : undefined;
+                    if (nodeId) onNodeClick(nodeId);
                  });
                });
              }
@@ -208,9 +141,7 @@ const MermaidChart = ({ chart, onNodeClick, highlightedNodeId }: { chart: string
         setRenderError(true);
       }
     }
-    setScale(1);
-    setPosition({ x: 0, y: 0 });
-  }, [cleanChart, onNodeClick]);
+  }, [chart, onNodeClick]);
 
   // Highlighting & Animation Logic
   useEffect(() => {
@@ -235,28 +166,14 @@ const MermaidChart = ({ chart, onNodeClick, highlightedNodeId }: { chart: string
 
     if (!highlightedNodeId) return;
 
-    const relatives = new Set<string>();
-    if (relationships.children[highlightedNodeId]) {
-      relationships.children[highlightedNodeId].forEach(id => relatives.add(id));
-    }
-    if (relationships.parents[highlightedNodeId]) {
-      relationships.parents[highlightedNodeId].forEach(id => relatives.add(id));
-    }
+    const target = mermaidNodeId(diagram, highlightedNodeId);
+    const relatives = new Set(getRelatedNodeIds(diagram, highlightedNodeId).map(id => mermaidNodeId(diagram, id)));
 
     allNodes.forEach(node => {
       const element = node as HTMLElement;
-      const idAttr = element.id; 
-      
-      const isTarget = idAttr.includes(`-${highlightedNodeId}-`) || idAttr === highlightedNodeId || idAttr.endsWith(`-${highlightedNodeId}`);
-      let isRelative = false;
-      if (!isTarget) {
-        for (const relId of relatives) {
-          if (idAttr.includes(`-${relId}-`) || idAttr === relId || idAttr.endsWith(`-${relId}`)) {
-            isRelative = true;
-            break;
-          }
-        }
-      }
+      const mermaidId = renderedNodeId(element);
+      const isTarget = mermaidId === target;
+      const isRelative = !isTarget && !!mermaidId && relatives.has(mermaidId);
 
       const shape = element.querySelector('rect, circle, polygon, path') as HTMLElement;
 
@@ -281,7 +198,7 @@ const MermaidChart = ({ chart, onNodeClick, highlightedNodeId }: { chart: string
     
     allEdges.forEach(edge => (edge as HTMLElement).style.opacity = '0.1');
 
-  }, [highlightedNodeId, cleanChart, relationships]);
+  }, [highlightedNodeId, renderedChart, diagram]);
 
   const handleWheel = (e: React.WheelEvent) => {
     e.preventDefault();
@@ -309,15 +226,7 @@ const MermaidChart = ({ chart, onNodeClick, highlightedNodeId }: { chart: string
   };
 
   if (renderError) {
-    return (
-      <div className="w-full h-full flex flex-col items-center justify-center bg-slate-900 border border-red-900/50 rounded-lg text-slate-400 p-6 text-center">
-        <p className="mb-2 font-bold text-red-400">Error de visualización</p>
-        <p className="text-xs text-slate-500 mb-4">Prueba a regenerar el plan para corregir la sintaxis.</p>
-        <pre className="text-[10px] text-left bg-black p-2 rounded mb-4 overflow-auto max-w-sm max-h-32 text-red-300 border border-red-900/30 whitespace-pre-wrap font-mono">
-          {cleanChart}
-        </pre>
-      </div>
-    );
+    return <DiagramOutline diagram={diagram} onNodeClick={onNodeClick} />;
   }
 
   return (
@@ -357,7 +266,7 @@ const MermaidChart = ({ chart, onNodeClick, highlightedNodeId }: { chart: string
   );
 };
 
-export const StudyView: React.FC<StudyViewProps> = ({ topic, onBack }) => {
+export const StudyView: React.FC<StudyViewProps> = ({ topic, topics, onBack }) => {
   const [content, setContent] = useState<string | null>(null);
   const [diagramData, setDiagramData] = useState<InteractiveDiagram | null>(null);
   const [loading, setLoading] = useState(false);
@@ -369,16 +278,38 @@ export const StudyView: React.FC<StudyViewProps> = ({ topic, onBack }) => {
   const [showSaveConfirm, setShowSaveConfirm] = useState(false);
   const [pendingScrollId, setPendingScrollId] = useState<string | null>(null);
   const [copySuccess, setCopySuccess] = useState(false);
+  const [openArticleId, setOpenArticleId] = useState<string | null>(null);
+  // Why the outline on screen was not saved
+  const [unsavedDraft, setUnsavedDraft] = useState<'stopped' | 'failed' | null>(null);
+  const [showDocuments, setShowDocuments] = useState(false);
+  const [documentCount, setDocumentCount] = useState(0);
+  const [isEditingDiagram, setIsEditingDiagram] = useState(false);
+  const [diagramHistory, setDiagramHistory] = useState<DiagramHistory>(EMPTY_HISTORY);
+  const [expandingNode, setExpandingNode] = useState(false);
+  const [diagramNotice, setDiagramNotice] = useState<string | null>(null);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [showGuideExport, setShowGuideExport] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const topicIdRef = useRef(topic.id);
+  topicIdRef.current = topic.id;
+
+  const contentCitations = useMemo(() => content ? extractCitations(content).citations : [], [content]);
+  const renderCitationLink = useMemo(() => citationLinkRenderer(setOpenArticleId), []);
 
   // Load persistence
   useEffect(() => {
     // Reset state first to avoid showing previous topic data
     setContent(null);
     setDiagramData(null);
+    setSelectedNodeId(null);
+    setDiagramHistory(EMPTY_HISTORY);
     setIsSavedMaterial(false);
+    setUnsavedDraft(null);
+    setShowDocuments(false);
+    setDocumentCount(getTopicDocuments(topic.id).length);
 
-    const cachedText = localStorage.getItem(`study_text_${topic.id}`);
-    const cachedDiagram = localStorage.getItem(`study_diagram_obj_${topic.id}`);
+    const cachedText = loadStudyText(topic.id);
+    const cachedDiagram = loadStudyDiagram(topic.id);
     
     if (cachedText) {
       setContent(cachedText);
@@ -386,23 +317,22 @@ export const StudyView: React.FC<StudyViewProps> = ({ topic, onBack }) => {
       // Restore scroll
       setTimeout(() => {
         if (textPanelRef.current) {
-          const savedScroll = localStorage.getItem(`study_scroll_${topic.id}`);
-          if (savedScroll) {
-            textPanelRef.current.scrollTop = parseInt(savedScroll, 10);
-          }
+          textPanelRef.current.scrollTop = loadStudyScroll(topic.id);
         }
       }, 100);
     }
 
     if (cachedDiagram) {
-      try {
-        setDiagramData(JSON.parse(cachedDiagram));
-      } catch (e) {
-        console.error("Error parsing cached diagram", e);
-      }
+      setDiagramData(cachedDiagram);
     }
   }, [topic.id]);
 
+  // Leaving the view or switching topic stops any outline still streaming
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+  }, [topic.id]);
+
   // Effect to handle scroll after tab switch
   useEffect(() => {
     if (activeTab === 'summary' && pendingScrollId && content) {
@@ -420,7 +350,7 @@ export const StudyView: React.FC<StudyViewProps> = ({ topic, onBack }) => {
 
   const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
     if (!pendingScrollId) {
-      localStorage.setItem(`study_scroll_${topic.id}`, e.currentTarget.scrollTop.toString());
+      saveStudyScroll(topic.id, e.currentTarget.scrollTop);
     }
   };
 
@@ -429,65 +359,130 @@ export const StudyView: React.FC<StudyViewProps> = ({ topic, onBack }) => {
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
     setLoading(true);
+    setUnsavedDraft(null);
     // Clear previous data before generating new
     setContent(null);
     setDiagramData(null);
+    setSelectedNodeId(null);
+    setDiagramHistory(EMPTY_HISTORY);
     
-    const [textResult, diagramResult] = await Promise.all([
-      generateStudyOutline(topic.title),
-      generateInteractiveDiagram(topic.title)
-    ]);
-    
-    setContent(textResult);
+    const retrievalQuery = `${topic.title} ${topic.description} ${formatTopicArticles(topic)}`;
+    const diagramPromise = generateInteractiveDiagram(topic.title, retrievalQuery, topic.id);
+
+    let textResult = '';
+    let failed = false;
+    for await (const partial of streamStudyOutline(topic.title, controller.signal, undefined, retrievalQuery, topic.id)) {
+      textResult = partial.text;
+      failed = !!partial.failed;
+      setContent(textResult);
+    }
+
+    // The view moved on to another topic while streaming
+    if (abortRef.current !== controller) return;
+
+    // A stopped or failed outline stays on screen as a draft but never replaces the saved plan
+    if (controller.signal.aborted || failed) {
+      setUnsavedDraft(controller.signal.aborted ? 'stopped' : 'failed');
+      abortRef.current = null;
+      setIsSavedMaterial(false);
+      setLoading(false);
+      return;
+    }
+
+    const diagramResult = await diagramPromise;
+    if (abortRef.current !== controller) return;
     setDiagramData(diagramResult);
     setIsSavedMaterial(true);
     
-    // Explicit Save to Local Storage immediately
-    localStorage.setItem(`study_text_${topic.id}`, textResult);
-    if (diagramResult) {
-      localStorage.setItem(`study_diagram_obj_${topic.id}`, JSON.stringify(diagramResult));
-    }
+    // Explicit save immediately
+    saveStudyMaterial(topic.id, textResult, diagramResult);
     
+    abortRef.current = null;
     setLoading(false);
     setShowSaveConfirm(true);
     setTimeout(() => setShowSaveConfirm(false), 3000);
   };
 
-  const handleDownloadHtml = () => {
-    if (!content) return;
-    let diagramHtml = '';
-    if (diagramData) {
-      diagramHtml = `<div class="mermaid">${cleanMermaidCode(diagramData.mermaidCode)}</div>`;
-    }
-    const htmlContent = `
-      <!DOCTYPE html><html><head><title>${topic.title}</title>
-      <script src="https://cdn.jsdelivr.net/npm/mermaid/dist/mermaid.min.js"></script></head>
-      <body><h1>${topic.title}</h1><div>${content.replace(/\n/g, '<br/>')}</div><hr/>${diagramHtml}
-      <script>mermaid.initialize({ startOnLoad: true });</script></body></html>`;
-    const blob = new Blob([htmlContent], { type: 'text/html' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url; a.download = `${topic.title.replace(/\s+/g, '_')}.html`;
-    document.body.appendChild(a); a.click(); document.body.removeChild(a);
+  const handleStop = () => {
+    abortRef.current?.abort();
   };
 
-  const handleNodeClick = (nodeId: string) => {
+  // Stable so the chart is not drawn again on every render of the view
+  const handleNodeClick = useCallback((nodeId: string) => {
     setSelectedNodeId(nodeId);
+  }, []);
+
+  // Every edit is saved at once and the previous map kept for undo
+  const applyDiagramEdit = (next: InteractiveDiagram) => {
+    if (!diagramData || next === diagramData) return;
+    setDiagramHistory(history => ({ past: [...history.past, diagramData].slice(-MAX_UNDO_STEPS), future: [] }));
+    setDiagramData(next);
+    saveStudyDiagram(topic.id, next);
+  };
+
+  const restoreDiagram = (next: InteractiveDiagram, history: DiagramHistory) => {
+    setDiagramHistory(history);
+    setDiagramData(next);
+    saveStudyDiagram(topic.id, next);
+    if (selectedNodeId && !getDiagramNode(next, selectedNodeId)) setSelectedNodeId(null);
+  };
+
+  const handleUndo = () => {
+    const previous = diagramHistory.past[diagramHistory.past.length - 1];
+    if (!previous || !diagramData || expandingNode) return;
+    restoreDiagram(previous, { past: diagramHistory.past.slice(0, -1), future: [diagramData, ...diagramHistory.future] });
+  };
+
+  const handleRedo = () => {
+    const [next, ...future] = diagramHistory.future;
+    if (!next || !diagramData || expandingNode) return;
+    restoreDiagram(next, { past: [...diagramHistory.past, diagramData], future });
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) on the mind map; text fields keep their own undo
+  useEffect(() => {
+    if (activeTab !== 'schema' || !isEditingDiagram) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (!(e.ctrlKey || e.metaKey) || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) handleUndo();
+      else if (key === 'y' || (key === 'z' && e.shiftKey)) handleRedo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const handleExpandNode = async () => {
+    if (!diagramData || !selectedNodeId) return;
+    setExpandingNode(true);
+    setDiagramNotice(null);
+    const retrievalQuery = `${topic.title} ${formatTopicArticles(topic)}`;
+    const expanded = await expandDiagramNode(topic.title, diagramData, selectedNodeId, retrievalQuery, topic.id);
+    setExpandingNode(false);
+    // The view moved on to another topic while waiting
+    if (topicIdRef.current !== topic.id) return;
+    if (expanded) applyDiagramEdit(expanded);
+    else setDiagramNotice('La IA no ha propuesto nodos nuevos para esta rama.');
   };
 
   const jumpToTextContext = () => {
     if (!selectedNodeId || !diagramData) return;
-    const label = getNodeLabelFromChart(selectedNodeId, diagramData.mermaidCode);
-    if (label) {
-      setPendingScrollId(slugify(label));
+    const node = getDiagramNode(diagramData, selectedNodeId);
+    if (node) {
+      setPendingScrollId(headingId(node.label));
       setActiveTab('summary');
     }
   };
 
   const handleCopyMermaidCode = () => {
-    if (diagramData?.mermaidCode) {
-      navigator.clipboard.writeText(cleanMermaidCode(diagramData.mermaidCode))
+    if (diagramData) {
+      navigator.clipboard.writeText(diagramToMermaid(diagramData))
         .then(() => {
           setCopySuccess(true);
           setTimeout(() => setCopySuccess(false), 2000);
@@ -496,7 +491,34 @@ export const StudyView: React.FC<StudyViewProps> = ({ topic, onBack }) => {
     }
   };
 
-  const selectedNodeDescription = selectedNodeId && diagramData?.nodeDetails ? diagramData.nodeDetails[selectedNodeId] : null;
+  const handleExportDiagram = (format: DiagramExportFormat) => {
+    setShowExportMenu(false);
+    if (!diagramData) return;
+    const filename = `${topic.title.replace(/\s+/g, '_')}_mapa`;
+    if (format === 'markdown') {
+      downloadFile(diagramToMarkdown(diagramData), `${filename}.md`, 'text/markdown');
+      return;
+    }
+    if (format === 'opml') {
+      downloadFile(diagramToOpml(diagramData, topic.title), `${filename}.opml`, 'text/x-opml');
+      return;
+    }
+    if (format === 'freemind') {
+      downloadFile(diagramToFreeMind(diagramData), `${filename}.mm`, 'application/x-freemind');
+      return;
+    }
+    // Vector formats copy the chart as drawn; the list fallback has no SVG to export
+    const svg = document.querySelector('.mermaid svg') as SVGSVGElement | null;
+    if (!svg) {
+      setDiagramNotice('El gráfico no se ha dibujado; exporta el esquema en Markdown, OPML o FreeMind.');
+      return;
+    }
+    if (format === 'svg') downloadDiagramSvg(svg, filename);
+    else if (format === 'png') downloadDiagramPng(svg, filename);
+    else printDiagram(svg, topic.title);
+  };
+
+  const selectedNode = selectedNodeId && diagramData ? getDiagramNode(diagramData, selectedNodeId) : undefined;
 
   return (
     <div className="flex flex-col h-full bg-slate-900 text-slate-100 overflow-hidden">
@@ -507,6 +529,9 @@ export const StudyView: React.FC<StudyViewProps> = ({ topic, onBack }) => {
             <BackIcon /> <span>Temario</span>
           </button>
           <div className="flex items-center gap-3">
+            <button onClick={() => setShowDocuments(true)} className="text-slate-300 hover:text-white border border-slate-600 hover:border-spanishYellow px-3 py-1.5 rounded-sm text-xs font-medium transition-all" title="Material de estudio propio">
+              📎 Documentos ({documentCount})
+            </button>
             {isSavedMaterial && (
               <span className="text-emerald-400 text-xs md:text-sm font-medium border border-emerald-500/30 bg-emerald-500/10 px-2 py-1 rounded flex items-center gap-1">
                 💾 Plan Guardado
@@ -517,7 +542,11 @@ export const StudyView: React.FC<StudyViewProps> = ({ topic, onBack }) => {
                 ✓ Guardado
               </span>
             )}
-            {content && (
+            {loading ? (
+              <button onClick={handleStop} className="text-white bg-spanishRed hover:bg-red-700 border border-red-900 px-3 py-1.5 rounded-sm text-xs font-bold transition-all">
+                ■ Detener
+              </button>
+            ) : content && (
               <button onClick={handleGenerate} className="text-spanishRed hover:text-white hover:bg-spanishRed/20 border border-spanishRed/30 px-3 py-1.5 rounded-sm text-xs font-medium transition-all">
                 Regenerar
               </button>
@@ -533,7 +562,10 @@ export const StudyView: React.FC<StudyViewProps> = ({ topic, onBack }) => {
             <div className="bg-slate-800 p-8 rounded-2xl border border-slate-700 shadow-2xl max-w-md w-full relative overflow-hidden">
               <div className="absolute top-0 left-0 w-full h-2 bg-gradient-to-r from-spanishRed via-spanishYellow to-spanishRed"></div>
               <h3 className="text-2xl font-bold mb-3 text-white">Estudio Guiado con IA</h3>
-              <p className="text-slate-400 mb-8">Genera un resumen detallado y un esquema visual con IA.</p>
+              <p className="text-slate-400 mb-8">
+                Genera un resumen detallado y un esquema visual con IA.
+                {documentCount > 0 && ` Se basará en tus ${documentCount} documento${documentCount === 1 ? '' : 's'} de este tema.`}
+              </p>
               <button onClick={handleGenerate} className="w-full bg-spanishRed hover:bg-red-700 text-white py-4 rounded-xl font-bold text-lg shadow-lg hover:scale-105 transition-all border border-red-900">
                 Generar Plan de Estudio
               </button>
@@ -541,14 +573,14 @@ export const StudyView: React.FC<StudyViewProps> = ({ topic, onBack }) => {
           </div>
         )}
 
-        {loading && (
+        {loading && !content && (
           <div className="flex flex-col items-center justify-center h-full">
             <LoadingSpinner />
             <p className="mt-4 text-spanishYellow animate-pulse">Analizando legislación y generando esquemas...</p>
           </div>
         )}
 
-        {content && !loading && (
+        {content && (
           <>
             <div className="flex border-b border-slate-700 bg-slate-900">
               <button onClick={() => setActiveTab('summary')} className={`flex-1 py-3 text-center font-medium transition-colors border-b-4 ${activeTab === 'summary' ? 'border-spanishRed text-white bg-slate-800' : 'border-transparent text-slate-400 hover:text-white hover:bg-slate-800'}`}>
@@ -562,60 +594,115 @@ export const StudyView: React.FC<StudyViewProps> = ({ topic, onBack }) => {
             <div className="flex-1 overflow-hidden relative">
               {activeTab === 'summary' && (
                 <div ref={textPanelRef} onScroll={handleScroll} className="h-full overflow-y-auto p-6 md:p-8 scrollbar-thin scrollbar-thumb-slate-700">
+                  {unsavedDraft && (
+                    <div className="mb-6 p-3 rounded-lg border border-spanishYellow/30 bg-yellow-900/10 text-sm text-spanishYellow">
+                      {unsavedDraft === 'failed' ? 'La generación falló' : 'Generación detenida'}. Este borrador incompleto no se ha guardado{hasStudyText(topic.id) ? ' y se conserva tu plan anterior' : ''}.
+                    </div>
+                  )}
                   <div className="prose prose-invert max-w-none text-slate-300 leading-relaxed">
                     <Markdown
                       components={{
-                        h1: ({node, ...props}) => <h1 id={slugify(String(props.children))} className="text-3xl font-bold text-white mt-8 mb-4 border-b-2 border-spanishRed pb-2 inline-block bg-gradient-to-r from-spanishRed/20 to-transparent pr-8 pl-2 rounded-sm scroll-mt-24" {...props} />,
-                        h2: ({node, ...props}) => <h2 id={slugify(String(props.children))} className="text-xl font-bold text-spanishYellow mt-6 mb-3 flex items-center scroll-mt-24" {...props} />,
-                        h3: ({node, ...props}) => <h3 id={slugify(String(props.children))} className="text-lg font-semibold text-white mt-4 mb-2 pl-4 border-l-2 border-spanishYellow scroll-mt-24" {...props} />,
+                        h1: ({node, ...props}) => <h1 id={headingId(String(props.children))} className="text-3xl font-bold text-white mt-8 mb-4 border-b-2 border-spanishRed pb-2 inline-block bg-gradient-to-r from-spanishRed/20 to-transparent pr-8 pl-2 rounded-sm scroll-mt-24" {...props} />,
+                        h2: ({node, ...props}) => <h2 id={headingId(String(props.children))} className="text-xl font-bold text-spanishYellow mt-6 mb-3 flex items-center scroll-mt-24" {...props} />,
+                        h3: ({node, ...props}) => <h3 id={headingId(String(props.children))} className="text-lg font-semibold text-white mt-4 mb-2 pl-4 border-l-2 border-spanishYellow scroll-mt-24" {...props} />,
                         strong: ({node, ...props}) => <strong className="text-spanishYellow font-semibold" {...props} />,
-                        li: ({node, ...props}) => <li className="marker:text-spanishRed" {...props} />
+                        li: ({node, ...props}) => <li className="marker:text-spanishRed" {...props} />,
+                        a: renderCitationLink
                       }}
                     >
-                      {content}
+                      {linkifyCitations(content)}
                     </Markdown>
                   </div>
+                  {contentCitations.length > 0 && (
+                    <div className="mt-8 pt-4 border-t border-slate-800">
+                      <p className="text-xs uppercase tracking-wider text-slate-500 font-bold">Fuentes citadas</p>
+                      <CitationChips ids={contentCitations} onOpen={setOpenArticleId} />
+                    </div>
+                  )}
                   <div className="mt-12 pt-6 border-t border-slate-700 text-center">
-                     <button onClick={handleDownloadHtml} className="text-slate-400 hover:text-white text-xs underline">Descargar Guía Offline</button>
+                     <button onClick={() => setShowGuideExport(true)} className="text-slate-400 hover:text-white text-xs underline">Descargar Guía Offline</button>
                   </div>
                 </div>
               )}
 
               {activeTab === 'schema' && (
                 <div className="h-full flex flex-col relative bg-slate-900">
-                  {diagramData?.mermaidCode ? (
+                  {diagramData ? (
                     <>
-                      <MermaidChart chart={diagramData.mermaidCode} onNodeClick={handleNodeClick} highlightedNodeId={selectedNodeId} />
-                      
-                      <div className="absolute bottom-6 left-6 z-20 flex gap-2">
-                        <button 
-                          onClick={() => downloadSvgAsPng(topic.title)}
-                          className="bg-slate-800 border border-spanishYellow/30 text-spanishYellow hover:bg-spanishYellow hover:text-slate-900 px-4 py-2 rounded-lg text-sm font-bold shadow-lg transition-all flex items-center gap-2"
+                      <MermaidChart diagram={diagramData} onNodeClick={handleNodeClick} highlightedNodeId={selectedNodeId} />
+
+                      <div className="absolute top-4 left-4 z-20 flex flex-wrap items-center gap-2 max-w-[55%]">
+                        <button
+                          onClick={() => { setIsEditingDiagram(editing => !editing); setDiagramNotice(null); }}
+                          className={`px-3 py-1.5 rounded-lg text-xs font-bold shadow-lg border transition-all ${isEditingDiagram ? 'bg-spanishYellow text-slate-900 border-spanishYellow' : 'bg-slate-800 text-slate-200 border-slate-600 hover:border-spanishYellow'}`}
                         >
-                          <span className="text-lg">⬇</span> Descargar Mapa
+                          {isEditingDiagram ? '✓ Terminar edición' : '✏️ Editar mapa'}
                         </button>
+                        {isEditingDiagram && (
+                          <>
+                            <button onClick={handleUndo} disabled={diagramHistory.past.length === 0 || expandingNode} title="Deshacer (Ctrl+Z)" className="px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-800 text-slate-200 border border-slate-600 hover:bg-slate-700 disabled:opacity-40 shadow-lg">
+                              ↶ Deshacer
+                            </button>
+                            <button onClick={handleRedo} disabled={diagramHistory.future.length === 0 || expandingNode} title="Rehacer (Ctrl+Shift+Z)" className="px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-800 text-slate-200 border border-slate-600 hover:bg-slate-700 disabled:opacity-40 shadow-lg">
+                              ↷ Rehacer
+                            </button>
+                            {!selectedNode && <span className="text-xs text-slate-400">Pulsa un nodo para editarlo.</span>}
+                          </>
+                        )}
+                        {diagramNotice && <span className="text-xs text-spanishYellow">{diagramNotice}</span>}
+                      </div>
+
+                      <div className="absolute bottom-6 left-6 z-20 flex gap-2">
+                        <div className="relative">
+                          <button
+                            onClick={() => setShowExportMenu(open => !open)}
+                            className="bg-slate-800 border border-spanishYellow/30 text-spanishYellow hover:bg-spanishYellow hover:text-slate-900 px-4 py-2 rounded-lg text-sm font-bold shadow-lg transition-all flex items-center gap-2"
+                          >
+                            <span className="text-lg">⬇</span> Exportar Mapa
+                          </button>
+                          {showExportMenu && (
+                            <div className="absolute bottom-full left-0 mb-2 w-64 bg-slate-900 border border-slate-600 rounded-lg shadow-2xl overflow-hidden">
+                              {DIAGRAM_EXPORT_FORMATS.map(({ format, label, hint }) => (
+                                <button key={format} onClick={() => handleExportDiagram(format)} className="w-full text-left px-3 py-2 hover:bg-slate-800 border-b border-slate-800 last:border-b-0">
+                                  <span className="block text-sm font-bold text-white">{label}</span>
+                                  <span className="block text-[11px] text-slate-400">{hint}</span>
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
                         <button
                           onClick={handleCopyMermaidCode}
                           className="bg-slate-800 border border-slate-600 text-slate-300 hover:bg-slate-700 px-4 py-2 rounded-lg text-sm font-bold shadow-lg transition-all flex items-center gap-2"
                         >
-                          <span>📋</span> {copySuccess ? '¡Copiado!' : 'Copiar Código'}
+                          <span>📋</span> {copySuccess ? '¡Copiado!' : 'Copiar Mermaid'}
                         </button>
                       </div>
                     </>
                   ) : (
                     <div className="flex flex-col items-center justify-center h-full text-slate-400">
-                      <p>No se pudo generar el gráfico.</p>
+                      {loading ? <><LoadingSpinner /><p className="mt-4">Generando esquema...</p></> : <p>No se pudo generar el gráfico.</p>}
                     </div>
                   )}
 
-                  {selectedNodeDescription && (
+                  {isEditingDiagram && diagramData && selectedNode ? (
+                    <DiagramNodeEditor
+                      key={selectedNode.id}
+                      diagram={diagramData}
+                      nodeId={selectedNode.id}
+                      expanding={expandingNode}
+                      onChange={applyDiagramEdit}
+                      onSelect={setSelectedNodeId}
+                      onExpand={handleExpandNode}
+                    />
+                  ) : selectedNode?.detail && (
                     <div className="absolute top-4 right-4 w-72 md:w-80 max-h-[80%] overflow-y-auto bg-slate-900/95 border border-spanishYellow/50 shadow-2xl rounded-xl p-4 z-20 backdrop-blur-sm scrollbar-thin scrollbar-thumb-slate-600">
                       <div className="flex justify-between items-start mb-3 border-b border-slate-700 pb-2">
-                        <h4 className="font-bold text-spanishYellow">Paso Clave</h4>
+                        <h4 className="font-bold text-spanishYellow">{selectedNode.label}</h4>
                         <button onClick={() => setSelectedNodeId(null)} className="text-slate-400 hover:text-white">✕</button>
                       </div>
                       <div className="text-sm text-slate-200 leading-relaxed mb-4 prose prose-invert prose-sm">
-                        <Markdown>{selectedNodeDescription}</Markdown>
+                        <Markdown components={{ a: renderCitationLink }}>{linkifyCitations(selectedNode.detail)}</Markdown>
                       </div>
                       <button onClick={jumpToTextContext} className="w-full flex items-center justify-center gap-2 bg-spanishRed hover:bg-red-700 text-white text-xs font-bold py-2 px-3 rounded transition-colors shadow-md border border-red-800">
                         <BookIcon className="w-4 h-4" /> Ver en la Guía
@@ -628,6 +715,13 @@ export const StudyView: React.FC<StudyViewProps> = ({ topic, onBack }) => {
           </>
         )}
       </div>
+      <ArticleModal articleId={openArticleId} onClose={() => setOpenArticleId(null)} />
+      {showDocuments && (
+        <TopicDocuments topic={topic} onClose={() => setShowDocuments(false)} onChange={docs => setDocumentCount(docs.length)} />
+      )}
+      {showGuideExport && content && (
+        <GuideExportDialog topic={topic} topics={topics} content={content} diagram={diagramData} onClose={() => setShowGuideExport(false)} />
+      )}
     </div>
   );
 };
\ No newline at end of file
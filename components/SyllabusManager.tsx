@@ -0,0 +1,187 @@
+import React, { useRef, useState } from 'react';
+import { ConstitutionTopic } from '../types';
+import { TOPICS } from '../constants';
+import {
+  applySyllabusImport,
+  createTopicId,
+  deleteTopicData,
+  parseSyllabusImport,
+  renameTopicData,
+  saveSyllabus,
+  syllabusToJson,
+  syllabusToMarkdown
+} from '../services/syllabus';
+import { formatArticleRanges, formatTopicArticles, parseArticleReferences } from '../services/articleRefs';
+import { downloadFile } from '../services/exportUtils';
+import { BackIcon } from './Icons';
+import { QuestionTransfer } from './QuestionTransfer';
+
+interface SyllabusManagerProps {
+  topics: ConstitutionTopic[];
+  onChange: (topics: ConstitutionTopic[]) => void;
+  onBack: () => void;
+}
+
+// Article references are edited as text and parsed into ranges on save
+interface TopicDraft {
+  title: string;
+  description: string;
+  articles: string;
+}
+
+const EMPTY_DRAFT: TopicDraft = { title: '', description: '', articles: '' };
+
+const inputClass = "w-full bg-slate-900 text-white rounded-lg border border-slate-600 px-3 py-2 focus:outline-none focus:border-spanishYellow placeholder-slate-500 text-sm";
+
+export const SyllabusManager: React.FC<SyllabusManagerProps> = ({ topics, onChange, onBack }) => {
+  // 'new' while adding a topic, the topic id while editing one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<TopicDraft>(EMPTY_DRAFT);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const [showQuestionTransfer, setShowQuestionTransfer] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const commit = (next: ConstitutionTopic[]) => {
+    saveSyllabus(next);
+    onChange(next);
+  };
+
+  const startEdit = (topic: ConstitutionTopic) => {
+    setEditingId(topic.id);
+    setDraft({ title: topic.title, description: topic.description, articles: formatTopicArticles(topic) });
+  };
+
+  const startAdd = () => {
+    setEditingId('new');
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const saveDraft = () => {
+    const title = draft.title.trim();
+    if (!title) return;
+    const { ranges, otherLaws } = parseArticleReferences(draft.articles);
+    const cleaned = { title, description: draft.description.trim(), articles: ranges, ...(otherLaws.length > 0 ? { otherLaws } : {}) };
+
+    if (editingId === 'new') {
+      commit([...topics, { id: createTopicId(title, topics), ...cleaned }]);
+    } else {
+      const previous = topics.find(t => t.id === editingId);
+      if (previous) renameTopicData(previous.id, previous.title, title);
+      commit(topics.map(t => t.id === editingId ? { id: t.id, ...cleaned } : t));
+    }
+    setEditingId(null);
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= topics.length) return;
+    const next = [...topics];
+    [next[index], next[target]] = [next[target], next[index]];
+    commit(next);
+  };
+
+  const remove = (topic: ConstitutionTopic) => {
+    if (topics.length === 1) return;
+    if (!window.confirm(`¿Eliminar "${topic.title}"? Se borrarán su progreso, el material de estudio guardado, sus documentos y su banco de preguntas.`)) return;
+    deleteTopicData(topic.id);
+    commit(topics.filter(t => t.id !== topic.id));
+  };
+
+  const restoreDefaults = () => {
+    if (!window.confirm('¿Restaurar el temario oficial incluido en la aplicación? Los temas añadidos desaparecerán de la lista, pero sus datos se conservan por si vuelves a importarlos.')) return;
+    commit(TOPICS);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const result = parseSyllabusImport(await file.text(), topics);
+      if (!window.confirm(`Se importarán ${result.topics.length} temas y sustituirán al temario actual. ¿Continuar?`)) return;
+      applySyllabusImport(result, topics);
+      onChange(result.topics);
+      setMessage({ ok: true, text: `Temario importado: ${result.topics.length} temas.` });
+    } catch (error) {
+      setMessage({ ok: false, text: error instanceof Error ? error.message : 'No se pudo leer el archivo.' });
+    }
+  };
+
+  const renderForm = () => {
+    const parsed = parseArticleReferences(draft.articles);
+    return (
+    <div className="bg-slate-800 border border-spanishYellow/40 rounded-xl p-4 space-y-3">
+      <input className={inputClass} placeholder="Título (p. ej. TEMA 4: El Tribunal Constitucional)" value={draft.title} onChange={e => setDraft({ ...draft, title: e.target.value })} autoFocus />
+      <div>
+        <input className={inputClass} placeholder="Artículos / normativa (p. ej. Arts. 159-165 CE / LBRL)" value={draft.articles} onChange={e => setDraft({ ...draft, articles: e.target.value })} />
+        {draft.articles.trim() && (
+          <p className="text-[11px] text-slate-400 mt-1">
+            Se guardará como: <span className="text-spanishYellow">{formatArticleRanges(parsed.ranges) || '—'}</span>
+            {parsed.otherLaws.length > 0 && <> · Sin texto incluido: {parsed.otherLaws.join(', ')}</>}
+          </p>
+        )}
+      </div>
+      <textarea className={`${inputClass} min-h-[5rem]`} placeholder="Descripción del contenido según la convocatoria" value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} />
+      <div className="flex justify-end gap-2">
+        <button onClick={() => setEditingId(null)} className="px-4 py-2 rounded-lg text-sm bg-slate-700 hover:bg-slate-600 border border-slate-600">Cancelar</button>
+        <button onClick={saveDraft} disabled={!draft.title.trim()} className="px-4 py-2 rounded-lg text-sm font-bold bg-spanishRed hover:bg-red-700 text-white disabled:opacity-50">Guardar</button>
+      </div>
+    </div>
+    );
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-4 md:p-8 bg-slate-900 text-slate-100">
+      <div className="max-w-3xl mx-auto">
+        <button onClick={onBack} className="flex items-center gap-2 text-spanishYellow hover:text-white mb-6 transition-colors">
+          <BackIcon /> <span>Temario</span>
+        </button>
+        <h1 className="text-3xl font-bold text-white mb-2 relative inline-block">
+          Editar temario
+          <span className="absolute bottom-0 left-0 w-full h-1 bg-gradient-to-r from-spanishRed via-spanishYellow to-spanishRed rounded-full"></span>
+        </h1>
+        <p className="text-slate-400 mt-2 mb-6">Adapta los temas a tu convocatoria. El progreso, el material y las preguntas de cada tema se conservan al editarlo.</p>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          <button onClick={startAdd} className="px-4 py-2 rounded-lg text-sm font-bold bg-spanishRed hover:bg-red-700 text-white shadow-lg">+ Añadir tema</button>
+          <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2 rounded-lg text-sm bg-slate-800 hover:bg-slate-700 border border-slate-600">Importar (JSON / Markdown)</button>
+          <button onClick={() => downloadFile(syllabusToJson(topics), 'temario.json', 'application/json')} className="px-4 py-2 rounded-lg text-sm bg-slate-800 hover:bg-slate-700 border border-slate-600">Exportar JSON</button>
+          <button onClick={() => downloadFile(syllabusToMarkdown(topics), 'temario.md', 'text/markdown')} className="px-4 py-2 rounded-lg text-sm bg-slate-800 hover:bg-slate-700 border border-slate-600">Exportar Markdown</button>
+          <button onClick={() => setShowQuestionTransfer(true)} className="px-4 py-2 rounded-lg text-sm bg-slate-800 hover:bg-slate-700 border border-slate-600">Preguntas (GIFT / Aiken / XML / CSV)</button>
+          <button onClick={restoreDefaults} className="px-4 py-2 rounded-lg text-sm text-slate-400 hover:text-white">Restaurar temario oficial</button>
+          <input ref={fileInputRef} type="file" accept=".json,.md,.markdown,.txt" className="hidden" onChange={handleImport} />
+        </div>
+
+        {message && (
+          <div className={`mb-6 p-3 rounded-lg border text-sm ${message.ok ? 'border-emerald-500/30 bg-emerald-900/10 text-emerald-200' : 'border-red-500/30 bg-red-900/10 text-red-300'}`}>
+            {message.text}
+          </div>
+        )}
+
+        <div className="space-y-3 pb-12">
+          {editingId === 'new' && renderForm()}
+          {topics.map((topic, index) => editingId === topic.id ? (
+            <React.Fragment key={topic.id}>{renderForm()}</React.Fragment>
+          ) : (
+            <div key={topic.id} className="bg-slate-800 border border-slate-700 rounded-xl p-4 flex gap-3 items-start">
+              <div className="flex flex-col gap-1 pt-1">
+                <button onClick={() => move(index, -1)} disabled={index === 0} className="text-slate-500 hover:text-spanishYellow disabled:opacity-20 text-xs" title="Subir">▲</button>
+                <button onClick={() => move(index, 1)} disabled={index === topics.length - 1} className="text-slate-500 hover:text-spanishYellow disabled:opacity-20 text-xs" title="Bajar">▼</button>
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="font-bold text-white">{topic.title}</p>
+                {formatTopicArticles(topic) && <p className="text-xs text-spanishYellow mt-1">{formatTopicArticles(topic)}</p>}
+                {topic.description && <p className="text-sm text-slate-400 mt-1 line-clamp-2">{topic.description}</p>}
+              </div>
+              <div className="flex gap-2 flex-none">
+                <button onClick={() => startEdit(topic)} className="px-3 py-1.5 rounded text-xs font-bold bg-slate-700 hover:bg-slate-600 border border-slate-600">Editar</button>
+                <button onClick={() => remove(topic)} disabled={topics.length === 1} className="px-2 py-1.5 rounded text-xs text-slate-500 hover:text-red-400 disabled:opacity-30" title="Eliminar tema">✕</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+      {showQuestionTransfer && <QuestionTransfer topics={topics} onClose={() => setShowQuestionTransfer(false)} />}
+    </div>
+  );
+};
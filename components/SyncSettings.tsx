@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { RemoteProfile, SyncSettings as SyncSettingsValue } from '../types';
+import {
+  SyncStatus,
+  checkSyncServer,
+  clearSyncConflicts,
+  listRemoteProfiles,
+  loadSyncSettings,
+  resetSyncState,
+  saveSyncSettings,
+  subscribeSyncStatus,
+  syncNow,
+  unlockRemoteProfile
+} from '../services/sync';
+import { addRemoteProfile, getActiveProfile, loadProfiles } from '../services/profiles';
+import { reloadIntoProfile } from './ProfileSwitcher';
+import { LoadingSpinner } from './Icons';
+
+const inputClass = "w-full bg-slate-800 text-white rounded-lg border border-slate-600 px-3 py-2 focus:outline-none focus:border-spanishYellow placeholder-slate-500 text-sm";
+
+const PHASE_LABELS: Record<SyncStatus['phase'], { text: string; className: string }> = {
+  disabled: { text: 'Desactivada', className: 'text-slate-400' },
+  idle: { text: 'Sincronizado', className: 'text-emerald-400' },
+  syncing: { text: 'Sincronizando...', className: 'text-spanishYellow animate-pulse' },
+  offline: { text: 'Sin conexión: los cambios se enviarán al volver', className: 'text-orange-300' },
+  error: { text: 'Error', className: 'text-red-400' }
+};
+
+export const SyncSettings: React.FC = () => {
+  const [settings, setSettings] = useState<SyncSettingsValue>(() => loadSyncSettings());
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+  const [checkResult, setCheckResult] = useState<{ ok: boolean; text: string } | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [remoteProfiles, setRemoteProfiles] = useState<RemoteProfile[] | null>(null);
+  // PIN being typed to add a protected profile from the server
+  const [unlocking, setUnlocking] = useState<{ profileId: string; pin: string; error: string | null } | null>(null);
+  const [localProfileIds, setLocalProfileIds] = useState(() => new Set(loadProfiles().map(p => p.id)));
+
+  useEffect(() => subscribeSyncStatus(setStatus), []);
+
+  const handleSave = () => {
+    const previous = loadSyncSettings();
+    saveSyncSettings(settings);
+    // A different server knows nothing of what this device already sent
+    if (previous.serverUrl.replace(/\/+$/, '') !== settings.serverUrl.replace(/\/+$/, '')) resetSyncState();
+    syncNow();
+  };
+
+  const handleCheck = async () => {
+    setChecking(true);
+    setCheckResult(null);
+    try {
+      await checkSyncServer(settings);
+      const profiles = await listRemoteProfiles(settings);
+      setRemoteProfiles(profiles);
+      setCheckResult({ ok: true, text: `Servidor disponible. ${profiles.length} perfiles guardados en él.` });
+    } catch (error) {
+      setRemoteProfiles(null);
+      setCheckResult({ ok: false, text: error instanceof Error ? error.message : String(error) });
+    }
+    setChecking(false);
+  };
+
+  const handleAddProfile = async (profile: RemoteProfile, pin = '') => {
+    if (profile.hasPin && !pin) {
+      setUnlocking({ profileId: profile.id, pin: '', error: null });
+      return;
+    }
+    try {
+      const { hasPin, ...fields } = profile;
+      addRemoteProfile(hasPin ? await unlockRemoteProfile(profile, pin, settings) : { ...fields, pinHash: null });
+      setUnlocking(null);
+      setLocalProfileIds(new Set(loadProfiles().map(p => p.id)));
+    } catch (error) {
+      setUnlocking({ profileId: profile.id, pin: '', error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const phase = status ? PHASE_LABELS[status.phase] : null;
+  const otherProfiles = (remoteProfiles ?? []).filter(p => p.id !== getActiveProfile().id);
+
+  return (
+    <div className="pb-12">
+      <h2 className="text-xl font-bold text-white mt-12 mb-2">Sincronización</h2>
+      <p className="text-slate-400 text-sm mb-4">
+        Conecta la aplicación a tu propio servidor (carpeta <code className="text-slate-300">server/</code>) para llevar tu progreso, tests, tarjetas de repaso,
+        banco de preguntas, guías y esquemas entre el móvil y el ordenador. Todo sigue funcionando sin conexión y se reconcilia al volver a estar en línea.
+      </p>
+
+      <label className="flex items-center gap-3 mb-4 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={e => setSettings(prev => ({ ...prev, enabled: e.target.checked }))}
+          className="accent-spanishRed"
+        />
+        <span className="font-bold text-white">Sincronizar este dispositivo</span>
+      </label>
+
+      <div className="space-y-4 mb-4">
+        <label className="block">
+          <span className="text-sm text-slate-400 mb-1 block">URL del servidor</span>
+          <input className={inputClass} placeholder="http://localhost:8787" value={settings.serverUrl} onChange={e => setSettings(prev => ({ ...prev, serverUrl: e.target.value }))} />
+        </label>
+        <label className="block">
+          <span className="text-sm text-slate-400 mb-1 block">Token de acceso (si el servidor lo exige)</span>
+          <input type="password" className={inputClass} value={settings.token} onChange={e => setSettings(prev => ({ ...prev, token: e.target.value }))} />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button onClick={handleSave} className="px-6 py-3 bg-spanishRed hover:bg-red-700 text-white rounded-lg font-bold shadow-lg">
+          Guardar y sincronizar
+        </button>
+        <button onClick={handleCheck} disabled={checking || !settings.serverUrl} className="px-6 py-3 bg-slate-700 hover:bg-slate-600 rounded-lg font-medium border border-slate-600 disabled:opacity-50">
+          Probar servidor
+        </button>
+        {checking && <LoadingSpinner />}
+      </div>
+
+      {status && phase && (
+        <div className="mt-4 p-4 rounded-xl border border-slate-700 bg-slate-800 text-sm space-y-1">
+          <p>
+            <span className="text-slate-400">Estado: </span>
+            <span className={`font-bold ${phase.className}`}>{phase.text}</span>
+          </p>
+          {status.message && <p className="text-red-300 break-words">{status.message}</p>}
+          <p className="text-slate-400">
+            {status.pending > 0 ? `${status.pending} cambios pendientes de enviar` : 'Sin cambios pendientes'}
+            {status.lastSyncAt && ` · Última sincronización: ${new Date(status.lastSyncAt).toLocaleString('es-ES')}`}
+          </p>
+          <p className="text-xs text-slate-500">Se sincroniza el perfil activo. Los cambios recibidos se muestran al cambiar de pantalla.</p>
+        </div>
+      )}
+
+      {status && status.conflicts.length > 0 && (
+        <div className="mt-4 p-4 rounded-xl border border-orange-500/30 bg-orange-900/10 text-sm">
+          <div className="flex justify-between items-center mb-2">
+            <p className="font-bold text-orange-200">Ediciones en conflicto</p>
+            <button onClick={clearSyncConflicts} className="text-xs text-slate-400 hover:text-white">Descartar avisos</button>
+          </div>
+          <p className="text-xs text-slate-400 mb-2">Se modificó lo mismo en dos dispositivos sin conexión; se conservó la versión más reciente.</p>
+          <ul className="space-y-1">
+            {status.conflicts.map(conflict => (
+              <li key={`${conflict.collection}/${conflict.id}/${conflict.date}`} className="text-slate-300">
+                {conflict.label} — {conflict.kept === 'local' ? 'se mantuvo la de este dispositivo' : 'se mantuvo la del otro dispositivo'}
+                <span className="text-slate-500"> · {new Date(conflict.date).toLocaleString('es-ES')}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {checkResult && (
+        <div className={`mt-4 p-4 rounded-lg border text-sm ${checkResult.ok ? 'border-emerald-500/30 bg-emerald-900/10 text-emerald-200' : 'border-red-500/30 bg-red-900/10 text-red-300'}`}>
+          {checkResult.text}
+        </div>
+      )}
+
+      {otherProfiles.length > 0 && (
+        <div className="mt-4 p-4 rounded-xl border border-slate-700 bg-slate-800">
+          <p className="font-bold text-white mb-1">Perfiles en el servidor</p>
+          <p className="text-xs text-slate-400 mb-3">Añade los de otros dispositivos para continuar aquí con su progreso; sus datos se descargan al usarlos.</p>
+          <ul className="space-y-2">
+            {otherProfiles.map(profile => (
+              <li key={profile.id} className="text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-slate-200">{profile.name} {profile.hasPin && <span title="Protegido con PIN">🔒</span>}</span>
+                  {localProfileIds.has(profile.id) ? (
+                    <button onClick={() => reloadIntoProfile(profile.id)} className="px-3 py-1.5 rounded text-xs font-bold bg-spanishRed hover:bg-red-700 text-white">Usar</button>
+                  ) : (
+                    <button onClick={() => handleAddProfile(profile)} className="px-3 py-1.5 rounded text-xs font-bold bg-slate-700 hover:bg-slate-600 border border-slate-600">
+                      Añadir a este dispositivo
+                    </button>
+                  )}
+                </div>
+                {unlocking?.profileId === profile.id && (
+                  <form onSubmit={e => { e.preventDefault(); handleAddProfile(profile, unlocking.pin); }} className="flex flex-wrap items-center gap-2 mt-2">
+                    <div className="w-40">
+                      <input
+                        type="password"
+                        inputMode="numeric"
+                        placeholder="PIN del perfil"
+                        className={inputClass}
+                        value={unlocking.pin}
+                        onChange={e => setUnlocking({ ...unlocking, pin: e.target.value })}
+                        autoFocus
+                      />
+                    </div>
+                    <button type="submit" disabled={!unlocking.pin} className="px-3 py-2 rounded-lg text-xs font-bold bg-spanishRed hover:bg-red-700 text-white disabled:opacity-50">Añadir</button>
+                    {unlocking.error && <span className="text-xs text-red-400">{unlocking.error}</span>}
+                  </form>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useRef, useState } from 'react';
+import { ConstitutionTopic, TopicDocument } from '../types';
+import { addTopicDocument, deleteTopicDocument, getTopicDocuments } from '../services/documents';
+import { ACCEPTED_DOCUMENT_TYPES } from '../services/documentParser';
+
+interface TopicDocumentsProps {
+  topic: ConstitutionTopic;
+  onClose: () => void;
+  onChange: (documents: TopicDocument[]) => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const KIND_ICONS: Record<TopicDocument['kind'], string> = { pdf: '📕', docx: '📘', txt: '📄', md: '📝' };
+
+export const TopicDocuments: React.FC<TopicDocumentsProps> = ({ topic, onClose, onChange }) => {
+  const [documents, setDocuments] = useState<TopicDocument[]>(() => getTopicDocuments(topic.id));
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => {
+    const next = getTopicDocuments(topic.id);
+    setDocuments(next);
+    onChange(next);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setUploading(true);
+    setError(null);
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        await addTopicDocument(topic.id, file);
+      } catch (err) {
+        failed.push(`${file.name}: ${err instanceof Error ? err.message : 'no se pudo leer el archivo.'}`);
+      }
+    }
+    if (failed.length > 0) setError(failed.join('\n'));
+    setUploading(false);
+    refresh();
+  };
+
+  const handleDelete = (doc: TopicDocument) => {
+    if (!window.confirm(`¿Eliminar "${doc.name}" del material de este tema?`)) return;
+    deleteTopicDocument(topic.id, doc.id);
+    refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4" onClick={onClose}>
+      <div className="bg-slate-900 border border-spanishYellow/50 rounded-xl shadow-2xl max-w-2xl w-full max-h-[80vh] overflow-y-auto p-6" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-start mb-4 border-b border-slate-700 pb-3">
+          <div>
+            <h3 className="text-lg font-bold text-spanishYellow">📎 Mi material de estudio</h3>
+            <p className="text-xs text-slate-400">{topic.title}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">✕</button>
+        </div>
+
+        <p className="text-sm text-slate-300 mb-4">
+          Sube tus apuntes o temas (PDF, DOCX, TXT o Markdown). Se leen en tu navegador y solo se guarda su texto.
+          La guía, el esquema y los tests de este tema los usarán como fuente principal, citando el fragmento exacto.
+        </p>
+
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploading}
+          className="w-full mb-4 py-3 rounded-lg border-2 border-dashed border-slate-600 hover:border-spanishYellow text-slate-300 hover:text-white text-sm font-medium transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+        >
+          {uploading ? <span className="animate-pulse">Leyendo documentos...</span> : '+ Añadir documentos'}
+        </button>
+        <input ref={fileInputRef} type="file" multiple accept={ACCEPTED_DOCUMENT_TYPES} className="hidden" onChange={handleUpload} />
+
+        {error && (
+          <div className="mb-4 p-3 rounded-lg border border-red-500/30 bg-red-900/10 text-red-300 text-sm whitespace-pre-line">{error}</div>
+        )}
+
+        {documents.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-4">Este tema aún no tiene documentos.</p>
+        ) : (
+          <ul className="space-y-2">
+            {documents.map(doc => (
+              <li key={doc.id} className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 flex items-center gap-3">
+                <span className="text-xl">{KIND_ICONS[doc.kind]}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-white truncate">{doc.name}</p>
+                  <p className="text-xs text-slate-400">
+                    {formatSize(doc.size)} · {doc.text.length.toLocaleString('es-ES')} caracteres · {new Date(doc.uploadedAt).toLocaleDateString('es-ES')}
+                  </p>
+                </div>
+                <button onClick={() => handleDelete(doc)} className="px-2 py-1 rounded text-xs text-slate-500 hover:text-red-400" title="Eliminar documento">✕</button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -5,54 +5,56 @@ export const TOPICS: ConstitutionTopic[] = [
     id: "tema_1_constitucion",
     title: "TEMA 1: La Constitución Española de 1978",
     description: "Principios generales y estructura. Los derechos y deberes fundamentales: garantía y suspensión. La Transición, características y el Tribunal Constitucional.",
-    articles: "Arts. 1-55, 159-169"
+    articles: [{ law: 'CE', from: 1, to: 55 }, { law: 'CE', from: 159, to: 169 }]
   },
   {
     id: "tema_2_corona_cortes",
     title: "TEMA 2: La Corona. Las Cortes Generales",
     description: "Funciones del Rey, sucesión y regencia. Congreso y Senado: composición, atribuciones y funcionamiento. Defensor del Pueblo.",
-    articles: "Arts. 56-96"
+    articles: [{ law: 'CE', from: 56, to: 96 }]
   },
   {
     id: "tema_3_gobierno_judicial",
     title: "TEMA 3: El Gobierno y la Administración. Poder Judicial",
     description: "Composición y funciones del Gobierno. Administración General del Estado. Relaciones con las Cortes. Principios del Poder Judicial y CGPJ.",
-    articles: "Arts. 97-127"
+    articles: [{ law: 'CE', from: 97, to: 127 }]
   },
   {
     id: "tema_5_estatuto_andalucia",
     title: "TEMA 5: Estatuto de Autonomía para Andalucía",
     description: "Estructura y disposiciones generales. Competencias de la Comunidad Autónoma. Organización institucional (Parlamento, Presidente, Consejo de Gobierno).",
-    articles: "Estatuto Autonomía"
+    articles: [{ law: 'EAA' }]
   },
   {
     id: "tema_6_regimen_local",
     title: "TEMA 6: El Régimen Local Español",
     description: "Principios constitucionales y regulación jurídica. Tipología de entes públicos. Autonomía local.",
-    articles: "LBRL / Art. 137-142 CE"
+    articles: [{ law: 'LBRL' }, { law: 'CE', from: 137, to: 142 }]
   },
   {
     id: "tema_8_municipio",
     title: "TEMA 8: El Municipio",
     description: "Organización municipal (Alcalde, Pleno, Junta de Gobierno). Competencias propias, delegadas e impropias. Padrón municipal.",
-    articles: "LBRL / LAULA"
+    articles: [{ law: 'LBRL' }],
+    otherLaws: ["LAULA"]
   },
   {
     id: "tema_10_hacienda_local",
     title: "TEMA 10: Derecho Financiero y Hacienda Local",
     description: "Concepto y contenido del Derecho Financiero. La Hacienda Local en la Constitución. Régimen jurídico de las Haciendas Locales (TRLRHL).",
-    articles: "TRLRHL"
+    articles: [{ law: 'TRLRHL' }]
   },
   {
     id: "tema_11_prl",
     title: "TEMA 11: Prevención de Riesgos Laborales",
     description: "Ley 31/1995. Definiciones, derechos a la protección, obligaciones de empresa y trabajadores, y principios de la acción preventiva.",
-    articles: "Ley 31/1995"
+    articles: [{ law: 'LPRL' }]
   },
   {
     id: "tema_igualdad",
     title: "TEMA: Políticas de Igualdad",
     description: "Políticas de igualdad entre mujeres y hombres. Teoría sexo-género. Marco normativo (estatal, autonómico, local). Violencia de género.",
-    articles: "LO 3/2007, Ley 12/2007"
+    articles: [{ law: 'LOI' }],
+    otherLaws: ["Ley 12/2007"]
   }
 ];
\ No newline at end of file
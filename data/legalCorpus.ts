@@ -0,0 +1,246 @@
+import { LawId, LegalArticle } from "../types";
+
+// Bundled article texts used to ground every AI prompt. This is a curated selection of the
+// articles most frequently examined in the syllabus, not the complete text of each law; `boeId`
+// points to the consolidated text in the BOE for everything else.
+
+export const LAWS: Record<LawId, { shortName: string; fullName: string; keywords: string[]; boeId: string }> = {
+  CE: {
+    shortName: 'CE',
+    fullName: 'Constitución Española de 1978',
+    keywords: ['constitucion', 'ce', 'constitucional'],
+    boeId: 'BOE-A-1978-31229'
+  },
+  EAA: {
+    shortName: 'EAA',
+    fullName: 'Estatuto de Autonomía para Andalucía (LO 2/2007)',
+    keywords: ['estatuto', 'andalucia', 'autonomia', 'junta'],
+    boeId: 'BOE-A-2007-5825'
+  },
+  LBRL: {
+    shortName: 'LBRL',
+    fullName: 'Ley 7/1985, Reguladora de las Bases del Régimen Local',
+    keywords: ['lbrl', 'regimen', 'local', 'municipio', 'bases'],
+    boeId: 'BOE-A-1985-5392'
+  },
+  TRLRHL: {
+    shortName: 'TRLRHL',
+    fullName: 'Texto Refundido de la Ley Reguladora de las Haciendas Locales (RDLeg 2/2004)',
+    keywords: ['trlrhl', 'hacienda', 'haciendas', 'financiero', 'tributos'],
+    boeId: 'BOE-A-2004-4214'
+  },
+  LPRL: {
+    shortName: 'Ley 31/1995',
+    fullName: 'Ley 31/1995, de Prevención de Riesgos Laborales',
+    keywords: ['prevencion', 'riesgos', 'laborales', '31/1995', 'prl'],
+    boeId: 'BOE-A-1995-24292'
+  },
+  LOI: {
+    shortName: 'LO 3/2007',
+    fullName: 'Ley Orgánica 3/2007, para la igualdad efectiva de mujeres y hombres',
+    keywords: ['igualdad', 'mujeres', 'hombres', '3/2007', 'genero'],
+    boeId: 'BOE-A-2007-6115'
+  }
+};
+
+const article = (law: LawId, number: string, text: string, title?: string): LegalArticle => ({
+  id: `${law}-${number}`,
+  law,
+  number,
+  title,
+  text
+});
+
+export const LEGAL_CORPUS: LegalArticle[] = [
+  // --- Constitución Española ---
+  article('CE', '1', `1. España se constituye en un Estado social y democrático de Derecho, que propugna como valores superiores de su ordenamiento jurídico la libertad, la justicia, la igualdad y el pluralismo político.
+2. La soberanía nacional reside en el pueblo español, del que emanan los poderes del Estado.
+3. La forma política del Estado español es la Monarquía parlamentaria.`),
+  article('CE', '2', `La Constitución se fundamenta en la indisoluble unidad de la Nación española, patria común e indivisible de todos los españoles, y reconoce y garantiza el derecho a la autonomía de las nacionalidades y regiones que la integran y la solidaridad entre todas ellas.`),
+  article('CE', '3', `1. El castellano es la lengua española oficial del Estado. Todos los españoles tienen el deber de conocerla y el derecho a usarla.
+2. Las demás lenguas españolas serán también oficiales en las respectivas Comunidades Autónomas de acuerdo con sus Estatutos.
+3. La riqueza de las distintas modalidades lingüísticas de España es un patrimonio cultural que será objeto de especial respeto y protección.`),
+  article('CE', '9', `1. Los ciudadanos y los poderes públicos están sujetos a la Constitución y al resto del ordenamiento jurídico.
+2. Corresponde a los poderes públicos promover las condiciones para que la libertad y la igualdad del individuo y de los grupos en que se integra sean reales y efectivas; remover los obstáculos que impidan o dificulten su plenitud y facilitar la participación de todos los ciudadanos en la vida política, económica, cultural y social.
+3. La Constitución garantiza el principio de legalidad, la jerarquía normativa, la publicidad de las normas, la irretroactividad de las disposiciones sancionadoras no favorables o restrictivas de derechos individuales, la seguridad jurídica, la responsabilidad y la interdicción de la arbitrariedad de los poderes públicos.`),
+  article('CE', '10', `1. La dignidad de la persona, los derechos inviolables que le son inherentes, el libre desarrollo de la personalidad, el respeto a la ley y a los derechos de los demás son fundamento del orden político y de la paz social.
+2. Las normas relativas a los derechos fundamentales y a las libertades que la Constitución reconoce se interpretarán de conformidad con la Declaración Universal de Derechos Humanos y los tratados y acuerdos internacionales sobre las mismas materias ratificados por España.`),
+  article('CE', '12', `Los españoles son mayores de edad a los dieciocho años.`),
+  article('CE', '14', `Los españoles son iguales ante la ley, sin que pueda prevalecer discriminación alguna por razón de nacimiento, raza, sexo, religión, opinión o cualquier otra condición o circunstancia personal o social.`),
+  article('CE', '23', `1. Los ciudadanos tienen el derecho a participar en los asuntos públicos, directamente o por medio de representantes, libremente elegidos en elecciones periódicas por sufragio universal.
+2. Asimismo, tienen derecho a acceder en condiciones de igualdad a las funciones y cargos públicos, con los requisitos que señalen las leyes.`),
+  article('CE', '53', `1. Los derechos y libertades reconocidos en el Capítulo segundo del presente Título vinculan a todos los poderes públicos. Sólo por ley, que en todo caso deberá respetar su contenido esencial, podrá regularse el ejercicio de tales derechos y libertades, que se tutelarán de acuerdo con lo previsto en el artículo 161, 1, a).
+2. Cualquier ciudadano podrá recabar la tutela de las libertades y derechos reconocidos en el artículo 14 y la Sección primera del Capítulo segundo ante los Tribunales ordinarios por un procedimiento basado en los principios de preferencia y sumariedad y, en su caso, a través del recurso de amparo ante el Tribunal Constitucional. Este último recurso será aplicable a la objeción de conciencia reconocida en el artículo 30.
+3. El reconocimiento, el respeto y la protección de los principios reconocidos en el Capítulo tercero informarán la legislación positiva, la práctica judicial y la actuación de los poderes públicos. Sólo podrán ser alegados ante la Jurisdicción ordinaria de acuerdo con lo que dispongan las leyes que los desarrollen.`),
+  article('CE', '54', `Una ley orgánica regulará la institución del Defensor del Pueblo, como alto comisionado de las Cortes Generales, designado por éstas para la defensa de los derechos comprendidos en este Título, a cuyo efecto podrá supervisar la actividad de la Administración, dando cuenta a las Cortes Generales.`),
+  article('CE', '55', `1. Los derechos reconocidos en los artículos 17, 18, apartados 2 y 3, artículos 19, 20, apartados 1, a) y d), y 5, artículos 21, 28, apartado 2, y artículo 37, apartado 2, podrán ser suspendidos cuando se acuerde la declaración del estado de excepción o de sitio en los términos previstos en la Constitución. Se exceptúa de lo establecido anteriormente el apartado 3 del artículo 17 para el supuesto de declaración de estado de excepción.
+2. Una ley orgánica podrá determinar la forma y los casos en los que, de forma individual y con la necesaria intervención judicial y el adecuado control parlamentario, los derechos reconocidos en los artículos 17, apartado 2, y 18, apartados 2 y 3, pueden ser suspendidos para personas determinadas, en relación con las investigaciones correspondientes a la actuación de bandas armadas o elementos terroristas.`),
+  article('CE', '56', `1. El Rey es el Jefe del Estado, símbolo de su unidad y permanencia, arbitra y modera el funcionamiento regular de las instituciones, asume la más alta representación del Estado español en las relaciones internacionales, especialmente con las naciones de su comunidad histórica, y ejerce las funciones que le atribuyen expresamente la Constitución y las leyes.
+2. Su título es el de Rey de España y podrá utilizar los demás que correspondan a la Corona.
+3. La persona del Rey es inviolable y no está sujeta a responsabilidad. Sus actos estarán siempre refrendados en la forma establecida en el artículo 64, careciendo de validez sin dicho refrendo, salvo lo dispuesto en el artículo 65, 2.`),
+  article('CE', '57', `1. La Corona de España es hereditaria en los sucesores de S. M. Don Juan Carlos I de Borbón, legítimo heredero de la dinastía histórica. La sucesión en el trono seguirá el orden regular de primogenitura y representación, siendo preferida siempre la línea anterior a las posteriores; en la misma línea, el grado más próximo al más remoto; en el mismo grado, el varón a la mujer, y en el mismo sexo, la persona de más edad a la de menos.
+2. El Príncipe heredero, desde su nacimiento o desde que se produzca el hecho que origine el llamamiento, tendrá la dignidad de Príncipe de Asturias y los demás títulos vinculados tradicionalmente al sucesor de la Corona de España.
+3. Extinguidas todas las líneas llamadas en Derecho, las Cortes Generales proveerán a la sucesión en la Corona en la forma que más convenga a los intereses de España.
+4. Aquellas personas que teniendo derecho a la sucesión en el trono contrajeren matrimonio contra la expresa prohibición del Rey y de las Cortes Generales, quedarán excluidas en la sucesión a la Corona por sí y sus descendientes.
+5. Las abdicaciones y renuncias y cualquier duda de hecho o de derecho que ocurra en el orden de sucesión a la Corona se resolverán por una ley orgánica.`),
+  article('CE', '62', `Corresponde al Rey:
+a) Sancionar y promulgar las leyes.
+b) Convocar y disolver las Cortes Generales y convocar elecciones en los términos previstos en la Constitución.
+c) Convocar a referéndum en los casos previstos en la Constitución.
+d) Proponer el candidato a Presidente del Gobierno y, en su caso, nombrarlo, así como poner fin a sus funciones en los términos previstos en la Constitución.
+e) Nombrar y separar a los miembros del Gobierno, a propuesta de su Presidente.
+f) Expedir los decretos acordados en el Consejo de Ministros, conferir los empleos civiles y militares y conceder honores y distinciones con arreglo a las leyes.
+g) Ser informado de los asuntos de Estado y presidir, a estos efectos, las sesiones del Consejo de Ministros, cuando lo estime oportuno, a petición del Presidente del Gobierno.
+h) El mando supremo de las Fuerzas Armadas.
+i) Ejercer el derecho de gracia con arreglo a la ley, que no podrá autorizar indultos generales.
+j) El Alto Patronazgo de las Reales Academias.`),
+  article('CE', '66', `1. Las Cortes Generales representan al pueblo español y están formadas por el Congreso de los Diputados y el Senado.
+2. Las Cortes Generales ejercen la potestad legislativa del Estado, aprueban sus Presupuestos, controlan la acción del Gobierno y tienen las demás competencias que les atribuya la Constitución.
+3. Las Cortes Generales son inviolables.`),
+  article('CE', '68', `1. El Congreso se compone de un mínimo de 300 y un máximo de 400 Diputados, elegidos por sufragio universal, libre, igual, directo y secreto, en los términos que establezca la ley.
+2. La circunscripción electoral es la provincia. Las poblaciones de Ceuta y Melilla estarán representadas cada una de ellas por un Diputado. La ley distribuirá el número total de Diputados, asignando una representación mínima inicial a cada circunscripción y distribuyendo los demás en proporción a la población.
+3. La elección se verificará en cada circunscripción atendiendo a criterios de representación proporcional.
+4. El Congreso es elegido por cuatro años. El mandato de los Diputados termina cuatro años después de su elección o el día de la disolución de la Cámara.
+5. Son electores y elegibles todos los españoles que estén en pleno uso de sus derechos políticos. La ley reconocerá y el Estado facilitará el ejercicio del derecho de sufragio a los españoles que se encuentren fuera del territorio de España.
+6. Las elecciones tendrán lugar entre los treinta días y sesenta días desde la terminación del mandato. El Congreso electo deberá ser convocado dentro de los veinticinco días siguientes a la celebración de las elecciones.`),
+  article('CE', '69', `1. El Senado es la Cámara de representación territorial.
+2. En cada provincia se elegirán cuatro Senadores por sufragio universal, libre, igual, directo y secreto por los votantes de cada una de ellas, en los términos que señale una ley orgánica.
+3. En las provincias insulares, cada isla o agrupación de ellas, con Cabildo o Consejo Insular, constituirá una circunscripción a efectos de elección de Senadores, correspondiendo tres a cada una de las islas mayores —Gran Canaria, Mallorca y Tenerife— y uno a cada una de las siguientes islas o agrupaciones: Ibiza-Formentera, Menorca, Fuerteventura, Gomera, Hierro, Lanzarote y La Palma.
+4. Las poblaciones de Ceuta y Melilla elegirán cada una de ellas dos Senadores.
+5. Las Comunidades Autónomas designarán además un Senador y otro más por cada millón de habitantes de su respectivo territorio. La designación corresponderá a la Asamblea legislativa o, en su defecto, al órgano colegiado superior de la Comunidad Autónoma, de acuerdo con lo que establezcan los Estatutos, que asegurarán, en todo caso, la adecuada representación proporcional.
+6. El Senado es elegido por cuatro años. El mandato de los Senadores termina cuatro años después de su elección o el día de la disolución de la Cámara.`),
+  article('CE', '81', `1. Son leyes orgánicas las relativas al desarrollo de los derechos fundamentales y de las libertades públicas, las que aprueben los Estatutos de Autonomía y el régimen electoral general y las demás previstas en la Constitución.
+2. La aprobación, modificación o derogación de las leyes orgánicas exigirá mayoría absoluta del Congreso, en una votación final sobre el conjunto del proyecto.`),
+  article('CE', '86', `1. En caso de extraordinaria y urgente necesidad, el Gobierno podrá dictar disposiciones legislativas provisionales que tomarán la forma de Decretos-leyes y que no podrán afectar al ordenamiento de las instituciones básicas del Estado, a los derechos, deberes y libertades de los ciudadanos regulados en el Título I, al régimen de las Comunidades Autónomas ni al Derecho electoral general.
+2. Los Decretos-leyes deberán ser inmediatamente sometidos a debate y votación de totalidad al Congreso de los Diputados, convocado al efecto si no estuviere reunido, en el plazo de los treinta días siguientes a su promulgación. El Congreso habrá de pronunciarse expresamente dentro de dicho plazo sobre su convalidación o derogación, para lo cual el Reglamento establecerá un procedimiento especial y sumario.
+3. Durante el plazo establecido en el apartado anterior, las Cortes podrán tramitarlos como proyectos de ley por el procedimiento de urgencia.`),
+  article('CE', '92', `1. Las decisiones políticas de especial trascendencia podrán ser sometidas a referéndum consultivo de todos los ciudadanos.
+2. El referéndum será convocado por el Rey, mediante propuesta del Presidente del Gobierno, previamente autorizada por el Congreso de los Diputados.
+3. Una ley orgánica regulará las condiciones y el procedimiento de las distintas modalidades de referéndum previstas en esta Constitución.`),
+  article('CE', '97', `El Gobierno dirige la política interior y exterior, la Administración civil y militar y la defensa del Estado. Ejerce la función ejecutiva y la potestad reglamentaria de acuerdo con la Constitución y las leyes.`),
+  article('CE', '98', `1. El Gobierno se compone del Presidente, de los Vicepresidentes, en su caso, de los Ministros y de los demás miembros que establezca la ley.
+2. El Presidente dirige la acción del Gobierno y coordina las funciones de los demás miembros del mismo, sin perjuicio de la competencia y responsabilidad directa de éstos en su gestión.
+3. Los miembros del Gobierno no podrán ejercer otras funciones representativas que las propias del mandato parlamentario, ni cualquier otra función pública que no derive de su cargo, ni actividad profesional o mercantil alguna.
+4. La ley regulará el estatuto e incompatibilidades de los miembros del Gobierno.`),
+  article('CE', '99', `1. Después de cada renovación del Congreso de los Diputados, y en los demás supuestos constitucionales en que así proceda, el Rey, previa consulta con los representantes designados por los Grupos políticos con representación parlamentaria, y a través del Presidente del Congreso, propondrá un candidato a la Presidencia del Gobierno.
+2. El candidato propuesto conforme a lo previsto en el apartado anterior expondrá ante el Congreso de los Diputados el programa político del Gobierno que pretenda formar y solicitará la confianza de la Cámara.
+3. Si el Congreso de los Diputados, por el voto de la mayoría absoluta de sus miembros, otorgare su confianza a dicho candidato, el Rey le nombrará Presidente. De no alcanzarse dicha mayoría, se someterá la misma propuesta a nueva votación cuarenta y ocho horas después de la anterior, y la confianza se entenderá otorgada si obtuviere la mayoría simple.
+4. Si efectuadas las citadas votaciones no se otorgase la confianza para la investidura, se tramitarán sucesivas propuestas en la forma prevista en los apartados anteriores.
+5. Si transcurrido el plazo de dos meses, a partir de la primera votación, ningún candidato hubiere obtenido la confianza del Congreso, el Rey disolverá ambas Cámaras y convocará nuevas elecciones con el refrendo del Presidente del Congreso.`),
+  article('CE', '103', `1. La Administración Pública sirve con objetividad los intereses generales y actúa de acuerdo con los principios de eficacia, jerarquía, descentralización, desconcentración y coordinación, con sometimiento pleno a la ley y al Derecho.
+2. Los órganos de la Administración del Estado son creados, regidos y coordinados de acuerdo con la ley.
+3. La ley regulará el estatuto de los funcionarios públicos, el acceso a la función pública de acuerdo con los principios de mérito y capacidad, las peculiaridades del ejercicio de su derecho a sindicación, el sistema de incompatibilidades y las garantías para la imparcialidad en el ejercicio de sus funciones.`),
+  article('CE', '117', `1. La justicia emana del pueblo y se administra en nombre del Rey por Jueces y Magistrados integrantes del poder judicial, independientes, inamovibles, responsables y sometidos únicamente al imperio de la ley.
+2. Los Jueces y Magistrados no podrán ser separados, suspendidos, trasladados ni jubilados, sino por alguna de las causas y con las garantías previstas en la ley.
+3. El ejercicio de la potestad jurisdiccional en todo tipo de procesos, juzgando y haciendo ejecutar lo juzgado, corresponde exclusivamente a los Juzgados y Tribunales determinados por las leyes, según las normas de competencia y procedimiento que las mismas establezcan.
+4. Los Juzgados y Tribunales no ejercerán más funciones que las señaladas en el apartado anterior y las que expresamente les sean atribuidas por ley en garantía de cualquier derecho.
+5. El principio de unidad jurisdiccional es la base de la organización y funcionamiento de los Tribunales. La ley regulará el ejercicio de la jurisdicción militar en el ámbito estrictamente castrense y en los supuestos de estado de sitio, de acuerdo con los principios de la Constitución.
+6. Se prohíben los Tribunales de excepción.`),
+  article('CE', '122', `1. La ley orgánica del poder judicial determinará la constitución, funcionamiento y gobierno de los Juzgados y Tribunales, así como el estatuto jurídico de los Jueces y Magistrados de carrera, que formarán un Cuerpo único, y del personal al servicio de la Administración de Justicia.
+2. El Consejo General del Poder Judicial es el órgano de gobierno del mismo. La ley orgánica establecerá su estatuto y el régimen de incompatibilidades de sus miembros y sus funciones, en particular en materia de nombramientos, ascensos, inspección y régimen disciplinario.
+3. El Consejo General del Poder Judicial estará integrado por el Presidente del Tribunal Supremo, que lo presidirá, y por veinte miembros nombrados por el Rey por un período de cinco años. De éstos, doce entre Jueces y Magistrados de todas las categorías judiciales, en los términos que establezca la ley orgánica; cuatro a propuesta del Congreso de los Diputados, y cuatro a propuesta del Senado, elegidos en ambos casos por mayoría de tres quintos de sus miembros, entre abogados y otros juristas, todos ellos de reconocida competencia y con más de quince años de ejercicio en su profesión.`),
+  article('CE', '137', `El Estado se organiza territorialmente en municipios, en provincias y en las Comunidades Autónomas que se constituyan. Todas estas entidades gozan de autonomía para la gestión de sus respectivos intereses.`),
+  article('CE', '140', `La Constitución garantiza la autonomía de los municipios. Estos gozarán de personalidad jurídica plena. Su gobierno y administración corresponde a sus respectivos Ayuntamientos, integrados por los Alcaldes y los Concejales. Los Concejales serán elegidos por los vecinos del municipio mediante sufragio universal, igual, libre, directo y secreto, en la forma establecida por la ley. Los Alcaldes serán elegidos por los Concejales o por los vecinos. La ley regulará las condiciones en las que proceda el régimen del concejo abierto.`),
+  article('CE', '141', `1. La provincia es una entidad local con personalidad jurídica propia, determinada por la agrupación de municipios y división territorial para el cumplimiento de las actividades del Estado. Cualquier alteración de los límites provinciales habrá de ser aprobada por las Cortes Generales mediante ley orgánica.
+2. El Gobierno y la administración autónoma de las provincias estarán encomendados a Diputaciones u otras Corporaciones de carácter representativo.
+3. Se podrán crear agrupaciones de municipios diferentes de la provincia.
+4. En los archipiélagos, las islas tendrán además su administración propia en forma de Cabildos o Consejos.`),
+  article('CE', '142', `Las Haciendas locales deberán disponer de los medios suficientes para el desempeño de las funciones que la ley atribuye a las Corporaciones respectivas y se nutrirán fundamentalmente de tributos propios y de participación en los del Estado y de las Comunidades Autónomas.`),
+  article('CE', '159', `1. El Tribunal Constitucional se compone de 12 miembros nombrados por el Rey; de ellos, cuatro a propuesta del Congreso por mayoría de tres quintos de sus miembros; cuatro a propuesta del Senado, con idéntica mayoría; dos a propuesta del Gobierno, y dos a propuesta del Consejo General del Poder Judicial.
+2. Los miembros del Tribunal Constitucional deberán ser nombrados entre Magistrados y Fiscales, Profesores de Universidad, funcionarios públicos y Abogados, todos ellos juristas de reconocida competencia con más de quince años de ejercicio profesional.
+3. Los miembros del Tribunal Constitucional serán designados por un período de nueve años y se renovarán por terceras partes cada tres.
+4. La condición de miembro del Tribunal Constitucional es incompatible: con todo mandato representativo; con los cargos políticos o administrativos; con el desempeño de funciones directivas en un partido político o en un sindicato y con el empleo al servicio de los mismos; con el ejercicio de las carreras judicial y fiscal, y con cualquier actividad profesional o mercantil. En lo demás los miembros del Tribunal Constitucional tendrán las incompatibilidades propias de los miembros del poder judicial.
+5. Los miembros del Tribunal Constitucional serán independientes e inamovibles en el ejercicio de su mandato.`),
+  article('CE', '160', `El Presidente del Tribunal Constitucional será nombrado entre sus miembros por el Rey, a propuesta del mismo Tribunal en pleno y por un período de tres años.`),
+  article('CE', '162', `1. Están legitimados:
+a) Para interponer el recurso de inconstitucionalidad, el Presidente del Gobierno, el Defensor del Pueblo, 50 Diputados, 50 Senadores, los órganos colegiados ejecutivos de las Comunidades Autónomas y, en su caso, las Asambleas de las mismas.
+b) Para interponer el recurso de amparo, toda persona natural o jurídica que invoque un interés legítimo, así como el Defensor del Pueblo y el Ministerio Fiscal.
+2. En los demás casos, la ley orgánica determinará las personas y órganos legitimados.`),
+  article('CE', '167', `1. Los proyectos de reforma constitucional deberán ser aprobados por una mayoría de tres quintos de cada una de las Cámaras. Si no hubiera acuerdo entre ambas, se intentará obtenerlo mediante la creación de una Comisión de composición paritaria de Diputados y Senadores, que presentará un texto que será votado por el Congreso y el Senado.
+2. De no lograrse la aprobación mediante el procedimiento del apartado anterior, y siempre que el texto hubiere obtenido el voto favorable de la mayoría absoluta del Senado, el Congreso, por mayoría de dos tercios, podrá aprobar la reforma.
+3. Aprobada la reforma por las Cortes Generales, será sometida a referéndum para su ratificación cuando así lo soliciten, dentro de los quince días siguientes a su aprobación, una décima parte de los miembros de cualquiera de las Cámaras.`),
+  article('CE', '168', `1. Cuando se propusiere la revisión total de la Constitución o una parcial que afecte al Título preliminar, al Capítulo segundo, Sección primera del Título I, o al Título II, se procederá a la aprobación del principio por mayoría de dos tercios de cada Cámara, y a la disolución inmediata de las Cortes.
+2. Las Cámaras elegidas deberán ratificar la decisión y proceder al estudio del nuevo texto constitucional, que deberá ser aprobado por mayoría de dos tercios de ambas Cámaras.
+3. Aprobada la reforma por las Cortes Generales, será sometida a referéndum para su ratificación.`),
+  article('CE', '169', `No podrá iniciarse la reforma constitucional en tiempo de guerra o de vigencia de alguno de los estados previstos en el artículo 116.`),
+
+  // --- Estatuto de Autonomía para Andalucía ---
+  article('EAA', '1', `1. Andalucía, como nacionalidad histórica y en el ejercicio del derecho de autogobierno que reconoce la Constitución, se constituye en Comunidad Autónoma en el marco de la unidad de la nación española y conforme al artículo 2 de la Constitución.
+2. El presente Estatuto de Autonomía propugna como valores superiores la libertad, la justicia, la igualdad y el pluralismo político para todos los andaluces, en un marco de igualdad y solidaridad con las demás Comunidades Autónomas de España.
+3. Los poderes de la Comunidad Autónoma de Andalucía emanan de la Constitución y del pueblo andaluz, en los términos del presente Estatuto de Autonomía, que es su norma institucional básica.
+4. La Unión Europea es ámbito de referencia de la Comunidad Autónoma, que asume sus valores y vela por el cumplimiento de sus objetivos y por el respeto de los derechos de los ciudadanos europeos.`, 'Andalucía'),
+  article('EAA', '2', `El territorio de Andalucía comprende el de los municipios de las provincias de Almería, Cádiz, Córdoba, Granada, Huelva, Jaén, Málaga y Sevilla.`, 'Territorio'),
+  article('EAA', '100', `1. El Parlamento de Andalucía representa al pueblo andaluz.
+2. El Parlamento de Andalucía es inviolable.`),
+  article('EAA', '119', `1. El Consejo de Gobierno es el órgano colegiado que ostenta y ejerce las funciones ejecutivas y administrativas de la Junta de Andalucía.
+2. El Consejo de Gobierno está integrado por el Presidente, los Vicepresidentes, en su caso, y los Consejeros.`),
+
+  // --- Ley 7/1985, de Bases del Régimen Local ---
+  article('LBRL', '1', `1. Los Municipios son Entidades básicas de la organización territorial del Estado y cauces inmediatos de participación ciudadana en los asuntos públicos, que institucionalizan y gestionan con autonomía los intereses propios de las correspondientes colectividades.
+2. La Provincia y, en su caso, la Isla gozan, asimismo, de idéntica autonomía para la gestión de los intereses respectivos.`),
+  article('LBRL', '3', `1. Son Entidades Locales territoriales:
+a) El Municipio.
+b) La Provincia.
+c) La Isla en los archipiélagos balear y canario.
+2. Gozan, asimismo, de la condición de Entidades Locales:
+a) Las Comarcas u otras entidades que agrupen varios Municipios, instituidas por las Comunidades Autónomas de conformidad con esta Ley y los correspondientes Estatutos de Autonomía.
+b) Las Áreas Metropolitanas.
+c) Las Mancomunidades de Municipios.`),
+  article('LBRL', '11', `1. El Municipio es la Entidad local básica de la organización territorial del Estado. Tiene personalidad jurídica y plena capacidad para el cumplimiento de sus fines.
+2. Son elementos del Municipio el territorio, la población y la organización.`),
+  article('LBRL', '16', `1. El Padrón municipal es el registro administrativo donde constan los vecinos de un municipio. Sus datos constituyen prueba de la residencia en el municipio y del domicilio habitual en el mismo. Las certificaciones que de dichos datos se expidan tendrán carácter de documento público y fehaciente para todos los efectos administrativos. […]`),
+  article('LBRL', '19', `1. El Gobierno y la administración municipal, salvo en aquellos municipios que legalmente funcionen en régimen de Concejo Abierto, corresponde al ayuntamiento, integrado por el Alcalde y los Concejales.
+2. Los Concejales son elegidos mediante sufragio universal, igual, libre, directo y secreto, y el Alcalde es elegido por los Concejales o por los vecinos; todo ello en los términos que establezca la legislación electoral general. […]`),
+  article('LBRL', '20', `1. La organización municipal responde a las siguientes reglas:
+a) El Alcalde, los Tenientes de Alcalde y el Pleno existen en todos los ayuntamientos.
+b) La Junta de Gobierno Local existe en todos los municipios con población superior a 5.000 habitantes y en los de menos, cuando así lo disponga su reglamento orgánico o así lo acuerde el Pleno de su ayuntamiento. […]
+e) La Comisión Especial de Cuentas existe en todos los municipios, de acuerdo con la estructura prevista en el artículo 116. […]`),
+  article('LBRL', '26', `1. Los Municipios deberán prestar, en todo caso, los servicios siguientes:
+a) En todos los Municipios: alumbrado público, cementerio, recogida de residuos, limpieza viaria, abastecimiento domiciliario de agua potable, alcantarillado, acceso a los núcleos de población y pavimentación de las vías públicas.
+b) En los Municipios con población superior a 5.000 habitantes, además: parque público, biblioteca pública y tratamiento de residuos.
+c) En los Municipios con población superior a 20.000 habitantes, además: protección civil, evaluación e información de situaciones de necesidad social y la atención inmediata a personas en situación o riesgo de exclusión social, prevención y extinción de incendios e instalaciones deportivas de uso público.
+d) En los Municipios con población superior a 50.000 habitantes, además: transporte colectivo urbano de viajeros y medio ambiente urbano. […]`),
+
+  // --- TRLRHL ---
+  article('TRLRHL', '2', `1. La hacienda de las entidades locales estará constituida por los siguientes recursos:
+a) Los ingresos procedentes de su patrimonio y demás de derecho privado.
+b) Los tributos propios clasificados en tasas, contribuciones especiales e impuestos y los recargos exigibles sobre los impuestos de las comunidades autónomas o de otras entidades locales.
+c) Las participaciones en los tributos del Estado y de las comunidades autónomas.
+d) Las subvenciones.
+e) Los percibidos en concepto de precios públicos.
+f) El producto de las operaciones de crédito.
+g) El producto de las multas y sanciones en el ámbito de sus competencias.
+h) Las demás prestaciones de derecho público. […]`, 'Enumeración de los recursos de las entidades locales'),
+  article('TRLRHL', '59', `1. Los ayuntamientos exigirán, de acuerdo con esta ley y las disposiciones que la desarrollen, los siguientes impuestos:
+a) Impuesto sobre Bienes Inmuebles.
+b) Impuesto sobre Actividades Económicas.
+c) Impuesto sobre Vehículos de Tracción Mecánica.
+2. Asimismo, los ayuntamientos podrán establecer y exigir el Impuesto sobre Construcciones, Instalaciones y Obras y el Impuesto sobre el Incremento de Valor de los Terrenos de Naturaleza Urbana, de acuerdo con esta ley, las disposiciones que la desarrollen y las respectivas ordenanzas fiscales.`, 'Enumeración de impuestos'),
+  article('TRLRHL', '163', `El ejercicio presupuestario coincidirá con el año natural y a él se imputarán:
+a) Los derechos liquidados en él, cualquiera que sea el período de que deriven; y
+b) Las obligaciones reconocidas durante el ejercicio.`, 'Ejercicio presupuestario'),
+
+  // --- Ley 31/1995, de Prevención de Riesgos Laborales ---
+  article('LPRL', '14', `1. Los trabajadores tienen derecho a una protección eficaz en materia de seguridad y salud en el trabajo. El citado derecho supone la existencia de un correlativo deber del empresario de protección de los trabajadores frente a los riesgos laborales. […]`, 'Derecho a la protección frente a los riesgos laborales'),
+  article('LPRL', '15', `1. El empresario aplicará las medidas que integran el deber general de prevención previsto en el artículo anterior, con arreglo a los siguientes principios generales:
+a) Evitar los riesgos.
+b) Evaluar los riesgos que no se puedan evitar.
+c) Combatir los riesgos en su origen.
+d) Adaptar el trabajo a la persona, en particular en lo que respecta a la concepción de los puestos de trabajo, así como a la elección de los equipos y los métodos de trabajo y de producción, con miras, en particular, a atenuar el trabajo monótono y repetitivo y a reducir los efectos del mismo en la salud.
+e) Tener en cuenta la evolución de la técnica.
+f) Sustituir lo peligroso por lo que entrañe poco o ningún peligro.
+g) Planificar la prevención, buscando un conjunto coherente que integre en ella la técnica, la organización del trabajo, las condiciones de trabajo, las relaciones sociales y la influencia de los factores ambientales en el trabajo.
+h) Adoptar medidas que antepongan la protección colectiva a la individual.
+i) Dar las debidas instrucciones a los trabajadores. […]`, 'Principios de la acción preventiva'),
+  article('LPRL', '38', `1. El Comité de Seguridad y Salud es el órgano paritario y colegiado de participación destinado a la consulta regular y periódica de las actuaciones de la empresa en materia de prevención de riesgos.
+2. Se constituirá un Comité de Seguridad y Salud en todas las empresas o centros de trabajo que cuenten con 50 o más trabajadores. […]`, 'Comité de Seguridad y Salud'),
+
+  // --- LO 3/2007, para la igualdad efectiva de mujeres y hombres ---
+  article('LOI', '1', `1. Las mujeres y los hombres son iguales en dignidad humana, e iguales en derechos y deberes. Esta Ley tiene por objeto hacer efectivo el derecho de igualdad de trato y de oportunidades entre mujeres y hombres, en particular mediante la eliminación de la discriminación de la mujer, sea cual fuere su circunstancia o condición, en cualesquiera de los ámbitos de la vida y, singularmente, en las esferas política, civil, laboral, económica, social y cultural para, en el desarrollo de los artículos 9.2 y 14 de la Constitución, alcanzar una sociedad más democrática, más justa y más solidaria. […]`, 'Objeto de la Ley'),
+  article('LOI', '3', `El principio de igualdad de trato entre mujeres y hombres supone la ausencia de toda discriminación, directa o indirecta, por razón de sexo, y, especialmente, las derivadas de la maternidad, la asunción de obligaciones familiares y el estado civil.`, 'El principio de igualdad de trato entre mujeres y hombres'),
+  article('LOI', '6', `1. Se considera discriminación directa por razón de sexo la situación en que se encuentra una persona que sea, haya sido o pudiera ser tratada, en atención a su sexo, de manera menos favorable que otra en situación comparable.
+2. Se considera discriminación indirecta por razón de sexo la situación en que una disposición, criterio o práctica aparentemente neutros pone a personas de un sexo en desventaja particular con respecto a personas del otro, salvo que dicha disposición, criterio o práctica puedan justificarse objetivamente en atención a una finalidad legítima y que los medios para alcanzar dicha finalidad sean necesarios y adecuados.
+3. En cualquier caso, se considera discriminatoria toda orden de discriminar, directa o indirectamente, por razón de sexo.`, 'Discriminación directa e indirecta'),
+  article('LOI', '11', `1. Con el fin de hacer efectivo el derecho constitucional de la igualdad, los Poderes Públicos adoptarán medidas específicas en favor de las mujeres para corregir situaciones patentes de desigualdad de hecho respecto de los hombres. Tales medidas, que serán aplicables en tanto subsistan dichas situaciones, habrán de ser razonables y proporcionadas en relación con el objetivo perseguido en cada caso. […]`, 'Acciones positivas'),
+  article('LOI', '15', `El principio de igualdad de trato y oportunidades entre mujeres y hombres informará, con carácter transversal, la actuación de todos los Poderes Públicos. Las Administraciones públicas lo integrarán, de forma activa, en la adopción y ejecución de sus disposiciones normativas, en la definición y presupuestación de políticas públicas en todos los ámbitos y en el desarrollo del conjunto de todas sus actividades.`, 'Transversalidad del principio de igualdad de trato entre mujeres y hombres')
+];
@@ -0,0 +1,96 @@
+import { LawDivision, LawDivisionKind, LawId } from "../types";
+
+// Títulos, Capítulos and Secciones of the laws in the syllabus, used by the article browser to
+// place the bundled articles. The Constitution is outlined completely; for the other laws only
+// the parts the syllabus examines are listed, and articles outside them appear as "Otros artículos".
+
+const division = (kind: LawDivisionKind) =>
+  (label: string, title: string, from: number, to: number, children?: LawDivision[]): LawDivision =>
+    ({ kind, label, title, from, to, ...(children ? { children } : {}) });
+
+const titulo = division('titulo');
+const capitulo = division('capitulo');
+const seccion = division('seccion');
+
+export const LAW_STRUCTURE: Record<LawId, LawDivision[]> = {
+  CE: [
+    titulo('Título preliminar', 'Principios generales', 1, 9),
+    titulo('Título I', 'De los derechos y deberes fundamentales', 10, 55, [
+      capitulo('Capítulo primero', 'De los españoles y los extranjeros', 11, 13),
+      capitulo('Capítulo segundo', 'Derechos y libertades', 14, 38, [
+        seccion('Sección 1.ª', 'De los derechos fundamentales y de las libertades públicas', 15, 29),
+        seccion('Sección 2.ª', 'De los derechos y deberes de los ciudadanos', 30, 38)
+      ]),
+      capitulo('Capítulo tercero', 'De los principios rectores de la política social y económica', 39, 52),
+      capitulo('Capítulo cuarto', 'De las garantías de las libertades y derechos fundamentales', 53, 54),
+      capitulo('Capítulo quinto', 'De la suspensión de los derechos y libertades', 55, 55)
+    ]),
+    titulo('Título II', 'De la Corona', 56, 65),
+    titulo('Título III', 'De las Cortes Generales', 66, 96, [
+      capitulo('Capítulo primero', 'De las Cámaras', 66, 80),
+      capitulo('Capítulo segundo', 'De la elaboración de las leyes', 81, 92),
+      capitulo('Capítulo tercero', 'De los Tratados Internacionales', 93, 96)
+    ]),
+    titulo('Título IV', 'Del Gobierno y de la Administración', 97, 107),
+    titulo('Título V', 'De las relaciones entre el Gobierno y las Cortes Generales', 108, 116),
+    titulo('Título VI', 'Del Poder Judicial', 117, 127),
+    titulo('Título VII', 'Economía y Hacienda', 128, 136),
+    titulo('Título VIII', 'De la Organización Territorial del Estado', 137, 158, [
+      capitulo('Capítulo primero', 'Principios generales', 137, 139),
+      capitulo('Capítulo segundo', 'De la Administración Local', 140, 142),
+      capitulo('Capítulo tercero', 'De las Comunidades Autónomas', 143, 158)
+    ]),
+    titulo('Título IX', 'Del Tribunal Constitucional', 159, 165),
+    titulo('Título X', 'De la reforma constitucional', 166, 169)
+  ],
+  EAA: [
+    titulo('Título preliminar', 'Disposiciones generales', 1, 11),
+    titulo('Título I', 'Derechos sociales, deberes y políticas públicas', 12, 41),
+    titulo('Título II', 'Competencias de la Comunidad Autónoma', 42, 88),
+    titulo('Título III', 'Organización territorial de la Comunidad Autónoma', 89, 98),
+    titulo('Título IV', 'Organización institucional de la Comunidad Autónoma', 99, 139)
+  ],
+  LBRL: [
+    titulo('Título I', 'Disposiciones generales', 1, 10),
+    titulo('Título II', 'El Municipio', 11, 30, [
+      capitulo('Capítulo I', 'Territorio y población', 11, 18),
+      capitulo('Capítulo II', 'Organización', 19, 24),
+      capitulo('Capítulo III', 'Competencias', 25, 28),
+      capitulo('Capítulo IV', 'Regímenes especiales', 29, 30)
+    ]),
+    titulo('Título III', 'La Provincia', 31, 41),
+    titulo('Título IV', 'Otras Entidades locales', 42, 45),
+    titulo('Título V', 'Disposiciones comunes a las Entidades locales', 46, 78),
+    titulo('Título VI', 'Bienes, actividades y servicios, y contratación', 79, 88),
+    titulo('Título VII', 'Personal al servicio de las Entidades locales', 89, 104),
+    titulo('Título VIII', 'Haciendas locales', 105, 116),
+    titulo('Título IX', 'Organizaciones para la cooperación entre las Administraciones Públicas en materia de Administración Local', 117, 120),
+    titulo('Título X', 'Régimen de organización de los municipios de gran población', 121, 138)
+  ],
+  TRLRHL: [
+    titulo('Título preliminar', 'Ámbito de aplicación y enumeración de los recursos de las entidades locales', 1, 2),
+    titulo('Título I', 'Recursos de las haciendas locales', 3, 55),
+    titulo('Título II', 'Recursos de los municipios', 56, 125),
+    titulo('Título VI', 'Presupuesto y gasto público', 162, 193)
+  ],
+  LPRL: [
+    capitulo('Capítulo I', 'Objeto, ámbito de aplicación y definiciones', 1, 4),
+    capitulo('Capítulo II', 'Política en materia de prevención de riesgos para proteger la seguridad y la salud en el trabajo', 5, 13),
+    capitulo('Capítulo III', 'Derechos y obligaciones', 14, 29),
+    capitulo('Capítulo IV', 'Servicios de prevención', 30, 32),
+    capitulo('Capítulo V', 'Consulta y participación de los trabajadores', 33, 40),
+    capitulo('Capítulo VI', 'Obligaciones de los fabricantes, importadores y suministradores', 41, 41),
+    capitulo('Capítulo VII', 'Responsabilidades y sanciones', 42, 54)
+  ],
+  LOI: [
+    titulo('Título preliminar', 'Objeto y ámbito de la Ley', 1, 2),
+    titulo('Título I', 'El principio de igualdad y la tutela contra la discriminación', 3, 13),
+    titulo('Título II', 'Políticas públicas para la igualdad', 14, 35),
+    titulo('Título III', 'Igualdad y medios de comunicación', 36, 41),
+    titulo('Título IV', 'El derecho al trabajo en igualdad de oportunidades', 42, 50),
+    titulo('Título V', 'El principio de igualdad en el empleo público', 51, 68),
+    titulo('Título VI', 'Igualdad de trato en el acceso a bienes y servicios y su suministro', 69, 72),
+    titulo('Título VII', 'La igualdad en la responsabilidad social de las empresas', 73, 75),
+    titulo('Título VIII', 'Disposiciones organizativas', 76, 78)
+  ]
+};
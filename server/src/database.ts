@@ -0,0 +1,139 @@
+import Database from 'better-sqlite3';
+import type { LearnerProfile, RemoteProfile, SyncChange, SyncCollection, SyncPullResponse, SyncPushResponse, SyncRecord } from '../../types';
+
+export const SYNC_COLLECTIONS: SyncCollection[] = ['progress', 'attempts', 'srs', 'questions', 'materials', 'flashcards'];
+
+interface RecordRow {
+  collection: SyncCollection;
+  record_id: string;
+  data: string | null;
+  deleted: number;
+  updated_at: number;
+  revision: number;
+}
+
+interface ProfileRow {
+  id: string;
+  name: string;
+  pin_hash: string | null;
+  created_at: number;
+}
+
+const toRecord = (row: RecordRow): SyncRecord => ({
+  collection: row.collection,
+  id: row.record_id,
+  data: row.data === null ? null : JSON.parse(row.data),
+  deleted: row.deleted === 1,
+  updatedAt: row.updated_at,
+  revision: row.revision
+});
+
+// Every accepted change gets the next value of one server-wide revision counter, so a client
+// only has to remember the last revision it pulled. Deleted items are kept as tombstones.
+export const openSyncDatabase = (file: string) => {
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS profiles (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      pin_hash TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS records (
+      profile_id TEXT NOT NULL,
+      collection TEXT NOT NULL,
+      record_id TEXT NOT NULL,
+      data TEXT,
+      deleted INTEGER NOT NULL DEFAULT 0,
+      updated_at INTEGER NOT NULL,
+      revision INTEGER NOT NULL,
+      PRIMARY KEY (profile_id, collection, record_id)
+    );
+    CREATE INDEX IF NOT EXISTS records_by_revision ON records (profile_id, revision);
+  `);
+
+  const selectProfiles = db.prepare<[], ProfileRow>('SELECT id, name, pin_hash, created_at FROM profiles ORDER BY created_at');
+  const selectProfile = db.prepare<[string], ProfileRow>('SELECT id, name, pin_hash, created_at FROM profiles WHERE id = ?');
+  const upsertProfile = db.prepare(`
+    INSERT INTO profiles (id, name, pin_hash, created_at, updated_at) VALUES (@id, @name, @pinHash, @createdAt, @updatedAt)
+    ON CONFLICT (id) DO UPDATE SET name = excluded.name, pin_hash = excluded.pin_hash, updated_at = excluded.updated_at
+  `);
+  const selectRevision = db.prepare<[], { revision: number | null }>('SELECT MAX(revision) AS revision FROM records');
+  const selectSince = db.prepare<[string, number], RecordRow>(
+    'SELECT collection, record_id, data, deleted, updated_at, revision FROM records WHERE profile_id = ? AND revision > ? ORDER BY revision'
+  );
+  const selectCollection = db.prepare<[string, string], RecordRow>(
+    'SELECT collection, record_id, data, deleted, updated_at, revision FROM records WHERE profile_id = ? AND collection = ? AND deleted = 0 ORDER BY record_id'
+  );
+  const selectRecord = db.prepare<[string, string, string], RecordRow>(
+    'SELECT collection, record_id, data, deleted, updated_at, revision FROM records WHERE profile_id = ? AND collection = ? AND record_id = ?'
+  );
+  const upsertRecord = db.prepare(`
+    INSERT INTO records (profile_id, collection, record_id, data, deleted, updated_at, revision)
+    VALUES (@profileId, @collection, @id, @data, @deleted, @updatedAt, @revision)
+    ON CONFLICT (profile_id, collection, record_id) DO UPDATE SET
+      data = excluded.data, deleted = excluded.deleted, updated_at = excluded.updated_at, revision = excluded.revision
+  `);
+
+  let revision = selectRevision.get()?.revision ?? 0;
+
+  const listProfiles = (): RemoteProfile[] =>
+    selectProfiles.all().map(row => ({ id: row.id, name: row.name, hasPin: row.pin_hash !== null, createdAt: row.created_at }));
+
+  const findProfile = (profileId: string): LearnerProfile | undefined => {
+    const row = selectProfile.get(profileId);
+    return row && { id: row.id, name: row.name, pinHash: row.pin_hash, createdAt: row.created_at };
+  };
+
+  const saveProfile = (profile: LearnerProfile) => {
+    upsertProfile.run({ ...profile, updatedAt: Date.now() });
+  };
+
+  const changesSince = (profileId: string, since: number): SyncPullResponse => ({
+    revision,
+    records: selectSince.all(profileId, since).map(toRecord)
+  });
+
+  const listCollection = (profileId: string, collection: SyncCollection): SyncRecord[] =>
+    selectCollection.all(profileId, collection).map(toRecord);
+
+  // A change based on an older revision than the stored one is rejected and the stored copy
+  // returned, so the client can merge and try again
+  const applyChanges = db.transaction((profileId: string, changes: SyncChange[]): SyncPushResponse => {
+    const result: SyncPushResponse = { applied: [], conflicts: [] };
+    changes.forEach(change => {
+      const current = selectRecord.get(profileId, change.collection, change.id);
+      if (current && current.revision > change.baseRevision) {
+        result.conflicts.push(toRecord(current));
+        return;
+      }
+      revision++;
+      upsertRecord.run({
+        profileId,
+        collection: change.collection,
+        id: change.id,
+        data: change.deleted ? null : JSON.stringify(change.data),
+        deleted: change.deleted ? 1 : 0,
+        updatedAt: change.updatedAt,
+        revision
+      });
+      result.applied.push({ collection: change.collection, id: change.id, revision });
+    });
+    return result;
+  });
+
+  return {
+    currentRevision: () => revision,
+    listProfiles,
+    findProfile,
+    saveProfile,
+    changesSince,
+    listCollection,
+    applyChanges,
+    close: () => db.close()
+  };
+};
+
+export type SyncDatabase = ReturnType<typeof openSyncDatabase>;
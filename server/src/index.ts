@@ -0,0 +1,175 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import type { LearnerProfile, SyncChange, SyncCollection } from '../../types';
+import { SYNC_COLLECTIONS, openSyncDatabase } from './database';
+
+// Self-hosted sync server for the study app. Stores each learner profile's progress, quiz
+// attempts, SRS cards, question bank and study materials in SQLite.
+//
+//   PORT        port to listen on (default 8787)
+//   SYNC_DB     SQLite file (default ./sync.db)
+//   SYNC_TOKEN  when set, every request must send "Authorization: Bearer <token>"
+//   SYNC_ORIGIN allowed CORS origin (default *)
+
+const PORT = Number(process.env.PORT) || 8787;
+const TOKEN = process.env.SYNC_TOKEN ?? '';
+const ORIGIN = process.env.SYNC_ORIGIN ?? '*';
+// Study guides and banks of a whole syllabus fit comfortably; anything bigger is a mistake
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+// Wrong PINs allowed per profile before unlocking it is paused
+const MAX_FAILED_UNLOCKS = 5;
+const UNLOCK_PAUSE_MS = 5 * 60 * 1000;
+
+const db = openSyncDatabase(process.env.SYNC_DB ?? 'sync.db');
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Access-Control-Allow-Origin': ORIGIN,
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'GET, PUT, POST, OPTIONS'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readJson = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+};
+
+const isCollection = (value: unknown): value is SyncCollection =>
+  SYNC_COLLECTIONS.includes(value as SyncCollection);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseProfile = (id: string, body: unknown): LearnerProfile => {
+  if (!isObject(body) || typeof body.name !== 'string' || !body.name.trim()) throw new HttpError(400, 'Profile name is required');
+  return {
+    id,
+    name: body.name.trim(),
+    pinHash: typeof body.pinHash === 'string' ? body.pinHash : null,
+    createdAt: typeof body.createdAt === 'number' ? body.createdAt : Date.now()
+  };
+};
+
+const failedUnlocks = new Map<string, { count: number; until: number }>();
+
+// Hands a PIN-protected profile, hash included, only to a device that knows the PIN. Guesses
+// are throttled per profile so the short PIN cannot be found by trying them all.
+const unlockProfile = (profileId: string, body: unknown): LearnerProfile => {
+  const profile = db.findProfile(profileId);
+  if (!profile) throw new HttpError(404, 'Profile not found');
+  if (!profile.pinHash) return profile;
+
+  const failed = failedUnlocks.get(profileId);
+  if (failed && failed.count >= MAX_FAILED_UNLOCKS && failed.until > Date.now()) {
+    throw new HttpError(429, 'Too many wrong PINs, try again later');
+  }
+  if (isObject(body) && body.pinHash === profile.pinHash) {
+    failedUnlocks.delete(profileId);
+    return profile;
+  }
+  const count = failed && failed.until > Date.now() ? failed.count + 1 : 1;
+  failedUnlocks.set(profileId, { count, until: Date.now() + UNLOCK_PAUSE_MS });
+  throw new HttpError(403, 'Wrong PIN');
+};
+
+const parseChanges = (body: unknown): SyncChange[] => {
+  if (!isObject(body) || !Array.isArray(body.changes)) throw new HttpError(400, 'Expected { changes: [...] }');
+  return body.changes.map((change: unknown, i: number): SyncChange => {
+    if (!isObject(change) || !isCollection(change.collection) || typeof change.id !== 'string' || !change.id
+      || typeof change.updatedAt !== 'number' || typeof change.baseRevision !== 'number') {
+      throw new HttpError(400, `Malformed change at index ${i}`);
+    }
+    const deleted = change.deleted === true;
+    if (!deleted && (change.data === undefined || change.data === null)) throw new HttpError(400, `Change at index ${i} has no data`);
+    return { collection: change.collection, id: change.id, data: deleted ? null : change.data, deleted, updatedAt: change.updatedAt, baseRevision: change.baseRevision };
+  });
+};
+
+// GET  /api/health
+// GET  /api/profiles                            without PIN hashes
+// PUT  /api/profiles/:profileId
+// POST /api/profiles/:profileId/unlock           { pinHash } -> the profile with its hash
+// GET  /api/profiles/:profileId/changes?since=<revision>
+// POST /api/profiles/:profileId/changes          { changes: SyncChange[] }
+// GET  /api/profiles/:profileId/:collection      live items of one collection
+const route = async (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  const method = req.method ?? 'GET';
+
+  if (method === 'OPTIONS') return send(res, 204, undefined);
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) throw new HttpError(401, 'Invalid or missing token');
+  if (parts[0] !== 'api') throw new HttpError(404, 'Not found');
+
+  if (parts[1] === 'health' && parts.length === 2 && method === 'GET') {
+    return send(res, 200, { ok: true, revision: db.currentRevision() });
+  }
+  if (parts[1] !== 'profiles') throw new HttpError(404, 'Not found');
+
+  if (parts.length === 2 && method === 'GET') return send(res, 200, db.listProfiles());
+
+  const profileId = parts[2];
+  if (parts.length === 3 && method === 'PUT') {
+    const profile = parseProfile(profileId, await readJson(req));
+    db.saveProfile(profile);
+    return send(res, 200, profile);
+  }
+
+  if (parts.length === 4 && parts[3] === 'unlock' && method === 'POST') {
+    return send(res, 200, unlockProfile(profileId, await readJson(req)));
+  }
+
+  if (parts.length === 4 && parts[3] === 'changes') {
+    if (method === 'GET') {
+      const since = Number(url.searchParams.get('since') ?? 0);
+      if (!Number.isFinite(since) || since < 0) throw new HttpError(400, 'Invalid "since" revision');
+      return send(res, 200, db.changesSince(profileId, since));
+    }
+    if (method === 'POST') {
+      return send(res, 200, db.applyChanges(profileId, parseChanges(await readJson(req))));
+    }
+  }
+
+  if (parts.length === 4 && method === 'GET' && isCollection(parts[3])) {
+    return send(res, 200, db.listCollection(profileId, parts[3]));
+  }
+
+  throw new HttpError(404, 'Not found');
+};
+
+const server = createServer((req, res) => {
+  route(req, res).catch(error => {
+    if (error instanceof HttpError) return send(res, error.status, { error: error.message });
+    console.error(error);
+    send(res, 500, { error: 'Internal server error' });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Sync server listening on http://localhost:${PORT}${TOKEN ? ' (token required)' : ''}`);
+});
+
+const shutdown = () => server.close(() => {
+  db.close();
+  process.exit(0);
+});
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,62 @@
+import { AIProvider, AISettings } from "../types";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createOpenAICompatibleProvider } from "./providers/openAICompatibleProvider";
+import { createMockProvider } from "./providers/mockProvider";
+import { readStored, writeStored } from "./storage";
+
+const SETTINGS_KEY = 'ai_settings';
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'gemini',
+  gemini: {
+    model: 'gemini-2.5-flash',
+    apiKey: ''
+  },
+  openai: {
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'llama3.1',
+    apiKey: ''
+  },
+  verifyQuizAnswers: false
+};
+
+// Stored settings may predate newer fields, so they are merged over the defaults
+export const loadAISettings = (): AISettings => {
+  const stored = readStored(SETTINGS_KEY, {});
+  return {
+    provider: stored.provider ?? DEFAULT_AI_SETTINGS.provider,
+    gemini: { ...DEFAULT_AI_SETTINGS.gemini, ...stored.gemini },
+    openai: { ...DEFAULT_AI_SETTINGS.openai, ...stored.openai },
+    verifyQuizAnswers: stored.verifyQuizAnswers ?? DEFAULT_AI_SETTINGS.verifyQuizAnswers
+  };
+};
+
+export const saveAISettings = (settings: AISettings) => {
+  writeStored(SETTINGS_KEY, settings);
+  cachedProvider = null;
+};
+
+export const createProvider = (settings: AISettings): AIProvider => {
+  switch (settings.provider) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai':
+      return createOpenAICompatibleProvider(settings.openai);
+    case 'gemini':
+    default:
+      return createGeminiProvider({
+        apiKey: settings.gemini.apiKey || process.env.API_KEY || '',
+        model: settings.gemini.model
+      });
+  }
+};
+
+let cachedProvider: AIProvider | null = null;
+
+// Provider instance is rebuilt lazily whenever settings are saved
+export const getActiveProvider = (): AIProvider => {
+  if (!cachedProvider) {
+    cachedProvider = createProvider(loadAISettings());
+  }
+  return cachedProvider;
+};
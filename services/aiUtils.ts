@@ -0,0 +1,42 @@
+import { ClozeDraft, DiagramNode, QuizQuestion } from "../types";
+
+// Helper to handle potential JSON parsing errors from markdown blocks
+export const cleanAndParseJSON = (text: string) => {
+  try {
+    // Remove markdown code blocks if present
+    const jsonMatch = text.match(/```json\n([\s\S]*?)\n```/) || text.match(/```\n([\s\S]*?)\n```/);
+    let jsonString = jsonMatch ? jsonMatch[1] : text;
+    
+    // Clean potential control characters
+    jsonString = jsonString.trim();
+    
+    return JSON.parse(jsonString);
+  } catch (e) {
+    console.error("Failed to parse JSON", e);
+    return null;
+  }
+};
+
+// Some backends (OpenAI JSON mode) can only return objects, so arrays may arrive wrapped as { [key]: [...] }
+const unwrapArray = (data: unknown, key: string): unknown[] => {
+  if (Array.isArray(data)) return data;
+  const wrapped = typeof data === 'object' && data !== null ? (data as Record<string, unknown>)[key] : undefined;
+  return Array.isArray(wrapped) ? wrapped : [];
+};
+
+// Questions are checked field by field later, in quizValidation
+export const extractQuizArray = (data: unknown): QuizQuestion[] => unwrapArray(data, 'questions') as QuizQuestion[];
+
+// Verifier answers arrive as a bare array or wrapped as { answers: [...] }
+export const extractAnswerArray = (data: unknown): number[] =>
+  unwrapArray(data, 'answers').map(a => typeof a === 'number' && Number.isInteger(a) ? a : -1);
+
+// Cloze cards arrive as a bare array or wrapped as { cards: [...] }
+export const extractClozeArray = (data: unknown): ClozeDraft[] =>
+  unwrapArray(data, 'cards').filter((item): item is ClozeDraft =>
+    typeof item === 'object' && item !== null && typeof (item as ClozeDraft).text === 'string');
+
+// Expanded mind map nodes arrive as a bare array or wrapped as { nodes: [...] }
+export const extractNodeArray = (data: unknown): DiagramNode[] =>
+  unwrapArray(data, 'nodes').filter((item): item is DiagramNode =>
+    typeof item === 'object' && item !== null && typeof (item as DiagramNode).label === 'string');
@@ -0,0 +1,163 @@
+import { ArticleRange, ConstitutionTopic, LawDivision, LawId, LegalArticle } from "../types";
+import { LAWS, LEGAL_CORPUS } from "../data/legalCorpus";
+import { LAW_STRUCTURE } from "../data/legalStructure";
+import { formatArticleLabel, getArticleById, retrieveArticles, tokenize } from "./retrieval";
+import { isArticleInRanges, isNumberInRanges, parseArticleRefId } from "./articleRefs";
+
+// Article browser: places the bundled articles in the Título / Capítulo / Sección outline of
+// their law, turns "artículo 116" mentions into links between articles and lists the articles
+// each topic covers. Only the bundled selection is browsable and searchable; articles outside it
+// link to the consolidated text in the BOE.
+
+const normalize = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+export const getLawArticles = (law: LawId): LegalArticle[] =>
+  LEGAL_CORPUS.filter(article => article.law === law).sort((a, b) => Number(a.number) - Number(b.number));
+
+export const getLawStructure = (law: LawId): LawDivision[] => LAW_STRUCTURE[law];
+
+const inDivision = (article: LegalArticle, division: LawDivision) => {
+  const number = Number(article.number);
+  return number >= division.from && number <= division.to;
+};
+
+// Articles that sit directly in the division and not in one of its children (e.g. art. 10 CE in Título I)
+export const getDivisionArticles = (division: LawDivision, articles: LegalArticle[]): LegalArticle[] =>
+  articles.filter(article => inDivision(article, division) && !(division.children ?? []).some(child => inDivision(article, child)));
+
+export const countDivisionArticles = (division: LawDivision, articles: LegalArticle[]): number =>
+  articles.filter(article => inDivision(article, division)).length;
+
+// Articles of the law not covered by its outline
+export const getUnplacedArticles = (law: LawId, articles: LegalArticle[]): LegalArticle[] =>
+  articles.filter(article => !LAW_STRUCTURE[law].some(division => inDivision(article, division)));
+
+// Outline path of the article, outermost first: Título I › Capítulo segundo › Sección 1.ª
+export const getDivisionPath = (article: LegalArticle): LawDivision[] => {
+  const path: LawDivision[] = [];
+  let level: LawDivision[] | undefined = LAW_STRUCTURE[article.law];
+  while (level) {
+    const match: LawDivision | undefined = level.find(division => inDivision(article, division));
+    if (!match) break;
+    path.push(match);
+    level = match.children;
+  }
+  return path;
+};
+
+export const formatDivisionRange = (division: LawDivision) =>
+  division.from === division.to ? `Art. ${division.from}` : `Arts. ${division.from}-${division.to}`;
+
+// ---- Articles outside the bundled selection ----
+
+export const officialTextUrl = (law: LawId, number?: number) =>
+  `https://www.boe.es/buscar/act.php?id=${LAWS[law].boeId}${number === undefined ? '' : `#a${number}`}`;
+
+export const officialArticleUrl = (articleId: string): string | null => {
+  const ref = parseArticleRefId(articleId);
+  return ref ? officialTextUrl(ref.law, ref.number) : null;
+};
+
+// Spans of the ranges with no bundled text; a whole-law range ends at the law's last outlined article
+export const getMissingRanges = (law: LawId, ranges: ArticleRange[]): ArticleRange[] => {
+  const lastArticle = Math.max(0, ...LAW_STRUCTURE[law].map(division => division.to));
+  const bundled = new Set(getLawArticles(law).map(article => Number(article.number)));
+  const missing: ArticleRange[] = [];
+  for (let number = 1; number <= lastArticle; number++) {
+    if (bundled.has(number) || !isNumberInRanges(law, number, ranges)) continue;
+    const previous = missing[missing.length - 1];
+    if (previous && previous.to === number - 1) previous.to = number;
+    else missing.push({ law, from: number, to: number });
+  }
+  return missing;
+};
+
+// ---- Topic ranges ----
+
+export const getTopicArticles = (topic: ConstitutionTopic): LegalArticle[] =>
+  LEGAL_CORPUS.filter(article => isArticleInRanges(article, topic.articles));
+
+export const getArticleTopics = (article: LegalArticle, topics: ConstitutionTopic[]): ConstitutionTopic[] =>
+  topics.filter(topic => isArticleInRanges(article, topic.articles));
+
+// ---- Cross-references ----
+
+export interface ArticleTextPart {
+  text: string;
+  targetId?: string; // `${law}-${number}`; may point to an article outside the bundled selection
+}
+
+// "artículo 116" takes one number ("artículo 161, 1, a)" is a paragraph reference); "artículos
+// 17, 18 y 19" takes the whole list
+const REFERENCE_PATTERN = /\b(art[íi]culo)\s+(\d+)|\b(art[íi]culos)\s+(\d+(?:\.\d+)?(?:\s*(?:,|\by\b)\s*\d+(?:\.\d+)?)*)/gi;
+const CONSTITUTION_SUFFIX = /^[^.;]{0,40}?\bde (?:la|esta) Constituci[óo]n/i;
+
+export const splitCrossReferences = (article: LegalArticle): ArticleTextPart[] => {
+  const parts: ArticleTextPart[] = [];
+  const { text } = article;
+  let last = 0;
+  for (const match of text.matchAll(REFERENCE_PATTERN)) {
+    const law: LawId = CONSTITUTION_SUFFIX.test(text.slice(match.index! + match[0].length)) ? 'CE' : article.law;
+    const list = match[2] ?? match[4];
+    // The "artículo" word stays with the preceding text; each number becomes a link
+    parts.push({ text: text.slice(last, match.index! + match[0].length - list.length) });
+    let cursor = 0;
+    for (const number of list.matchAll(/(\d+)(?:\.\d+)?/g)) {
+      if (number.index! > cursor) parts.push({ text: list.slice(cursor, number.index) });
+      parts.push({ text: number[0], targetId: `${law}-${number[1]}` });
+      cursor = number.index! + number[0].length;
+    }
+    if (cursor < list.length) parts.push({ text: list.slice(cursor) });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last) });
+  return parts.filter(part => part.text);
+};
+
+// Articles this one refers to, without itself and without repeats
+export const getCrossReferences = (article: LegalArticle): string[] =>
+  Array.from(new Set(
+    splitCrossReferences(article)
+      .map(part => part.targetId)
+      .filter((id): id is string => !!id && id !== article.id)
+  ));
+
+let citedBy: Map<string, string[]> | null = null;
+
+// Bundled articles that refer to the given one
+export const getCitingArticles = (articleId: string): LegalArticle[] => {
+  if (!citedBy) {
+    citedBy = new Map();
+    LEGAL_CORPUS.forEach(article => getCrossReferences(article).forEach(target => {
+      citedBy!.set(target, [...(citedBy!.get(target) ?? []), article.id]);
+    }));
+  }
+  return (citedBy.get(articleId) ?? []).map(id => getArticleById(id)).filter((a): a is LegalArticle => !!a);
+};
+
+// ---- Search ----
+
+// Every matching article, explicit references ("art. 140 CE") first and then by BM25 score
+export const searchArticles = (query: string, law?: LawId): LegalArticle[] =>
+  retrieveArticles(query, LEGAL_CORPUS.length).filter(article => !law || article.law === law);
+
+const SNIPPET_RADIUS = 80;
+
+// Passage around the first query term found in the article, for the result list
+export const articleSnippet = (article: LegalArticle, query: string): string => {
+  const text = article.text.replace(/\s+/g, ' ');
+  const haystack = normalize(text);
+  const positions = tokenize(query)
+    .map(term => haystack.indexOf(term))
+    .filter(position => position >= 0);
+  if (positions.length === 0) {
+    return text.length > SNIPPET_RADIUS * 2 ? `${text.slice(0, SNIPPET_RADIUS * 2)}…` : text;
+  }
+  const start = Math.max(0, Math.min(...positions) - SNIPPET_RADIUS);
+  const end = Math.min(text.length, start + SNIPPET_RADIUS * 2);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
+export const describeArticle = (article: LegalArticle) =>
+  `${formatArticleLabel(article)}${article.title ? ` · ${article.title}` : ''}`;
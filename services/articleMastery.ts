@@ -0,0 +1,66 @@
+import { ArticleMastery, ArticleRange, ConstitutionTopic, QuizAttempt } from "../types";
+import { loadAttempts } from "./attempts";
+import { loadSyllabus } from "./syllabus";
+import { getQuestionArticles, isNumberInRanges, parseArticleRefId } from "./articleRefs";
+
+// Per-article mastery, derived from the quiz attempt log: every answer to a question counts for
+// each article the question tests. Nothing extra is stored, so it follows the attempts through
+// backups and sync. A tema can be passed while some of its articles keep failing; this is what
+// the heatmap shows.
+
+// Answers per article the level is computed from, so old mistakes fade once the article is learnt
+const RECENT_ANSWERS = 10;
+const WEAK_BELOW = 0.5;
+const STRONG_FROM = 0.8;
+
+export type MasteryLevel = 'none' | 'weak' | 'fair' | 'strong';
+
+export const MASTERY_LEVEL_LABELS: Record<MasteryLevel, string> = {
+  none: 'Sin preguntas',
+  weak: 'Flojo',
+  fair: 'Regular',
+  strong: 'Dominado'
+};
+
+export const computeArticleMastery = (
+  attempts: QuizAttempt[] = loadAttempts(),
+  topics: ConstitutionTopic[] = loadSyllabus()
+): Record<string, ArticleMastery> => {
+  const mastery: Record<string, ArticleMastery> = {};
+  const rangesOf = new Map(topics.map(topic => [topic.id, topic.articles]));
+
+  [...attempts].sort((a, b) => a.date - b.date).forEach(attempt => {
+    attempt.questions.forEach((question, idx) => {
+      const ranges = rangesOf.get(question.topicId ?? attempt.topicIds[0]) ?? [];
+      const isCorrect = attempt.userAnswers[idx] === question.correctAnswerIndex;
+      getQuestionArticles(question, ranges).forEach(articleId => {
+        const entry = mastery[articleId] ?? (mastery[articleId] = { articleId, answered: 0, correct: 0, recent: [], lastAnswered: 0 });
+        entry.answered++;
+        if (isCorrect) entry.correct++;
+        entry.recent = [...entry.recent, isCorrect].slice(-RECENT_ANSWERS);
+        entry.lastAnswered = attempt.date;
+      });
+    });
+  });
+  return mastery;
+};
+
+// Share of the latest answers that were right
+export const masteryScore = (entry: ArticleMastery): number =>
+  entry.recent.length > 0 ? entry.recent.filter(Boolean).length / entry.recent.length : 0;
+
+export const masteryLevel = (entry?: ArticleMastery): MasteryLevel => {
+  if (!entry || entry.recent.length === 0) return 'none';
+  const score = masteryScore(entry);
+  if (score < WEAK_BELOW) return 'weak';
+  return score < STRONG_FROM ? 'fair' : 'strong';
+};
+
+// Weak article ids inside the ranges, in law and article order
+export const getWeakArticles = (mastery: Record<string, ArticleMastery>, ranges: ArticleRange[]): string[] =>
+  Object.values(mastery)
+    .filter(entry => masteryLevel(entry) === 'weak')
+    .map(entry => ({ id: entry.articleId, ref: parseArticleRefId(entry.articleId) }))
+    .filter(({ ref }) => ref && isNumberInRanges(ref.law, ref.number, ranges))
+    .sort((a, b) => a.ref!.law.localeCompare(b.ref!.law) || a.ref!.number - b.ref!.number)
+    .map(({ id }) => id);
@@ -0,0 +1,151 @@
+import { ArticleRange, ConstitutionTopic, LawId, LegalArticle, QuizQuestion } from "../types";
+import { LAWS } from "../data/legalCorpus";
+
+// Typed article references. Topics list the laws and article ranges they cover, and quiz
+// questions carry the ids of the articles they test. Ids use the corpus format
+// (`${law}-${number}`) but may name articles outside the bundled selection.
+
+const normalize = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const LAW_IDS = Object.keys(LAWS) as LawId[];
+
+const mentionedLaw = (normalized: string): LawId | undefined =>
+  LAW_IDS.find(law => LAWS[law].keywords.some(keyword =>
+    new RegExp(`(^|[^a-z0-9/])${keyword.replace(/[/]/g, '\\/')}($|[^a-z0-9/])`).test(normalized)
+  ));
+
+export const articleRefId = (law: LawId, number: number | string) => `${law}-${number}`;
+
+export const parseArticleRefId = (id: string): { law: LawId; number: number } | null => {
+  const match = id.match(/^([A-Z]+)-(\d+)$/);
+  if (!match || !(match[1] in LAWS)) return null;
+  return { law: match[1] as LawId, number: Number(match[2]) };
+};
+
+export const isArticleRange = (value: unknown): value is ArticleRange => {
+  const range = value as ArticleRange;
+  return !!range && typeof range === 'object' && range.law in LAWS &&
+    (range.from === undefined || typeof range.from === 'number') &&
+    (range.to === undefined || typeof range.to === 'number');
+};
+
+// ---- Parsing and formatting topic references ----
+
+export interface ParsedArticleText {
+  ranges: ArticleRange[];
+  otherLaws: string[]; // Segments naming no bundled law, e.g. "LAULA" or "Ley 12/2007"
+}
+
+// Segments are separated by "/", ";" or a comma before another law ("LO 3/2007, Ley 12/2007").
+// Numbers in a segment without a law name are CE articles; a law name without numbers stands for
+// the whole law. Law numbers like "31/1995" are not articles.
+export const parseArticleReferences = (text: string): ParsedArticleText => {
+  const ranges: ArticleRange[] = [];
+  const otherLaws: string[] = [];
+  text.split(/\s\/\s|;|,(?=\s*(?:ley|lo|rd|real decreto)\b)/i).forEach(raw => {
+    const segment = raw.trim();
+    if (!segment) return;
+    const normalized = normalize(segment);
+    const law = mentionedLaw(normalized);
+    const numbers = Array.from(normalized.replace(/\d+\/\d{4}/g, ' ').matchAll(/(\d+)(?:\s*-\s*(\d+))?/g));
+    if (numbers.length === 0) {
+      if (law) ranges.push({ law });
+      else otherLaws.push(segment);
+      return;
+    }
+    numbers.forEach(match => {
+      const from = Number(match[1]);
+      const to = match[2] ? Number(match[2]) : from;
+      ranges.push({ law: law ?? 'CE', from: Math.min(from, to), to: Math.max(from, to) });
+    });
+  });
+  return { ranges, otherLaws };
+};
+
+export const formatArticleRange = (range: ArticleRange) => {
+  const law = LAWS[range.law].shortName;
+  if (range.from === undefined || range.to === undefined) return law;
+  return range.from === range.to ? `Art. ${range.from} ${law}` : `Arts. ${range.from}-${range.to} ${law}`;
+};
+
+// Ranges of the same law are grouped: "LBRL / Arts. 1-55, 159-169 CE"
+export const formatArticleRanges = (ranges: ArticleRange[]): string => {
+  const laws = Array.from(new Set(ranges.map(range => range.law)));
+  return laws.map(law => {
+    const ofLaw = ranges.filter(range => range.law === law);
+    if (ofLaw.some(range => range.from === undefined || range.to === undefined)) return LAWS[law].shortName;
+    const spans = ofLaw.map(range => range.from === range.to ? `${range.from}` : `${range.from}-${range.to}`);
+    const single = ofLaw.length === 1 && ofLaw[0].from === ofLaw[0].to;
+    return `${single ? 'Art.' : 'Arts.'} ${spans.join(', ')} ${LAWS[law].shortName}`;
+  }).join(' / ');
+};
+
+export const formatTopicArticles = (topic: ConstitutionTopic): string =>
+  [formatArticleRanges(topic.articles), ...(topic.otherLaws ?? [])].filter(Boolean).join(' / ');
+
+// Consecutive article ids collapse into ranges: ["CE-81", "CE-82", "CE-86"] → "Arts. 81-82, 86 CE"
+export const formatArticleIds = (ids: string[]): string => {
+  const refs = ids.map(parseArticleRefId).filter((ref): ref is { law: LawId; number: number } => !!ref)
+    .sort((a, b) => LAW_IDS.indexOf(a.law) - LAW_IDS.indexOf(b.law) || a.number - b.number);
+  const ranges: ArticleRange[] = [];
+  refs.forEach(ref => {
+    const last = ranges[ranges.length - 1];
+    if (last && last.law === ref.law && last.to !== undefined && ref.number <= last.to + 1) last.to = Math.max(last.to, ref.number);
+    else ranges.push({ law: ref.law, from: ref.number, to: ref.number });
+  });
+  return formatArticleRanges(ranges);
+};
+
+export const isNumberInRanges = (law: LawId, number: number, ranges: ArticleRange[]) =>
+  ranges.some(range => range.law === law && (
+    range.from === undefined || range.to === undefined || (number >= range.from && number <= range.to)
+  ));
+
+export const isArticleInRanges = (article: LegalArticle, ranges: ArticleRange[]) =>
+  isNumberInRanges(article.law, Number(article.number), ranges);
+
+// ---- Articles tested by a question ----
+
+// "art. 140 CE", "artículos 81 a 92 de la Constitución", "arts. 17, 18 y 55"
+const MENTION_PATTERN = /\bart(?:[íi]culos?|s?\.?)\s*(\d+(?:\s*(?:,|\by\b|-|\ba\b)\s*\d+)*)/gi;
+const OTHER_LAW = /^\s*(?:de(?:l| la)?\s+)?(?:ley|lo|rd|real decreto)\b[^,.;]{0,16}\d+\/\d{4}/i;
+// Longest "81 a 92" span expanded into single articles
+const MAX_EXPANDED_SPAN = 30;
+
+// A bare number belongs to the topic range that contains it, else to a whole law of the topic, else to the CE
+const resolveLaw = (number: number, ranges: ArticleRange[]): LawId =>
+  ranges.find(range => range.from !== undefined && range.to !== undefined && number >= range.from && number <= range.to)?.law
+  ?? ranges.find(range => range.from === undefined)?.law
+  ?? 'CE';
+
+export const findArticleMentions = (text: string, ranges: ArticleRange[] = []): string[] => {
+  const ids: string[] = [];
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const after = text.slice(match.index! + match[0].length, match.index! + match[0].length + 30);
+    const law = mentionedLaw(normalize(after.split(/[.;:?!\n]/)[0]));
+    // Articles of laws outside the corpus ("art. 21 de la Ley 39/2015") are not tracked
+    if (!law && OTHER_LAW.test(after)) continue;
+    for (const span of match[1].matchAll(/(\d+)(?:\s*(?:-|\ba\b)\s*(\d+))?/g)) {
+      const from = Number(span[1]);
+      const to = span[2] && Number(span[2]) - from <= MAX_EXPANDED_SPAN ? Number(span[2]) : from;
+      for (let number = from; number <= Math.max(from, to); number++) {
+        ids.push(articleRefId(law ?? resolveLaw(number, ranges), number));
+      }
+      if (span[2] && to === from) ids.push(articleRefId(law ?? resolveLaw(Number(span[2]), ranges), span[2]));
+    }
+  }
+  return Array.from(new Set(ids));
+};
+
+// Tagged ids when present; otherwise the cited corpus articles plus the articles named in the
+// question and its explanation (not in the options, where they are usually distractors)
+export const getQuestionArticles = (question: QuizQuestion, ranges: ArticleRange[] = []): string[] => {
+  if (question.articles) return question.articles;
+  const cited = (question.citations ?? []).filter(id => parseArticleRefId(id));
+  const mentioned = findArticleMentions(`${question.question}\n${question.explanation}`, ranges);
+  return Array.from(new Set([...cited, ...mentioned]));
+};
+
+export const tagQuestionArticles = (question: QuizQuestion, ranges: ArticleRange[] = []): QuizQuestion =>
+  question.articles ? question : { ...question, articles: getQuestionArticles(question, ranges) };
@@ -0,0 +1,50 @@
+import { QuizAttempt, QuizState } from "../types";
+import { readStored, writeStored } from "./storage";
+
+// Every finished quiz is kept until the user deletes it; the per-article mastery map is computed from this log
+const STORAGE_KEY = 'quiz_attempts';
+
+export const loadAttempts = (): QuizAttempt[] => readStored(STORAGE_KEY, []);
+
+const saveAttempts = (attempts: QuizAttempt[]) => {
+  writeStored(STORAGE_KEY, attempts);
+};
+
+export const recordAttempt = (state: QuizState): QuizAttempt | null => {
+  if (!state.examScore || state.finishedAt === null) return null;
+  const attempt: QuizAttempt = {
+    id: `attempt_${state.finishedAt.toString(36)}_${Math.random().toString(36).slice(2, 7)}`,
+    topicIds: state.config.topics.map(t => t.topicId),
+    date: state.finishedAt,
+    mode: state.mode,
+    config: state.config,
+    questions: state.questions,
+    userAnswers: state.userAnswers,
+    examScore: state.examScore,
+    timeSpentMs: state.timeSpentMs,
+    durationMs: state.finishedAt - state.startedAt
+  };
+  saveAttempts([...loadAttempts(), attempt]);
+  return attempt;
+};
+
+// Newest first
+export const getTopicAttempts = (topicId: string): QuizAttempt[] =>
+  loadAttempts()
+    .filter(a => a.topicIds.includes(topicId))
+    .sort((a, b) => b.date - a.date);
+
+export const deleteAttempt = (attemptId: string) => {
+  saveAttempts(loadAttempts().filter(a => a.id !== attemptId));
+};
+
+export const retagAttempts = (fromTopicId: string, toTopicId: string) => {
+  if (fromTopicId === toTopicId) return;
+  const retag = (id: string) => id === fromTopicId ? toTopicId : id;
+  saveAttempts(loadAttempts().map(attempt => ({
+    ...attempt,
+    topicIds: attempt.topicIds.map(retag),
+    config: { ...attempt.config, topics: attempt.config.topics.map(t => ({ ...t, topicId: retag(t.topicId) })) },
+    questions: attempt.questions.map(q => q.topicId ? { ...q, topicId: retag(q.topicId) } : q)
+  })));
+};
@@ -0,0 +1,325 @@
+import {
+  AISettings,
+  BankedQuestion,
+  ChatConversation,
+  ConstitutionTopic,
+  FailedQuestion,
+  Flashcard,
+  QuizAttempt,
+  SrsCard,
+  SrsSchedule,
+  TopicDocument,
+  TopicProgress
+} from "../types";
+import {
+  SCHEMA_VERSION,
+  StorageKey,
+  StorageSchema,
+  findStored,
+  isValidStoredValue,
+  listStoredKeys,
+  removeStored,
+  writeStored
+} from "./storage";
+import { typedArticles } from "./syllabus";
+
+// Single-file export of everything the active learner profile stores, plus the AI settings,
+// so a cleared browser profile can be restored.
+// API keys are never written to the file; a restore keeps the keys configured on this device.
+
+const BACKUP_FORMAT = 'constitucion-backup';
+const BACKUP_VERSION = 1;
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: number;
+  data: Partial<Record<StorageKey, unknown>>;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+const stripApiKeys = (settings: Partial<AISettings>) => ({
+  ...settings,
+  gemini: settings.gemini ? { ...settings.gemini, apiKey: '' } : undefined,
+  openai: settings.openai ? { ...settings.openai, apiKey: '' } : undefined
+});
+
+export const createBackup = (): BackupArchive => {
+  const data: BackupArchive['data'] = {};
+  listStoredKeys().forEach(key => {
+    const value = findStored(key);
+    if (value === undefined) return;
+    data[key] = key === 'ai_settings' ? stripApiKeys(value as Partial<AISettings>) : value;
+  });
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, schemaVersion: SCHEMA_VERSION, exportedAt: Date.now(), data };
+};
+
+export const backupFileName = (date: Date = new Date()) =>
+  `constitucion-copia-${date.toISOString().slice(0, 10)}.json`;
+
+export interface ParsedBackup {
+  archive: BackupArchive;
+  // Entries dropped because their key is unknown or their value is malformed, and single items
+  // dropped from a collection, written as `quiz_attempts[3]` or `srs_cards.<id>`
+  skippedKeys: string[];
+}
+
+// ---- Item validation ----
+
+type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Checks only the fields the app reads without a fallback, so older files still restore
+const hasFields = (value: unknown, fields: Record<string, FieldType>): value is Record<string, unknown> =>
+  isObject(value) && Object.entries(fields).every(([field, type]) => {
+    const item = value[field];
+    if (type === 'array') return Array.isArray(item);
+    if (type === 'object') return isObject(item);
+    return typeof item === type;
+  });
+
+const isQuestion = (value: unknown) =>
+  hasFields(value, { question: 'string', options: 'array', correctAnswerIndex: 'number' }) &&
+  (value.options as unknown[]).every(option => typeof option === 'string');
+
+const SCHEDULE_FIELDS: Record<string, FieldType> = { ease: 'number', interval: 'number', repetitions: 'number', lapses: 'number', due: 'number', history: 'array' };
+
+const isAttempt = (value: unknown) =>
+  hasFields(value, { id: 'string', date: 'number', topicIds: 'array', config: 'object', questions: 'array', userAnswers: 'array', examScore: 'object', timeSpentMs: 'array' }) &&
+  typeof (value.examScore as Record<string, unknown>).percentage === 'number' &&
+  (value.questions as unknown[]).every(isQuestion);
+
+const isBankedQuestion = (value: unknown) =>
+  hasFields(value, { id: 'string', topicId: 'string', question: 'object', timesSeen: 'number' }) && isQuestion(value.question);
+
+const isDocument = (value: unknown) => hasFields(value, { id: 'string', topicId: 'string', name: 'string', text: 'string' });
+
+interface CollectionRule {
+  kind: 'array' | 'record' | 'recordOfArrays';
+  isValid: (item: unknown) => boolean;
+  // Brings a valid item written by an older version up to the current shape
+  upgrade?: (item: Record<string, unknown>) => unknown;
+}
+
+const COLLECTION_RULES: Partial<Record<StorageKey, CollectionRule>> = {
+  topic_progress: { kind: 'record', isValid: item => hasFields(item, { topicId: 'string', isPassed: 'boolean', bestScore: 'number', lastAttempt: 'number' }) },
+  failed_questions: { kind: 'array', isValid: item => hasFields(item, { question: 'string', date: 'number' }) },
+  quiz_attempts: { kind: 'array', isValid: isAttempt },
+  srs_cards: { kind: 'record', isValid: item => hasFields(item, { ...SCHEDULE_FIELDS, id: 'string', topicId: 'string', question: 'object' }) && isQuestion(item.question) },
+  flashcards: { kind: 'record', isValid: item => hasFields(item, { ...SCHEDULE_FIELDS, id: 'string', topicId: 'string', front: 'string', back: 'string', updatedAt: 'number' }) },
+  flashcard_tombstones: { kind: 'recordOfArrays', isValid: item => typeof item === 'string' },
+  question_bank: { kind: 'recordOfArrays', isValid: isBankedQuestion },
+  topic_documents: { kind: 'recordOfArrays', isValid: isDocument },
+  chat_conversations: { kind: 'array', isValid: item => hasFields(item, { id: 'string', title: 'string', messages: 'array', createdAt: 'number', updatedAt: 'number' }) },
+  // Before article ranges, a tema stored its articles as text such as "Arts. 1-55"
+  syllabus: {
+    kind: 'array',
+    isValid: item => hasFields(item, { id: 'string', title: 'string' }) && (typeof item.articles === 'string' || Array.isArray(item.articles)),
+    upgrade: item => ({ ...item, ...typedArticles(item.articles, item.otherLaws) })
+  }
+};
+
+// Keeps the valid items of a collection and names the ones left out
+const filterItems = (key: StorageKey, value: unknown, skipped: string[]): unknown => {
+  const rule = COLLECTION_RULES[key];
+  if (!rule) return value;
+  const upgrade = (item: unknown) => rule.upgrade && isObject(item) ? rule.upgrade(item) : item;
+  const filterArray = (items: unknown[], path: string) => items.filter((item, index) => {
+    if (rule.isValid(item)) return true;
+    skipped.push(`${path}[${index}]`);
+    return false;
+  }).map(upgrade);
+  if (rule.kind === 'array') return filterArray(value as unknown[], key);
+
+  const filtered: Record<string, unknown> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([id, item]) => {
+    if (rule.kind === 'recordOfArrays') {
+      if (Array.isArray(item)) filtered[id] = filterArray(item, `${key}.${id}`);
+      else skipped.push(`${key}.${id}`);
+    } else if (rule.isValid(item)) {
+      filtered[id] = upgrade(item);
+    } else {
+      skipped.push(`${key}.${id}`);
+    }
+  });
+  return filtered;
+};
+
+// Throws with a user-facing message when the file is not a usable backup
+export const parseBackup = (text: string): ParsedBackup => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('El archivo no es un JSON válido.');
+  }
+  if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT || !isObject(parsed.data)) {
+    throw new Error('El archivo no es una copia de seguridad de esta aplicación.');
+  }
+  const { version, schemaVersion, exportedAt } = parsed;
+  if (typeof version !== 'number' || version > BACKUP_VERSION) {
+    throw new Error('La copia se creó con una versión más reciente de la aplicación. Actualízala antes de restaurarla.');
+  }
+
+  const data: BackupArchive['data'] = {};
+  const skippedKeys: string[] = [];
+  Object.entries(parsed.data).forEach(([key, value]) => {
+    if (isValidStoredValue(key, value)) data[key] = filterItems(key, value, skippedKeys);
+    else skippedKeys.push(key);
+  });
+  if (Object.keys(data).length === 0) throw new Error('La copia de seguridad no contiene datos.');
+
+  return {
+    archive: {
+      format: BACKUP_FORMAT,
+      version,
+      schemaVersion: typeof schemaVersion === 'number' ? schemaVersion : 0,
+      exportedAt: typeof exportedAt === 'number' ? exportedAt : 0,
+      data
+    },
+    skippedKeys
+  };
+};
+
+// ---- Preview ----
+
+interface BackupCategory {
+  label: string;
+  matches: (key: string) => boolean;
+  // Identifiers of the items stored under the matching keys, used to count new and shared items
+  itemIds: (key: string, value: unknown) => string[];
+}
+
+const recordIds = (_: string, value: unknown) => Object.keys(value as object);
+const keyAsId = (key: string) => [key];
+
+const CATEGORIES: BackupCategory[] = [
+  { label: 'Progreso por tema', matches: k => k === 'topic_progress', itemIds: recordIds },
+  { label: 'Fallos recientes', matches: k => k === 'failed_questions', itemIds: (_, v) => (v as FailedQuestion[]).map(m => `${m.date}:${m.question}`) },
+  { label: 'Guías de estudio', matches: k => k.startsWith('study_text_'), itemIds: keyAsId },
+  { label: 'Esquemas', matches: k => k.startsWith('study_diagram_obj_'), itemIds: keyAsId },
+  { label: 'Conversaciones', matches: k => k === 'chat_conversations', itemIds: (_, v) => (v as ChatConversation[]).map(c => c.id) },
+  { label: 'Tarjetas de repaso', matches: k => k === 'srs_cards', itemIds: recordIds },
+  { label: 'Flashcards', matches: k => k === 'flashcards', itemIds: recordIds },
+  { label: 'Tests realizados', matches: k => k === 'quiz_attempts', itemIds: (_, v) => (v as QuizAttempt[]).map(a => a.id) },
+  { label: 'Banco de preguntas', matches: k => k === 'question_bank', itemIds: (_, v) => Object.values(v as Record<string, BankedQuestion[]>).flat().map(q => `${q.topicId}:${q.id}`) },
+  { label: 'Documentos', matches: k => k === 'topic_documents', itemIds: (_, v) => Object.values(v as Record<string, TopicDocument[]>).flat().map(d => d.id) },
+  { label: 'Temario', matches: k => k === 'syllabus', itemIds: (_, v) => (v as ConstitutionTopic[]).map(t => t.id) },
+  { label: 'Ajustes', matches: k => k === 'ai_settings' || k === 'guided_mode', itemIds: keyAsId }
+];
+
+export interface BackupPreviewRow {
+  label: string;
+  current: number;
+  incoming: number;
+  // Items in the file that do not exist on this device yet
+  added: number;
+}
+
+const collectIds = (category: BackupCategory, entries: [string, unknown][]) =>
+  new Set(entries.filter(([key]) => category.matches(key)).flatMap(([key, value]) => category.itemIds(key, value)));
+
+export const previewBackup = (archive: BackupArchive): BackupPreviewRow[] => {
+  const currentEntries = listStoredKeys().map(key => [key, findStored(key)] as [string, unknown]).filter(([, v]) => v !== undefined);
+  const incomingEntries = Object.entries(archive.data);
+
+  return CATEGORIES.map(category => {
+    const current = collectIds(category, currentEntries);
+    const incoming = collectIds(category, incomingEntries);
+    return {
+      label: category.label,
+      current: current.size,
+      incoming: incoming.size,
+      added: Array.from(incoming).filter(id => !current.has(id)).length
+    };
+  }).filter(row => row.current > 0 || row.incoming > 0);
+};
+
+// ---- Restore ----
+
+const mergeById = <T,>(current: T[], incoming: T[], idOf: (item: T) => string, prefer: (a: T, b: T) => T = a => a): T[] => {
+  const merged = new Map(current.map(item => [idOf(item), item]));
+  incoming.forEach(item => {
+    const existing = merged.get(idOf(item));
+    merged.set(idOf(item), existing ? prefer(existing, item) : item);
+  });
+  return Array.from(merged.values());
+};
+
+const mergeRecord = <T,>(current: Record<string, T>, incoming: Record<string, T>, prefer: (a: T, b: T) => T): Record<string, T> => {
+  const merged = { ...current };
+  Object.entries(incoming).forEach(([id, item]) => {
+    merged[id] = merged[id] ? prefer(merged[id], item) : item;
+  });
+  return merged;
+};
+
+const lastReview = (card: SrsSchedule) => card.history.length > 0 ? card.history[card.history.length - 1].date : 0;
+
+// Rules for two copies of the same item, shared with the sync client
+export const mergeTopicProgress = (a: TopicProgress, b: TopicProgress): TopicProgress => ({
+  topicId: a.topicId,
+  isPassed: a.isPassed || b.isPassed,
+  bestScore: Math.max(a.bestScore, b.bestScore),
+  lastAttempt: Math.max(a.lastAttempt, b.lastAttempt)
+});
+
+export const newerSrsCard = (a: SrsCard, b: SrsCard): SrsCard => lastReview(b) > lastReview(a) ? b : a;
+
+// Flashcards change both by review and by editing their text
+export const newerFlashcard = (a: Flashcard, b: Flashcard): Flashcard =>
+  Math.max(b.updatedAt, lastReview(b)) > Math.max(a.updatedAt, lastReview(a)) ? b : a;
+
+export const mostSeenQuestion = (a: BankedQuestion, b: BankedQuestion): BankedQuestion => b.timesSeen > a.timesSeen ? b : a;
+
+// Merge keeps what is on this device and adds what only the file has; when both hold the same
+// item the more recent or more advanced copy wins. Device-level choices stay untouched.
+const MERGERS: { [K in StorageKey]?: (current: StorageSchema[K], incoming: StorageSchema[K]) => StorageSchema[K] } = {
+  topic_progress: (current, incoming) => mergeRecord(current, incoming, mergeTopicProgress),
+  failed_questions: (current, incoming) => mergeById(current, incoming, m => `${m.date}:${m.question}`).sort((a, b) => a.date - b.date),
+  srs_cards: (current, incoming) => mergeRecord(current, incoming, newerSrsCard),
+  flashcards: (current, incoming) => mergeRecord(current, incoming, newerFlashcard),
+  flashcard_tombstones: (current, incoming) => mergeRecord(current, incoming, (a, b) => Array.from(new Set([...a, ...b]))),
+  quiz_attempts: (current, incoming) => mergeById(current, incoming, a => a.id).sort((a, b) => a.date - b.date),
+  chat_conversations: (current, incoming) => mergeById(current, incoming, c => c.id, (a, b) => b.updatedAt > a.updatedAt ? b : a),
+  question_bank: (current, incoming) => mergeRecord(current, incoming, (a, b) => mergeById(a, b, q => q.id, mostSeenQuestion)),
+  topic_documents: (current, incoming) => mergeRecord(current, incoming, (a, b) => mergeById(a, b, d => d.id)),
+  syllabus: (current, incoming) => mergeById(current, incoming, t => t.id)
+};
+
+// Study plans, diagrams and settings already on this device are kept
+const mergeValue = <K extends StorageKey>(key: K, current: StorageSchema[K], incoming: StorageSchema[K]): StorageSchema[K] => {
+  const merge = MERGERS[key];
+  return merge ? merge(current, incoming) : current;
+};
+
+const restoreEntry = <K extends StorageKey>(key: K, value: StorageSchema[K], mode: RestoreMode) => {
+  const current = mode === 'merge' ? findStored(key) : undefined;
+  writeStored(key, current === undefined ? value : mergeValue(key, current, value));
+};
+
+export const applyBackup = (archive: BackupArchive, mode: RestoreMode) => {
+  const currentSettings = findStored('ai_settings');
+  // parseBackup checked every value against its key
+  const entries = Object.entries(archive.data) as [StorageKey, StorageSchema[StorageKey]][];
+
+  if (mode === 'replace') listStoredKeys().forEach(key => removeStored(key));
+  entries.forEach(([key, value]) => restoreEntry(key, value, mode));
+
+  // API keys never travel in the file, so the ones configured here survive a restore. A file
+  // without settings leaves this device's settings as they were, even when replacing.
+  const restored = archive.data.ai_settings ? findStored('ai_settings') : undefined;
+  if (restored) {
+    writeStored('ai_settings', {
+      ...restored,
+      gemini: restored.gemini ? { ...restored.gemini, apiKey: currentSettings?.gemini?.apiKey ?? '' } : undefined,
+      openai: restored.openai ? { ...restored.openai, apiKey: currentSettings?.openai?.apiKey ?? '' } : undefined
+    });
+  } else if (currentSettings) {
+    writeStored('ai_settings', currentSettings);
+  }
+};
@@ -0,0 +1,43 @@
+import { GroundedAnswer } from "../types";
+import { formatArticleLabel, getArticleById } from "./retrieval";
+import { formatPassageLabel, getPassageById } from "./documents";
+
+// Models are asked to cite sources with markers like [[CE-140]], or [[DOC-k3x9a1-4]] for
+// a passage of the student's uploaded material
+const CITATION_MARKER = /\[\[([A-Z]+-[0-9]+|DOC-[a-z0-9]+-[0-9]+)\]\]/g;
+
+// Display label of an article or passage id, undefined when it points to nothing we hold
+export const getCitationLabel = (id: string): string | undefined => {
+  const article = getArticleById(id);
+  if (article) return formatArticleLabel(article);
+  const passage = getPassageById(id);
+  return passage ? formatPassageLabel(passage) : undefined;
+};
+
+export const CITATION_HREF_PREFIX = '#cite-';
+
+// Keeps markers that point to a bundled article or stored passage and flags the rest so an invented
+// article number never looks like a verified reference.
+export const extractCitations = (rawText: string): GroundedAnswer => {
+  const citations: string[] = [];
+  const text = rawText.replace(CITATION_MARKER, (marker, id: string) => {
+    if (!getCitationLabel(id)) return `(${id}, cita no verificada)`;
+    if (!citations.includes(id)) citations.push(id);
+    return marker;
+  });
+  return { text, citations };
+};
+
+// Turns markers into Markdown links the citation-aware renderers intercept
+export const linkifyCitations = (text: string): string =>
+  text.replace(CITATION_MARKER, (marker, id: string) => {
+    const label = getCitationLabel(id);
+    return label ? `[${label}](${CITATION_HREF_PREFIX}${id})` : marker;
+  });
+
+// Plain-text form for exports outside the app, where citation links cannot be opened
+export const citationsToLabels = (text: string): string =>
+  text.replace(CITATION_MARKER, (marker, id: string) => getCitationLabel(id) ?? marker);
+
+export const filterKnownCitations = (ids: unknown): string[] =>
+  Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string' && !!getCitationLabel(id)) : [];
@@ -0,0 +1,84 @@
+import { ChatConversation, ChatMessage, ChatTurn } from "../types";
+import { citationsToLabels } from "./citations";
+import { findStored, readStored, writeStored } from "./storage";
+
+const STORAGE_KEY = 'chat_conversations';
+const ACTIVE_KEY = 'chat_active_conversation';
+// Most recent messages always sent verbatim to the tutor
+const RECENT_MESSAGES = 10;
+// Older messages are folded into the summary in batches so it isn't rewritten on every turn
+const SUMMARY_BATCH = 6;
+const TITLE_LENGTH = 48;
+
+export const DEFAULT_CONVERSATION_TITLE = 'Nueva conversación';
+
+export const loadConversations = (): ChatConversation[] => readStored(STORAGE_KEY, []);
+
+export const saveConversations = (conversations: ChatConversation[]) => {
+  writeStored(STORAGE_KEY, conversations);
+};
+
+export const loadActiveConversationId = (): string | null => findStored(ACTIVE_KEY) ?? null;
+
+export const saveActiveConversationId = (id: string) => {
+  writeStored(ACTIVE_KEY, id);
+};
+
+export const createConversation = (): ChatConversation => {
+  const now = Date.now();
+  return {
+    id: `chat_${now.toString(36)}`,
+    title: DEFAULT_CONVERSATION_TITLE,
+    titleEdited: false,
+    messages: [],
+    summary: '',
+    summarizedCount: 0,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+// Title from the first question: first line, Markdown stripped, cut at a word boundary
+export const generateTitle = (text: string): string => {
+  const firstLine = text.split('\n').find(line => line.trim()) ?? '';
+  const plain = firstLine.replace(/[#*_>`[\]]/g, '').replace(/\s+/g, ' ').trim();
+  if (plain.length <= TITLE_LENGTH) return plain || DEFAULT_CONVERSATION_TITLE;
+  const cut = plain.slice(0, TITLE_LENGTH);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 20 ? cut.lastIndexOf(' ') : TITLE_LENGTH)}…`;
+};
+
+export const searchConversations = (conversations: ChatConversation[], query: string): ChatConversation[] => {
+  const needle = query.trim().toLowerCase();
+  const sorted = [...conversations].sort((a, b) => b.updatedAt - a.updatedAt);
+  if (!needle) return sorted;
+  return sorted.filter(c =>
+    c.title.toLowerCase().includes(needle) || c.messages.some(m => m.text.toLowerCase().includes(needle))
+  );
+};
+
+export const messageToTurn = (message: ChatMessage): ChatTurn => ({ role: message.role, text: message.text });
+
+// Messages that should be summarised before the next request, empty while the history is short
+export const getMessagesToSummarize = (conversation: ChatConversation): ChatMessage[] => {
+  const pending = conversation.messages.slice(conversation.summarizedCount);
+  return pending.length > RECENT_MESSAGES + SUMMARY_BATCH ? pending.slice(0, pending.length - RECENT_MESSAGES) : [];
+};
+
+// History sent to the tutor: the running summary as an opening exchange, then the recent messages
+export const buildTutorHistory = (conversation: ChatConversation): ChatTurn[] => {
+  const recent = conversation.messages.slice(conversation.summarizedCount).map(messageToTurn);
+  if (!conversation.summary) return recent;
+  return [
+    { role: 'user', text: `Resumen de nuestra conversación hasta ahora:\n${conversation.summary}` },
+    { role: 'model', text: 'De acuerdo, continúo a partir de ese resumen.' },
+    ...recent
+  ];
+};
+
+export const conversationToMarkdown = (conversation: ChatConversation): string => {
+  const header = `# ${conversation.title}\n\n_Exportado el ${new Date().toLocaleString('es-ES')}_\n`;
+  const body = conversation.messages.map(m =>
+    `## ${m.role === 'user' ? 'Tú' : 'Tutor'}\n\n${citationsToLabels(m.text)}`
+  ).join('\n\n');
+  return `${header}\n${body}\n`;
+};
@@ -0,0 +1,278 @@
+import { DiagramEdge, DiagramNode, DiagramNodeLevel, InteractiveDiagram } from "../types";
+
+// Mind maps are stored as a node tree (plus optional cross links) and the Mermaid source is
+// generated from it, so labels never break the syntax and relationships come from the data.
+
+// Generated maps have 8-20 nodes; the rest is room for the student's own additions
+export const MAX_DIAGRAM_NODES = 80;
+const MAX_LABEL_LENGTH = 60;
+const LEVELS: DiagramNodeLevel[] = ['main', 'sub', 'detail'];
+
+export const DIAGRAM_LEVEL_LABELS: Record<DiagramNodeLevel, string> = {
+  main: 'Principal',
+  sub: 'Rama',
+  detail: 'Detalle'
+};
+
+const CLASS_DEFS = [
+  'classDef main fill:#AA151B,stroke:#F1BF00,stroke-width:4px,color:white;',
+  'classDef sub fill:#1e293b,stroke:#F1BF00,stroke-width:2px,color:#F1BF00;',
+  'classDef detail fill:#0f172a,stroke:#334155,stroke-width:1px,color:#cbd5e1,stroke-dasharray: 5 5;'
+];
+
+type RawNode = Partial<Record<keyof DiagramNode, unknown>>;
+type RawEdge = Partial<Record<keyof DiagramEdge, unknown>>;
+
+const cleanText = (value: unknown, maxLength?: number): string => {
+  if (typeof value !== 'string' && typeof value !== 'number') return '';
+  const text = String(value).replace(/\s+/g, ' ').trim();
+  return maxLength ? text.slice(0, maxLength).trim() : text;
+};
+
+// ---- Diagrams saved before the schema ----
+
+// Older diagrams were raw Mermaid text plus a detail per node id; this reads their labels and
+// arrows once so they load as a node tree
+const LEGACY_NODE = /\b([A-Za-z]\w*)\s*[[({]+["']?([^"'\])}]+)["']?[\])}]+/g;
+const LEGACY_ARROW = /\b(\w+)\s*[-=.]+>\s*(\w+)/g;
+
+const legacyNodes = (mermaidCode: string, nodeDetails: unknown): RawNode[] => {
+  const code = mermaidCode.replace(/\\n/g, '\n');
+  const labels = new Map<string, string>();
+  for (const match of code.matchAll(LEGACY_NODE)) {
+    if (!labels.has(match[1])) labels.set(match[1], match[2]);
+  }
+  const parents = new Map<string, string>();
+  for (const match of code.replace(LEGACY_NODE, '$1').replace(/:::\w+/g, '').matchAll(LEGACY_ARROW)) {
+    if (!parents.has(match[2])) parents.set(match[2], match[1]);
+  }
+  const details = nodeDetails && typeof nodeDetails === 'object' ? nodeDetails as Record<string, unknown> : {};
+  return Array.from(labels, ([id, label]) => ({ id, label, parent: parents.get(id), detail: details[id] }));
+};
+
+// ---- Schema validation ----
+
+const defaultLevel = (rootId: string, parent?: string): DiagramNodeLevel =>
+  !parent ? 'main' : parent === rootId ? 'sub' : 'detail';
+
+// Checks model (or stored) JSON against the schema and repairs what it can: nodes without an id
+// or label and repeated ids are dropped, there is exactly one root, every other node hangs from
+// an existing node without cycles, and cross links point to existing nodes. Null when no node survives.
+export const validateDiagram = (raw: unknown): InteractiveDiagram | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const data = raw as { nodes?: unknown; edges?: unknown; mermaidCode?: unknown; nodeDetails?: unknown };
+  const rawNodes: RawNode[] = Array.isArray(data.nodes)
+    ? data.nodes
+    : typeof data.mermaidCode === 'string' ? legacyNodes(data.mermaidCode, data.nodeDetails) : [];
+
+  const byId = new Map<string, DiagramNode>();
+  const requestedLevels = new Map<string, unknown>();
+  rawNodes.forEach(item => {
+    if (byId.size >= MAX_DIAGRAM_NODES || !item || typeof item !== 'object') return;
+    const id = cleanText(item.id);
+    const label = cleanText(item.label, MAX_LABEL_LENGTH);
+    if (!id || !label || byId.has(id)) return;
+    const detail = typeof item.detail === 'string' ? item.detail.trim() : '';
+    const parent = cleanText(item.parent);
+    byId.set(id, { id, label, level: 'detail', ...(detail ? { detail } : {}), ...(parent ? { parent } : {}) });
+    requestedLevels.set(id, item.level);
+  });
+  if (byId.size === 0) return null;
+
+  const nodes = Array.from(byId.values());
+  const root = nodes.find(node => !node.parent || !byId.has(node.parent) || node.parent === node.id) ?? nodes[0];
+  delete root.parent;
+
+  // True when following the parents from the node leads back to it
+  const closesCycle = (node: DiagramNode) => {
+    const seen = new Set<string>();
+    let current = node.parent;
+    while (current && !seen.has(current)) {
+      if (current === node.id) return true;
+      seen.add(current);
+      current = byId.get(current)?.parent;
+    }
+    return false;
+  };
+
+  nodes.forEach(node => {
+    if (node === root) return;
+    if (!node.parent || !byId.has(node.parent) || closesCycle(node)) node.parent = root.id;
+  });
+  // Levels only pick the colour, so any valid one is kept; missing ones follow the depth
+  nodes.forEach(node => {
+    const requested = requestedLevels.get(node.id) as DiagramNodeLevel;
+    node.level = LEVELS.includes(requested) ? requested : defaultLevel(root.id, node.parent);
+  });
+
+  const edges: DiagramEdge[] = [];
+  const linked = new Set(nodes.map(node => `${node.parent}>${node.id}`));
+  (Array.isArray(data.edges) ? data.edges as RawEdge[] : []).forEach(item => {
+    if (!item || typeof item !== 'object') return;
+    const from = cleanText(item.from);
+    const to = cleanText(item.to);
+    if (!byId.has(from) || !byId.has(to) || from === to) return;
+    if (linked.has(`${from}>${to}`) || linked.has(`${to}>${from}`)) return;
+    linked.add(`${from}>${to}`);
+    const label = cleanText(item.label, MAX_LABEL_LENGTH);
+    edges.push({ from, to, ...(label ? { label } : {}) });
+  });
+
+  return { nodes: [root, ...nodes.filter(node => node !== root)], edges };
+};
+
+// ---- Mermaid generation ----
+
+// Mermaid entity codes keep quotes and markup inside a quoted label from ending it
+const escapeLabel = (text: string) =>
+  text.replace(/#/g, '#35;').replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+
+// Mermaid ids are positional (N1, N2…) so model ids never clash with Mermaid keywords like "end"
+export const mermaidNodeId = (diagram: InteractiveDiagram, nodeId: string): string =>
+  `N${diagram.nodes.findIndex(node => node.id === nodeId) + 1}`;
+
+export const nodeIdFromMermaid = (diagram: InteractiveDiagram, mermaidId: string): string | undefined => {
+  const match = mermaidId.match(/^N(\d+)$/);
+  return match ? diagram.nodes[Number(match[1]) - 1]?.id : undefined;
+};
+
+export const diagramToMermaid = (diagram: InteractiveDiagram): string => {
+  const key = (nodeId: string) => mermaidNodeId(diagram, nodeId);
+  const lines = ['graph LR'];
+  diagram.nodes.forEach(node => lines.push(`  ${key(node.id)}["${escapeLabel(node.label)}"]:::${node.level}`));
+  diagram.nodes.forEach(node => {
+    if (node.parent) lines.push(`  ${key(node.parent)} --> ${key(node.id)}`);
+  });
+  diagram.edges.forEach(edge => {
+    lines.push(`  ${key(edge.from)} -.->${edge.label ? `|"${escapeLabel(edge.label)}"|` : ''} ${key(edge.to)}`);
+  });
+  lines.push(...CLASS_DEFS.map(line => `  ${line}`));
+  return lines.join('\n');
+};
+
+// ---- Navigation ----
+
+export const getDiagramNode = (diagram: InteractiveDiagram, nodeId: string): DiagramNode | undefined =>
+  diagram.nodes.find(node => node.id === nodeId);
+
+export const getChildNodes = (diagram: InteractiveDiagram, nodeId: string): DiagramNode[] =>
+  diagram.nodes.filter(node => node.parent === nodeId);
+
+// Parent, children and cross-linked nodes
+export const getRelatedNodeIds = (diagram: InteractiveDiagram, nodeId: string): string[] => {
+  const node = getDiagramNode(diagram, nodeId);
+  const related = [
+    ...(node?.parent ? [node.parent] : []),
+    ...getChildNodes(diagram, nodeId).map(child => child.id),
+    ...diagram.edges.flatMap(edge => edge.from === nodeId ? [edge.to] : edge.to === nodeId ? [edge.from] : [])
+  ];
+  return Array.from(new Set(related));
+};
+
+// Nodes from the root down to the given one
+export const getNodePath = (diagram: InteractiveDiagram, nodeId: string): DiagramNode[] => {
+  const path: DiagramNode[] = [];
+  let node = getDiagramNode(diagram, nodeId);
+  while (node && !path.includes(node)) {
+    path.unshift(node);
+    node = node.parent ? getDiagramNode(diagram, node.parent) : undefined;
+  }
+  return path;
+};
+
+// The node and all its descendants
+export const getSubtreeIds = (diagram: InteractiveDiagram, nodeId: string): string[] => {
+  const ids = [nodeId];
+  for (let i = 0; i < ids.length; i++) getChildNodes(diagram, ids[i]).forEach(child => ids.push(child.id));
+  return ids;
+};
+
+// ---- Editing ----
+// Every edit returns a new diagram, so the view can keep the previous ones for undo
+
+const newNodeId = (taken: Set<string>) => {
+  let n = taken.size + 1;
+  while (taken.has(`n${n}`)) n++;
+  taken.add(`n${n}`);
+  return `n${n}`;
+};
+
+export const canAddNodes = (diagram: InteractiveDiagram) => diagram.nodes.length < MAX_DIAGRAM_NODES;
+
+export const addChildNode = (diagram: InteractiveDiagram, parentId: string, label: string): { diagram: InteractiveDiagram; nodeId: string } => {
+  const nodeId = newNodeId(new Set(diagram.nodes.map(node => node.id)));
+  const node: DiagramNode = {
+    id: nodeId,
+    label: cleanText(label, MAX_LABEL_LENGTH) || 'Nuevo nodo',
+    level: defaultLevel(diagram.nodes[0].id, parentId),
+    parent: parentId
+  };
+  return { nodeId, diagram: { ...diagram, nodes: [...diagram.nodes, node] } };
+};
+
+// An empty label keeps the old one; an empty detail removes it
+export const updateDiagramNode = (
+  diagram: InteractiveDiagram,
+  nodeId: string,
+  changes: Partial<Pick<DiagramNode, 'label' | 'level' | 'detail'>>
+): InteractiveDiagram => ({
+  ...diagram,
+  nodes: diagram.nodes.map(node => {
+    if (node.id !== nodeId) return node;
+    const { detail, ...rest } = { ...node, ...changes };
+    const label = cleanText(rest.label, MAX_LABEL_LENGTH) || node.label;
+    return { ...rest, label, ...(detail?.trim() ? { detail: detail.trim() } : {}) };
+  })
+});
+
+// Removes the node with its whole branch and the cross links that touched it; the root stays
+export const deleteDiagramNode = (diagram: InteractiveDiagram, nodeId: string): InteractiveDiagram => {
+  if (nodeId === diagram.nodes[0]?.id) return diagram;
+  const removed = new Set(getSubtreeIds(diagram, nodeId));
+  return {
+    nodes: diagram.nodes.filter(node => !removed.has(node.id)),
+    edges: diagram.edges.filter(edge => !removed.has(edge.from) && !removed.has(edge.to))
+  };
+};
+
+// Hangs the node (with its branch) from another one; moving it under its own branch is ignored
+export const moveDiagramNode = (diagram: InteractiveDiagram, nodeId: string, parentId: string): InteractiveDiagram => {
+  if (nodeId === diagram.nodes[0]?.id || getSubtreeIds(diagram, nodeId).includes(parentId)) return diagram;
+  const samePair = (edge: DiagramEdge) =>
+    (edge.from === nodeId && edge.to === parentId) || (edge.from === parentId && edge.to === nodeId);
+  return {
+    nodes: diagram.nodes.map(node => node.id === nodeId ? { ...node, parent: parentId } : node),
+    edges: diagram.edges.filter(edge => !samePair(edge))
+  };
+};
+
+// Id the expansion prompt gives the node being expanded
+export const BRANCH_ROOT_ID = 'rama';
+
+// Adds AI-generated nodes under one node. New ids are assigned, nodes whose parent is unknown hang
+// from the expanded node, and children repeating an existing sibling label are skipped with their branch.
+export const addDiagramBranch = (diagram: InteractiveDiagram, nodeId: string, rawNodes: unknown[]): InteractiveDiagram => {
+  const taken = new Set(diagram.nodes.map(node => node.id));
+  const ids = new Map<string, string>([[BRANCH_ROOT_ID, nodeId]]);
+  const skipped = new Set<string>();
+  const siblings = new Set(getChildNodes(diagram, nodeId).map(node => node.label.toLowerCase()));
+  const added: DiagramNode[] = [];
+  (rawNodes as RawNode[]).forEach(item => {
+    if (!item || typeof item !== 'object' || diagram.nodes.length + added.length >= MAX_DIAGRAM_NODES) return;
+    const rawId = cleanText(item.id);
+    const label = cleanText(item.label, MAX_LABEL_LENGTH);
+    if (!rawId || !label || ids.has(rawId)) return;
+    const rawParent = cleanText(item.parent);
+    const parent = ids.get(rawParent) ?? nodeId;
+    if (skipped.has(rawParent) || (parent === nodeId && siblings.has(label.toLowerCase()))) {
+      skipped.add(rawId);
+      return;
+    }
+    if (parent === nodeId) siblings.add(label.toLowerCase());
+    const id = newNodeId(taken);
+    ids.set(rawId, id);
+    const detail = typeof item.detail === 'string' ? item.detail.trim() : '';
+    added.push({ id, label, level: defaultLevel(diagram.nodes[0].id, parent), parent, ...(detail ? { detail } : {}) });
+  });
+  return { ...diagram, nodes: [...diagram.nodes, ...added] };
+};
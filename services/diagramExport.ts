@@ -0,0 +1,186 @@
+import { DiagramNode, DiagramNodeLevel, InteractiveDiagram } from "../types";
+import { citationsToLabels } from "./citations";
+import { getChildNodes, getDiagramNode } from "./diagram";
+import { downloadBlob, downloadFile, escapeXml } from "./exportUtils";
+import { printHtml } from "./printableExam";
+
+// Mind map exports. The vector ones (SVG, print to PDF, PNG) start from the SVG Mermaid drew on
+// screen; the outline ones (Markdown, OPML for XMind and most outliners, FreeMind .mm) are built
+// from the node tree and carry each node's explanation, with citations written as article labels.
+
+export type DiagramExportFormat = 'svg' | 'pdf' | 'png' | 'markdown' | 'opml' | 'freemind';
+
+export const DIAGRAM_EXPORT_FORMATS: { format: DiagramExportFormat; label: string; hint: string }[] = [
+  { format: 'svg', label: 'SVG', hint: 'Vectorial, se amplía sin perder calidad' },
+  { format: 'pdf', label: 'PDF (A3)', hint: 'Abre el diálogo de impresión en A3 apaisado' },
+  { format: 'png', label: 'PNG', hint: 'Imagen para compartir' },
+  { format: 'markdown', label: 'Markdown', hint: 'Lista anidada con las explicaciones' },
+  { format: 'opml', label: 'OPML', hint: 'Para XMind y otros esquematizadores' },
+  { format: 'freemind', label: 'FreeMind (.mm)', hint: 'Para FreeMind y Freeplane' }
+];
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const BACKGROUND = '#0f172a';
+// Browsers refuse canvases much larger than this, which is what broke PNGs of big maps
+const MAX_CANVAS_SIDE = 8192;
+const PNG_SCALE = 2;
+
+const plainDetail = (node: DiagramNode) => citationsToLabels(node.detail ?? '').trim();
+
+// ---- Vector exports ----
+
+export interface StandaloneSvg {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+// Copy of the drawn SVG at its natural size, with a background and without the on-screen
+// highlight of the selected node
+export const buildStandaloneSvg = (svg: SVGSVGElement): StandaloneSvg => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const box = svg.viewBox.baseVal?.width ? svg.viewBox.baseVal : svg.getBBox();
+  const width = Math.ceil(box.width);
+  const height = Math.ceil(box.height);
+
+  clone.removeAttribute('style');
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  if (!clone.getAttribute('viewBox')) clone.setAttribute('viewBox', `${box.x} ${box.y} ${width} ${height}`);
+
+  clone.querySelectorAll<SVGElement>('.node, .edgePaths path, .edgeLabels').forEach(element => {
+    element.style.opacity = '';
+    element.style.filter = '';
+    element.style.cursor = '';
+  });
+  clone.querySelectorAll<SVGElement>('.node rect, .node circle, .node polygon, .node path').forEach(shape => {
+    shape.style.stroke = '';
+    shape.style.strokeWidth = '';
+    shape.style.animation = '';
+  });
+
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('x', String(box.x));
+  background.setAttribute('y', String(box.y));
+  background.setAttribute('width', String(width));
+  background.setAttribute('height', String(height));
+  background.setAttribute('fill', BACKGROUND);
+  clone.insertBefore(background, clone.firstChild);
+
+  return { markup: new XMLSerializer().serializeToString(clone), width, height };
+};
+
+export const downloadDiagramSvg = (svg: SVGSVGElement, filename: string) =>
+  downloadFile(`<?xml version="1.0" encoding="UTF-8"?>\n${buildStandaloneSvg(svg).markup}`, `${filename}.svg`, 'image/svg+xml');
+
+// Rasterised from the standalone SVG, so the size does not depend on the zoom on screen
+export const downloadDiagramPng = (svg: SVGSVGElement, filename: string) => {
+  const { markup, width, height } = buildStandaloneSvg(svg);
+  const scale = Math.min(PNG_SCALE, MAX_CANVAS_SIDE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }));
+  const img = new Image();
+  img.onload = () => {
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    URL.revokeObjectURL(url);
+    canvas.toBlob(blob => blob && downloadBlob(blob, `${filename}.png`), 'image/png');
+  };
+  img.src = url;
+};
+
+// The map alone on an A3 landscape page; the browser's "Guardar como PDF" keeps it vectorial
+export const printDiagram = (svg: SVGSVGElement, title: string) => {
+  const { markup } = buildStandaloneSvg(svg);
+  printHtml(`<!DOCTYPE html>
+<html lang="es"><head><meta charset="utf-8"><title>${escapeXml(title)}</title>
+<style>
+  @page { size: A3 landscape; margin: 10mm; }
+  html, body { margin: 0; background: ${BACKGROUND}; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  h1 { font: bold 14pt sans-serif; color: #F1BF00; margin: 0 0 5mm; }
+  svg { display: block; width: 100%; height: auto; max-height: 255mm; }
+</style></head>
+<body><h1>${escapeXml(title)}</h1>${markup}</body></html>`, title);
+};
+
+// ---- Outline exports ----
+
+export const diagramToMarkdown = (diagram: InteractiveDiagram): string => {
+  const root = diagram.nodes[0];
+  if (!root) return '';
+  const lines = [`# ${root.label}`, ''];
+  if (root.detail) lines.push(plainDetail(root), '');
+  const walk = (parentId: string, depth: number) => {
+    getChildNodes(diagram, parentId).forEach(node => {
+      const detail = plainDetail(node).replace(/\s*\n\s*/g, ' ');
+      lines.push(`${'  '.repeat(depth)}- **${node.label}**${detail ? `: ${detail}` : ''}`);
+      walk(node.id, depth + 1);
+    });
+  };
+  walk(root.id, 0);
+  if (diagram.edges.length > 0) {
+    lines.push('', '## Relaciones', '');
+    diagram.edges.forEach(edge => {
+      const from = getDiagramNode(diagram, edge.from)?.label;
+      const to = getDiagramNode(diagram, edge.to)?.label;
+      lines.push(`- ${from} → ${to}${edge.label ? ` (${edge.label})` : ''}`);
+    });
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+// Notes go in the `_note` attribute, which XMind and OmniOutliner import as node notes
+export const diagramToOpml = (diagram: InteractiveDiagram, title: string): string => {
+  const attribute = (text: string) => escapeXml(text).replace(/\n/g, '&#10;');
+  const outline = (node: DiagramNode, indent: string): string => {
+    const note = plainDetail(node);
+    const children = getChildNodes(diagram, node.id).map(child => outline(child, `${indent}  `));
+    const open = `${indent}<outline text="${attribute(node.label)}"${note ? ` _note="${attribute(note)}"` : ''}`;
+    return children.length > 0 ? `${open}>\n${children.join('\n')}\n${indent}</outline>` : `${open}/>`;
+  };
+  const root = diagram.nodes[0];
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head>
+    <title>${escapeXml(title)}</title>
+  </head>
+  <body>
+${root ? outline(root, '    ') : ''}
+  </body>
+</opml>
+`;
+};
+
+const FREEMIND_COLORS: Record<DiagramNodeLevel, string> = {
+  main: ' BACKGROUND_COLOR="#AA151B" COLOR="#ffffff"',
+  sub: ' BACKGROUND_COLOR="#1e293b" COLOR="#F1BF00"',
+  detail: ''
+};
+
+// FreeMind 1.0 map: explanations as rich-text notes and cross links as arrow links
+export const diagramToFreeMind = (diagram: InteractiveDiagram): string => {
+  const freeMindId = (nodeId: string) => `ID_${diagram.nodes.findIndex(node => node.id === nodeId) + 1}`;
+  const render = (node: DiagramNode, indent: string): string => {
+    const lines = [`${indent}<node ID="${freeMindId(node.id)}" TEXT="${escapeXml(node.label)}"${FREEMIND_COLORS[node.level]}>`];
+    const note = plainDetail(node);
+    if (note) {
+      const paragraphs = note.split(/\n\s*\n/).map(paragraph => `<p>${escapeXml(paragraph).replace(/\n/g, '<br/>')}</p>`).join('');
+      lines.push(`${indent}  <richcontent TYPE="NOTE"><html><head></head><body>${paragraphs}</body></html></richcontent>`);
+    }
+    diagram.edges.filter(edge => edge.from === node.id).forEach(edge => {
+      lines.push(`${indent}  <arrowlink DESTINATION="${freeMindId(edge.to)}" ENDARROW="Default" STARTARROW="None"/>`);
+    });
+    getChildNodes(diagram, node.id).forEach(child => lines.push(render(child, `${indent}  `)));
+    lines.push(`${indent}</node>`);
+    return lines.join('\n');
+  };
+  const root = diagram.nodes[0];
+  const map = `<map version="1.0.1">\n${root ? render(root, '') : ''}\n</map>\n`;
+  // FreeMind reads accents reliably only as character references
+  return map.replace(/[^\x00-\x7f]/gu, char => `&#${char.codePointAt(0)};`);
+};
@@ -0,0 +1,140 @@
+import { DocumentKind } from "../types";
+
+// Extracts plain text from uploaded study material entirely in the browser; files never leave the device.
+
+// pdf.js is only needed when a PDF is uploaded, so it is loaded from the CDN on demand (like mermaid)
+const PDFJS_VERSION = '3.11.174';
+const PDFJS_URL = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${PDFJS_VERSION}/legacy/build/pdf.min.js`;
+const PDFJS_WORKER_URL = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${PDFJS_VERSION}/legacy/build/pdf.worker.min.js`;
+
+// The few pdf.js calls used here. Marked-content entries among the text items carry no `str`.
+interface PdfTextItem {
+  str?: string;
+  hasEOL?: boolean;
+}
+
+interface PdfPage {
+  getTextContent: () => Promise<{ items: PdfTextItem[] }>;
+}
+
+interface PdfDocument {
+  numPages: number;
+  getPage: (pageNumber: number) => Promise<PdfPage>;
+}
+
+interface PdfJs {
+  GlobalWorkerOptions: { workerSrc: string };
+  getDocument: (source: { data: Uint8Array }) => { promise: Promise<PdfDocument> };
+}
+
+declare global {
+  interface Window {
+    pdfjsLib: PdfJs;
+  }
+}
+
+let pdfjsPromise: Promise<PdfJs> | null = null;
+
+const loadPdfJs = (): Promise<PdfJs> => {
+  if (window.pdfjsLib) return Promise.resolve(window.pdfjsLib);
+  if (!pdfjsPromise) {
+    pdfjsPromise = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = PDFJS_URL;
+      script.onload = () => {
+        window.pdfjsLib.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_URL;
+        resolve(window.pdfjsLib);
+      };
+      script.onerror = () => {
+        pdfjsPromise = null;
+        reject(new Error('No se pudo cargar el lector de PDF. Comprueba tu conexión.'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return pdfjsPromise;
+};
+
+// One string per page, joined with form feeds so passages can keep their page number
+const extractPdfText = async (file: File): Promise<string> => {
+  const pdfjs = await loadPdfJs();
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: string[] = [];
+  for (let n = 1; n <= pdf.numPages; n++) {
+    const page = await pdf.getPage(n);
+    const content = await page.getTextContent();
+    pages.push(content.items.map(item => `${item.str ?? ''}${item.hasEOL ? '\n' : ''}`).join(''));
+  }
+  return pages.join('\f');
+};
+
+// Minimal ZIP reader: DOCX files are ZIP archives and only word/document.xml is needed
+const readZipEntry = async (buffer: ArrayBuffer, entryName: string): Promise<string | null> => {
+  const view = new DataView(buffer);
+  // End of central directory record, searched backwards past a possible archive comment
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) { eocd = i; break; }
+  }
+  if (eocd < 0) return null;
+
+  const entries = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < entries; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) return null;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeader = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    if (name === entryName) {
+      const dataStart = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+      const data = new Uint8Array(buffer, dataStart, compressedSize);
+      if (method === 0) return decoder.decode(data);
+      if (method !== 8) return null;
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Response(stream).text();
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+};
+
+const extractDocxText = async (file: File): Promise<string> => {
+  const xml = await readZipEntry(await file.arrayBuffer(), 'word/document.xml');
+  if (!xml) throw new Error('El archivo DOCX está dañado o no es un documento de Word.');
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  return Array.from(doc.getElementsByTagNameNS('*', 'p'))
+    .map(paragraph => Array.from(paragraph.getElementsByTagNameNS('*', 't')).map(t => t.textContent ?? '').join(''))
+    .join('\n');
+};
+
+export const getDocumentKind = (fileName: string): DocumentKind | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'pdf' || extension === 'docx' || extension === 'txt' || extension === 'md') return extension;
+  if (extension === 'markdown') return 'md';
+  return null;
+};
+
+export const ACCEPTED_DOCUMENT_TYPES = '.pdf,.docx,.txt,.md,.markdown';
+
+export const extractDocumentText = async (file: File): Promise<{ kind: DocumentKind; text: string }> => {
+  const kind = getDocumentKind(file.name);
+  if (!kind) throw new Error('Formato no admitido. Usa PDF, DOCX, TXT o Markdown.');
+  const raw = kind === 'pdf' ? await extractPdfText(file)
+    : kind === 'docx' ? await extractDocxText(file)
+    : await file.text();
+  // Collapse runs of spaces but keep line breaks and page separators
+  const text = raw.replace(/\r\n?/g, '\n').replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+  if (!text.replace(/\f/g, '').trim()) {
+    throw new Error(kind === 'pdf'
+      ? 'El PDF no contiene texto seleccionable (¿es un documento escaneado?).'
+      : 'El archivo está vacío.');
+  }
+  return { kind, text };
+};
@@ -0,0 +1,132 @@
+import { DocumentPassage, TopicDocument } from "../types";
+import { buildBm25Index, rankBm25 } from "./retrieval";
+import { extractDocumentText } from "./documentParser";
+import { readStored, writeStored } from "./storage";
+
+// Study material uploaded per tema. The extracted text is split into passages that are
+// retrieved with the same BM25 ranking as the legal corpus and cited as [[DOC-<id>-<n>]].
+
+const STORAGE_KEY = 'topic_documents';
+// Extracted text above this size is truncated so one upload cannot exhaust the browser quota
+const MAX_DOCUMENT_CHARS = 2_000_000;
+const PASSAGE_CHARS = 800;
+
+type DocumentStore = Record<string, TopicDocument[]>;
+
+const loadStore = (): DocumentStore => readStored(STORAGE_KEY, {});
+
+const saveStore = (store: DocumentStore) => {
+  writeStored(STORAGE_KEY, store);
+};
+
+export const getTopicDocuments = (topicId: string): TopicDocument[] => loadStore()[topicId] ?? [];
+
+export const getDocumentCounts = (): Record<string, number> =>
+  Object.fromEntries(Object.entries(loadStore()).map(([topicId, docs]) => [topicId, docs.length]));
+
+// Parses the file locally and stores its text under the tema; throws with a user-facing message
+export const addTopicDocument = async (topicId: string, file: File): Promise<TopicDocument> => {
+  const { kind, text } = await extractDocumentText(file);
+  const document: TopicDocument = {
+    id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    topicId,
+    name: file.name,
+    kind,
+    size: file.size,
+    uploadedAt: Date.now(),
+    text: text.slice(0, MAX_DOCUMENT_CHARS)
+  };
+  const store = loadStore();
+  store[topicId] = [...(store[topicId] ?? []), document];
+  saveStore(store);
+  return document;
+};
+
+export const deleteTopicDocument = (topicId: string, documentId: string) => {
+  const store = loadStore();
+  store[topicId] = (store[topicId] ?? []).filter(d => d.id !== documentId);
+  if (store[topicId].length === 0) delete store[topicId];
+  saveStore(store);
+};
+
+export const moveTopicDocuments = (fromTopicId: string, toTopicId: string) => {
+  if (fromTopicId === toTopicId) return;
+  const store = loadStore();
+  if (!store[fromTopicId]) return;
+  const moved = store[fromTopicId].map(d => ({ ...d, topicId: toTopicId }));
+  delete store[fromTopicId];
+  store[toTopicId] = [...(store[toTopicId] ?? []), ...moved];
+  saveStore(store);
+};
+
+export const deleteTopicDocuments = (topicId: string) => {
+  const store = loadStore();
+  if (!store[topicId]) return;
+  delete store[topicId];
+  saveStore(store);
+};
+
+// Paragraphs are packed into passages of about PASSAGE_CHARS, never crossing a page break
+const splitIntoPassages = (document: TopicDocument): DocumentPassage[] => {
+  const passages: DocumentPassage[] = [];
+  const pages = document.text.split('\f');
+
+  pages.forEach((pageText, pageIndex) => {
+    let current = '';
+    const flush = () => {
+      if (!current.trim()) return;
+      passages.push({
+        id: `DOC-${document.id}-${passages.length + 1}`,
+        documentId: document.id,
+        documentName: document.name,
+        index: passages.length + 1,
+        page: pages.length > 1 ? pageIndex + 1 : undefined,
+        text: current.trim()
+      });
+      current = '';
+    };
+
+    pageText.split(/\n\s*\n|\n(?=#)/).forEach(paragraph => {
+      // Paragraphs longer than a passage are cut at sentence ends
+      const pieces = paragraph.length > PASSAGE_CHARS ? paragraph.match(/[^.!?]+[.!?]*\s*/g) ?? [paragraph] : [paragraph];
+      pieces.forEach((piece, i) => {
+        if (current.length + piece.length > PASSAGE_CHARS) flush();
+        current += current && i === 0 ? `\n\n${piece}` : piece;
+      });
+    });
+    flush();
+  });
+
+  return passages;
+};
+
+// Documents never change once stored, so their passages are computed once per session
+const passageCache = new Map<string, DocumentPassage[]>();
+
+const getPassages = (document: TopicDocument): DocumentPassage[] => {
+  let passages = passageCache.get(document.id);
+  if (!passages) {
+    passages = splitIntoPassages(document);
+    passageCache.set(document.id, passages);
+  }
+  return passages;
+};
+
+export const getPassageById = (id: string): DocumentPassage | undefined => {
+  const match = id.match(/^DOC-([a-z0-9]+)-\d+$/);
+  if (!match) return undefined;
+  const document = Object.values(loadStore()).flat().find(d => d.id === match[1]);
+  return document ? getPassages(document).find(p => p.id === id) : undefined;
+};
+
+export const formatPassageLabel = (passage: DocumentPassage) =>
+  `${passage.documentName}${passage.page ? `, pág. ${passage.page}` : ''} §${passage.index}`;
+
+// Best passages for the query from one tema's documents, or from every document when no tema is given
+export const retrievePassages = (query: string, topicId?: string, limit: number = 4): DocumentPassage[] => {
+  const store = loadStore();
+  const documents = topicId ? store[topicId] ?? [] : Object.values(store).flat();
+  if (documents.length === 0) return [];
+  const index = buildBm25Index(documents.flatMap(getPassages), p => p.text);
+  return rankBm25(index, query).slice(0, limit);
+};
@@ -0,0 +1,145 @@
+import { ConstitutionTopic, ExamConfig, ExamScore, QuizQuestion } from "../types";
+import { generateQuizQuestions } from "./geminiService";
+import { addToBank, isNearDuplicate, selectFromBank } from "./questionBank";
+import { formatTopicArticles, tagQuestionArticles } from "./articleRefs";
+
+// Large exams are requested in batches so each model response stays small and reliable
+const MAX_QUESTIONS_PER_REQUEST = 25;
+// Follow-up requests for questions dropped as near-duplicates of other batches or the bank
+const MAX_TOP_UP_REQUESTS = 2;
+
+export const PENALTY_PRESETS: { label: string; value: number }[] = [
+  { label: 'Sin penalización', value: 0 },
+  { label: '−1/4', value: 1 / 4 },
+  { label: '−1/3', value: 1 / 3 },
+  { label: '−1/2', value: 1 / 2 }
+];
+
+export const createDefaultExamConfig = (topicId: string): ExamConfig => ({
+  topics: [{ topicId, weight: 1 }],
+  questionCount: 5,
+  penalty: 0,
+  blankPolicy: 'neutral',
+  passMark: 50,
+  timeLimitMinutes: 0,
+  warningMinutes: [10, 5, 1],
+  questionSource: 'bank'
+});
+
+// "mm:ss", or "h:mm:ss" for exams longer than an hour
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+// Splits `total` questions across topics proportionally to their weights (largest remainder method)
+export const allocateQuestions = (topics: ExamConfig['topics'], total: number): Record<string, number> => {
+  const active = topics.filter(t => t.weight > 0);
+  const weightSum = active.reduce((sum, t) => sum + t.weight, 0);
+  if (weightSum === 0) return {};
+
+  const shares = active.map(t => {
+    const exact = (t.weight / weightSum) * total;
+    return { topicId: t.topicId, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+
+  let missing = total - shares.reduce((sum, s) => sum + s.count, 0);
+  [...shares].sort((a, b) => b.remainder - a.remainder).forEach(share => {
+    if (missing > 0) {
+      share.count += 1;
+      missing -= 1;
+    }
+  });
+
+  return Object.fromEntries(shares.map(s => [s.topicId, s.count]));
+};
+
+const shuffle = <T,>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const batchSizes = (count: number): number[] => {
+  const sizes: number[] = [];
+  for (let remaining = count; remaining > 0; remaining -= MAX_QUESTIONS_PER_REQUEST) {
+    sizes.push(Math.min(remaining, MAX_QUESTIONS_PER_REQUEST));
+  }
+  return sizes;
+};
+
+// Generates up to `count` questions unlike each other and unlike `existing`. The first batches
+// run in parallel, so the same question can come back from several of them; what they drop is
+// requested again a limited number of times.
+const generateDistinct = async (topic: ConstitutionTopic, count: number, existing: QuizQuestion[]): Promise<QuizQuestion[]> => {
+  const retrievalQuery = `${topic.title} ${topic.description} ${formatTopicArticles(topic)}`;
+  const request = (size: number) => generateQuizQuestions(topic.title, size, retrievalQuery, topic.id);
+  const accepted: QuizQuestion[] = [];
+  const accept = (batch: QuizQuestion[]) => batch.forEach(q => {
+    if (accepted.length >= count || [...existing, ...accepted].some(other => isNearDuplicate(other, q))) return;
+    accepted.push(tagQuestionArticles({ ...q, topicId: topic.id }, topic.articles));
+  });
+
+  accept((await Promise.all(batchSizes(count).map(request))).flat());
+  for (let round = 0; round < MAX_TOP_UP_REQUESTS && accepted.length < count; round++) {
+    const before = accepted.length;
+    accept(await request(Math.min(count - accepted.length, MAX_QUESTIONS_PER_REQUEST)));
+    if (accepted.length === before) break;
+  }
+  return accepted;
+};
+
+// May return fewer questions than configured when the model keeps repeating itself or fails
+export const buildExamQuestions = async (config: ExamConfig, topics: ConstitutionTopic[]): Promise<QuizQuestion[]> => {
+  const allocation = allocateQuestions(config.topics, config.questionCount);
+
+  const perTopic = Object.entries(allocation).map(async ([topicId, count]) => {
+    const topic = topics.find(t => t.id === topicId);
+    if (!topic || count === 0) return [];
+
+    // Configs saved before the bank existed have no questionSource and default to reusing it
+    const banked = config.questionSource === 'generate' ? [] : selectFromBank(topicId, count);
+    const generated = banked.length < count ? await generateDistinct(topic, count - banked.length, banked) : [];
+    addToBank(topic.id, generated);
+
+    // Questions banked before article tagging are tagged as they are served
+    return [...banked.map(q => tagQuestionArticles(q, topic.articles)), ...generated];
+  });
+
+  const questions = (await Promise.all(perTopic)).flat();
+  // Single-topic tests keep the model's order; mixed exams interleave temas like a real exam
+  return config.topics.length > 1 ? shuffle(questions) : questions;
+};
+
+export const computeExamScore = (questions: QuizQuestion[], userAnswers: number[], config: ExamConfig): ExamScore => {
+  let correct = 0;
+  let wrong = 0;
+  let blank = 0;
+
+  questions.forEach((q, idx) => {
+    const answer = userAnswers[idx];
+    if (answer === -1 || answer === undefined) blank++;
+    else if (answer === q.correctAnswerIndex) correct++;
+    else wrong++;
+  });
+
+  const penalized = wrong + (config.blankPolicy === 'penalize' ? blank : 0);
+  const net = correct - config.penalty * penalized;
+  const percentage = questions.length > 0 ? Math.min(100, Math.max(0, (net / questions.length) * 100)) : 0;
+
+  return {
+    correct,
+    wrong,
+    blank,
+    net: Math.round(net * 100) / 100,
+    percentage: Math.round(percentage),
+    isPassed: percentage >= config.passMark
+  };
+};
@@ -0,0 +1,17 @@
+// Helpers shared by every feature that writes a file for the user: question banks, backups,
+// syllabi, printable exams, mind maps and study guides.
+
+// Safe for element text and quoted attributes in both HTML and XML
+export const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url; a.download = filename;
+  document.body.appendChild(a); a.click(); document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export const downloadFile = (content: string, filename: string, type: string) =>
+  downloadBlob(new Blob([content], { type }), filename);
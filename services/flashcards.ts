@@ -0,0 +1,285 @@
+import { ClozeDraft, Flashcard, FlashcardSource, InteractiveDiagram, SrsGrade } from "../types";
+import { extractCitations, getCitationLabel } from "./citations";
+import { initialSchedule, scheduleCard } from "./srs";
+import { readStored, writeStored } from "./storage";
+
+// Flashcard decks per tema, drilled with the same SM-2 scheduler as the quiz review. Cards are
+// built from the saved study outline ("Reglas Mnemotécnicas" and "Puntos Críticos"), from the
+// explanations of the mind map nodes, from AI cloze sentences or written by the student.
+// Generated cards get an id derived from their tema and content, so regenerating never
+// duplicates a card and never overwrites one the student has edited. Deleting a generated card
+// leaves a tombstone so regenerating does not bring it back either.
+
+const STORAGE_KEY = 'flashcards';
+const TOMBSTONES_KEY = 'flashcard_tombstones';
+// Outline sections whose bullets become cards, matched on the normalized heading
+const OUTLINE_SECTIONS: { match: string; prompt: string }[] = [
+  { match: 'mnemotecnica', prompt: 'Regla mnemotécnica' },
+  { match: 'puntos criticos', prompt: 'Punto crítico de examen' }
+];
+// Words of an unlabelled bullet shown on the front as a cue
+const CUE_WORDS = 5;
+export const CLOZE_PATTERN = /\{\{([^{}]+)\}\}/g;
+
+export const FLASHCARD_SOURCE_LABELS: Record<FlashcardSource, string> = {
+  outline: 'Guía',
+  diagram: 'Esquema',
+  cloze: 'Huecos',
+  manual: 'Propia'
+};
+
+export const loadFlashcards = (): Record<string, Flashcard> => readStored(STORAGE_KEY, {});
+
+const saveFlashcards = (cards: Record<string, Flashcard>) => {
+  writeStored(STORAGE_KEY, cards);
+};
+
+const loadTombstones = (): Record<string, string[]> => readStored(TOMBSTONES_KEY, {});
+
+const saveTombstones = (tombstones: Record<string, string[]>) => {
+  writeStored(TOMBSTONES_KEY, tombstones);
+};
+
+// Oldest first, so a deck keeps the order it was generated in
+export const getTopicFlashcards = (topicId: string): Flashcard[] =>
+  Object.values(loadFlashcards())
+    .filter(card => card.topicId === topicId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+export const getDueFlashcards = (topicId: string, now: number = Date.now()): Flashcard[] =>
+  getTopicFlashcards(topicId)
+    .filter(card => card.due <= now)
+    .sort((a, b) => a.due - b.due);
+
+const normalize = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+const originOf = (source: FlashcardSource, front: string) => `${source}|${normalize(front)}`;
+
+const contentId = (topicId: string, origin: string) => {
+  const normalized = `${topicId}|${origin}`;
+  let hash = 0;
+  for (let i = 0; i < normalized.length; i++) {
+    hash = (hash * 31 + normalized.charCodeAt(i)) >>> 0;
+  }
+  return `fc_${hash.toString(36)}`;
+};
+
+// Cards generated before `origin` was stored still have it as long as their front is unedited
+const cardOrigin = (card: Flashcard): string | null => {
+  if (card.source === 'manual') return null;
+  if (card.origin) return card.origin;
+  const origin = originOf(card.source, card.front);
+  return contentId(card.topicId, origin) === card.id ? origin : null;
+};
+
+const createFlashcard = (topicId: string, source: FlashcardSource, front: string, back: string, citations: string[], now: number): Flashcard => {
+  const origin = source === 'manual' ? null : originOf(source, front);
+  return {
+    id: origin ? contentId(topicId, origin) : `fc_${now.toString(36)}_${Math.random().toString(36).slice(2, 7)}`,
+    topicId,
+    source,
+    front,
+    back,
+    ...(citations.length > 0 ? { citations } : {}),
+    ...(origin ? { origin } : {}),
+    createdAt: now,
+    updatedAt: now,
+    ...initialSchedule(now)
+  };
+};
+
+// Splits a cloze sentence into visible text and hidden answers, in order
+export const splitCloze = (text: string): { text: string; hidden: boolean }[] => {
+  const parts: { text: string; hidden: boolean }[] = [];
+  let last = 0;
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    if (match.index! > last) parts.push({ text: text.slice(last, match.index), hidden: false });
+    parts.push({ text: match[1], hidden: true });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), hidden: false });
+  return parts;
+};
+
+export const isCloze = (text: string) => splitCloze(text).some(part => part.hidden);
+
+// ---- Building cards from study material ----
+
+export interface FlashcardDraft {
+  source: FlashcardSource;
+  front: string;
+  back: string;
+  citations: string[];
+}
+
+const stripMarkdown = (text: string) =>
+  text.replace(/\*\*|__|`/g, '').replace(/^\s*[*+-]\s+|^\s*\d+[.)]\s+/, '').trim();
+
+// Cited markers become readable "(Art. 1 CE)" labels on the card; the ids are kept for the citation chips
+const groundText = (raw: string) => {
+  const { text, citations } = extractCitations(raw);
+  const labelled = citations.reduce((acc, id) => acc.split(`[[${id}]]`).join(`(${getCitationLabel(id)})`), text);
+  return { text: labelled.replace(/\s+/g, ' ').trim(), citations };
+};
+
+// "**Mayorías:** 3/5 en cada Cámara" is split into question and answer; other bullets show
+// their first words as a cue and the whole point on the back
+const bulletToDraft = (bullet: string, prompt: string): FlashcardDraft | null => {
+  const labelled = bullet.match(/^\s*(?:[*+-]|\d+[.)])\s+\*\*(.+?)\*\*\s*:?\s*(.*)$/) ?? bullet.match(/^\s*(?:[*+-]|\d+[.)])\s+([^:]{3,80}):\s+(.+)$/);
+  if (labelled && labelled[2].trim()) {
+    const back = groundText(stripMarkdown(labelled[2]));
+    return { source: 'outline', front: `${prompt}: ${stripMarkdown(labelled[1]).replace(/:$/, '')}`, back: back.text, citations: back.citations };
+  }
+  const whole = groundText(stripMarkdown(bullet));
+  if (whole.text.length < 12) return null;
+  const words = whole.text.split(' ');
+  const cue = words.length > CUE_WORDS ? `${words.slice(0, CUE_WORDS).join(' ')}…` : whole.text;
+  return { source: 'outline', front: `${prompt}: ${cue}`, back: whole.text, citations: whole.citations };
+};
+
+export const draftsFromOutline = (markdown: string): FlashcardDraft[] => {
+  const drafts: FlashcardDraft[] = [];
+  let section: { prompt: string } | null = null;
+  let bullet = '';
+  const flush = () => {
+    if (section && bullet) {
+      const draft = bulletToDraft(bullet, section.prompt);
+      if (draft) drafts.push(draft);
+    }
+    bullet = '';
+  };
+
+  markdown.split('\n').forEach(line => {
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      flush();
+      const title = normalize(heading[1]);
+      section = OUTLINE_SECTIONS.find(s => title.includes(s.match)) ?? null;
+      return;
+    }
+    if (!section) return;
+    if (/^\s*(?:[*+-]|\d+[.)])\s+/.test(line)) {
+      flush();
+      bullet = line;
+    } else if (bullet && line.trim()) {
+      // Continuation of a wrapped bullet
+      bullet += ` ${line.trim()}`;
+    } else {
+      flush();
+    }
+  });
+  flush();
+  return drafts;
+};
+
+// Every mind map node with an explanation becomes "node label → explanation"
+export const draftsFromDiagram = (diagram: InteractiveDiagram): FlashcardDraft[] =>
+  diagram.nodes
+    .filter(node => node.detail?.trim())
+    .map(node => {
+      const back = groundText(node.detail!);
+      return { source: 'diagram' as const, front: node.label, back: back.text, citations: back.citations };
+    });
+
+export const draftsFromCloze = (clozes: ClozeDraft[]): FlashcardDraft[] =>
+  clozes.map(cloze => ({
+    source: 'cloze' as const,
+    front: cloze.text,
+    back: groundText(cloze.explanation ?? '').text,
+    citations: cloze.articleIds ?? []
+  }));
+
+// Adds the drafts that are neither in the deck nor deleted from it; returns how many were new
+export const addFlashcards = (topicId: string, drafts: FlashcardDraft[]): number => {
+  const cards = loadFlashcards();
+  const deleted = new Set(loadTombstones()[topicId] ?? []);
+  const now = Date.now();
+  let added = 0;
+  drafts.forEach((draft, idx) => {
+    // Consecutive createdAt values keep the generated order stable
+    const card = createFlashcard(topicId, draft.source, draft.front, draft.back, draft.citations, now + idx);
+    if (cards[card.id] || (card.origin && deleted.has(card.origin))) return;
+    cards[card.id] = card;
+    added++;
+  });
+  if (added > 0) saveFlashcards(cards);
+  return added;
+};
+
+export const createManualFlashcard = (topicId: string, front: string, back: string): Flashcard => {
+  const card = createFlashcard(topicId, 'manual', front.trim(), back.trim(), [], Date.now());
+  saveFlashcards({ ...loadFlashcards(), [card.id]: card });
+  return card;
+};
+
+// Editing keeps the card's schedule and id, so regenerating the deck will not bring back the old text
+export const updateFlashcard = (cardId: string, front: string, back: string): Flashcard | null => {
+  const cards = loadFlashcards();
+  const card = cards[cardId];
+  if (!card) return null;
+  const origin = cardOrigin(card);
+  cards[cardId] = { ...card, front: front.trim(), back: back.trim(), ...(origin ? { origin } : {}), updatedAt: Date.now() };
+  saveFlashcards(cards);
+  return cards[cardId];
+};
+
+export const deleteFlashcard = (cardId: string) => {
+  const cards = loadFlashcards();
+  const card = cards[cardId];
+  if (!card) return;
+  delete cards[cardId];
+  saveFlashcards(cards);
+
+  const origin = cardOrigin(card);
+  if (!origin) return;
+  const tombstones = loadTombstones();
+  tombstones[card.topicId] = [...(tombstones[card.topicId] ?? []).filter(o => o !== origin), origin];
+  saveTombstones(tombstones);
+};
+
+export const reviewFlashcard = (cardId: string, grade: SrsGrade): Flashcard | null => {
+  const cards = loadFlashcards();
+  const card = cards[cardId];
+  if (!card) return null;
+  cards[cardId] = scheduleCard(card, grade);
+  saveFlashcards(cards);
+  return cards[cardId];
+};
+
+// Generated cards take the id they would have been generated with in the new tema, so
+// regenerating there recognises them. When both temas had the card, the more practised copy stays.
+export const retagFlashcards = (fromTopicId: string, toTopicId: string) => {
+  if (fromTopicId === toTopicId) return;
+  const cards = loadFlashcards();
+  let changed = false;
+  Object.values(cards).forEach(card => {
+    if (card.topicId !== fromTopicId) return;
+    const origin = cardOrigin(card);
+    const moved = { ...card, topicId: toTopicId, ...(origin ? { id: contentId(toTopicId, origin), origin } : {}) };
+    delete cards[card.id];
+    const existing = cards[moved.id];
+    if (!existing || existing.repetitions < moved.repetitions) cards[moved.id] = moved;
+    changed = true;
+  });
+  if (changed) saveFlashcards(cards);
+
+  const tombstones = loadTombstones();
+  if (tombstones[fromTopicId]) {
+    tombstones[toTopicId] = Array.from(new Set([...(tombstones[toTopicId] ?? []), ...tombstones[fromTopicId]]));
+    delete tombstones[fromTopicId];
+    saveTombstones(tombstones);
+  }
+};
+
+export const deleteTopicFlashcards = (topicId: string) => {
+  const cards = loadFlashcards();
+  const kept = Object.fromEntries(Object.entries(cards).filter(([, card]) => card.topicId !== topicId));
+  if (Object.keys(kept).length !== Object.keys(cards).length) saveFlashcards(kept);
+
+  const tombstones = loadTombstones();
+  if (tombstones[topicId]) {
+    delete tombstones[topicId];
+    saveTombstones(tombstones);
+  }
+};
@@ -1,194 +1,217 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { QuizQuestion } from "../types";
-
-const apiKey = process.env.API_KEY || '';
-const ai = new GoogleGenAI({ apiKey });
-
-const modelName = 'gemini-2.5-flash';
+import { AIProvider, ChatTurn, ClozeDraft, GroundedAnswer, GroundingSource, InteractiveDiagram, QuizQuestion, StreamedAnswer } from "../types";
+import { getActiveProvider, loadAISettings } from "./aiProvider";
+import { buildChatSummaryPrompt } from "./prompts";
+import { retrieveArticles } from "./retrieval";
+import { retrievePassages } from "./documents";
+import { extractCitations, filterKnownCitations } from "./citations";
+import { repairQuizQuestion } from "./quizValidation";
+import { isNearDuplicate } from "./questionBank";
+import { addDiagramBranch, getChildNodes, getNodePath, validateDiagram } from "./diagram";
+
+// Public entry points used by the views. They delegate to whichever provider is selected in
+// Ajustes and convert provider failures into the fallbacks the UI already knows how to show.
+// Every call is grounded on articles retrieved from the bundled corpus; `retrievalQuery`
+// lets callers search with more context than the title alone (e.g. the topic description).
+// When a `topicId` is given, passages from the documents uploaded to that tema are added
+// ahead of the articles so the student's own material is the primary source.
+
+// One initial request plus up to two follow-ups for questions rejected by validation
+const MAX_QUIZ_ROUNDS = 3;
+
+const retrieveSources = (query: string, articleLimit: number, topicId?: string): GroundingSource[] =>
+  [...retrievePassages(query, topicId), ...retrieveArticles(query, articleLimit)];
+
+export const generateStudyOutline = async (topicTitle: string, userQuery?: string, retrievalQuery?: string, topicId?: string): Promise<GroundedAnswer> => {
+  const sources = retrieveSources(`${retrievalQuery || topicTitle} ${userQuery || ''}`, 8, topicId);
+  try {
+    const text = await getActiveProvider().generateStudyOutline(topicTitle, sources, userQuery);
+    return text ? extractCitations(text) : { text: "Hubo un error generando el plan de estudio.", citations: [] };
+  } catch (error) {
+    console.error("AI Outline Error:", error);
+    return { text: "Error de conexión con la IA. Por favor verifica tu clave API o el proveedor configurado en Ajustes.", citations: [] };
+  }
+};
 
-// Helper to handle potential JSON parsing errors from markdown blocks
-const cleanAndParseJSON = (text: string) => {
+export const generateInteractiveDiagram = async (topicTitle: string, retrievalQuery?: string, topicId?: string): Promise<InteractiveDiagram | null> => {
+  const sources = retrieveSources(retrievalQuery || topicTitle, 6, topicId);
   try {
-    // Remove markdown code blocks if present
-    const jsonMatch = text.match(/```json\n([\s\S]*?)\n```/) || text.match(/```\n([\s\S]*?)\n```/);
-    let jsonString = jsonMatch ? jsonMatch[1] : text;
-    
-    // Clean potential control characters
-    jsonString = jsonString.trim();
-    
-    return JSON.parse(jsonString);
-  } catch (e) {
-    console.error("Failed to parse JSON", e);
+    // Providers hand back the model's JSON as is; only a graph that passes the schema is kept
+    const diagram = validateDiagram(await getActiveProvider().generateInteractiveDiagram(topicTitle, sources));
+    if (!diagram) return null;
+    const nodes = diagram.nodes.map(node => node.detail ? { ...node, detail: extractCitations(node.detail).text } : node);
+    return { ...diagram, nodes };
+  } catch (error) {
+    console.error("AI Diagram Error:", error);
     return null;
   }
 };
 
-export const generateStudyOutline = async (topicTitle: string, userQuery?: string): Promise<string> => {
-  const prompt = userQuery 
-    ? `Actúa como un preparador personal de oposiciones experto. El alumno está en la fase de estudio de "${topicTitle}" y tiene esta duda concreta: "${userQuery}". Responde de forma pedagógica, estructurada y enlazando con la normativa.`
-    : `Actúa como un preparador de oposiciones de alto nivel.
-    
-    TU OBJETIVO: Crear un PLAN DE ESTUDIO GUIADO paso a paso para el tema: "${topicTitle}".
-    No quiero un simple resumen. Quiero una GUÍA DE PREPARACIÓN que me lleve de la mano.
-
-    Estructura la respuesta en Markdown estrictamente así:
-
-    # Guía de Estudio: ${topicTitle}
-
-    ## 🎯 Objetivos del Tema
-    (Qué debo saber al terminar)
-
-    ## 🧠 Fase 1: Mapa Mental y Conceptos Clave
-    (Explica los pilares fundamentales del tema antes de entrar en leyes. Usa analogías si es útil).
-
-    ## 📖 Fase 2: Análisis Normativo (Paso a Paso)
-    (Desglosa el contenido. No copies los artículos, explícalos y agrúpalos lógicamente para estudiarlos).
-    * **Bloque A:** ...
-    * **Bloque B:** ...
-
-    ## 💡 Fase 3: Reglas Mnemotécnicas y Trucos
-    (Daur reglas para memorizar listas, plazos o mayorías difíciles de este tema específico).
+// Generates children for one node only; the rest of the map is returned untouched. Null when the
+// request fails or the model proposes nothing new for the branch.
+export const expandDiagramNode = async (
+  topicTitle: string,
+  diagram: InteractiveDiagram,
+  nodeId: string,
+  retrievalQuery?: string,
+  topicId?: string
+): Promise<InteractiveDiagram | null> => {
+  const branch = getNodePath(diagram, nodeId).map(node => node.label);
+  const sources = retrieveSources(`${retrievalQuery || topicTitle} ${branch.join(' ')}`, 6, topicId);
+  try {
+    const existingChildren = getChildNodes(diagram, nodeId).map(node => node.label);
+    const nodes = await getActiveProvider().expandDiagramNode(topicTitle, branch, existingChildren, sources);
+    const grounded = nodes.map(node => typeof node.detail === 'string' ? { ...node, detail: extractCitations(node.detail).text } : node);
+    const expanded = addDiagramBranch(diagram, nodeId, grounded);
+    return expanded.nodes.length > diagram.nodes.length ? expanded : null;
+  } catch (error) {
+    console.error("AI Diagram Expansion Error:", error);
+    return null;
+  }
+};
 
-    ## ⚠️ Puntos Críticos de Examen
-    (Qué suelen preguntar los tribunales sobre este tema. Dónde están las "trampas").`;
+// Maps the article ids a provider returned into verified citations
+const groundQuizQuestion = (q: QuizQuestion): QuizQuestion => {
+  const { articleIds, ...rest } = q as QuizQuestion & { articleIds?: unknown };
+  const explanation = extractCitations(rest.explanation || '');
+  const citations = Array.from(new Set([
+    ...filterKnownCitations(articleIds),
+    ...filterKnownCitations(rest.citations),
+    ...explanation.citations
+  ]));
+  return { ...rest, explanation: explanation.text, citations };
+};
 
+// Keeps only the questions the model answers the same way when it does not see the key.
+// A failing or malformed verifier response leaves the batch unverified rather than empty.
+const verifyAnswerKeys = async (provider: AIProvider, questions: QuizQuestion[], sources: GroundingSource[]): Promise<QuizQuestion[]> => {
   try {
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: prompt,
-    });
-    return response.text || "Hubo un error generando el plan de estudio.";
+    const answers = await provider.answerQuizQuestions(questions, sources);
+    if (answers.length !== questions.length) {
+      console.warn(`Quiz verifier returned ${answers.length} answers for ${questions.length} questions`);
+      return questions;
+    }
+    return questions.filter((q, idx) => answers[idx] === q.correctAnswerIndex);
   } catch (error) {
-    console.error("Gemini Error:", error);
-    return "Error de conexión con la IA. Por favor verifica tu clave API.";
+    console.error("AI Quiz Verifier Error:", error);
+    return questions;
   }
 };
 
-export interface InteractiveDiagram {
-  mermaidCode: string;
-  nodeDetails: Record<string, string>;
-}
-
-export const generateInteractiveDiagram = async (topicTitle: string): Promise<InteractiveDiagram | null> => {
-  const sanitizedTitle = topicTitle.replace(/[^a-zA-Z0-9 áéíóúÁÉÍÓÚñÑ]/g, '').substring(0, 25);
-  
-  const prompt = `Actúa como un experto en visualización de datos.
-  Crea un MAPA MENTAL JERÁRQUICO (Mermaid.js) para estudiar: "${topicTitle}".
-
-  OBJETIVO: Un esquema visual ROBUSTO y SIN ERRORES DE SINTAXIS.
-
-  REGLAS OBLIGATORIAS (SINTAXIS MERMAID):
-  1. LA PRIMERA LÍNEA DEL CÓDIGO DEBE SER EXACTAMENTE: graph LR
-  2. Nodos: Usa IDs simples (N1, N2, N3...) y texto entre comillas dobles y corchetes.
-     Ejemplo: N1["Titulo Principal"]
-  3. Texto de nodos: 
-     - Solo letras y números.
-     - MÁXIMO 4 palabras.
-     - ELIMINA: comillas, paréntesis, corchetes, puntos, comas.
-  4. NODO RAÍZ (N1): Su texto DEBE SER EXACTAMENTE: "${sanitizedTitle}"
-  5. CLASES: NO definas 'classDef' al principio. Defínelos AL FINAL.
-
-  PLANTILLA OBLIGATORIA (Usa saltos de línea \\n explícitos):
-  graph LR
-  N1["${sanitizedTitle}"]:::main
-  N1 --> N2["Conceptos"]:::sub
-  N2 --> N3["Detalle"]:::detail
-  
-  %% Estilos
-  classDef main fill:#AA151B,stroke:#F1BF00,stroke-width:4px,color:white;
-  classDef sub fill:#1e293b,stroke:#F1BF00,stroke-width:2px,color:#F1BF00;
-  classDef detail fill:#0f172a,stroke:#334155,stroke-width:1px,color:#cbd5e1,stroke-dasharray: 5 5;
-
-  Debes devolver un OBJETO JSON:
-  {
-    "mermaidCode": "graph LR\\nN1[\\"${sanitizedTitle}\\"]:::main --> N2[\\"Conceptos\\"]:::sub\\n...\\nclassDef main...",
-    "nodeDetails": { "N1": "Explicación...", "N2": "Explicación..." }
+export const generateQuizQuestions = async (topicTitle: string, count: number = 5, retrievalQuery?: string, topicId?: string): Promise<QuizQuestion[]> => {
+  const sources = retrieveSources(retrievalQuery || topicTitle, 8, topicId);
+  const provider = getActiveProvider();
+  const { verifyQuizAnswers } = loadAISettings();
+  const accepted: QuizQuestion[] = [];
+
+  // Rejected items are re-requested, asking only for the ones still missing
+  for (let round = 0; round < MAX_QUIZ_ROUNDS && accepted.length < count; round++) {
+    try {
+      const raw = await provider.generateQuizQuestions(topicTitle, count - accepted.length, sources);
+      let batch: QuizQuestion[] = [];
+      raw.forEach(item => {
+        const repaired = repairQuizQuestion(item);
+        if (!repaired) return;
+        const question = groundQuizQuestion(repaired);
+        if ([...accepted, ...batch].some(q => isNearDuplicate(q, question))) return;
+        batch.push(question);
+      });
+      if (verifyQuizAnswers && batch.length > 0) {
+        batch = await verifyAnswerKeys(provider, batch, sources);
+      }
+      accepted.push(...batch.slice(0, count - accepted.length));
+    } catch (error) {
+      console.error("AI Quiz Error:", error);
+      break;
+    }
   }
 
-  IMPORTANTE:
-  - Usa saltos de línea explicitos (\\n) en el string JSON.
-  - Asegúrate de que hay un salto de línea antes de 'classDef'.`;
+  if (accepted.length < count) {
+    console.warn(`Only ${accepted.length} of ${count} generated questions passed validation`);
+  }
+  return accepted;
+};
 
+// Keeps sentences that actually hide something and replaces article ids with verified citations
+export const generateClozeCards = async (topicTitle: string, count: number = 10, retrievalQuery?: string, topicId?: string): Promise<ClozeDraft[]> => {
+  const sources = retrieveSources(retrievalQuery || topicTitle, 8, topicId);
   try {
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json"
-      }
-    });
-    
-    const data = cleanAndParseJSON(response.text || "{}");
-    return data as InteractiveDiagram;
+    const drafts = await getActiveProvider().generateClozeCards(topicTitle, count, sources);
+    return drafts
+      .filter(draft => /\{\{[^{}]+\}\}/.test(draft.text))
+      .map(draft => {
+        const explanation = extractCitations(typeof draft.explanation === 'string' ? draft.explanation : '');
+        return {
+          text: draft.text.trim(),
+          explanation: explanation.text.trim(),
+          articleIds: Array.from(new Set([...filterKnownCitations(draft.articleIds), ...explanation.citations]))
+        };
+      });
   } catch (error) {
-    console.error("Gemini Diagram Error:", error);
-    return null;
+    console.error("AI Cloze Error:", error);
+    return [];
   }
 };
 
-export const generateQuizQuestions = async (topicTitle: string, count: number = 5): Promise<QuizQuestion[]> => {
-  const prompt = `Genera un examen tipo test de ${count} preguntas sobre "${topicTitle}" basado estrictamente en el temario oficial de oposiciones (Constitución, Estatuto Andalucía, Régimen Local, etc).
-  Las preguntas deben ser técnicas y rigurosas.
-  
-  Devuelve SOLO un JSON válido con la siguiente estructura (Schema):
-  [
-    {
-      "question": "Enunciado de la pregunta",
-      "options": ["Opción A", "Opción B", "Opción C", "Opción D"],
-      "correctAnswerIndex": 0, (índice 0-3)
-      "explanation": "Breve explicación jurídica de por qué es la correcta."
-    }
-  ]`;
-
+export const chatWithTutor = async (message: string, history: ChatTurn[]): Promise<GroundedAnswer> => {
+  const sources = retrieveSources(message, 5);
   try {
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              question: { type: Type.STRING },
-              options: { 
-                type: Type.ARRAY,
-                items: { type: Type.STRING }
-              },
-              correctAnswerIndex: { type: Type.INTEGER },
-              explanation: { type: Type.STRING }
-            }
-          }
-        }
-      }
-    });
-
-    const data = cleanAndParseJSON(response.text || "[]");
-    return data || [];
+    const text = await getActiveProvider().chatWithTutor(message, history, sources);
+    return text ? extractCitations(text) : { text: "Lo siento, no pude generar una respuesta.", citations: [] };
   } catch (error) {
-    console.error("Gemini Quiz Error:", error);
-    return [];
+    console.error("Chat Error:", error);
+    return { text: "Lo siento, ha ocurrido un error al procesar tu consulta.", citations: [] };
   }
 };
 
-export const chatWithTutor = async (message: string, history: {role: 'user' | 'model', text: string}[]): Promise<string> => {
+// Accumulates provider deltas into grounded partial answers. Stopping through `signal` ends the
+// stream quietly with whatever text has arrived; other failures append the usual error message and
+// flag that last item as failed, so callers can tell an incomplete answer from a finished one.
+const accumulateStream = async function* (openStream: () => AsyncGenerator<string>, signal: AbortSignal, errorText: string, emptyText: string): AsyncGenerator<StreamedAnswer> {
+  let text = '';
   try {
-    const chat = ai.chats.create({
-      model: modelName,
-      history: history.map(h => ({
-        role: h.role,
-        parts: [{ text: h.text }]
-      })),
-      config: {
-        systemInstruction: "Eres un tutor experto en la preparación de oposiciones para administraciones locales en Andalucía. Responde basándote en la Constitución Española, el Estatuto de Andalucía, la Ley de Bases de Régimen Local y demás normativa específica del temario. Sé pedagógico y cita artículos. Si el usuario te pide repasar fallos, analiza las preguntas que falló, explica por qué la respuesta correcta es la que es, y da reglas mnemotécnicas para recordarlo."
-      }
-    });
+    for await (const chunk of openStream()) {
+      if (signal.aborted) return;
+      text += chunk;
+      yield extractCitations(text);
+    }
+  } catch (error) {
+    if (signal.aborted) return;
+    console.error("AI Stream Error:", error);
+    yield { ...extractCitations(text ? `${text}\n\n_${errorText}_` : errorText), failed: true };
+    return;
+  }
+  if (!text) yield { text: emptyText, citations: [], failed: true };
+};
+
+export const streamStudyOutline = (topicTitle: string, signal: AbortSignal, userQuery?: string, retrievalQuery?: string, topicId?: string): AsyncGenerator<StreamedAnswer> => {
+  const sources = retrieveSources(`${retrievalQuery || topicTitle} ${userQuery || ''}`, 8, topicId);
+  return accumulateStream(
+    () => getActiveProvider().streamStudyOutline(topicTitle, sources, userQuery, signal),
+    signal,
+    "Error de conexión con la IA. Por favor verifica tu clave API o el proveedor configurado en Ajustes.",
+    "Hubo un error generando el plan de estudio."
+  );
+};
 
-    const result = await chat.sendMessage({ message });
-    return result.text || "Lo siento, no pude generar una respuesta.";
+export const streamChatWithTutor = (message: string, history: ChatTurn[], signal: AbortSignal): AsyncGenerator<StreamedAnswer> => {
+  const sources = retrieveSources(message, 5);
+  return accumulateStream(
+    () => getActiveProvider().streamChat(message, history, sources, signal),
+    signal,
+    "Lo siento, ha ocurrido un error al procesar tu consulta.",
+    "Lo siento, no pude generar una respuesta."
+  );
+};
+
+// Folds older chat turns into a running summary. On failure the turns are kept as a clipped
+// transcript so the context is shortened anyway rather than lost.
+export const summarizeChatTurns = async (previousSummary: string, turns: ChatTurn[]): Promise<string> => {
+  try {
+    const summary = await getActiveProvider().chatWithTutor(buildChatSummaryPrompt(previousSummary, turns), [], []);
+    if (summary) return summary.trim();
   } catch (error) {
-    console.error("Chat Error:", error);
-    return "Lo siento, ha ocurrido un error al procesar tu consulta.";
+    console.error("Chat Summary Error:", error);
   }
-};
\ No newline at end of file
+  const clipped = turns.map(t => `${t.role === 'user' ? 'Alumno' : 'Tutor'}: ${t.text.slice(0, 200)}`).join('\n');
+  return [previousSummary, clipped].filter(Boolean).join('\n');
+};
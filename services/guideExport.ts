@@ -0,0 +1,344 @@
+import { ComponentProps, createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import Markdown, { Components, ExtraProps } from 'react-markdown';
+import { ConstitutionTopic, InteractiveDiagram } from "../types";
+import { CITATION_HREF_PREFIX, extractCitations, getCitationLabel, linkifyCitations } from "./citations";
+import { getArticleById } from "./retrieval";
+import { getPassageById } from "./documents";
+import { formatTopicArticles } from "./articleRefs";
+import { diagramToMermaid } from "./diagram";
+import { diagramToMarkdown } from "./diagramExport";
+import { escapeXml } from "./exportUtils";
+
+// Offline study guides: one or more temas rendered from their Markdown into a self-contained HTML
+// file or an EPUB, with a table of contents, each mind map as inline SVG followed by its node
+// explanations, and an appendix with the text of every cited article so links work without the app.
+
+export type GuideFormat = 'html' | 'epub';
+
+export interface GuideSource {
+  topic: ConstitutionTopic;
+  text: string;
+  diagram: InteractiveDiagram | null;
+}
+
+export interface GuideHeading {
+  id: string;
+  text: string;
+  level: number;
+}
+
+export interface GuideChapter {
+  topic: ConstitutionTopic;
+  anchor: string;
+  headings: GuideHeading[]; // Levels 1 and 2, for the table of contents
+  body: string;
+  diagramSvg: string | null;
+  diagramOutline: string | null;
+  citations: string[];
+}
+
+// Heading anchors, shared with the study view so "Ver en la Guía" finds the same ids
+export const headingId = (text: string) =>
+  text
+    .toString()
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/[^\w-]+/g, '')
+    .replace(/--+/g, '-')
+    .replace(/^-+/, '')
+    .replace(/-+$/, '');
+
+const SOURCES_ANCHOR = 'fuentes';
+const SOURCES_FILE = 'fuentes.xhtml';
+const TOC_LEVELS = 2;
+
+type HastElement = NonNullable<ExtraProps['node']>;
+
+// Plain text of a Markdown heading, whatever inline formatting it has
+const hastText = (node: HastElement | HastElement['children'][number] | undefined): string => {
+  if (!node) return '';
+  if (node.type === 'text') return node.value;
+  return 'children' in node ? node.children.map(hastText).join('') : '';
+};
+
+// React output closes void elements (<br/>, <hr/>), so the same markup is valid XHTML for the EPUB
+const renderMarkdown = (markdown: string, components?: Components) =>
+  renderToStaticMarkup(createElement(Markdown, { components }, linkifyCitations(markdown)));
+
+const renderGuideBody = (text: string, anchor: string) => {
+  const headings: GuideHeading[] = [];
+  const used = new Set<string>();
+  const heading = (level: number) => ({ node, children }: ComponentProps<'h1'> & ExtraProps) => {
+    const text = hastText(node);
+    let id = `${anchor}-${headingId(text) || 'seccion'}`;
+    for (let n = 2; used.has(id); n++) id = `${anchor}-${headingId(text)}-${n}`;
+    used.add(id);
+    if (level <= TOC_LEVELS) headings.push({ id, text, level });
+    return createElement(`h${level}`, { id }, children);
+  };
+  const body = renderMarkdown(text, { h1: heading(1), h2: heading(2), h3: heading(3) });
+  return { body, headings };
+};
+
+// The node list goes under the map's own heading, so its headings are pushed down two levels
+const OUTLINE_COMPONENTS: Components = {
+  h1: ({ children }) => createElement('h3', null, children),
+  h2: ({ children }) => createElement('h4', null, children)
+};
+
+// Mermaid can only draw inside the page, so exports ask it for an SVG string. The init directive
+// switches to the light theme and plain SVG text labels (no HTML in foreignObject), which
+// e-readers and printers render reliably.
+const EXPORT_INIT = '%%{init: {"theme": "default", "flowchart": {"htmlLabels": false}}}%%';
+
+export const renderDiagramSvg = async (diagram: InteractiveDiagram): Promise<string | null> => {
+  if (!window.mermaid) return null;
+  try {
+    const id = `guide-${Math.random().toString(36).slice(2, 11)}`;
+    const { svg } = await window.mermaid.render(id, `${EXPORT_INIT}\n${diagramToMermaid(diagram)}`);
+    // Re-serialised as XML so it can be embedded in XHTML
+    const element = new DOMParser().parseFromString(svg, 'text/html').querySelector('svg');
+    return element ? new XMLSerializer().serializeToString(element) : null;
+  } catch (error) {
+    console.error("Guide diagram render failed:", error);
+    return null;
+  }
+};
+
+export const buildGuideChapters = async (sources: GuideSource[], includeDiagrams: boolean): Promise<GuideChapter[]> => {
+  const chapters: GuideChapter[] = [];
+  for (const [index, source] of sources.entries()) {
+    const anchor = `tema-${index + 1}`;
+    const { body, headings } = renderGuideBody(source.text, anchor);
+    const diagram = includeDiagrams ? source.diagram : null;
+    const diagramText = diagram ? diagram.nodes.map(node => node.detail ?? '').join('\n') : '';
+    chapters.push({
+      topic: source.topic,
+      anchor,
+      headings,
+      body,
+      diagramSvg: diagram ? await renderDiagramSvg(diagram) : null,
+      diagramOutline: diagram ? renderMarkdown(diagramToMarkdown(diagram), OUTLINE_COMPONENTS) : null,
+      citations: extractCitations(`${source.text}\n${diagramText}`).citations
+    });
+  }
+  return chapters;
+};
+
+// ---- Shared markup ----
+
+const GUIDE_STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; color: #1e293b; line-height: 1.55; max-width: 46em; margin: 0 auto; padding: 1.5em; }
+  h1, h2, h3, h4 { font-family: 'Helvetica Neue', Arial, sans-serif; line-height: 1.25; }
+  h1 { color: #AA151B; border-bottom: 2px solid #AA151B; padding-bottom: .2em; }
+  h2 { color: #7c5a00; }
+  a { color: #AA151B; }
+  .chapter-title { font-size: 1.8em; margin-top: 2em; }
+  .meta { color: #64748b; font-size: .9em; }
+  .toc ol { list-style: none; padding-left: 1.2em; }
+  .toc > ol { padding-left: 0; }
+  .toc li { margin: .25em 0; }
+  .diagram svg { max-width: 100%; height: auto; }
+  .diagram { page-break-before: always; break-before: page; }
+  .source { margin: 1em 0; padding: .6em .9em; border-left: 3px solid #F1BF00; background: #fefce8; }
+  .source h3 { margin: 0 0 .4em; font-size: 1em; }
+  .source p { margin: .3em 0; font-size: .92em; }
+  @media print { .chapter { page-break-before: always; break-before: page; } }
+`;
+
+const chapterMarkup = (chapter: GuideChapter, citationHref: string) => {
+  const articles = formatTopicArticles(chapter.topic);
+  const diagram = chapter.diagramOutline === null ? '' : `
+<section class="diagram">
+<h2 id="${chapter.anchor}-mapa">Mapa mental</h2>
+${chapter.diagramSvg ?? ''}
+${chapter.diagramOutline}
+</section>`;
+  return `<h1 class="chapter-title">${escapeXml(chapter.topic.title)}</h1>
+${articles ? `<p class="meta">${escapeXml(articles)}</p>` : ''}
+${chapter.body.split(`href="${CITATION_HREF_PREFIX}`).join(`href="${citationHref}${CITATION_HREF_PREFIX}`)}${diagram}`;
+};
+
+const sourcesMarkup = (chapters: GuideChapter[]) => {
+  const ids = Array.from(new Set(chapters.flatMap(chapter => chapter.citations)));
+  const entries = ids.map(id => {
+    const text = getArticleById(id)?.text ?? getPassageById(id)?.text ?? '';
+    const paragraphs = text.split(/\n+/).filter(Boolean).map(paragraph => `<p>${escapeXml(paragraph)}</p>`).join('');
+    return `<div class="source" id="${CITATION_HREF_PREFIX.slice(1)}${id}"><h3>${escapeXml(getCitationLabel(id) ?? id)}</h3>${paragraphs}</div>`;
+  });
+  return `<h1 id="${SOURCES_ANCHOR}">Fuentes citadas</h1>
+${entries.length > 0 ? entries.join('\n') : '<p class="meta">Esta guía no cita artículos.</p>'}`;
+};
+
+// Nested list of chapters and their headings; `fileOf` gives the document each chapter lives in
+const tocList = (chapters: GuideChapter[], fileOf: (chapter: GuideChapter) => string, sourcesHref: string) => {
+  const headingItems = (chapter: GuideChapter) => chapter.headings
+    .map(heading => `<li><a href="${fileOf(chapter)}#${heading.id}">${escapeXml(heading.text)}</a></li>`)
+    .join('');
+  const items = chapters.map(chapter => {
+    const children = headingItems(chapter) + (chapter.diagramOutline === null ? '' : `<li><a href="${fileOf(chapter)}#${chapter.anchor}-mapa">Mapa mental</a></li>`);
+    return `<li><a href="${fileOf(chapter)}#${chapter.anchor}">${escapeXml(chapter.topic.title)}</a>${children ? `<ol>${children}</ol>` : ''}</li>`;
+  });
+  return `<ol>${items.join('')}<li><a href="${sourcesHref}">Fuentes citadas</a></li></ol>`;
+};
+
+// ---- HTML ----
+
+export const buildGuideHtml = (chapters: GuideChapter[], title: string): string => `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(title)}</title>
+<style>${GUIDE_STYLES}</style>
+</head>
+<body>
+<h1>${escapeXml(title)}</h1>
+<p class="meta">Guía exportada el ${new Date().toLocaleDateString('es-ES')}. Funciona sin conexión.</p>
+<nav class="toc"><h2>Índice</h2>${tocList(chapters, () => '', `#${SOURCES_ANCHOR}`)}</nav>
+${chapters.map(chapter => `<article class="chapter" id="${chapter.anchor}">\n${chapterMarkup(chapter, '')}\n</article>`).join('\n')}
+<section class="chapter">
+${sourcesMarkup(chapters)}
+</section>
+</body>
+</html>
+`;
+
+// ---- EPUB ----
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Minimal ZIP writer with stored (uncompressed) entries, enough for an EPUB, whose first entry
+// must be an uncompressed "mimetype" file
+const buildZip = (files: { name: string; content: string }[], type: string): Blob => {
+  const encoder = new TextEncoder();
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+  const DOS_DATE = 0x21; // 1980-01-01
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(12, DOS_DATE, true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, data.length, true);
+    header.setUint32(22, data.length, true);
+    header.setUint16(26, name.length, true);
+    local.push(new Uint8Array(header.buffer), name, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(14, DOS_DATE, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((size, part) => size + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+  return new Blob([...local, ...central, new Uint8Array(end.buffer)], { type });
+};
+
+const xhtmlDocument = (title: string, body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="es" xml:lang="es">
+<head>
+<meta charset="utf-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+// EPUB 3 book: a navigation document, one XHTML file per tema and the sources appendix
+export const buildGuideEpub = (chapters: GuideChapter[], title: string): Blob => {
+  const fileOf = (chapter: GuideChapter) => `${chapter.anchor}.xhtml`;
+  const chapterFiles = chapters.map(chapter => ({
+    id: chapter.anchor,
+    name: fileOf(chapter),
+    svg: !!chapter.diagramSvg,
+    content: xhtmlDocument(chapter.topic.title, `<section id="${chapter.anchor}" epub:type="chapter">\n${chapterMarkup(chapter, SOURCES_FILE)}\n</section>`)
+  }));
+  const nav = xhtmlDocument(title, `<h1>${escapeXml(title)}</h1>
+<nav epub:type="toc" id="toc" class="toc"><h2>Índice</h2>${tocList(chapters, fileOf, `${SOURCES_FILE}#${SOURCES_ANCHOR}`)}</nav>`);
+  const sources = xhtmlDocument('Fuentes citadas', `<section epub:type="appendix">\n${sourcesMarkup(chapters)}\n</section>`);
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="es">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:constitucion-guia:${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}</dc:identifier>
+    <dc:title>${escapeXml(title)}</dc:title>
+    <dc:language>es</dc:language>
+    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="style" href="style.css" media-type="text/css"/>
+${chapterFiles.map(file => `    <item id="${file.id}" href="${file.name}" media-type="application/xhtml+xml"${file.svg ? ' properties="svg"' : ''}/>`).join('\n')}
+    <item id="fuentes" href="${SOURCES_FILE}" media-type="application/xhtml+xml"/>
+  </manifest>
+  <spine>
+    <itemref idref="nav"/>
+${chapterFiles.map(file => `    <itemref idref="${file.id}"/>`).join('\n')}
+    <itemref idref="fuentes"/>
+  </spine>
+</package>
+`;
+
+  return buildZip([
+    { name: 'mimetype', content: 'application/epub+zip' },
+    { name: 'META-INF/container.xml', content: CONTAINER_XML },
+    { name: 'OEBPS/content.opf', content: opf },
+    { name: 'OEBPS/nav.xhtml', content: nav },
+    { name: 'OEBPS/style.css', content: GUIDE_STYLES },
+    ...chapterFiles.map(file => ({ name: `OEBPS/${file.name}`, content: file.content })),
+    { name: `OEBPS/${SOURCES_FILE}`, content: sources }
+  ], 'application/epub+zip');
+};
@@ -0,0 +1,191 @@
+import { ExamConfig, QuizQuestion } from "../types";
+import { getCitationLabel } from "./citations";
+import { downloadFile, escapeXml } from "./exportUtils";
+
+// Paper simulacros: the exam is printed as three parts (questions, an official-style answer
+// sheet and the answer key), each starting on its own page. The marks of a filled sheet are
+// typed back in as a string of letters and scored like an on-screen test.
+
+// Letters printed on the answer sheet; imported questions may have up to six options
+const OPTION_LETTERS = 'ABCDEF';
+// Rows per column of the answer sheet grid, as in the tribunal sheets
+const SHEET_ROWS_PER_COLUMN = 25;
+
+export const optionLetter = (index: number): string => OPTION_LETTERS[index] ?? '?';
+
+const escapeHtml = (text: string) => escapeXml(text).replace(/\n/g, '<br>');
+
+const describePenalty = (config: ExamConfig) => {
+  if (config.penalty <= 0) return 'Las respuestas erróneas no restan.';
+  const fraction = Math.round(1 / config.penalty);
+  const penalty = Number.isInteger(1 / config.penalty) ? `1/${fraction}` : config.penalty.toFixed(2);
+  return `Cada respuesta errónea resta ${penalty} de acierto${config.blankPolicy === 'penalize' ? ', también las preguntas en blanco' : ''}.`;
+};
+
+const PRINT_STYLES = `
+  @page { size: A4; margin: 18mm 16mm; }
+  * { box-sizing: border-box; }
+  body { font-family: Georgia, 'Times New Roman', serif; color: #111; font-size: 11pt; line-height: 1.4; margin: 0; }
+  h1 { font-size: 16pt; margin: 0 0 4pt; }
+  h2 { font-size: 13pt; margin: 0 0 10pt; padding-bottom: 4pt; border-bottom: 2px solid #AA151B; }
+  .part { page-break-before: always; break-before: page; }
+  .part:first-of-type { page-break-before: auto; break-before: auto; }
+  .meta { font-size: 9pt; color: #444; margin-bottom: 12pt; }
+  .question { margin: 0 0 10pt; page-break-inside: avoid; break-inside: avoid; }
+  .question p { margin: 0 0 3pt; font-weight: bold; }
+  .question ol { margin: 0; padding-left: 22pt; list-style: none; }
+  .question li { margin: 1pt 0; }
+  .question li b { display: inline-block; width: 16pt; margin-left: -18pt; }
+  .candidate { display: grid; grid-template-columns: 2fr 1fr 1fr; gap: 8pt; margin-bottom: 12pt; }
+  .field { border: 1px solid #111; padding: 3pt 5pt 16pt; font-size: 8pt; text-transform: uppercase; }
+  .instructions { font-size: 9pt; border: 1px solid #999; padding: 6pt 8pt; margin-bottom: 12pt; }
+  .sheet { display: flex; gap: 14pt; align-items: flex-start; font-family: Arial, sans-serif; }
+  .sheet table { border-collapse: collapse; }
+  .sheet th { font-size: 8pt; font-weight: normal; color: #444; padding: 0 3pt 2pt; }
+  .sheet td { padding: 1.5pt 3pt; font-size: 9pt; }
+  .sheet td.n { text-align: right; font-weight: bold; padding-right: 5pt; }
+  .bubble { display: inline-block; width: 14pt; height: 12pt; border: 1px solid #111; border-radius: 2pt; text-align: center; font-size: 7pt; line-height: 11pt; color: #777; }
+  .bubble.none { border-color: transparent; }
+  .sheet tr:nth-child(5n) td { border-bottom: 1px solid #bbb; }
+  .key { display: flex; flex-wrap: wrap; gap: 3pt 12pt; font-family: Arial, sans-serif; font-size: 10pt; margin-bottom: 14pt; }
+  .key span { min-width: 44pt; }
+  .explanation { margin: 0 0 8pt; page-break-inside: avoid; break-inside: avoid; font-size: 10pt; }
+  .explanation p { margin: 0 0 2pt; }
+  .explanation .refs { font-size: 8.5pt; color: #555; }
+`;
+
+const renderQuestions = (questions: QuizQuestion[]) => questions.map((q, idx) => `
+  <div class="question">
+    <p>${idx + 1}. ${escapeHtml(q.question)}</p>
+    <ol>${q.options.map((option, i) => `<li><b>${optionLetter(i)})</b> ${escapeHtml(option)}</li>`).join('')}</ol>
+  </div>`).join('');
+
+const renderAnswerSheet = (questions: QuizQuestion[]) => {
+  const letterCount = Math.max(4, ...questions.map(q => q.options.length));
+  const letters = OPTION_LETTERS.slice(0, letterCount).split('');
+  const columns: string[] = [];
+  for (let start = 0; start < questions.length; start += SHEET_ROWS_PER_COLUMN) {
+    const rows = questions.slice(start, start + SHEET_ROWS_PER_COLUMN).map((q, i) => `
+      <tr><td class="n">${start + i + 1}</td>${letters.map((letter, li) =>
+        `<td><span class="bubble${li < q.options.length ? '' : ' none'}">${li < q.options.length ? letter : ''}</span></td>`).join('')}</tr>`).join('');
+    columns.push(`<table><thead><tr><th></th>${letters.map(l => `<th>${l}</th>`).join('')}</tr></thead><tbody>${rows}</tbody></table>`);
+  }
+  return `
+    <div class="candidate">
+      <div class="field">Apellidos y nombre</div>
+      <div class="field">DNI</div>
+      <div class="field">Fecha</div>
+    </div>
+    <div class="instructions">
+      Marque con una X la casilla de la respuesta elegida. Para anular una marca, rellene la casilla por completo y marque la nueva.
+      Deje la fila vacía para no contestar.
+    </div>
+    <div class="sheet">${columns.join('')}</div>`;
+};
+
+const renderAnswerKey = (questions: QuizQuestion[]) => {
+  const key = questions.map((q, idx) => `<span><b>${idx + 1}.</b> ${optionLetter(q.correctAnswerIndex)}</span>`).join('');
+  const explanations = questions.map((q, idx) => {
+    const refs = (q.citations ?? []).map(id => getCitationLabel(id)).filter((label): label is string => !!label);
+    if (!q.explanation && refs.length === 0) return '';
+    return `
+      <div class="explanation">
+        <p><b>${idx + 1}. ${optionLetter(q.correctAnswerIndex)})</b> ${escapeHtml(q.explanation)}</p>
+        ${refs.length > 0 ? `<p class="refs">${escapeHtml(refs.join(' · '))}</p>` : ''}
+      </div>`;
+  }).join('');
+  return `<div class="key">${key}</div>${explanations}`;
+};
+
+export const buildPrintableExam = (questions: QuizQuestion[], config: ExamConfig, title: string): string => {
+  const date = new Date().toLocaleDateString('es-ES');
+  const meta = [
+    `${questions.length} preguntas`,
+    config.timeLimitMinutes > 0 ? `Tiempo: ${config.timeLimitMinutes} minutos` : '',
+    describePenalty(config),
+    `Aprobado: ${config.passMark}% de la nota`
+  ].filter(Boolean).join(' · ');
+
+  return `<!DOCTYPE html>
+<html lang="es"><head><meta charset="UTF-8"><title>${escapeHtml(title)}</title><style>${PRINT_STYLES}</style></head>
+<body>
+  <section class="part">
+    <h1>${escapeHtml(title)}</h1>
+    <div class="meta">${date} · ${meta}</div>
+    ${renderQuestions(questions)}
+  </section>
+  <section class="part">
+    <h2>Hoja de respuestas · ${escapeHtml(title)}</h2>
+    ${renderAnswerSheet(questions)}
+  </section>
+  <section class="part">
+    <h2>Plantilla de respuestas y explicaciones</h2>
+    ${renderAnswerKey(questions)}
+  </section>
+</body></html>`;
+};
+
+// Opens the document in a new window and shows the print dialog; falls back to downloading
+// the HTML file when the browser blocks pop-ups
+export const printHtml = (html: string, title: string) => {
+  const win = window.open('', '_blank');
+  if (!win) {
+    downloadFile(html, `${title.replace(/\s+/g, '_')}.html`, 'text/html');
+    return;
+  }
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  // Give the new document a moment to lay out before the dialog snapshots it
+  setTimeout(() => win.print(), 300);
+};
+
+export const printExam = (questions: QuizQuestion[], config: ExamConfig, title: string) =>
+  printHtml(buildPrintableExam(questions, config, title), title);
+
+export interface AnswerSheetParseResult {
+  answers: number[];
+  errors: string[];
+}
+
+// Reads the marks of a paper sheet typed as letters, either in order ("ABDA-C", with "-", "_"
+// or "." for a blank) or numbered ("1A 2C 3- 4B"). Unmentioned numbered questions stay blank.
+export const parseAnswerSheet = (text: string, questions: QuizQuestion[]): AnswerSheetParseResult => {
+  const answers = new Array(questions.length).fill(-1);
+  const errors: string[] = [];
+  const input = text.toUpperCase();
+
+  const setAnswer = (idx: number, mark: string) => {
+    if (idx < 0 || idx >= questions.length) {
+      errors.push(`La pregunta ${idx + 1} no existe (el examen tiene ${questions.length}).`);
+      return;
+    }
+    if (!mark || '-_.'.includes(mark)) {
+      answers[idx] = -1;
+      return;
+    }
+    const option = OPTION_LETTERS.indexOf(mark);
+    if (option === -1 || option >= questions[idx].options.length) {
+      errors.push(`Pregunta ${idx + 1}: «${mark}» no es una opción válida.`);
+      return;
+    }
+    answers[idx] = option;
+  };
+
+  if (/\d/.test(input)) {
+    const numbered = /(\d+)\s*[.):=-]?\s*([A-Z_.-])?/g;
+    let match: RegExpExecArray | null;
+    while ((match = numbered.exec(input)) !== null) setAnswer(Number(match[1]) - 1, match[2] ?? '');
+  } else {
+    const marks = input.replace(/\s+/g, '').split('');
+    if (marks.length > questions.length) errors.push(`Hay ${marks.length} marcas para ${questions.length} preguntas.`);
+    marks.slice(0, questions.length).forEach((mark, idx) => setAnswer(idx, mark));
+  }
+
+  return { answers, errors };
+};
+
+// Inverse of parseAnswerSheet's sequential form, used to prefill the quick entry field
+export const formatAnswerSheet = (answers: number[]): string =>
+  answers.map(answer => answer === -1 ? '-' : optionLetter(answer)).join('');
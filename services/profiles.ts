@@ -0,0 +1,145 @@
+import { BankedQuestion, LearnerProfile } from "../types";
+import {
+  DEFAULT_PROFILE_ID,
+  findStored,
+  getActiveProfileId,
+  listStoredKeys,
+  readStored,
+  removeProfileData,
+  setActiveProfileId,
+  writeStored
+} from "./storage";
+
+// Learner profiles sharing one device. The storage layer namespaces every key by profile;
+// this module manages the list, the optional PIN and copying study material between profiles.
+
+const PROFILES_KEY = 'profiles';
+// Marks the profile unlocked in this tab so a reload after switching does not ask again
+const UNLOCKED_SESSION_KEY = 'unlocked_profile';
+
+export const loadProfiles = (): LearnerProfile[] => {
+  const profiles = readStored(PROFILES_KEY, []);
+  return profiles.length > 0 ? profiles : [{ id: DEFAULT_PROFILE_ID, name: 'Perfil principal', pinHash: null, createdAt: 0 }];
+};
+
+const saveProfiles = (profiles: LearnerProfile[]) => {
+  writeStored(PROFILES_KEY, profiles);
+};
+
+export const getActiveProfile = (): LearnerProfile =>
+  loadProfiles().find(p => p.id === getActiveProfileId()) ?? loadProfiles()[0];
+
+export const createProfile = (name: string): LearnerProfile => {
+  const profile: LearnerProfile = {
+    id: `p${Date.now().toString(36)}`,
+    name: name.trim() || 'Nuevo perfil',
+    pinHash: null,
+    createdAt: Date.now()
+  };
+  saveProfiles([...loadProfiles(), profile]);
+  return profile;
+};
+
+// Adds a profile that another device uploaded to the sync server, keeping its id so the
+// sync client downloads its data after switching to it
+export const addRemoteProfile = (profile: LearnerProfile) => {
+  const profiles = loadProfiles();
+  if (profiles.some(p => p.id === profile.id)) return;
+  saveProfiles([...profiles, profile]);
+};
+
+export const renameProfile = (profileId: string, name: string) => {
+  if (!name.trim()) return;
+  saveProfiles(loadProfiles().map(p => p.id === profileId ? { ...p, name: name.trim() } : p));
+};
+
+// The active profile cannot be deleted, so there is always one left
+export const deleteProfile = (profileId: string) => {
+  if (profileId === getActiveProfileId()) return;
+  removeProfileData(profileId);
+  saveProfiles(loadProfiles().filter(p => p.id !== profileId));
+};
+
+// ---- PIN lock ----
+// A PIN keeps flatmates out of each other's progress; it is not meant as real security.
+
+export const hashPin = async (profileId: string, pin: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${profileId}:${pin}`));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const verifyPin = async (profile: LearnerProfile, pin: string): Promise<boolean> =>
+  !profile.pinHash || await hashPin(profile.id, pin) === profile.pinHash;
+
+// Replacing or removing a PIN needs the current one, so an unlocked profile cannot take
+// over another. Returns false when the current PIN is wrong.
+export const setProfilePin = async (profile: LearnerProfile, currentPin: string, pin: string | null): Promise<boolean> => {
+  if (!await verifyPin(profile, currentPin)) return false;
+  const pinHash = pin ? await hashPin(profile.id, pin) : null;
+  saveProfiles(loadProfiles().map(p => p.id === profile.id ? { ...p, pinHash } : p));
+  return true;
+};
+
+export const isProfileUnlocked = (profile: LearnerProfile): boolean =>
+  !profile.pinHash || sessionStorage.getItem(UNLOCKED_SESSION_KEY) === profile.id;
+
+export const markProfileUnlocked = (profileId: string) => {
+  sessionStorage.setItem(UNLOCKED_SESSION_KEY, profileId);
+};
+
+// The caller reloads the app so every view reads the new profile's data; a profile with
+// a PIN then shows the lock screen
+export const switchProfile = (profileId: string) => {
+  setActiveProfileId(profileId);
+};
+
+// ---- Sharing study material ----
+
+export interface SharedMaterialCounts {
+  outlines: number;
+  diagrams: number;
+  questions: number;
+}
+
+export const countSharedMaterial = (profileId: string): SharedMaterialCounts => {
+  const keys = listStoredKeys(profileId);
+  const bank = findStored('question_bank', profileId) ?? {};
+  return {
+    outlines: keys.filter(k => k.startsWith('study_text_')).length,
+    diagrams: keys.filter(k => k.startsWith('study_diagram_obj_')).length,
+    questions: Object.values(bank).reduce((sum, entries) => sum + entries.length, 0)
+  };
+};
+
+// Copies study plans, mind maps and banked questions. Plans the target already has are kept,
+// and banked questions arrive unseen because answer statistics are progress, not material.
+export const copySharedMaterial = (fromProfileId: string, toProfileId: string): SharedMaterialCounts => {
+  const copied: SharedMaterialCounts = { outlines: 0, diagrams: 0, questions: 0 };
+  const targetKeys = new Set(listStoredKeys(toProfileId));
+
+  listStoredKeys(fromProfileId).forEach(key => {
+    const isOutline = key.startsWith('study_text_');
+    const isDiagram = key.startsWith('study_diagram_obj_');
+    if ((!isOutline && !isDiagram) || targetKeys.has(key)) return;
+    const value = findStored(key, fromProfileId);
+    if (value === undefined) return;
+    writeStored(key, value, toProfileId);
+    if (isOutline) copied.outlines++;
+    else copied.diagrams++;
+  });
+
+  const sourceBank = findStored('question_bank', fromProfileId) ?? {};
+  const targetBank = { ...(findStored('question_bank', toProfileId) ?? {}) };
+  Object.entries(sourceBank).forEach(([topicId, entries]) => {
+    const existing = targetBank[topicId] ?? [];
+    const fresh: BankedQuestion[] = entries
+      .filter(entry => !existing.some(e => e.id === entry.id))
+      .map(entry => ({ ...entry, timesSeen: 0, timesCorrect: 0, lastSeen: null }));
+    if (fresh.length === 0) return;
+    targetBank[topicId] = [...existing, ...fresh];
+    copied.questions += fresh.length;
+  });
+  if (copied.questions > 0) writeStored('question_bank', targetBank, toProfileId);
+
+  return copied;
+};
@@ -0,0 +1,45 @@
+import { ExamScore, FailedQuestion, TopicProgress } from "../types";
+import { hasStored, readStored, writeStored } from "./storage";
+
+const PROGRESS_KEY = 'topic_progress';
+// Mistakes log for the chat review, which sends only the latest ones; every mistake is also kept as an SRS card
+const MISTAKES_KEY = 'failed_questions';
+const GUIDED_MODE_KEY = 'guided_mode';
+
+export const loadProgress = (): Record<string, TopicProgress> => readStored(PROGRESS_KEY, {});
+
+export const saveProgress = (progress: Record<string, TopicProgress>) => {
+  writeStored(PROGRESS_KEY, progress);
+};
+
+// Keeps the best score and never un-passes a tema that was passed before
+export const recordTopicResult = (topicId: string, { percentage, isPassed }: ExamScore) => {
+  const allProgress = loadProgress();
+  const previous = allProgress[topicId];
+  allProgress[topicId] = {
+    topicId,
+    isPassed: isPassed || (previous?.isPassed ?? false),
+    bestScore: Math.max(previous?.bestScore || 0, percentage),
+    lastAttempt: Date.now()
+  };
+  saveProgress(allProgress);
+};
+
+export const loadMistakes = (): FailedQuestion[] => readStored(MISTAKES_KEY, []);
+
+// False until the first test with a wrong answer, even if the log was later emptied
+export const hasMistakesLog = (): boolean => hasStored(MISTAKES_KEY);
+
+export const saveMistakes = (mistakes: FailedQuestion[]) => {
+  writeStored(MISTAKES_KEY, mistakes);
+};
+
+export const appendMistakes = (mistakes: FailedQuestion[]) => {
+  if (mistakes.length > 0) saveMistakes([...loadMistakes(), ...mistakes]);
+};
+
+export const loadGuidedMode = (): boolean => readStored(GUIDED_MODE_KEY, false);
+
+export const saveGuidedMode = (enabled: boolean) => {
+  writeStored(GUIDED_MODE_KEY, enabled);
+};
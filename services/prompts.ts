@@ -0,0 +1,175 @@
+import { ChatTurn, DocumentPassage, GroundingSource, LegalArticle, QuizQuestion } from "../types";
+import { LAWS } from "../data/legalCorpus";
+import { BRANCH_ROOT_ID } from "./diagram";
+
+// Prompt templates shared by every AI provider so the pedagogy stays identical regardless of backend
+
+export const TUTOR_SYSTEM_INSTRUCTION = "Eres un tutor experto en la preparación de oposiciones para administraciones locales en Andalucía. Responde basándote en la Constitución Española, el Estatuto de Andalucía, la Ley de Bases de Régimen Local y demás normativa específica del temario. Sé pedagógico y cita artículos. Si el usuario te pide repasar fallos, analiza las preguntas que falló, explica por qué la respuesta correcta es la que es, y da reglas mnemotécnicas para recordarlo.";
+
+const isPassage = (source: GroundingSource): source is DocumentPassage => 'documentId' in source;
+
+// Retrieved sources appended to every prompt so answers cite real text instead of model memory.
+// The student's own material comes first and takes precedence over the legal corpus.
+export const buildSourcesBlock = (sources: GroundingSource[]): string => {
+  if (sources.length === 0) return '';
+  const passages = sources.filter(isPassage);
+  const articles = sources.filter((s): s is LegalArticle => !isPassage(s));
+  const material = passages.map(p =>
+    `[[${p.id}]] ${p.documentName}${p.page ? `, pág. ${p.page}` : ''}:\n${p.text}`
+  ).join('\n\n');
+  const legal = articles.map(a =>
+    `[[${a.id}]] Artículo ${a.number} ${LAWS[a.law].fullName}${a.title ? ` (${a.title})` : ''}:\n${a.text}`
+  ).join('\n\n');
+  return `${passages.length > 0 ? `
+
+  MATERIAL DE ESTUDIO DEL ALUMNO (fuente principal):
+  ${material}` : ''}${articles.length > 0 ? `
+
+  FUENTES NORMATIVAS (texto literal):
+  ${legal}` : ''}
+
+  REGLAS DE CITA:
+  - Basa tu respuesta en estas fuentes${passages.length > 0 ? ', dando prioridad al material del alumno' : ''}. Cuando uses una, cítala con su marcador exacto, por ejemplo [[${sources[0].id}]].
+  - No inventes números de artículo. Si necesitas un artículo que no está en las fuentes, menciónalo sin marcador.`;
+};
+
+export const buildOutlinePrompt = (topicTitle: string, sources: GroundingSource[], userQuery?: string): string => {
+  return (userQuery 
+    ? `Actúa como un preparador personal de oposiciones experto. El alumno está en la fase de estudio de "${topicTitle}" y tiene esta duda concreta: "${userQuery}". Responde de forma pedagógica, estructurada y enlazando con la normativa.`
+    : `Actúa como un preparador de oposiciones de alto nivel.
+    
+    TU OBJETIVO: Crear un PLAN DE ESTUDIO GUIADO paso a paso para el tema: "${topicTitle}".
+    No quiero un simple resumen. Quiero una GUÍA DE PREPARACIÓN que me lleve de la mano.
+
+    Estructura la respuesta en Markdown estrictamente así:
+
+    # Guía de Estudio: ${topicTitle}
+
+    ## 🎯 Objetivos del Tema
+    (Qué debo saber al terminar)
+
+    ## 🧠 Fase 1: Mapa Mental y Conceptos Clave
+    (Explica los pilares fundamentales del tema antes de entrar en leyes. Usa analogías si es útil).
+
+    ## 📖 Fase 2: Análisis Normativo (Paso a Paso)
+    (Desglosa el contenido. No copies los artículos, explícalos y agrúpalos lógicamente para estudiarlos).
+    * **Bloque A:** ...
+    * **Bloque B:** ...
+
+    ## 💡 Fase 3: Reglas Mnemotécnicas y Trucos
+    (Daur reglas para memorizar listas, plazos o mayorías difíciles de este tema específico).
+
+    ## ⚠️ Puntos Críticos de Examen
+    (Qué suelen preguntar los tribunales sobre este tema. Dónde están las "trampas").`) + buildSourcesBlock(sources);
+};
+
+export const buildDiagramPrompt = (topicTitle: string, sources: GroundingSource[]): string => {
+  return `Actúa como un experto en técnicas de estudio.
+  Crea un MAPA MENTAL JERÁRQUICO para estudiar: "${topicTitle}".
+
+  No escribas código Mermaid: el gráfico se dibuja a partir de la lista de nodos que devuelvas.
+
+  REGLAS OBLIGATORIAS:
+  1. Un único nodo raíz con "level": "main", sin "parent", cuyo "label" es el título del tema.
+  2. Cada uno de los demás nodos lleva en "parent" el "id" de otro nodo de la lista.
+     Usa "level": "sub" para las ramas que cuelgan de la raíz y "detail" para el resto.
+  3. "id": identificadores simples y únicos (n1, n2, n3...).
+  4. "label": MÁXIMO 4 palabras, sin explicaciones.
+  5. Entre 8 y 20 nodos, como mucho 3 niveles por debajo de la raíz.
+  6. "detail": 1-3 frases que expliquen el nodo; pueden citar fuentes con su marcador.
+  7. "edges" (opcional): solo relaciones importantes entre ramas distintas, con una etiqueta de 1-3 palabras.
+
+  Debes devolver un OBJETO JSON:
+  {
+    "nodes": [
+      { "id": "n1", "label": "Título del tema", "level": "main", "detail": "Explicación..." },
+      { "id": "n2", "label": "Conceptos", "level": "sub", "parent": "n1", "detail": "Explicación..." },
+      { "id": "n3", "label": "Detalle", "level": "detail", "parent": "n2", "detail": "Explicación..." }
+    ],
+    "edges": [
+      { "from": "n3", "to": "n5", "label": "controla" }
+    ]
+  }${buildSourcesBlock(sources)}`;
+};
+
+export const buildDiagramExpansionPrompt = (topicTitle: string, branch: string[], existingChildren: string[], sources: GroundingSource[]): string => {
+  const existing = existingChildren.length > 0
+    ? `\n  Ya cuelgan de ella (NO los repitas): ${existingChildren.map(label => `"${label}"`).join(', ')}.`
+    : '';
+  return `Estás ampliando un MAPA MENTAL para estudiar "${topicTitle}".
+  Desarrolla SOLO la rama: ${branch.map(label => `"${label}"`).join(' > ')}.${existing}
+
+  REGLAS:
+  1. Entre 3 y 6 nodos nuevos que desarrollen esa rama; puedes añadir un nivel más por debajo de ellos.
+  2. El nodo que amplías tiene el id "${BRANCH_ROOT_ID}": los nodos que cuelgan directamente de él llevan "parent": "${BRANCH_ROOT_ID}".
+  3. "id": identificadores simples y únicos (n1, n2, n3...).
+  4. "label": MÁXIMO 4 palabras, sin explicaciones.
+  5. "detail": 1-3 frases que expliquen el nodo; pueden citar fuentes con su marcador.
+
+  Devuelve SOLO un JSON válido con la siguiente estructura:
+  [
+    { "id": "n1", "label": "Concepto", "parent": "${BRANCH_ROOT_ID}", "detail": "Explicación..." },
+    { "id": "n2", "label": "Matiz", "parent": "n1", "detail": "Explicación..." }
+  ]${buildSourcesBlock(sources)}`;
+};
+
+export const buildQuizPrompt = (topicTitle: string, count: number, sources: GroundingSource[]): string => {
+  return `Genera un examen tipo test de ${count} preguntas sobre "${topicTitle}" basado estrictamente en el temario oficial de oposiciones (Constitución, Estatuto Andalucía, Régimen Local, etc).
+  Las preguntas deben ser técnicas y rigurosas.
+  Cada pregunta tiene exactamente 4 opciones distintas, una sola correcta, y una explicación no vacía.
+  
+  Devuelve SOLO un JSON válido con la siguiente estructura (Schema):
+  [
+    {
+      "question": "Enunciado de la pregunta",
+      "options": ["Opción A", "Opción B", "Opción C", "Opción D"],
+      "correctAnswerIndex": 0, (índice 0-3)
+      "explanation": "Breve explicación jurídica de por qué es la correcta.",
+      "articleIds": ["CE-1"] (identificadores de las fuentes en que se basa la pregunta)
+    }
+  ]${buildSourcesBlock(sources)}`;
+};
+
+export const buildClozePrompt = (topicTitle: string, count: number, sources: GroundingSource[]): string => {
+  return `Crea ${count} tarjetas de memoria de tipo "completar huecos" para estudiar "${topicTitle}" de cara a unas oposiciones.
+  Cada tarjeta es UNA frase literal o casi literal de la normativa en la que se ocultan los datos que preguntan los tribunales:
+  plazos, mayorías, órganos, números de artículo, porcentajes. Marca cada hueco con dobles llaves, por ejemplo:
+  "El Tribunal Constitucional se compone de {{12}} miembros nombrados por el {{Rey}}."
+  - Entre 1 y 3 huecos por frase; cada hueco de 1 a 4 palabras.
+  - No repitas el mismo dato en varias tarjetas.
+
+  Devuelve SOLO un JSON válido con la siguiente estructura:
+  [
+    {
+      "text": "Frase con {{huecos}}",
+      "explanation": "Contexto breve o regla para recordarlo.",
+      "articleIds": ["CE-159"] (identificadores de las fuentes en que se basa)
+    }
+  ]${buildSourcesBlock(sources)}`;
+};
+
+// The key and explanation are left out on purpose so the model has to solve each question itself
+export const buildVerifierPrompt = (questions: QuizQuestion[], sources: GroundingSource[]): string => {
+  const list = questions.map((q, i) =>
+    `${i + 1}. ${q.question}\n${q.options.map((o, j) => `   ${j}) ${o}`).join('\n')}`
+  ).join('\n\n');
+  return `Eres miembro de un tribunal de oposiciones y debes resolver este test antes de publicarlo.
+  Responde cada pregunta de forma independiente, basándote en la normativa vigente.
+
+  ${list}
+
+  Devuelve SOLO un JSON válido: un array con el índice (0-3) de la opción correcta de cada pregunta, en el mismo orden.
+  Si una pregunta es ambigua o ninguna opción es correcta, usa -1.${buildSourcesBlock(sources)}`;
+};
+
+export const buildChatSystemInstruction = (sources: GroundingSource[]): string =>
+  TUTOR_SYSTEM_INSTRUCTION + buildSourcesBlock(sources);
+
+export const buildChatSummaryPrompt = (previousSummary: string, turns: ChatTurn[]): string => {
+  const transcript = turns.map(t => `${t.role === 'user' ? 'ALUMNO' : 'TUTOR'}: ${t.text}`).join('\n\n');
+  return `Resume la siguiente conversación entre un alumno de oposiciones y su tutor para poder continuarla más tarde.
+  Conserva las dudas planteadas, los artículos citados (con sus marcadores [[...]]) y las conclusiones. Máximo 200 palabras, sin introducción.
+  ${previousSummary ? `\n  RESUMEN ANTERIOR:\n  ${previousSummary}\n` : ''}
+  CONVERSACIÓN:
+  ${transcript}`;
+};
@@ -0,0 +1,197 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { AIProvider, ChatTurn, GroundingSource, InteractiveDiagram } from "../../types";
+import { buildChatSystemInstruction, buildClozePrompt, buildDiagramExpansionPrompt, buildDiagramPrompt, buildOutlinePrompt, buildQuizPrompt, buildVerifierPrompt } from "../prompts";
+import { cleanAndParseJSON, extractAnswerArray, extractClozeArray, extractNodeArray, extractQuizArray } from "../aiUtils";
+
+interface GeminiConfig {
+  apiKey: string;
+  model: string;
+}
+
+export const createGeminiProvider = ({ apiKey, model }: GeminiConfig): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const createChat = (history: ChatTurn[], sources: GroundingSource[]) =>
+    ai.chats.create({
+      model,
+      history: history.map(h => ({
+        role: h.role,
+        parts: [{ text: h.text }]
+      })),
+      config: {
+        systemInstruction: buildChatSystemInstruction(sources)
+      }
+    });
+
+  return {
+    id: 'gemini',
+
+    generateStudyOutline: async (topicTitle, sources, userQuery) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: buildOutlinePrompt(topicTitle, sources, userQuery),
+      });
+      return response.text || '';
+    },
+
+    generateInteractiveDiagram: async (topicTitle, sources) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: buildDiagramPrompt(topicTitle, sources),
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              nodes: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    id: { type: Type.STRING },
+                    label: { type: Type.STRING },
+                    level: { type: Type.STRING, enum: ['main', 'sub', 'detail'] },
+                    detail: { type: Type.STRING },
+                    parent: { type: Type.STRING }
+                  },
+                  required: ['id', 'label', 'level']
+                }
+              },
+              edges: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    from: { type: Type.STRING },
+                    to: { type: Type.STRING },
+                    label: { type: Type.STRING }
+                  },
+                  required: ['from', 'to']
+                }
+              }
+            },
+            required: ['nodes']
+          }
+        }
+      });
+      return cleanAndParseJSON(response.text || "{}") as InteractiveDiagram | null;
+    },
+
+    expandDiagramNode: async (topicTitle, branch, existingChildren, sources) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: buildDiagramExpansionPrompt(topicTitle, branch, existingChildren, sources),
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                id: { type: Type.STRING },
+                label: { type: Type.STRING },
+                parent: { type: Type.STRING },
+                detail: { type: Type.STRING }
+              },
+              required: ['id', 'label', 'parent']
+            }
+          }
+        }
+      });
+      return extractNodeArray(cleanAndParseJSON(response.text || "[]"));
+    },
+
+    generateQuizQuestions: async (topicTitle, count, sources) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: buildQuizPrompt(topicTitle, count, sources),
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                question: { type: Type.STRING },
+                options: { 
+                  type: Type.ARRAY,
+                  items: { type: Type.STRING }
+                },
+                correctAnswerIndex: { type: Type.INTEGER },
+                explanation: { type: Type.STRING },
+                articleIds: {
+                  type: Type.ARRAY,
+                  items: { type: Type.STRING }
+                }
+              }
+            }
+          }
+        }
+      });
+      return extractQuizArray(cleanAndParseJSON(response.text || "[]"));
+    },
+
+    generateClozeCards: async (topicTitle, count, sources) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: buildClozePrompt(topicTitle, count, sources),
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                text: { type: Type.STRING },
+                explanation: { type: Type.STRING },
+                articleIds: {
+                  type: Type.ARRAY,
+                  items: { type: Type.STRING }
+                }
+              }
+            }
+          }
+        }
+      });
+      return extractClozeArray(cleanAndParseJSON(response.text || "[]"));
+    },
+
+    answerQuizQuestions: async (questions, sources) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: buildVerifierPrompt(questions, sources),
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: { type: Type.INTEGER }
+          }
+        }
+      });
+      return extractAnswerArray(cleanAndParseJSON(response.text || "[]"));
+    },
+
+    chatWithTutor: async (message, history, sources) => {
+      const result = await createChat(history, sources).sendMessage({ message });
+      return result.text || '';
+    },
+
+    streamStudyOutline: async function* (topicTitle, sources, userQuery, signal) {
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: buildOutlinePrompt(topicTitle, sources, userQuery),
+        config: { abortSignal: signal }
+      });
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+
+    streamChat: async function* (message, history, sources, signal) {
+      const stream = await createChat(history, sources).sendMessageStream({ message, config: { abortSignal: signal } });
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    }
+  };
+};
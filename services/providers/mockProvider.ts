@@ -0,0 +1,187 @@
+import { AIProvider, ChatTurn, ClozeDraft, GroundingSource, QuizQuestion } from "../../types";
+
+// Deterministic offline provider: same input always yields the same output, no network involved.
+// Useful to develop and demo StudyView, QuizView and ChatAssistant without an API key.
+
+const FIXTURE_QUESTIONS: QuizQuestion[] = [
+  {
+    question: "¿En qué artículo de la Constitución se proclama que España se constituye en un Estado social y democrático de Derecho?",
+    options: ["Artículo 1.1", "Artículo 2", "Artículo 9.3", "Artículo 10.1"],
+    correctAnswerIndex: 0,
+    explanation: "El art. 1.1 CE proclama el Estado social y democrático de Derecho y los valores superiores del ordenamiento."
+  },
+  {
+    question: "¿Cuál es la forma política del Estado español según la Constitución?",
+    options: ["La República parlamentaria", "La Monarquía parlamentaria", "La Monarquía constitucional", "El Estado federal"],
+    correctAnswerIndex: 1,
+    explanation: "Según el art. 1.3 CE, la forma política del Estado español es la Monarquía parlamentaria."
+  },
+  {
+    question: "La mayoría de edad de los españoles se establece en:",
+    options: ["16 años", "17 años", "18 años", "21 años"],
+    correctAnswerIndex: 2,
+    explanation: "El art. 12 CE fija la mayoría de edad en los dieciocho años."
+  },
+  {
+    question: "¿Cuántos Magistrados componen el Tribunal Constitucional?",
+    options: ["9", "10", "12", "15"],
+    correctAnswerIndex: 2,
+    explanation: "El art. 159.1 CE establece que el Tribunal Constitucional se compone de 12 miembros nombrados por el Rey."
+  },
+  {
+    question: "El Congreso de los Diputados se compone de:",
+    options: ["Un mínimo de 250 y un máximo de 350 Diputados", "Un mínimo de 300 y un máximo de 400 Diputados", "350 Diputados exactos por mandato constitucional", "Un mínimo de 200 y un máximo de 300 Diputados"],
+    correctAnswerIndex: 1,
+    explanation: "El art. 68.1 CE dispone un mínimo de 300 y un máximo de 400 Diputados; la LOREG fija 350."
+  },
+  {
+    question: "¿Quién propone al candidato a Presidente del Gobierno?",
+    options: ["El Presidente del Congreso", "El Rey, previa consulta con los representantes de los grupos políticos", "El Consejo de Estado", "El Senado"],
+    correctAnswerIndex: 1,
+    explanation: "Según el art. 99.1 CE, el Rey, previa consulta con los grupos con representación parlamentaria, propone candidato a través del Presidente del Congreso."
+  },
+  {
+    question: "El órgano de gobierno del Poder Judicial es:",
+    options: ["El Tribunal Supremo", "El Ministerio de Justicia", "El Consejo General del Poder Judicial", "El Tribunal Constitucional"],
+    correctAnswerIndex: 2,
+    explanation: "El art. 122.2 CE configura el Consejo General del Poder Judicial como su órgano de gobierno."
+  },
+  {
+    question: "¿Qué artículo de la Constitución garantiza la autonomía de los municipios?",
+    options: ["Artículo 137", "Artículo 140", "Artículo 141", "Artículo 142"],
+    correctAnswerIndex: 1,
+    explanation: "El art. 140 CE garantiza la autonomía de los municipios, que gozarán de personalidad jurídica plena."
+  },
+  {
+    question: "Las Haciendas locales se nutrirán fundamentalmente de:",
+    options: ["Tributos propios y participación en los del Estado y de las CCAA", "Exclusivamente de tasas", "Transferencias de la Unión Europea", "Multas y sanciones"],
+    correctAnswerIndex: 0,
+    explanation: "El art. 142 CE dispone que se nutrirán fundamentalmente de tributos propios y de participación en los del Estado y de las Comunidades Autónomas."
+  },
+  {
+    question: "La Ley 31/1995 regula:",
+    options: ["El Estatuto Básico del Empleado Público", "La Prevención de Riesgos Laborales", "La igualdad efectiva de mujeres y hombres", "Las Bases del Régimen Local"],
+    correctAnswerIndex: 1,
+    explanation: "La Ley 31/1995, de 8 de noviembre, es la Ley de Prevención de Riesgos Laborales."
+  }
+];
+
+// Copies of a fixture would be near-duplicates that the exam builder drops, so a request never
+// gets more questions than there are fixtures
+export const MOCK_QUESTION_LIMIT = FIXTURE_QUESTIONS.length;
+
+const FIXTURE_CLOZES: ClozeDraft[] = [
+  { text: "España se constituye en un Estado {{social y democrático}} de Derecho.", explanation: "Art. 1.1 CE." },
+  { text: "La forma política del Estado español es la {{Monarquía parlamentaria}}.", explanation: "Art. 1.3 CE." },
+  { text: "Los españoles son mayores de edad a los {{dieciocho}} años.", explanation: "Art. 12 CE." },
+  { text: "El Tribunal Constitucional se compone de {{12}} miembros nombrados por el {{Rey}}.", explanation: "Art. 159.1 CE." },
+  { text: "El Congreso se compone de un mínimo de {{300}} y un máximo de {{400}} Diputados.", explanation: "Art. 68.1 CE; la LOREG fija 350." },
+  { text: "La Constitución garantiza la {{autonomía}} de los municipios, que gozan de personalidad jurídica plena.", explanation: "Art. 140 CE." }
+];
+
+const STREAM_DELAY_MS = 40;
+
+// Small string hash so each topic gets a stable but different slice of fixtures
+const hashString = (text: string) => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+};
+
+// Cites the first retrieved sources so the citation UI can be exercised offline
+const citeSources = (sources: GroundingSource[], max: number = 2) =>
+  sources.slice(0, max).map(a => `[[${a.id}]]`).join(' ');
+
+const mockOutline = (topicTitle: string, sources: GroundingSource[], userQuery?: string) => {
+  if (userQuery) {
+    return `**Respuesta offline** sobre "${topicTitle}".\n\nTu duda: _${userQuery}_\n\nEste es el proveedor de pruebas: configura un proveedor real en Ajustes para obtener respuestas completas. ${citeSources(sources)}`;
+  }
+  return `# Guía de Estudio: ${topicTitle}
+
+## 🎯 Objetivos del Tema
+* Conocer la estructura del tema y su base normativa.
+* Identificar los artículos que más se preguntan.
+
+## 🧠 Fase 1: Mapa Mental y Conceptos Clave
+Contenido de ejemplo generado sin conexión para "${topicTitle}". ${citeSources(sources)}
+
+## 📖 Fase 2: Análisis Normativo (Paso a Paso)
+* **Bloque A:** Principios generales.
+* **Bloque B:** Órganos y competencias.
+
+## 💡 Fase 3: Reglas Mnemotécnicas y Trucos
+* Agrupa los plazos por números pares e impares.
+
+## ⚠️ Puntos Críticos de Examen
+* Las mayorías cualificadas y los plazos suelen ser las "trampas" habituales.`;
+};
+
+const mockChatReply = (message: string, history: ChatTurn[], sources: GroundingSource[]) =>
+  `**[Modo sin conexión]** He recibido tu mensaje nº ${history.filter(h => h.role === 'user').length + 1}:\n\n> ${message}\n\nEl proveedor de pruebas no consulta ningún modelo. Cambia de proveedor en Ajustes para recibir explicaciones reales.\n\nFuentes relacionadas: ${citeSources(sources, 3) || 'ninguna'}`;
+
+// Emits the canned text a few words at a time so streaming and the stop button can be tried offline
+const streamWords = async function* (text: string, signal: AbortSignal): AsyncGenerator<string> {
+  const pieces = text.match(/\S+\s*/g) ?? [];
+  for (let i = 0; i < pieces.length; i += 3) {
+    if (signal.aborted) return;
+    await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+    yield pieces.slice(i, i + 3).join('');
+  }
+};
+
+export const createMockProvider = (): AIProvider => ({
+  id: 'mock',
+
+  generateStudyOutline: async (topicTitle, sources, userQuery) => mockOutline(topicTitle, sources, userQuery),
+
+  generateInteractiveDiagram: async (topicTitle, sources) => ({
+    nodes: [
+      { id: 'n1', label: topicTitle, level: 'main', detail: `Tema de ejemplo: ${topicTitle}. ${citeSources(sources, 1)}` },
+      { id: 'n2', label: 'Objetivos del Tema', level: 'sub', parent: 'n1', detail: 'Qué debes saber al terminar el tema.' },
+      { id: 'n3', label: 'Conceptos Clave', level: 'sub', parent: 'n1', detail: 'Pilares fundamentales antes de entrar en la normativa.' },
+      { id: 'n4', label: 'Puntos Críticos', level: 'sub', parent: 'n1', detail: 'Lo que suelen preguntar los tribunales.' },
+      { id: 'n5', label: 'Principios generales', level: 'detail', parent: 'n3', detail: 'Valores y principios que inspiran la regulación.' },
+      { id: 'n6', label: 'Órganos y competencias', level: 'detail', parent: 'n3', detail: 'Quién hace qué y con qué mayorías.' }
+    ],
+    edges: [{ from: 'n6', to: 'n4', label: 'mayorías' }]
+  }),
+
+  expandDiagramNode: async (topicTitle, branch, _existingChildren, sources) => {
+    const focus = branch[branch.length - 1] ?? topicTitle;
+    return [
+      { id: 'n1', label: 'Regulación', level: 'detail', parent: 'rama', detail: `Normas que desarrollan "${focus}". ${citeSources(sources, 1)}` },
+      { id: 'n2', label: 'Requisitos', level: 'detail', parent: 'rama', detail: 'Condiciones que deben cumplirse.' },
+      { id: 'n3', label: 'Plazos', level: 'detail', parent: 'n2', detail: 'Los plazos que más preguntan los tribunales.' },
+      { id: 'n4', label: 'Excepciones', level: 'detail', parent: 'rama', detail: 'Supuestos en los que no se aplica la regla general.' }
+    ];
+  },
+
+  generateQuizQuestions: async (topicTitle, count, sources) => {
+    const offset = hashString(topicTitle) % FIXTURE_QUESTIONS.length;
+    const citations = sources.slice(0, 1).map(a => a.id);
+    return Array.from({ length: Math.min(count, MOCK_QUESTION_LIMIT) }, (_, i) => ({
+      ...FIXTURE_QUESTIONS[(offset + i) % FIXTURE_QUESTIONS.length],
+      citations
+    }));
+  },
+
+  generateClozeCards: async (topicTitle, count, sources) => {
+    const offset = hashString(topicTitle) % FIXTURE_CLOZES.length;
+    const articleIds = sources.slice(0, 1).map(a => a.id);
+    return Array.from({ length: Math.min(count, FIXTURE_CLOZES.length) }, (_, i) => ({
+      ...FIXTURE_CLOZES[(offset + i) % FIXTURE_CLOZES.length],
+      articleIds
+    }));
+  },
+
+  // Always agrees with the key so the verifier pass keeps every fixture
+  answerQuizQuestions: async (questions) => questions.map(q => q.correctAnswerIndex),
+
+  chatWithTutor: async (message, history, sources) => mockChatReply(message, history, sources),
+
+  streamStudyOutline: (topicTitle, sources, userQuery, signal) => streamWords(mockOutline(topicTitle, sources, userQuery), signal),
+
+  streamChat: (message, history, sources, signal) => streamWords(mockChatReply(message, history, sources), signal)
+});
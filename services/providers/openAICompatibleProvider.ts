@@ -0,0 +1,129 @@
+import { AIProvider, ChatTurn, GroundingSource, InteractiveDiagram } from "../../types";
+import { buildChatSystemInstruction, buildClozePrompt, buildDiagramExpansionPrompt, buildDiagramPrompt, buildOutlinePrompt, buildQuizPrompt, buildVerifierPrompt } from "../prompts";
+import { cleanAndParseJSON, extractAnswerArray, extractClozeArray, extractNodeArray, extractQuizArray } from "../aiUtils";
+
+interface OpenAICompatibleConfig {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Talks to any server exposing POST /chat/completions (OpenAI, Ollama, llama.cpp, LM Studio...)
+export const createOpenAICompatibleProvider = ({ baseUrl, model, apiKey }: OpenAICompatibleConfig): AIProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+  const complete = async (messages: OpenAIMessage[], json = false): Promise<string> => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        messages,
+        ...(json ? { response_format: { type: 'json_object' } } : {})
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible server responded ${response.status}: ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    return data?.choices?.[0]?.message?.content || '';
+  };
+
+  // Server-sent events: one `data: {...}` line per delta, terminated by `data: [DONE]`
+  const completeStream = async function* (messages: OpenAIMessage[], signal: AbortSignal): AsyncGenerator<string> {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model, messages, stream: true }),
+      signal
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`OpenAI-compatible server responded ${response.status}: ${await response.text()}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !payload) continue;
+        if (payload === '[DONE]') return;
+        try {
+          const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        } catch (e) {
+          console.warn("Skipping malformed stream chunk", payload);
+        }
+      }
+    }
+  };
+
+  const chatMessages = (message: string, history: ChatTurn[], sources: GroundingSource[]): OpenAIMessage[] => [
+    { role: 'system', content: buildChatSystemInstruction(sources) },
+    ...history.map(h => ({ role: h.role === 'model' ? 'assistant' as const : 'user' as const, content: h.text })),
+    { role: 'user', content: message }
+  ];
+
+  return {
+    id: 'openai',
+
+    generateStudyOutline: (topicTitle, sources, userQuery) =>
+      complete([{ role: 'user', content: buildOutlinePrompt(topicTitle, sources, userQuery) }]),
+
+    generateInteractiveDiagram: async (topicTitle, sources) => {
+      const text = await complete([{ role: 'user', content: buildDiagramPrompt(topicTitle, sources) }], true);
+      return cleanAndParseJSON(text || "{}") as InteractiveDiagram | null;
+    },
+
+    expandDiagramNode: async (topicTitle, branch, existingChildren, sources) => {
+      const prompt = `${buildDiagramExpansionPrompt(topicTitle, branch, existingChildren, sources)}\n\nEnvuelve el array en un objeto: { "nodes": [ ... ] }`;
+      const text = await complete([{ role: 'user', content: prompt }], true);
+      return extractNodeArray(cleanAndParseJSON(text || "[]"));
+    },
+
+    generateQuizQuestions: async (topicTitle, count, sources) => {
+      // JSON mode only guarantees an object, so ask for the array under a "questions" key
+      const prompt = `${buildQuizPrompt(topicTitle, count, sources)}\n\nEnvuelve el array en un objeto: { "questions": [ ... ] }`;
+      const text = await complete([{ role: 'user', content: prompt }], true);
+      return extractQuizArray(cleanAndParseJSON(text || "[]"));
+    },
+
+    generateClozeCards: async (topicTitle, count, sources) => {
+      const prompt = `${buildClozePrompt(topicTitle, count, sources)}\n\nEnvuelve el array en un objeto: { "cards": [ ... ] }`;
+      const text = await complete([{ role: 'user', content: prompt }], true);
+      return extractClozeArray(cleanAndParseJSON(text || "[]"));
+    },
+
+    answerQuizQuestions: async (questions, sources) => {
+      const prompt = `${buildVerifierPrompt(questions, sources)}\n\nEnvuelve el array en un objeto: { "answers": [ ... ] }`;
+      const text = await complete([{ role: 'user', content: prompt }], true);
+      return extractAnswerArray(cleanAndParseJSON(text || "[]"));
+    },
+
+    chatWithTutor: (message, history, sources) =>
+      complete(chatMessages(message, history, sources)),
+
+    streamStudyOutline: (topicTitle, sources, userQuery, signal) =>
+      completeStream([{ role: 'user', content: buildOutlinePrompt(topicTitle, sources, userQuery) }], signal),
+
+    streamChat: (message, history, sources, signal) =>
+      completeStream(chatMessages(message, history, sources), signal)
+  };
+};
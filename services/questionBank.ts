@@ -0,0 +1,116 @@
+import { BankedQuestion, QuizQuestion } from "../types";
+import { getQuestionKey } from "./srs";
+import { tokenize } from "./retrieval";
+import { readStored, writeStored } from "./storage";
+
+// Local store of every generated question, grouped by tema, so tests can be assembled offline
+
+const STORAGE_KEY = 'question_bank';
+// Token overlap above which two questions are treated as the same one reworded
+const DUPLICATE_THRESHOLD = 0.8;
+// Rewordings with the same correct answer are caught with a lower overlap
+const SAME_ANSWER_THRESHOLD = 0.6;
+
+type QuestionBank = Record<string, BankedQuestion[]>;
+
+const loadBank = (): QuestionBank => readStored(STORAGE_KEY, {});
+
+const saveBank = (bank: QuestionBank) => {
+  writeStored(STORAGE_KEY, bank);
+};
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  a.forEach(token => { if (b.has(token)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+const correctAnswerText = (q: QuizQuestion) => tokenize(q.options[q.correctAnswerIndex] ?? '').join(' ');
+
+export const isNearDuplicate = (a: QuizQuestion, b: QuizQuestion): boolean => {
+  const similarity = jaccard(new Set(tokenize(a.question)), new Set(tokenize(b.question)));
+  if (similarity >= DUPLICATE_THRESHOLD) return true;
+  return similarity >= SAME_ANSWER_THRESHOLD && correctAnswerText(a) === correctAnswerText(b);
+};
+
+export const getTopicBank = (topicId: string): BankedQuestion[] => loadBank()[topicId] ?? [];
+
+export const getBankSizes = (): Record<string, number> =>
+  Object.fromEntries(Object.entries(loadBank()).map(([topicId, entries]) => [topicId, entries.length]));
+
+// Stores the questions that are not near-duplicates of the bank (or of each other) and returns them
+export const addToBank = (topicId: string, questions: QuizQuestion[]): QuizQuestion[] => {
+  const bank = loadBank();
+  const entries = bank[topicId] ?? [];
+  const added: QuizQuestion[] = [];
+  const now = Date.now();
+
+  questions.forEach(question => {
+    if (entries.some(entry => isNearDuplicate(entry.question, question))) return;
+    const stored = { ...question, topicId };
+    entries.push({
+      id: getQuestionKey(stored),
+      topicId,
+      question: stored,
+      createdAt: now,
+      timesSeen: 0,
+      timesCorrect: 0,
+      lastSeen: null
+    });
+    added.push(stored);
+  });
+
+  bank[topicId] = entries;
+  saveBank(bank);
+  return added;
+};
+
+const accuracy = (entry: BankedQuestion) => entry.timesSeen === 0 ? 0 : entry.timesCorrect / entry.timesSeen;
+
+// Unseen questions first, then the ones answered worst, least recently seen breaking ties
+export const selectFromBank = (topicId: string, count: number): QuizQuestion[] =>
+  [...getTopicBank(topicId)]
+    .sort((a, b) => {
+      if ((a.timesSeen === 0) !== (b.timesSeen === 0)) return a.timesSeen === 0 ? -1 : 1;
+      if (accuracy(a) !== accuracy(b)) return accuracy(a) - accuracy(b);
+      return (a.lastSeen ?? 0) - (b.lastSeen ?? 0);
+    })
+    .slice(0, count)
+    .map(entry => ({ ...entry.question, topicId }));
+
+export const recordBankAnswers = (questions: QuizQuestion[], userAnswers: number[]) => {
+  const bank = loadBank();
+  const now = Date.now();
+
+  questions.forEach((q, idx) => {
+    if (!q.topicId) return;
+    const key = getQuestionKey(q);
+    const entry = bank[q.topicId]?.find(e => e.id === key);
+    if (!entry) return;
+    entry.timesSeen += 1;
+    if (userAnswers[idx] === q.correctAnswerIndex) entry.timesCorrect += 1;
+    entry.lastSeen = now;
+  });
+
+  saveBank(bank);
+};
+
+export const moveTopicBank = (fromTopicId: string, toTopicId: string) => {
+  if (fromTopicId === toTopicId) return;
+  const bank = loadBank();
+  const moved = (bank[fromTopicId] ?? []).map(entry => ({
+    ...entry,
+    topicId: toTopicId,
+    question: { ...entry.question, topicId: toTopicId }
+  }));
+  delete bank[fromTopicId];
+  bank[toTopicId] = [...(bank[toTopicId] ?? []), ...moved];
+  saveBank(bank);
+};
+
+export const deleteTopicBank = (topicId: string) => {
+  const bank = loadBank();
+  delete bank[topicId];
+  saveBank(bank);
+};
@@ -0,0 +1,602 @@
+import { ConstitutionTopic, QuizQuestion } from "../types";
+import { addToBank, getTopicBank } from "./questionBank";
+import { normalizeTitle } from "./syllabus";
+import { tagQuestionArticles } from "./articleRefs";
+import { escapeXml } from "./exportUtils";
+
+// Question interchange with Moodle and spreadsheets: GIFT, Aiken, Moodle XML and CSV.
+// Only single-answer multiple choice (and true/false, as two options) maps to QuizQuestion;
+// everything else is rejected with the line it starts on so the file can be fixed and re-imported.
+
+export type QuestionFormat = 'gift' | 'aiken' | 'moodlexml' | 'csv';
+
+export const QUESTION_FORMATS: { id: QuestionFormat; label: string; extension: string; mime: string }[] = [
+  { id: 'gift', label: 'Moodle GIFT', extension: 'gift', mime: 'text/plain' },
+  { id: 'aiken', label: 'Aiken', extension: 'txt', mime: 'text/plain' },
+  { id: 'moodlexml', label: 'Moodle XML', extension: 'xml', mime: 'application/xml' },
+  { id: 'csv', label: 'CSV (Excel)', extension: 'csv', mime: 'text/csv' }
+];
+
+export const ACCEPTED_QUESTION_FILES = '.gift,.txt,.xml,.csv';
+
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 6;
+const TRUE_FALSE_OPTIONS = ['Verdadero', 'Falso'];
+
+export interface RejectedQuestion {
+  line: number;
+  excerpt: string;
+  reason: string;
+}
+
+export interface QuestionImportReport {
+  questions: QuizQuestion[];
+  rejected: RejectedQuestion[];
+}
+
+interface RawQuestion {
+  line: number;
+  text: string;
+  options: string[];
+  correct: number[]; // Indexes of the options marked as right
+  explanation: string;
+  tags: string[];
+}
+
+const excerptOf = (text: string) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > 80 ? `${flat.slice(0, 77)}...` : flat;
+};
+
+const reject = (report: QuestionImportReport, line: number, text: string, reason: string) => {
+  report.rejected.push({ line, excerpt: excerptOf(text), reason });
+};
+
+// Validates a parsed question and adds it to the report, or records why it was rejected
+const collect = (report: QuestionImportReport, raw: RawQuestion) => {
+  const question = raw.text.trim();
+  const options = raw.options.map(o => o.trim());
+  const fail = (reason: string) => reject(report, raw.line, question || options.join(' / '), reason);
+
+  if (!question) return fail('Falta el enunciado.');
+  if (options.length < MIN_OPTIONS || options.length > MAX_OPTIONS) {
+    return fail(`Tiene ${options.length} opciones; se admiten entre ${MIN_OPTIONS} y ${MAX_OPTIONS}.`);
+  }
+  if (options.some(o => !o)) return fail('Alguna opción está vacía.');
+  if (new Set(options.map(o => o.toLowerCase())).size !== options.length) return fail('Tiene opciones repetidas.');
+  if (raw.correct.length === 0) return fail('No indica la respuesta correcta.');
+  if (raw.correct.length > 1) return fail('Marca varias respuestas correctas; solo se admite una.');
+
+  const tags = Array.from(new Set(raw.tags.map(t => t.trim()).filter(Boolean)));
+  report.questions.push({
+    question,
+    options,
+    correctAnswerIndex: raw.correct[0],
+    explanation: raw.explanation.trim(),
+    ...(tags.length > 0 ? { tags } : {})
+  });
+};
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+
+const htmlToText = (html: string) =>
+  decodeEntities(html.replace(/<br\s*\/?>/gi, '\n').replace(/<\/(p|div|li)>/gi, '\n').replace(/<[^>]+>/g, ''))
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const escapeHtml = (text: string) => escapeXml(text).replace(/\n/g, '<br>');
+
+// Last segment of a Moodle category path such as "$course$/top/Tema 3"
+const categoryTag = (path: string) => path.split('/').map(s => s.trim()).filter(Boolean).pop()?.replace(/^\$.*\$$/, '') ?? '';
+
+// ---- GIFT ----
+
+const GIFT_ESCAPABLE = ['~', '=', '#', '{', '}', ':', '\\'];
+// Escaped characters are swapped for private-use placeholders while the syntax is parsed
+const placeholder = (i: number) => String.fromCharCode(0xe000 + i);
+
+const protectGift = (text: string) =>
+  text.replace(/\\([~=#{}:\\n])/g, (_, ch: string) => ch === 'n' ? '\n' : placeholder(GIFT_ESCAPABLE.indexOf(ch)));
+
+const restoreGift = (text: string) =>
+  GIFT_ESCAPABLE.reduce((result, ch, i) => result.split(placeholder(i)).join(ch), text);
+
+// Strips the optional [html]/[markdown]/[plain]/[moodle] marker and decodes the text
+const giftText = (text: string) => {
+  const format = text.trim().match(/^\[(html|markdown|plain|moodle)\]/i);
+  const body = format ? text.trim().slice(format[0].length) : text;
+  const restored = restoreGift(body).trim();
+  return format?.[1].toLowerCase() === 'html' ? htmlToText(restored) : restored;
+};
+
+const parseGiftQuestion = (block: string, line: number, tags: string[]): RawQuestion | string => {
+  const body = protectGift(block).replace(/^\s*::[^]*?::/, '');
+  const open = body.indexOf('{');
+  const close = body.lastIndexOf('}');
+  if (open === -1 || close < open) return 'No tiene bloque de respuestas {...}; las descripciones no se importan.';
+
+  const head = body.slice(0, open).trim();
+  const tail = body.slice(close + 1).trim();
+  let answers = body.slice(open + 1, close).trim();
+  // Text after the answers makes it a fill-in-the-gap question
+  const text = tail ? `${giftText(head)} _____ ${giftText(tail)}` : giftText(head);
+
+  let explanation = '';
+  const general = answers.indexOf('####');
+  if (general !== -1) {
+    explanation = giftText(answers.slice(general + 4));
+    answers = answers.slice(0, general).trim();
+  }
+
+  if (answers.startsWith('#')) return 'Pregunta numérica: no tiene opciones.';
+  const trueFalse = answers.match(/^(T|F|TRUE|FALSE)\b/i);
+  if (trueFalse) {
+    const isTrue = trueFalse[1].toUpperCase().startsWith('T');
+    return { line, text, options: TRUE_FALSE_OPTIONS, correct: [isTrue ? 0 : 1], explanation, tags };
+  }
+  if (answers.includes('->')) return 'Pregunta de emparejamiento: no se admite.';
+
+  const parts = answers.split(/(?=[=~])/).map(p => p.trim()).filter(p => p.startsWith('=') || p.startsWith('~'));
+  if (parts.length === 0) return 'El bloque de respuestas está vacío.';
+  if (parts.every(p => p.startsWith('='))) return 'Pregunta de respuesta corta: no tiene opciones.';
+
+  const options: string[] = [];
+  const correct: number[] = [];
+  const feedback: string[] = [];
+  parts.forEach((part, i) => {
+    const weight = part.slice(1).match(/^%(-?\d+(?:\.\d+)?)%/);
+    const rest = weight ? part.slice(1 + weight[0].length) : part.slice(1);
+    const [answer, answerFeedback = ''] = rest.split('#');
+    options.push(giftText(answer));
+    feedback.push(giftText(answerFeedback));
+    if (part.startsWith('=') || (weight && Number(weight[1]) > 0)) correct.push(i);
+  });
+
+  return { line, text, options, correct, explanation: explanation || (correct.length === 1 ? feedback[correct[0]] : ''), tags };
+};
+
+const parseGift = (text: string): QuestionImportReport => {
+  const report: QuestionImportReport = { questions: [], rejected: [] };
+  const lines = text.split(/\r?\n/);
+  let category = '';
+  let commentTags: string[] = [];
+  let block: string[] = [];
+  let blockLine = 0;
+
+  const flushBlock = () => {
+    if (block.length === 0) return;
+    const source = block.join('\n');
+    const parsed = parseGiftQuestion(source, blockLine, [...commentTags, category]);
+    if (typeof parsed === 'string') reject(report, blockLine, restoreGift(protectGift(source)), parsed);
+    else collect(report, parsed);
+    block = [];
+    commentTags = [];
+  };
+
+  lines.forEach((line, i) => {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      flushBlock();
+      return;
+    }
+    if (trimmed.startsWith('//')) {
+      // Moodle writes tags as "// [tag:name]" comments before the question
+      Array.from(trimmed.matchAll(/\[tag:([^\]]+)\]/g)).forEach(m => commentTags.push(m[1]));
+      return;
+    }
+    if (block.length === 0 && /^\$CATEGORY:/i.test(trimmed)) {
+      category = categoryTag(trimmed.replace(/^\$CATEGORY:/i, ''));
+      return;
+    }
+    if (block.length === 0) blockLine = i + 1;
+    block.push(line);
+  });
+  flushBlock();
+  return report;
+};
+
+const escapeGift = (text: string) => text.replace(/[~=#{}:\\]/g, ch => `\\${ch}`).replace(/\r?\n/g, '\\n');
+
+const writeGift = (groups: ExportGroup[]): string =>
+  groups.map(({ topic, questions }) => [
+    `$CATEGORY: $course$/top/${topic.title.replace(/\//g, '-')}`,
+    '',
+    ...questions.map((q, i) => [
+      ...(q.tags ?? []).map(tag => `// [tag:${tag.replace(/\]/g, ')')}]`),
+      `::${escapeGift(`${topic.title} ${i + 1}`)}::${escapeGift(q.question)} {`,
+      ...q.options.map((option, idx) => `\t${idx === q.correctAnswerIndex ? '=' : '~'}${escapeGift(option)}`),
+      ...(q.explanation ? [`\t####${escapeGift(q.explanation)}`] : []),
+      '}',
+      ''
+    ].join('\n'))
+  ].join('\n')).join('\n');
+
+// ---- Aiken ----
+
+const AIKEN_OPTION = /^([A-Z])\s*[.)]\s+(.*)$/;
+const AIKEN_ANSWER = /^ANSWER\s*:\s*([A-Z])\s*$/i;
+
+const parseAiken = (text: string): QuestionImportReport => {
+  const report: QuestionImportReport = { questions: [], rejected: [] };
+  let current: { line: number; text: string; letters: string[]; options: string[]; error: string | null } | null = null;
+
+  const abandon = () => {
+    if (current) reject(report, current.line, current.text, current.error ?? 'Falta la línea "ANSWER: <letra>".');
+    current = null;
+  };
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      // A blank line inside a question means it never got its ANSWER line
+      if (current && current.options.length > 0) abandon();
+      return;
+    }
+    if (!current) {
+      current = { line: i + 1, text: trimmed, letters: [], options: [], error: null };
+      return;
+    }
+    const answer = trimmed.match(AIKEN_ANSWER);
+    if (answer) {
+      const index = current.letters.indexOf(answer[1].toUpperCase());
+      if (current.error) abandon();
+      else if (index === -1) {
+        current.error = `La respuesta "${answer[1].toUpperCase()}" no corresponde a ninguna opción.`;
+        abandon();
+      } else {
+        collect(report, { line: current.line, text: current.text, options: current.options, correct: [index], explanation: '', tags: [] });
+        current = null;
+      }
+      return;
+    }
+    const option = trimmed.match(AIKEN_OPTION);
+    if (option) {
+      current.letters.push(option[1]);
+      current.options.push(option[2]);
+    } else if (current.options.length === 0) {
+      current.text += `\n${trimmed}`;
+    } else {
+      current.error = current.error ?? `Línea ${i + 1} no reconocida: se esperaba una opción "B. ..." o "ANSWER: B".`;
+    }
+  });
+  abandon();
+  return report;
+};
+
+// Aiken has no room for explanations or tags
+const writeAiken = (groups: ExportGroup[]): string =>
+  groups.flatMap(({ questions }) => questions).map(q => [
+    q.question.replace(/\s*\n\s*/g, ' '),
+    ...q.options.map((option, idx) => `${String.fromCharCode(65 + idx)}. ${option.replace(/\s*\n\s*/g, ' ')}`),
+    `ANSWER: ${String.fromCharCode(65 + q.correctAnswerIndex)}`,
+    ''
+  ].join('\n')).join('\n');
+
+// ---- Moodle XML ----
+
+const childElement = (node: Element, name: string) => Array.from(node.children).find(c => c.tagName === name);
+
+const childrenNamed = (node: Element, name: string) => Array.from(node.children).filter(c => c.tagName === name);
+
+// Text of a <questiontext>, <feedback>... element, converted from HTML when needed
+const xmlText = (node: Element | undefined) => {
+  if (!node) return '';
+  const raw = childElement(node, 'text')?.textContent ?? '';
+  const format = node.getAttribute('format') ?? 'html';
+  return format === 'html' || format === 'moodle_auto_format' ? htmlToText(raw) : raw.trim();
+};
+
+const parseMoodleXml = (text: string): QuestionImportReport => {
+  const report: QuestionImportReport = { questions: [], rejected: [] };
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.tagName !== 'quiz') {
+    throw new Error('El archivo no es un XML de preguntas de Moodle válido.');
+  }
+
+  // DOMParser keeps no positions, so each <question> is matched to where its tag starts in the text
+  const lineStarts = Array.from(text.matchAll(/<question[\s>]/g)).map(m => text.slice(0, m.index).split('\n').length);
+  let category = '';
+
+  childrenNamed(doc.documentElement, 'question').forEach((node, i) => {
+    const type = node.getAttribute('type') ?? '';
+    const line = lineStarts[i] ?? 0;
+    if (type === 'category') {
+      category = categoryTag(childElement(childElement(node, 'category') ?? node, 'text')?.textContent ?? '');
+      return;
+    }
+
+    const questionText = xmlText(childElement(node, 'questiontext'));
+    const tags = [
+      ...Array.from(childElement(node, 'tags')?.children ?? []).map(tag => childElement(tag, 'text')?.textContent ?? ''),
+      category
+    ];
+    if (type !== 'multichoice' && type !== 'truefalse') {
+      reject(report, line, questionText, `Tipo de pregunta "${type}" no admitido.`);
+      return;
+    }
+
+    const answers = childrenNamed(node, 'answer').map(answer => ({
+      text: xmlText(answer),
+      fraction: Number(answer.getAttribute('fraction') ?? 0),
+      feedback: xmlText(childElement(answer, 'feedback'))
+    }));
+    const options = type === 'truefalse'
+      ? answers.map(a => /^(true|verdadero)$/i.test(a.text) ? TRUE_FALSE_OPTIONS[0] : TRUE_FALSE_OPTIONS[1])
+      : answers.map(a => a.text);
+    const correct = answers.map((a, idx) => a.fraction > 0 ? idx : -1).filter(idx => idx !== -1);
+    const explanation = xmlText(childElement(node, 'generalfeedback')) || (correct.length === 1 ? answers[correct[0]].feedback : '');
+
+    collect(report, { line, text: questionText, options, correct, explanation, tags });
+  });
+  return report;
+};
+
+const cdata = (text: string) => `<![CDATA[${escapeHtml(text).replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+const writeMoodleXml = (groups: ExportGroup[]): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<quiz>',
+  ...groups.flatMap(({ topic, questions }) => [
+    `  <question type="category">`,
+    `    <category><text>${cdata(`$course$/top/${topic.title.replace(/\//g, '-')}`)}</text></category>`,
+    `  </question>`,
+    ...questions.map((q, i) => [
+      `  <question type="multichoice">`,
+      `    <name><text>${cdata(`${topic.title} ${i + 1}`)}</text></name>`,
+      `    <questiontext format="html"><text>${cdata(q.question)}</text></questiontext>`,
+      `    <generalfeedback format="html"><text>${cdata(q.explanation)}</text></generalfeedback>`,
+      `    <defaultgrade>1</defaultgrade>`,
+      `    <single>true</single>`,
+      `    <shuffleanswers>true</shuffleanswers>`,
+      `    <answernumbering>abc</answernumbering>`,
+      ...q.options.map((option, idx) =>
+        `    <answer fraction="${idx === q.correctAnswerIndex ? 100 : 0}" format="html"><text>${cdata(option)}</text></answer>`),
+      ...(q.tags && q.tags.length > 0
+        ? [`    <tags>${q.tags.map(tag => `<tag><text>${cdata(tag)}</text></tag>`).join('')}</tags>`]
+        : []),
+      `  </question>`
+    ].join('\n'))
+  ]),
+  '</quiz>',
+  ''
+].join('\n');
+
+// ---- CSV ----
+
+const CSV_DELIMITERS = [';', ',', '\t'];
+
+// Picks the delimiter that appears most often outside quotes in the header row
+const detectDelimiter = (text: string) => {
+  const header = text.split(/\r?\n/)[0].replace(/"[^"]*"/g, '');
+  return CSV_DELIMITERS.reduce((best, d) => header.split(d).length > header.split(best).length ? d : best, ',');
+};
+
+// RFC 4180 rows, with the line each row starts on; quoted cells may span lines
+const parseCsvRows = (text: string, delimiter: string): { line: number; cells: string[] }[] => {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some(c => c.trim())) rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else {
+        if (ch === '\n') line++;
+        cell += ch;
+      }
+    } else if (ch === '"' && !cell.trim()) {
+      quoted = true;
+      cell = '';
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += ch;
+    }
+  }
+  endRow();
+  return rows;
+};
+
+const CSV_COLUMNS = {
+  question: ['pregunta', 'enunciado', 'question'],
+  answer: ['correcta', 'respuesta correcta', 'respuesta', 'solucion', 'answer', 'correct'],
+  explanation: ['explicacion', 'justificacion', 'feedback', 'explanation'],
+  topic: ['tema', 'topic', 'categoria', 'category'],
+  tags: ['etiquetas', 'tags']
+};
+
+// "opcion a", "a", "opcion 1", "option b"...
+const optionColumnIndex = (header: string): number => {
+  const match = header.match(/^(?:(?:opcion|option|alternativa)\s*)?([a-f]|[1-6])$/);
+  if (!match) return -1;
+  return /\d/.test(match[1]) ? Number(match[1]) - 1 : match[1].charCodeAt(0) - 97;
+};
+
+interface CsvOption {
+  index: number; // From the column name: opcion_a is 0, opcion_b is 1...
+  text: string;
+}
+
+// A letter, a 1-based number or the exact text of the option, looked up among all the option
+// columns (blank cells included) so a letter still names the column it was written for
+const parseCsvAnswer = (value: string, options: CsvOption[]): number => {
+  const trimmed = value.trim();
+  if (!trimmed) return -1;
+  if (/^[a-f]$/i.test(trimmed)) return options.findIndex(o => o.index === trimmed.toLowerCase().charCodeAt(0) - 97);
+  if (/^[1-6]$/.test(trimmed)) return options.findIndex(o => o.index === Number(trimmed) - 1);
+  return options.findIndex(o => o.text && normalizeTitle(o.text) === normalizeTitle(trimmed));
+};
+
+const parseCsv = (text: string): QuestionImportReport => {
+  const report: QuestionImportReport = { questions: [], rejected: [] };
+  const [header, ...rows] = parseCsvRows(text.charCodeAt(0) === 0xfeff ? text.slice(1) : text, detectDelimiter(text));
+  if (!header) throw new Error('El CSV está vacío.');
+
+  const names = header.cells.map(normalizeTitle);
+  const find = (aliases: string[]) => names.findIndex(n => aliases.includes(n));
+  const columns = {
+    question: find(CSV_COLUMNS.question),
+    answer: find(CSV_COLUMNS.answer),
+    explanation: find(CSV_COLUMNS.explanation),
+    topic: find(CSV_COLUMNS.topic),
+    tags: find(CSV_COLUMNS.tags)
+  };
+  const optionColumns = names
+    .map((name, column) => ({ column, index: optionColumnIndex(name) }))
+    .filter(o => o.index !== -1)
+    .sort((a, b) => a.index - b.index);
+  if (columns.question === -1 || columns.answer === -1 || optionColumns.length < MIN_OPTIONS) {
+    throw new Error('La primera fila del CSV debe tener las columnas "pregunta", "opcion_a", "opcion_b"... y "correcta".');
+  }
+
+  rows.forEach(({ line, cells }) => {
+    const cell = (column: number) => column === -1 ? '' : (cells[column] ?? '').trim();
+    const allOptions = optionColumns.map(o => ({ index: o.index, text: cell(o.column) }));
+    const answer = allOptions[parseCsvAnswer(cell(columns.answer), allOptions)];
+    if (answer && !answer.text) {
+      reject(report, line, cell(columns.question), `La respuesta correcta (${cell(columns.answer)}) es una opción vacía.`);
+      return;
+    }
+    const options = allOptions.filter(o => o.text);
+    collect(report, {
+      line,
+      text: cell(columns.question),
+      options: options.map(o => o.text),
+      correct: answer ? [options.indexOf(answer)] : [],
+      explanation: cell(columns.explanation),
+      tags: [cell(columns.topic), ...cell(columns.tags).split(/[|;]/)]
+    });
+  });
+  return report;
+};
+
+const csvCell = (value: string) => /[";,\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Semicolons and a byte order mark so Excel in Spanish opens it with accents intact
+const writeCsv = (groups: ExportGroup[]): string => {
+  const questions = groups.flatMap(({ topic, questions }) => questions.map(q => ({ topic, q })));
+  const optionCount = Math.max(4, ...questions.map(({ q }) => q.options.length));
+  const letters = Array.from({ length: optionCount }, (_, i) => String.fromCharCode(97 + i));
+  const rows = [
+    ['pregunta', ...letters.map(l => `opcion_${l}`), 'correcta', 'explicacion', 'tema', 'etiquetas'],
+    ...questions.map(({ topic, q }) => [
+      q.question,
+      ...letters.map((_, i) => q.options[i] ?? ''),
+      letters[q.correctAnswerIndex].toUpperCase(),
+      q.explanation,
+      topic.title,
+      (q.tags ?? []).join(' | ')
+    ])
+  ];
+  return String.fromCharCode(0xfeff) + rows.map(row => row.map(csvCell).join(';')).join('\r\n') + '\r\n';
+};
+
+// ---- Entry points ----
+
+interface ExportGroup {
+  topic: ConstitutionTopic;
+  questions: QuizQuestion[];
+}
+
+export const detectQuestionFormat = (fileName: string, text: string): QuestionFormat => {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.xml') || text.trimStart().startsWith('<')) return 'moodlexml';
+  if (name.endsWith('.csv')) return 'csv';
+  if (name.endsWith('.gift')) return 'gift';
+  // Plain .txt files: GIFT answers live in braces, Aiken ends each question with ANSWER:
+  return /^\s*ANSWER\s*:/im.test(text) && !/\{[^}]*[=~]/.test(text) ? 'aiken' : 'gift';
+};
+
+// Throws with a user-facing message when the whole file is unusable
+export const parseQuestionFile = (text: string, format: QuestionFormat): QuestionImportReport => {
+  switch (format) {
+    case 'gift': return parseGift(text);
+    case 'aiken': return parseAiken(text);
+    case 'moodlexml': return parseMoodleXml(text);
+    case 'csv': return parseCsv(text);
+  }
+};
+
+const TOPIC_NUMBER = /^(?:tema\s*)?(\d+)\b/;
+
+// The first tag naming a topic of the syllabus decides where a question goes: its id, its
+// title or its number ("Tema 3", "3")
+export const matchTopicForTags = (tags: string[], topics: ConstitutionTopic[]): string | null => {
+  for (const tag of tags) {
+    const normalized = normalizeTitle(tag);
+    const byIdOrTitle = topics.find(t => t.id === tag.trim() || normalizeTitle(t.title) === normalized);
+    if (byIdOrTitle) return byIdOrTitle.id;
+    const number = normalized.match(TOPIC_NUMBER)?.[1];
+    const byNumber = number && topics.find(t => normalizeTitle(t.title).match(TOPIC_NUMBER)?.[1] === number);
+    if (byNumber) return byNumber.id;
+  }
+  return null;
+};
+
+export interface QuestionImportResult {
+  added: number;
+  duplicates: number;
+  perTopic: Record<string, number>;
+}
+
+// Stores the questions in the bank of their tagged topic, or of fallbackTopicId when no tag
+// matches. Near-duplicates of banked questions are skipped, so re-importing a file is harmless.
+export const importQuestionsToBank = (questions: QuizQuestion[], topics: ConstitutionTopic[], fallbackTopicId: string): QuestionImportResult => {
+  const byTopic = new Map<string, QuizQuestion[]>();
+  questions.forEach(q => {
+    const topicId = matchTopicForTags(q.tags ?? [], topics) ?? fallbackTopicId;
+    // Tags that only name the topic are redundant once the question is filed under it
+    const { tags = [], ...question } = q;
+    const kept = tags.filter(tag => matchTopicForTags([tag], topics) !== topicId);
+    const tagged = tagQuestionArticles(question, topics.find(t => t.id === topicId)?.articles);
+    byTopic.set(topicId, [...(byTopic.get(topicId) ?? []), kept.length > 0 ? { ...tagged, tags: kept } : tagged]);
+  });
+
+  const result: QuestionImportResult = { added: 0, duplicates: 0, perTopic: {} };
+  byTopic.forEach((list, topicId) => {
+    const added = addToBank(topicId, list).length;
+    result.added += added;
+    result.duplicates += list.length - added;
+    if (added > 0) result.perTopic[topicId] = added;
+  });
+  return result;
+};
+
+export const exportBankQuestions = (topics: ConstitutionTopic[], format: QuestionFormat): string => {
+  const groups = topics
+    .map(topic => ({ topic, questions: getTopicBank(topic.id).map(entry => entry.question) }))
+    .filter(group => group.questions.length > 0);
+  switch (format) {
+    case 'gift': return writeGift(groups);
+    case 'aiken': return writeAiken(groups);
+    case 'moodlexml': return writeMoodleXml(groups);
+    case 'csv': return writeCsv(groups);
+  }
+};
@@ -0,0 +1,73 @@
+import { QuizQuestion } from "../types";
+
+// Checks and repairs the questions a model returns before they reach the quiz or the bank
+
+export const OPTIONS_PER_QUESTION = 4;
+
+// "A) ", "b. ", "3 - " prefixes that some models add even though the UI already labels options
+const OPTION_LABEL = /^\s*([a-dA-D]|[1-4])\s*[).:-]\s+/;
+
+// Only a full A/B/C/D or 1/2/3/4 sequence is a label; "3 - 5 años" on its own is an answer
+const stripOptionLabels = (options: string[]): string[] => {
+  const labels = options.map(option => option.match(OPTION_LABEL)?.[1].toLowerCase());
+  const isSequence = (first: string) =>
+    labels.every((label, i) => label === String.fromCharCode(first.charCodeAt(0) + i));
+  return options.length > 0 && (isSequence('a') || isSequence('1'))
+    ? options.map(option => option.replace(OPTION_LABEL, ''))
+    : options;
+};
+
+const asText = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+const normalizeOption = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9ñ]+/g, ' ').trim();
+
+// Accepts 0-3, "2" or a letter such as "C"
+const parseAnswerIndex = (value: unknown): number => {
+  if (typeof value === 'number' && Number.isInteger(value)) return value;
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10);
+    if (/^[a-dA-D]$/.test(trimmed)) return trimmed.toUpperCase().charCodeAt(0) - 65;
+  }
+  return -1;
+};
+
+// Returns a cleaned copy of the item, or null when it cannot be salvaged
+export const repairQuizQuestion = (raw: unknown): QuizQuestion | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const item = raw as Record<string, unknown>;
+
+  const question = asText(item.question);
+  const explanation = asText(item.explanation);
+  if (!question || !explanation) return null;
+
+  const rawOptions = stripOptionLabels(Array.isArray(item.options) ? item.options.map(asText) : []);
+  const correctAnswerIndex = parseAnswerIndex(item.correctAnswerIndex);
+  if (correctAnswerIndex < 0 || correctAnswerIndex >= rawOptions.length || !rawOptions[correctAnswerIndex]) return null;
+
+  // Drop empty and repeated options while following where the correct one ends up
+  const correctText = rawOptions[correctAnswerIndex];
+  const correctKey = normalizeOption(correctText);
+  const seen = new Set<string>();
+  const options: string[] = [];
+  rawOptions.forEach(option => {
+    const key = normalizeOption(option);
+    if (!key || seen.has(key)) return;
+    seen.add(key);
+    options.push(key === correctKey ? correctText : option);
+  });
+  if (options.length < OPTIONS_PER_QUESTION) return null;
+
+  // Extra distractors are trimmed, keeping the correct answer
+  let trimmed = options.slice(0, OPTIONS_PER_QUESTION);
+  if (!trimmed.includes(correctText)) trimmed = [...options.slice(0, OPTIONS_PER_QUESTION - 1), correctText];
+
+  return {
+    ...(item as unknown as QuizQuestion),
+    question,
+    explanation,
+    options: trimmed,
+    correctAnswerIndex: trimmed.indexOf(correctText)
+  };
+};
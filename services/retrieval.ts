@@ -0,0 +1,115 @@
+import { LawId, LegalArticle } from "../types";
+import { LAWS, LEGAL_CORPUS } from "../data/legalCorpus";
+
+// Client-side BM25 index over the bundled legal corpus
+
+const STOPWORDS = new Set([
+  'a', 'al', 'ante', 'con', 'de', 'del', 'el', 'en', 'entre', 'es', 'la', 'las', 'lo', 'los',
+  'o', 'para', 'por', 'que', 'se', 'sin', 'su', 'sus', 'un', 'una', 'y', 'tema', 'sobre', 'como',
+  'cual', 'cuales', 'son', 'esta', 'este', 'ley', 'articulo', 'articulos', 'art', 'arts'
+]);
+
+const normalize = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Very light Spanish stemming: plural endings only, enough to match "municipios" with "municipio"
+const stem = (token: string) => {
+  if (token.length > 4 && token.endsWith('es')) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith('s')) return token.slice(0, -1);
+  return token;
+};
+
+export const tokenize = (text: string): string[] =>
+  normalize(text)
+    .split(/[^a-z0-9ñ]+/)
+    .filter(t => t.length > 1 && !STOPWORDS.has(t))
+    .map(stem);
+
+interface IndexedItem<T> {
+  item: T;
+  termFreq: Map<string, number>;
+  length: number;
+}
+
+interface RetrievalIndex<T> {
+  docs: IndexedItem<T>[];
+  docFreq: Map<string, number>;
+  avgLength: number;
+}
+
+// Generic so uploaded study documents can be searched the same way as the legal corpus
+export const buildBm25Index = <T,>(items: T[], textOf: (item: T) => string): RetrievalIndex<T> => {
+  const docFreq = new Map<string, number>();
+  const docs = items.map(item => {
+    const tokens = tokenize(textOf(item));
+    const termFreq = new Map<string, number>();
+    tokens.forEach(t => termFreq.set(t, (termFreq.get(t) || 0) + 1));
+    termFreq.forEach((_, t) => docFreq.set(t, (docFreq.get(t) || 0) + 1));
+    return { item, termFreq, length: tokens.length };
+  });
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / Math.max(docs.length, 1);
+  return { docs, docFreq, avgLength };
+};
+
+const K1 = 1.2;
+const B = 0.75;
+
+// Items with a positive BM25 score for the query, best first
+export const rankBm25 = <T,>({ docs, docFreq, avgLength }: RetrievalIndex<T>, query: string): T[] => {
+  const terms = Array.from(new Set(tokenize(query)));
+
+  return docs
+    .map(doc => {
+      let score = 0;
+      terms.forEach(term => {
+        const tf = doc.termFreq.get(term);
+        if (!tf) return;
+        const df = docFreq.get(term) || 0;
+        const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / avgLength));
+      });
+      return { item: doc.item, score };
+    })
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(s => s.item);
+};
+
+let index: RetrievalIndex<LegalArticle> | null = null;
+
+const getIndex = () => {
+  if (!index) {
+    index = buildBm25Index(LEGAL_CORPUS, article =>
+      `${article.title || ''} ${article.text} ${LAWS[article.law].keywords.join(' ')}`
+    );
+  }
+  return index;
+};
+
+const articlesById = new Map(LEGAL_CORPUS.map(a => [a.id, a]));
+
+export const getArticleById = (id: string): LegalArticle | undefined => articlesById.get(id);
+
+export const formatArticleLabel = (article: LegalArticle) =>
+  `Art. ${article.number} ${LAWS[article.law].shortName}`;
+
+// Detects explicit references such as "art. 140 CE" or "artículo 26 de la LBRL"
+const findExplicitReferences = (query: string): LegalArticle[] => {
+  const normalized = normalize(query);
+  const mentionedLaws = (Object.keys(LAWS) as LawId[]).filter(law =>
+    LAWS[law].keywords.some(k => normalized.includes(k))
+  );
+  const numbers = Array.from(normalized.matchAll(/\bart(?:iculo|\.)?s?\s*(\d+)/g)).map(m => m[1]);
+
+  return numbers.flatMap(number => {
+    const candidates = LEGAL_CORPUS.filter(a => a.number === number);
+    const scoped = candidates.filter(a => mentionedLaws.includes(a.law));
+    return scoped.length > 0 ? scoped : candidates.filter(a => a.law === 'CE');
+  });
+};
+
+export const retrieveArticles = (query: string, limit: number = 6): LegalArticle[] => {
+  const explicit = findExplicitReferences(query);
+  const ranked = rankBm25(getIndex(), query).filter(article => !explicit.includes(article));
+  return [...explicit, ...ranked].slice(0, limit);
+};
@@ -0,0 +1,130 @@
+import { QuizQuestion, SrsCard, SrsGrade, SrsSchedule } from "../types";
+import { readStored, writeStored } from "./storage";
+
+// SM-2 spaced repetition scheduler for failed questions. Cards are created when a question is
+// answered wrong and every later answer (regular quiz or "Repaso de hoy") reschedules them.
+
+const STORAGE_KEY = 'srs_cards';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// Grades used when the answer comes from a multiple choice quiz rather than a self-assessment
+export const GRADE_FAILED: SrsGrade = 1;
+export const GRADE_GOOD: SrsGrade = 4;
+
+export const getQuestionKey = (question: QuizQuestion): string => {
+  const normalized = question.question.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ').trim();
+  let hash = 0;
+  for (let i = 0; i < normalized.length; i++) {
+    hash = (hash * 31 + normalized.charCodeAt(i)) >>> 0;
+  }
+  return `q_${hash.toString(36)}`;
+};
+
+export const loadCards = (): Record<string, SrsCard> => readStored(STORAGE_KEY, {});
+
+const saveCards = (cards: Record<string, SrsCard>) => {
+  writeStored(STORAGE_KEY, cards);
+};
+
+// A card that has never been reviewed and is due right away
+export const initialSchedule = (now: number): SrsSchedule => ({
+  ease: INITIAL_EASE,
+  interval: 0,
+  repetitions: 0,
+  lapses: 0,
+  due: now,
+  history: []
+});
+
+const createCard = (question: QuizQuestion, topicId: string, topicTitle: string, now: number): SrsCard => ({
+  id: getQuestionKey(question),
+  topicId,
+  topicTitle,
+  question,
+  ...initialSchedule(now)
+});
+
+// Pure SM-2 step: returns the rescheduled card
+export const scheduleCard = <T extends SrsSchedule>(card: T, grade: SrsGrade, now: number = Date.now()): T => {
+  let { repetitions, interval, lapses } = card;
+
+  if (grade < 3) {
+    repetitions = 0;
+    interval = 1;
+    lapses += 1;
+  } else {
+    repetitions += 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(interval * card.ease);
+  }
+
+  const ease = Math.max(MIN_EASE, card.ease + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+
+  return {
+    ...card,
+    ease,
+    interval,
+    repetitions,
+    lapses,
+    due: now + interval * DAY_MS,
+    history: [...card.history, { date: now, grade, interval, ease }]
+  };
+};
+
+export const reviewCard = (cardId: string, grade: SrsGrade): SrsCard | null => {
+  const cards = loadCards();
+  const card = cards[cardId];
+  if (!card) return null;
+  cards[cardId] = scheduleCard(card, grade);
+  saveCards(cards);
+  return cards[cardId];
+};
+
+// Feeds the answers of a regular quiz into the schedule: wrong answers create or lapse a card,
+// right answers only advance cards that already exist.
+export const recordQuizAnswers = (questions: QuizQuestion[], userAnswers: number[], topicId: string, topicTitle: string) => {
+  const cards = loadCards();
+  const now = Date.now();
+
+  questions.forEach((q, idx) => {
+    const answer = userAnswers[idx];
+    if (answer === -1) return;
+    const key = getQuestionKey(q);
+    const isCorrect = answer === q.correctAnswerIndex;
+
+    if (!cards[key]) {
+      if (isCorrect) return;
+      cards[key] = createCard(q, topicId, topicTitle, now);
+    }
+    cards[key] = scheduleCard(cards[key], isCorrect ? GRADE_GOOD : GRADE_FAILED, now);
+  });
+
+  saveCards(cards);
+};
+
+export const getDueCards = (now: number = Date.now()): SrsCard[] =>
+  Object.values(loadCards())
+    .filter(card => card.due <= now)
+    .sort((a, b) => a.due - b.due);
+
+export const countDueCards = (now: number = Date.now()): number => getDueCards(now).length;
+
+// "Repaso de hoy" covers every card due before midnight, not only those due this instant
+export const endOfToday = (): number => {
+  const date = new Date();
+  date.setHours(23, 59, 59, 999);
+  return date.getTime();
+};
+
+// Keeps cards attached to their tema when it is renamed or its id changes
+export const retagCards = (fromTopicId: string, toTopicId: string, topicTitle: string) => {
+  const cards = loadCards();
+  Object.values(cards).forEach(card => {
+    if (card.topicId !== fromTopicId) return;
+    card.topicId = toTopicId;
+    card.topicTitle = topicTitle;
+    card.question = { ...card.question, topicId: toTopicId };
+  });
+  saveCards(cards);
+};
@@ -0,0 +1,451 @@
+import {
+  AISettings,
+  BankedQuestion,
+  ChatConversation,
+  ConstitutionTopic,
+  FailedQuestion,
+  Flashcard,
+  InteractiveDiagram,
+  LearnerProfile,
+  QuizAttempt,
+  SrsCard,
+  SyncSettings,
+  SyncState,
+  TopicDocument,
+  TopicProgress
+} from "../types";
+
+// Single persistence layer for the app. Data lives in IndexedDB and is mirrored in an in-memory
+// cache that is filled once by initStorage() before the first render, so every read stays
+// synchronous. Writes update the cache immediately and are flushed to IndexedDB in batches.
+// When IndexedDB is unavailable (private browsing, old browsers) localStorage is used instead.
+
+export interface StorageSchema {
+  topic_progress: Record<string, TopicProgress>;
+  failed_questions: FailedQuestion[];
+  guided_mode: boolean;
+  srs_cards: Record<string, SrsCard>;
+  flashcards: Record<string, Flashcard>;
+  // Origins of deleted generated flashcards per topic, so regenerating does not bring them back
+  flashcard_tombstones: Record<string, string[]>;
+  ai_settings: Partial<AISettings>;
+  quiz_attempts: QuizAttempt[];
+  question_bank: Record<string, BankedQuestion[]>;
+  chat_conversations: ChatConversation[];
+  chat_active_conversation: string;
+  syllabus: ConstitutionTopic[];
+  topic_documents: Record<string, TopicDocument[]>;
+  profiles: LearnerProfile[];
+  active_profile: string;
+  sync_settings: SyncSettings;
+  sync_state: SyncState;
+  // Per-topic study material, keyed by topic id
+  [key: `study_text_${string}`]: string;
+  [key: `study_diagram_obj_${string}`]: InteractiveDiagram;
+  [key: `study_scroll_${string}`]: number;
+}
+
+export type StorageKey = keyof StorageSchema & string;
+
+const DB_NAME = 'constitucion';
+// Version of the IndexedDB object stores; bump together with a change in onupgradeneeded
+const DB_VERSION = 1;
+const DATA_STORE = 'kv';
+const META_STORE = 'meta';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+// Values that failed validation are kept under this prefix instead of being thrown away
+const CORRUPT_PREFIX = 'corrupt_';
+
+type Shape = 'array' | 'record' | 'string' | 'number' | 'boolean';
+
+const KEY_SHAPES: Record<string, Shape> = {
+  topic_progress: 'record',
+  failed_questions: 'array',
+  guided_mode: 'boolean',
+  srs_cards: 'record',
+  flashcards: 'record',
+  flashcard_tombstones: 'record',
+  ai_settings: 'record',
+  quiz_attempts: 'array',
+  question_bank: 'record',
+  chat_conversations: 'array',
+  chat_active_conversation: 'string',
+  syllabus: 'array',
+  topic_documents: 'record',
+  profiles: 'array',
+  active_profile: 'string',
+  sync_settings: 'record',
+  sync_state: 'record',
+  study_text_: 'string',
+  study_diagram_obj_: 'record',
+  study_scroll_: 'number'
+};
+
+const PREFIXES = ['study_text_', 'study_diagram_obj_', 'study_scroll_'];
+
+const shapeOf = (key: string): Shape | undefined =>
+  KEY_SHAPES[key] ?? KEY_SHAPES[PREFIXES.find(prefix => key.startsWith(prefix)) ?? ''];
+
+const matchesShape = (value: unknown, shape: Shape): boolean => {
+  if (shape === 'array') return Array.isArray(value);
+  if (shape === 'record') return typeof value === 'object' && value !== null && !Array.isArray(value);
+  return typeof value === shape;
+};
+
+// ---- In-memory cache and backends ----
+
+const cache = new Map<string, unknown>();
+const pendingWrites = new Map<string, unknown>();
+const pendingDeletes = new Set<string>();
+let db: IDBDatabase | null = null;
+let flushScheduled = false;
+let initPromise: Promise<void> | null = null;
+
+type StorageErrorListener = (message: string) => void;
+const errorListeners = new Set<StorageErrorListener>();
+// Errors raised during initStorage happen before any component subscribes
+let startupError: string | null = null;
+
+// Lets the UI show quota or corruption problems instead of failing silently
+export const subscribeStorageErrors = (listener: StorageErrorListener) => {
+  errorListeners.add(listener);
+  if (startupError) listener(startupError);
+  return () => { errorListeners.delete(listener); };
+};
+
+const reportError = (message: string, error?: unknown) => {
+  console.error(message, error);
+  if (errorListeners.size === 0) startupError = message;
+  errorListeners.forEach(listener => listener(message));
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const QUOTA_MESSAGE = 'El almacenamiento del navegador está lleno. Elimina documentos o intentos antiguos para liberar espacio.';
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(DATA_STORE)) database.createObjectStore(DATA_STORE);
+      if (!database.objectStoreNames.contains(META_STORE)) database.createObjectStore(META_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+  });
+
+// Fallback backend: same keys, JSON for everything except plain strings
+const writeToLocalStorage = (writes: Map<string, unknown>, deletes: Set<string>) => {
+  deletes.forEach(key => localStorage.removeItem(key));
+  writes.forEach((value, key) => {
+    try {
+      localStorage.setItem(key, typeof value === 'string' ? value : JSON.stringify(value));
+    } catch (error) {
+      reportError(isQuotaError(error) ? QUOTA_MESSAGE : 'No se han podido guardar los últimos cambios.', error);
+    }
+  });
+};
+
+// Resolves once the batch is on disk (or has failed and been reported)
+const flush = (): Promise<void> => {
+  flushScheduled = false;
+  if (pendingWrites.size === 0 && pendingDeletes.size === 0) return Promise.resolve();
+  const writes = new Map(pendingWrites);
+  const deletes = new Set(pendingDeletes);
+  pendingWrites.clear();
+  pendingDeletes.clear();
+
+  if (!db) {
+    writeToLocalStorage(writes, deletes);
+    return Promise.resolve();
+  }
+
+  return new Promise(resolve => {
+    try {
+      const tx = db!.transaction(DATA_STORE, 'readwrite');
+      const store = tx.objectStore(DATA_STORE);
+      writes.forEach((value, key) => store.put(value, key));
+      deletes.forEach(key => store.delete(key));
+      tx.oncomplete = () => resolve();
+      tx.onabort = () => {
+        reportError(isQuotaError(tx.error) ? QUOTA_MESSAGE : 'No se han podido guardar los últimos cambios.', tx.error);
+        resolve();
+      };
+    } catch (error) {
+      reportError(isQuotaError(error) ? QUOTA_MESSAGE : 'No se han podido guardar los últimos cambios.', error);
+      resolve();
+    }
+  });
+};
+
+const scheduleFlush = () => {
+  if (flushScheduled) return;
+  flushScheduled = true;
+  setTimeout(flush, 0);
+};
+
+// Writes pending changes right away, e.g. before reloading the page
+export const flushStorage = (): Promise<void> => flush();
+
+// ---- Learner profiles ----
+// Keys are stored as "<profileId>/<key>" except the device-wide ones below, so each
+// learner sees only their own progress, material and chats.
+
+const GLOBAL_KEYS = new Set<string>(['profiles', 'active_profile', 'ai_settings', 'sync_settings']);
+// Bookkeeping of this device (profiles, sync), never part of a profile's exportable data
+const DEVICE_KEYS = new Set<string>(['profiles', 'active_profile', 'sync_settings', 'sync_state']);
+const PROFILE_SEPARATOR = '/';
+export const DEFAULT_PROFILE_ID = 'default';
+let activeProfileId = DEFAULT_PROFILE_ID;
+
+const toStoredKey = (key: string, profileId: string = activeProfileId) =>
+  GLOBAL_KEYS.has(key) ? key : `${profileId}${PROFILE_SEPARATOR}${key}`;
+
+// Splits a stored key into its profile and schema key; null for keys the app does not own
+const parseStoredKey = (storedKey: string): { profileId: string | null; key: StorageKey } | null => {
+  if (storedKey.startsWith(CORRUPT_PREFIX)) return null;
+  const separator = storedKey.indexOf(PROFILE_SEPARATOR);
+  if (separator === -1) return shapeOf(storedKey) ? { profileId: null, key: storedKey as StorageKey } : null;
+  const key = storedKey.slice(separator + 1);
+  return shapeOf(key) && !GLOBAL_KEYS.has(key) ? { profileId: storedKey.slice(0, separator), key: key as StorageKey } : null;
+};
+
+// ---- localStorage backend ----
+
+const LOCAL_VERSION_KEY = 'storage_schema_version';
+
+// Reads a localStorage value in the type the schema expects (strings are stored unquoted)
+const parseLocalValue = (storedKey: string, raw: string): unknown => {
+  const shape = shapeOf(parseStoredKey(storedKey)!.key);
+  if (shape === 'string') return raw;
+  if (shape === 'boolean') return raw === 'true';
+  if (shape === 'number') return Number(raw);
+  return JSON.parse(raw);
+};
+
+const readLocalStorage = (): Map<string, unknown> => {
+  const values = new Map<string, unknown>();
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key || !parseStoredKey(key)) continue;
+    const raw = localStorage.getItem(key);
+    if (raw === null) continue;
+    try {
+      values.set(key, parseLocalValue(key, raw));
+    } catch (error) {
+      // Unparseable JSON is preserved as text rather than crashing the app
+      console.error(`Corrupt value for ${key}`, error);
+      values.set(`${CORRUPT_PREFIX}${key}`, raw);
+    }
+  }
+  return values;
+};
+
+// ---- Schema migrations ----
+// Each entry upgrades the stored data from version N-1 to N. Append, never edit.
+
+type Migration = (data: Map<string, unknown>) => void;
+
+const MIGRATIONS: Migration[] = [
+  // 1: import everything the app used to keep in localStorage
+  data => {
+    readLocalStorage().forEach((value, key) => data.set(key, value));
+  },
+  // 2: learner profiles; existing data becomes the default profile
+  data => {
+    Array.from(data.keys()).forEach(storedKey => {
+      const parsed = parseStoredKey(storedKey);
+      if (!parsed || parsed.profileId !== null || GLOBAL_KEYS.has(parsed.key)) return;
+      data.set(toStoredKey(parsed.key, DEFAULT_PROFILE_ID), data.get(storedKey));
+      data.delete(storedKey);
+    });
+    if (!data.has('profiles')) {
+      data.set('profiles', [{ id: DEFAULT_PROFILE_ID, name: 'Perfil principal', pinHash: null, createdAt: Date.now() }]);
+    }
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+const loadFromDatabase = async (database: IDBDatabase) => {
+  const tx = database.transaction([DATA_STORE, META_STORE], 'readonly');
+  // All requests are issued before awaiting so the transaction stays active
+  const [keys, values, version] = await Promise.all([
+    requestToPromise(tx.objectStore(DATA_STORE).getAllKeys()),
+    requestToPromise(tx.objectStore(DATA_STORE).getAll()),
+    requestToPromise(tx.objectStore(META_STORE).get(SCHEMA_VERSION_KEY))
+  ]);
+  keys.forEach((key, i) => cache.set(String(key), values[i]));
+  return typeof version === 'number' ? version : 0;
+};
+
+const migrateData = (fromVersion: number): { data: Map<string, unknown>; removed: Set<string> } => {
+  const data = new Map(cache);
+  MIGRATIONS.slice(fromVersion).forEach(migrate => migrate(data));
+  const removed = new Set(Array.from(cache.keys()).filter(key => !data.has(key)));
+  return { data, removed };
+};
+
+const replaceCache = (data: Map<string, unknown>) => {
+  cache.clear();
+  data.forEach((value, key) => cache.set(key, value));
+};
+
+const runMigrations = async (database: IDBDatabase, fromVersion: number) => {
+  if (fromVersion >= SCHEMA_VERSION) return;
+  const { data, removed } = migrateData(fromVersion);
+
+  const tx = database.transaction([DATA_STORE, META_STORE], 'readwrite');
+  const store = tx.objectStore(DATA_STORE);
+  removed.forEach(key => store.delete(key));
+  data.forEach((value, key) => store.put(value, key));
+  tx.objectStore(META_STORE).put(SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error);
+  });
+
+  replaceCache(data);
+  // The legacy copies are only removed once IndexedDB holds the migrated data
+  if (fromVersion === 0) {
+    Array.from(readLocalStorage().keys()).forEach(key => localStorage.removeItem(key.replace(CORRUPT_PREFIX, '')));
+  }
+};
+
+const loadLocalFallback = () => {
+  replaceCache(readLocalStorage());
+  const version = Number(localStorage.getItem(LOCAL_VERSION_KEY)) || 0;
+  if (version >= SCHEMA_VERSION) return;
+  const { data, removed } = migrateData(version);
+  writeToLocalStorage(data, removed);
+  localStorage.setItem(LOCAL_VERSION_KEY, String(SCHEMA_VERSION));
+  replaceCache(data);
+};
+
+const restoreActiveProfile = () => {
+  const profiles = cache.get('profiles');
+  const stored = cache.get('active_profile');
+  const known = Array.isArray(profiles) && profiles.some((p: { id: string }) => p.id === stored);
+  activeProfileId = known ? stored as string : DEFAULT_PROFILE_ID;
+};
+
+// Must resolve before the app renders. Never rejects: any failure falls back to localStorage.
+export const initStorage = (): Promise<void> => {
+  if (!initPromise) {
+    initPromise = (async () => {
+      if (typeof indexedDB === 'undefined') {
+        loadLocalFallback();
+        restoreActiveProfile();
+        return;
+      }
+      try {
+        db = await openDatabase();
+        const version = await loadFromDatabase(db);
+        await runMigrations(db, version);
+        navigator.storage?.persist?.().catch(() => undefined);
+      } catch (error) {
+        db = null;
+        loadLocalFallback();
+        reportError('No se ha podido abrir la base de datos local; se usará el almacenamiento básico del navegador.', error);
+      }
+      restoreActiveProfile();
+    })();
+  }
+  return initPromise;
+};
+
+// ---- Typed access ----
+// Keys are scoped to the active profile unless a profileId is given
+
+// Undefined when the key is missing or its value does not have the expected shape.
+// Malformed values are moved aside under a corrupt_ key so the next write starts clean.
+export const findStored = <K extends StorageKey>(key: K, profileId?: string): StorageSchema[K] | undefined => {
+  const storedKey = toStoredKey(key, profileId);
+  if (!cache.has(storedKey)) return undefined;
+  const value = cache.get(storedKey);
+  const shape = shapeOf(key);
+  if (shape && !matchesShape(value, shape)) {
+    console.error(`Discarding malformed value for ${storedKey}`, value);
+    cache.delete(storedKey);
+    pendingDeletes.add(storedKey);
+    cache.set(`${CORRUPT_PREFIX}${storedKey}`, value);
+    pendingWrites.set(`${CORRUPT_PREFIX}${storedKey}`, value);
+    scheduleFlush();
+    return undefined;
+  }
+  return value as StorageSchema[K];
+};
+
+export const readStored = <K extends StorageKey>(key: K, fallback: StorageSchema[K]): StorageSchema[K] =>
+  findStored(key) ?? fallback;
+
+type StorageWriteListener = (key: StorageKey, profileId: string | null) => void;
+const writeListeners = new Set<StorageWriteListener>();
+
+// Notified after every write or removal; profileId is null for device-wide keys
+export const subscribeStorageWrites = (listener: StorageWriteListener) => {
+  writeListeners.add(listener);
+  return () => { writeListeners.delete(listener); };
+};
+
+const notifyWrite = (key: StorageKey, profileId?: string) => {
+  const owner = GLOBAL_KEYS.has(key) ? null : profileId ?? activeProfileId;
+  writeListeners.forEach(listener => listener(key, owner));
+};
+
+export const writeStored = <K extends StorageKey>(key: K, value: StorageSchema[K], profileId?: string) => {
+  const storedKey = toStoredKey(key, profileId);
+  cache.set(storedKey, value);
+  pendingDeletes.delete(storedKey);
+  pendingWrites.set(storedKey, value);
+  scheduleFlush();
+  notifyWrite(key, profileId);
+};
+
+export const removeStored = (key: StorageKey, profileId?: string) => {
+  const storedKey = toStoredKey(key, profileId);
+  cache.delete(storedKey);
+  pendingWrites.delete(storedKey);
+  pendingDeletes.add(storedKey);
+  scheduleFlush();
+  notifyWrite(key, profileId);
+};
+
+export const hasStored = (key: StorageKey): boolean => cache.has(toStoredKey(key));
+
+// Every key of the profile that currently holds a value, plus the AI settings
+export const listStoredKeys = (profileId: string = activeProfileId): StorageKey[] =>
+  Array.from(cache.keys())
+    .map(parseStoredKey)
+    .filter((parsed): parsed is { profileId: string | null; key: StorageKey } =>
+      !!parsed && !DEVICE_KEYS.has(parsed.key) && (parsed.profileId === profileId || parsed.profileId === null))
+    .map(parsed => parsed.key);
+
+// Used to validate data coming from outside the store, such as a backup file
+export const isValidStoredValue = (key: string, value: unknown): key is StorageKey => {
+  const shape = shapeOf(key);
+  return !!shape && !DEVICE_KEYS.has(key) && matchesShape(value, shape);
+};
+
+export const getActiveProfileId = () => activeProfileId;
+
+// Views read their data when they mount, so callers reload the app after switching
+export const setActiveProfileId = (profileId: string) => {
+  activeProfileId = profileId;
+  writeStored('active_profile', profileId);
+};
+
+export const removeProfileData = (profileId: string) => {
+  Array.from(cache.keys()).map(parseStoredKey).forEach(parsed => {
+    if (parsed?.profileId === profileId) removeStored(parsed.key, profileId);
+  });
+};
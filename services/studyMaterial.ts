@@ -0,0 +1,44 @@
+import { InteractiveDiagram } from "../types";
+import { findStored, hasStored, readStored, removeStored, writeStored } from "./storage";
+import { validateDiagram } from "./diagram";
+
+// Generated study plan, mind map and reading position saved per tema
+
+export const loadStudyText = (topicId: string): string | null => findStored(`study_text_${topicId}`) ?? null;
+
+export const hasStudyText = (topicId: string): boolean => hasStored(`study_text_${topicId}`);
+
+// Diagrams saved as Mermaid text before the node schema are converted as they load
+export const loadStudyDiagram = (topicId: string): InteractiveDiagram | null =>
+  validateDiagram(findStored(`study_diagram_obj_${topicId}`));
+
+export const saveStudyMaterial = (topicId: string, text: string, diagram: InteractiveDiagram | null) => {
+  writeStored(`study_text_${topicId}`, text);
+  if (diagram) writeStored(`study_diagram_obj_${topicId}`, diagram);
+};
+
+// Mind map edits replace the generated diagram of the tema
+export const saveStudyDiagram = (topicId: string, diagram: InteractiveDiagram) => {
+  writeStored(`study_diagram_obj_${topicId}`, diagram);
+};
+
+export const loadStudyScroll = (topicId: string): number => readStored(`study_scroll_${topicId}`, 0);
+
+export const saveStudyScroll = (topicId: string, scrollTop: number) => {
+  writeStored(`study_scroll_${topicId}`, scrollTop);
+};
+
+export const moveStudyMaterial = (fromTopicId: string, toTopicId: string) => {
+  const text = loadStudyText(fromTopicId);
+  const diagram = loadStudyDiagram(fromTopicId);
+  if (text !== null) writeStored(`study_text_${toTopicId}`, text);
+  if (diagram) writeStored(`study_diagram_obj_${toTopicId}`, diagram);
+  if (hasStored(`study_scroll_${fromTopicId}`)) writeStored(`study_scroll_${toTopicId}`, loadStudyScroll(fromTopicId));
+  deleteStudyMaterial(fromTopicId);
+};
+
+export const deleteStudyMaterial = (topicId: string) => {
+  removeStored(`study_text_${topicId}`);
+  removeStored(`study_diagram_obj_${topicId}`);
+  removeStored(`study_scroll_${topicId}`);
+};
@@ -0,0 +1,186 @@
+import { ConstitutionTopic } from "../types";
+import { TOPICS } from "../constants";
+import { retagCards } from "./srs";
+import { deleteTopicBank, moveTopicBank } from "./questionBank";
+import { retagAttempts } from "./attempts";
+import { deleteTopicDocuments, moveTopicDocuments } from "./documents";
+import { loadMistakes, loadProgress, saveMistakes, saveProgress } from "./progress";
+import { deleteStudyMaterial, moveStudyMaterial } from "./studyMaterial";
+import { deleteTopicFlashcards, retagFlashcards } from "./flashcards";
+import { formatTopicArticles, isArticleRange, parseArticleReferences } from "./articleRefs";
+import { readStored, writeStored } from "./storage";
+
+// User-editable temario. The bundled TOPICS are only the starting point; once the user edits
+// the syllabus it lives in the local store. Topic ids key every per-topic store, so they never
+// change on edit and imports are matched back to existing ids whenever possible.
+
+const STORAGE_KEY = 'syllabus';
+
+// Syllabi saved or exported before article references were typed keep `articles` as display
+// text ("LBRL / Art. 137-142 CE"); it is parsed into ranges when read
+export const typedArticles = (articles: unknown, otherLaws: unknown): Pick<ConstitutionTopic, 'articles' | 'otherLaws'> => {
+  if (Array.isArray(articles)) {
+    const names = Array.isArray(otherLaws) ? otherLaws.filter((name): name is string => typeof name === 'string' && !!name.trim()) : [];
+    return { articles: articles.filter(isArticleRange), ...(names.length > 0 ? { otherLaws: names } : {}) };
+  }
+  const parsed = parseArticleReferences(typeof articles === 'string' ? articles : '');
+  return { articles: parsed.ranges, ...(parsed.otherLaws.length > 0 ? { otherLaws: parsed.otherLaws } : {}) };
+};
+
+export const loadSyllabus = (): ConstitutionTopic[] => {
+  const stored = readStored(STORAGE_KEY, []);
+  if (stored.length === 0) return TOPICS;
+  return stored.map(topic => ({ id: topic.id, title: topic.title, description: topic.description, ...typedArticles(topic.articles, topic.otherLaws) }));
+};
+
+export const saveSyllabus = (topics: ConstitutionTopic[]) => {
+  writeStored(STORAGE_KEY, topics);
+};
+
+export const normalizeTitle = (title: string) =>
+  title.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+export const createTopicId = (title: string, existing: ConstitutionTopic[]): string => {
+  const base = `tema_${normalizeTitle(title).replace(/^tema /, '').replace(/ /g, '_').slice(0, 40) || 'nuevo'}`;
+  let id = base;
+  for (let n = 2; existing.some(t => t.id === id); n++) id = `${base}_${n}`;
+  return id;
+};
+
+// Moves progress, study material, documents, question bank, flashcards, SRS cards and attempts from one id to another
+export const migrateTopicData = (fromId: string, toId: string, title: string) => {
+  if (fromId !== toId) {
+    const progress = loadProgress();
+    if (progress[fromId]) {
+      progress[toId] = { ...progress[fromId], topicId: toId };
+      delete progress[fromId];
+      saveProgress(progress);
+    }
+    moveStudyMaterial(fromId, toId);
+    moveTopicBank(fromId, toId);
+    moveTopicDocuments(fromId, toId);
+    retagAttempts(fromId, toId);
+    retagFlashcards(fromId, toId);
+  }
+  retagCards(fromId, toId, title);
+};
+
+// Stores that only keep the title (SRS cards, recent mistakes) follow a rename
+export const renameTopicData = (topicId: string, oldTitle: string, newTitle: string) => {
+  if (oldTitle === newTitle) return;
+  retagCards(topicId, topicId, newTitle);
+  const mistakes = loadMistakes();
+  if (mistakes.some(m => m.topicTitle === oldTitle)) {
+    saveMistakes(mistakes.map(m => m.topicTitle === oldTitle ? { ...m, topicTitle: newTitle } : m));
+  }
+};
+
+// Progress, study material, flashcards, uploaded documents and the question bank go with the tema; SRS cards and past
+// attempts are kept because they still hold valid questions and history
+export const deleteTopicData = (topicId: string) => {
+  const progress = loadProgress();
+  if (progress[topicId]) {
+    delete progress[topicId];
+    saveProgress(progress);
+  }
+  deleteStudyMaterial(topicId);
+  deleteTopicFlashcards(topicId);
+  deleteTopicBank(topicId);
+  deleteTopicDocuments(topicId);
+};
+
+export const syllabusToJson = (topics: ConstitutionTopic[]): string =>
+  JSON.stringify({ version: 1, topics }, null, 2);
+
+export const syllabusToMarkdown = (topics: ConstitutionTopic[]): string =>
+  `# Temario\n\n${topics.map(t => `## ${t.title}\n\nArtículos: ${formatTopicArticles(t)}\n\n${t.description}\n`).join('\n')}`;
+
+interface ImportedTopic {
+  id?: string;
+  title: string;
+  description?: string;
+  articles?: unknown; // Ranges, or the display text of older exports and Markdown files
+  otherLaws?: unknown;
+}
+
+// "## Title" starts a topic, an "Artículos:" line sets its articles and the rest is the description
+const parseMarkdownSyllabus = (text: string): ImportedTopic[] => {
+  const topics: ImportedTopic[] = [];
+  let current: ImportedTopic | null = null;
+  let description: string[] = [];
+
+  const flush = () => {
+    if (current) topics.push({ ...current, description: description.join(' ').trim() });
+    description = [];
+  };
+
+  text.split('\n').forEach(line => {
+    const heading = line.match(/^##\s+(.+)$/);
+    if (heading) {
+      flush();
+      current = { title: heading[1].trim(), articles: '' };
+      return;
+    }
+    if (!current) return;
+    const articles = line.match(/^\s*Art[ií]culos:\s*(.*)$/i);
+    if (articles) current.articles = articles[1].trim();
+    else if (line.trim()) description.push(line.trim());
+  });
+  flush();
+  return topics;
+};
+
+const parseJsonSyllabus = (text: string): ImportedTopic[] => {
+  const data: unknown = JSON.parse(text);
+  const list = Array.isArray(data) ? data : typeof data === 'object' && data !== null ? (data as { topics?: unknown }).topics : undefined;
+  if (!Array.isArray(list)) throw new Error('El JSON no contiene una lista de temas');
+  return list.filter((t: unknown): t is ImportedTopic =>
+    typeof t === 'object' && t !== null && typeof (t as ImportedTopic).title === 'string' && !!(t as ImportedTopic).title.trim());
+};
+
+export interface SyllabusImport {
+  topics: ConstitutionTopic[];
+  // Imported topics whose data must be moved from an existing id to the imported one
+  migrations: { fromId: string; toId: string; title: string }[];
+}
+
+// Matches imported topics to the current syllabus by id, then by title, so their progress,
+// material and questions carry over. Unmatched topics get fresh ids.
+export const parseSyllabusImport = (text: string, current: ConstitutionTopic[]): SyllabusImport => {
+  const imported = text.trim().startsWith('{') || text.trim().startsWith('[') ? parseJsonSyllabus(text) : parseMarkdownSyllabus(text);
+  if (imported.length === 0) throw new Error('No se ha encontrado ningún tema en el archivo');
+
+  const topics: ConstitutionTopic[] = [];
+  const migrations: SyllabusImport['migrations'] = [];
+
+  imported.forEach(item => {
+    const title = item.title.trim();
+    const byTitle = current.find(t => normalizeTitle(t.title) === normalizeTitle(title));
+    let id = item.id && !topics.some(t => t.id === item.id) ? item.id : undefined;
+
+    if (id && !current.some(t => t.id === id) && byTitle && !topics.some(t => t.id === byTitle.id)) {
+      migrations.push({ fromId: byTitle.id, toId: id, title });
+    } else if (!id) {
+      id = byTitle && !topics.some(t => t.id === byTitle.id) ? byTitle.id : createTopicId(title, [...current, ...topics]);
+    }
+
+    topics.push({
+      id,
+      title,
+      description: (item.description ?? '').trim(),
+      ...typedArticles(item.articles, item.otherLaws)
+    });
+  });
+
+  return { topics, migrations };
+};
+
+// Data of topics left out of the import is kept, so re-importing them later restores it
+export const applySyllabusImport = ({ topics, migrations }: SyllabusImport, current: ConstitutionTopic[]) => {
+  migrations.forEach(m => migrateTopicData(m.fromId, m.toId, m.title));
+  topics.forEach(topic => {
+    const previous = current.find(t => t.id === topic.id);
+    if (previous) renameTopicData(topic.id, previous.title, topic.title);
+  });
+  saveSyllabus(topics);
+};
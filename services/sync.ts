@@ -0,0 +1,472 @@
+import {
+  BankedQuestion,
+  InteractiveDiagram,
+  LearnerProfile,
+  QuizAttempt,
+  RemoteProfile,
+  SyncChange,
+  SyncCollection,
+  SyncConflict,
+  SyncPullResponse,
+  SyncPushResponse,
+  SyncRecord,
+  SyncSettings,
+  SyncState
+} from "../types";
+import { mergeTopicProgress, mostSeenQuestion, newerFlashcard, newerSrsCard } from "./backup";
+import { getActiveProfile, hashPin } from "./profiles";
+import { loadSyllabus } from "./syllabus";
+import {
+  StorageSchema,
+  findStored,
+  getActiveProfileId,
+  listStoredKeys,
+  readStored,
+  removeStored,
+  subscribeStorageWrites,
+  writeStored
+} from "./storage";
+
+// Client of the self-hosted sync server in server/. The local store stays the source of truth
+// and the app works fully offline: every change to a synced item is queued in the profile's
+// outbox and sent whenever the server is reachable. Concurrent edits of the same item are
+// merged where the data allows it (progress, SRS cards, banked questions); study materials fall
+// back to last-write-wins and the discarded side is reported as a conflict.
+
+const SETTINGS_KEY = 'sync_settings';
+const STATE_KEY = 'sync_state';
+// Local edits are batched for a few seconds before they are queued and pushed
+const QUEUE_DELAY_MS = 3000;
+const SYNC_INTERVAL_MS = 60_000;
+// A push may be rejected again if another device writes in between; give up after a few rounds
+const MAX_PUSH_ROUNDS = 3;
+const MAX_CONFLICTS = 50;
+
+const DEFAULT_SETTINGS: SyncSettings = { enabled: false, serverUrl: 'http://localhost:8787', token: '' };
+
+export const loadSyncSettings = (): SyncSettings => ({ ...DEFAULT_SETTINGS, ...readStored(SETTINGS_KEY, DEFAULT_SETTINGS) });
+
+export const saveSyncSettings = (settings: SyncSettings) => {
+  writeStored(SETTINGS_KEY, settings);
+};
+
+const emptyState = (): SyncState => ({ revision: 0, lastSyncAt: null, shadow: {}, outbox: {}, conflicts: [] });
+
+const loadState = (profileId: string): SyncState => ({ ...emptyState(), ...(findStored(STATE_KEY, profileId) ?? {}) });
+
+const saveState = (profileId: string, state: SyncState) => {
+  writeStored(STATE_KEY, state, profileId);
+};
+
+// ---- Mapping the local store to synced items ----
+
+interface CollectionAdapter {
+  label: string;
+  // Every item of the profile, keyed by its sync id
+  read: (profileId: string) => Map<string, unknown>;
+  // Applies remote items; null deletes
+  write: (profileId: string, changes: Map<string, unknown>) => void;
+  // Combines two edited copies of the same item; collections without it use last-write-wins
+  merge?: ItemMerge;
+}
+
+type ItemMerge = (local: unknown, remote: unknown) => unknown;
+
+// Items reach the adapters untyped; each collection only ever holds its own item type
+const mergeAs = <T,>(merge: (local: T, remote: T) => T): ItemMerge => (local, remote) => merge(local as T, remote as T);
+
+type RecordKey = 'topic_progress' | 'srs_cards' | 'flashcards';
+type RecordItem<K extends RecordKey> = StorageSchema[K][string];
+
+const recordAdapter = <K extends RecordKey>(key: K, label: string, merge: (local: RecordItem<K>, remote: RecordItem<K>) => RecordItem<K>): CollectionAdapter => ({
+  label,
+  read: profileId => new Map(Object.entries(findStored(key, profileId) ?? {})),
+  write: (profileId, changes) => {
+    const next: StorageSchema[K] = { ...findStored(key, profileId) };
+    changes.forEach((value, id) => {
+      if (value === null) delete next[id];
+      else next[id] = value as RecordItem<K>;
+    });
+    writeStored(key, next, profileId);
+  },
+  merge: mergeAs(merge)
+});
+
+const isTextKey = (key: string): key is `study_text_${string}` => key.startsWith('study_text_');
+const isDiagramKey = (key: string): key is `study_diagram_obj_${string}` => key.startsWith('study_diagram_obj_');
+const isMaterialKey = (key: string) => isTextKey(key) || isDiagramKey(key);
+
+const ADAPTERS: Record<SyncCollection, CollectionAdapter> = {
+  progress: recordAdapter('topic_progress', 'Progreso', mergeTopicProgress),
+  srs: recordAdapter('srs_cards', 'Tarjeta de repaso', newerSrsCard),
+  flashcards: recordAdapter('flashcards', 'Flashcard', newerFlashcard),
+  attempts: {
+    label: 'Test realizado',
+    read: profileId => new Map((findStored('quiz_attempts', profileId) ?? []).map(a => [a.id, a])),
+    write: (profileId, changes) => {
+      const byId = new Map((findStored('quiz_attempts', profileId) ?? []).map(a => [a.id, a]));
+      changes.forEach((value, id) => {
+        if (value === null) byId.delete(id);
+        else byId.set(id, value as QuizAttempt);
+      });
+      writeStored('quiz_attempts', Array.from(byId.values()).sort((a, b) => a.date - b.date), profileId);
+    },
+    // Attempts never change after they are handed in, so both copies are the same
+    merge: mergeAs<QuizAttempt>(local => local)
+  },
+  questions: {
+    label: 'Pregunta del banco',
+    read: profileId => new Map(Object.values(findStored('question_bank', profileId) ?? {})
+      .flat()
+      .map(q => [`${q.topicId}:${q.id}`, q])),
+    write: (profileId, changes) => {
+      const bank = { ...(findStored('question_bank', profileId) ?? {}) };
+      changes.forEach((value, syncId) => {
+        const separator = syncId.indexOf(':');
+        const topicId = syncId.slice(0, separator);
+        const questionId = syncId.slice(separator + 1);
+        const rest = (bank[topicId] ?? []).filter(q => q.id !== questionId);
+        bank[topicId] = value === null ? rest : [...rest, value as BankedQuestion];
+        if (bank[topicId].length === 0) delete bank[topicId];
+      });
+      writeStored('question_bank', bank, profileId);
+    },
+    merge: mergeAs(mostSeenQuestion)
+  },
+  materials: {
+    label: 'Material de estudio',
+    read: profileId => new Map(listStoredKeys(profileId)
+      .filter(isMaterialKey)
+      .map(key => [key, findStored(key, profileId)] as [string, unknown])
+      .filter(([, value]) => value !== undefined)),
+    write: (profileId, changes) => {
+      changes.forEach((value, key) => {
+        if (isTextKey(key)) {
+          if (value === null) removeStored(key, profileId);
+          else if (typeof value === 'string') writeStored(key, value, profileId);
+        } else if (isDiagramKey(key)) {
+          if (value === null) removeStored(key, profileId);
+          else writeStored(key, value as InteractiveDiagram, profileId);
+        }
+      });
+    }
+  }
+};
+
+const COLLECTIONS = Object.keys(ADAPTERS) as SyncCollection[];
+const SYNCED_STORAGE_KEYS = new Set<string>(['topic_progress', 'srs_cards', 'flashcards', 'quiz_attempts', 'question_bank']);
+
+const itemKey = (collection: SyncCollection, id: string) => `${collection}/${id}`;
+
+const parseItemKey = (key: string): { collection: SyncCollection; id: string } => {
+  const separator = key.indexOf('/');
+  return { collection: key.slice(0, separator) as SyncCollection, id: key.slice(separator + 1) };
+};
+
+// Cheap content fingerprint; deleted items hash to ''
+const hashOf = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = JSON.stringify(value);
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash * 33) ^ text.charCodeAt(i)) >>> 0;
+  return `${text.length.toString(36)}.${hash.toString(36)}`;
+};
+
+const describeItem = (collection: SyncCollection, id: string): string => {
+  const topicId = id.replace(/^study_(text|diagram_obj)_/, '').split(':')[0];
+  const topic = loadSyllabus().find(t => t.id === topicId);
+  const kind = id.startsWith('study_diagram_obj_') ? 'Esquema' : id.startsWith('study_text_') ? 'Guía de estudio' : ADAPTERS[collection].label;
+  return topic ? `${kind} · ${topic.title}` : kind;
+};
+
+// ---- Outbox ----
+
+// Compares the store with what was last synced and queues every item that changed since
+const queueLocalChanges = (profileId: string, state: SyncState) => {
+  const now = Date.now();
+  COLLECTIONS.forEach(collection => {
+    const local = ADAPTERS[collection].read(profileId);
+    const seen = new Set<string>();
+    local.forEach((value, id) => {
+      const key = itemKey(collection, id);
+      seen.add(key);
+      const hash = hashOf(value);
+      if (hash === state.shadow[key]?.hash) delete state.outbox[key];
+      else if (state.outbox[key]?.hash !== hash) state.outbox[key] = { hash, updatedAt: now };
+    });
+    Object.keys(state.shadow).forEach(key => {
+      if (seen.has(key) || !key.startsWith(`${collection}/`)) return;
+      if (state.shadow[key].hash === '') delete state.outbox[key];
+      else if (state.outbox[key]?.hash !== '') state.outbox[key] = { hash: '', updatedAt: now };
+    });
+  });
+};
+
+const readLocalItems = (profileId: string) =>
+  Object.fromEntries(COLLECTIONS.map(collection => [collection, ADAPTERS[collection].read(profileId)])) as Record<SyncCollection, Map<string, unknown>>;
+
+const reportConflict = (state: SyncState, conflict: Omit<SyncConflict, 'label' | 'date'>) => {
+  state.conflicts = [
+    { ...conflict, label: describeItem(conflict.collection, conflict.id), date: Date.now() },
+    ...state.conflicts
+  ].slice(0, MAX_CONFLICTS);
+};
+
+// Set while remote items are written so they are not mistaken for local edits
+let applyingRemote = false;
+
+// Reconciles items received from the server with the local store
+const applyRemote = (profileId: string, state: SyncState, records: SyncRecord[]) => {
+  const local = readLocalItems(profileId);
+  const writes = new Map<SyncCollection, Map<string, unknown>>();
+  const write = (collection: SyncCollection, id: string, value: unknown) => {
+    if (!writes.has(collection)) writes.set(collection, new Map());
+    writes.get(collection)!.set(id, value);
+  };
+
+  records.forEach(record => {
+    const adapter = ADAPTERS[record.collection];
+    if (!adapter) return;
+    const key = itemKey(record.collection, record.id);
+    // Our own pushes come back on the next pull
+    if ((state.shadow[key]?.revision ?? 0) >= record.revision) return;
+
+    const remoteHash = record.deleted ? '' : hashOf(record.data);
+    const pending = state.outbox[key];
+    const accept = () => {
+      write(record.collection, record.id, record.deleted ? null : record.data);
+      state.shadow[key] = { hash: remoteHash, revision: record.revision };
+      delete state.outbox[key];
+    };
+
+    if (!pending || pending.hash === remoteHash) {
+      accept();
+      return;
+    }
+
+    const current = local[record.collection].get(record.id);
+    if (adapter.merge && current !== undefined && !record.deleted) {
+      const merged = adapter.merge(current, record.data);
+      const mergedHash = hashOf(merged);
+      if (mergedHash === remoteHash) {
+        accept();
+        return;
+      }
+      if (mergedHash !== hashOf(current)) write(record.collection, record.id, merged);
+      state.shadow[key] = { hash: remoteHash, revision: record.revision };
+      state.outbox[key] = { hash: mergedHash, updatedAt: Date.now() };
+      return;
+    }
+
+    // Last write wins; the local edit stays queued on top of the new server revision
+    if (record.updatedAt > pending.updatedAt) {
+      accept();
+      reportConflict(state, { collection: record.collection, id: record.id, kept: 'remote' });
+    } else {
+      state.shadow[key] = { hash: remoteHash, revision: record.revision };
+      reportConflict(state, { collection: record.collection, id: record.id, kept: 'local' });
+    }
+  });
+
+  applyingRemote = true;
+  try {
+    writes.forEach((changes, collection) => ADAPTERS[collection].write(profileId, changes));
+  } finally {
+    applyingRemote = false;
+  }
+};
+
+// ---- Server API ----
+
+export class SyncUnreachableError extends Error {}
+
+export class SyncRequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const request = async <T,>(settings: SyncSettings, path: string, init: RequestInit = {}): Promise<T> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.token) headers['Authorization'] = `Bearer ${settings.token}`;
+  let response: Response;
+  try {
+    response = await fetch(`${settings.serverUrl.replace(/\/+$/, '')}${path}`, { ...init, headers });
+  } catch {
+    throw new SyncUnreachableError('No se puede conectar con el servidor de sincronización.');
+  }
+  if (response.status === 401) throw new Error('El servidor ha rechazado el token de acceso.');
+  if (!response.ok) throw new SyncRequestError(response.status, `El servidor de sincronización respondió ${response.status}: ${await response.text()}`);
+  return response.json();
+};
+
+const profilePath = (profileId: string) => `/api/profiles/${encodeURIComponent(profileId)}`;
+
+export const checkSyncServer = (settings: SyncSettings) =>
+  request<{ ok: boolean; revision: number }>(settings, '/api/health');
+
+// Profiles other devices have uploaded, e.g. to continue studying on a new device
+export const listRemoteProfiles = (settings: SyncSettings = loadSyncSettings()) =>
+  request<RemoteProfile[]>(settings, '/api/profiles');
+
+// The server lists profiles without their PIN hash and only returns it for the right PIN
+export const unlockRemoteProfile = async (profile: RemoteProfile, pin: string, settings: SyncSettings = loadSyncSettings()): Promise<LearnerProfile> => {
+  try {
+    return await request<LearnerProfile>(settings, `${profilePath(profile.id)}/unlock`, {
+      method: 'POST',
+      body: JSON.stringify({ pinHash: await hashPin(profile.id, pin) })
+    });
+  } catch (error) {
+    if (error instanceof SyncRequestError && error.status === 403) throw new Error('PIN incorrecto.');
+    if (error instanceof SyncRequestError && error.status === 429) throw new Error('Demasiados intentos fallidos. Espera unos minutos.');
+    throw error;
+  }
+};
+
+// ---- Sync cycle ----
+
+export type SyncPhase = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  phase: SyncPhase;
+  pending: number;
+  lastSyncAt: number | null;
+  conflicts: SyncConflict[];
+  message: string | null;
+}
+
+type SyncStatusListener = (status: SyncStatus) => void;
+const statusListeners = new Set<SyncStatusListener>();
+let status: SyncStatus = { phase: 'disabled', pending: 0, lastSyncAt: null, conflicts: [], message: null };
+
+export const getSyncStatus = () => status;
+
+export const subscribeSyncStatus = (listener: SyncStatusListener) => {
+  statusListeners.add(listener);
+  listener(status);
+  return () => { statusListeners.delete(listener); };
+};
+
+const setStatus = (phase: SyncPhase, state: SyncState, message: string | null = null) => {
+  status = {
+    phase,
+    pending: Object.keys(state.outbox).length,
+    lastSyncAt: state.lastSyncAt,
+    conflicts: state.conflicts,
+    message
+  };
+  statusListeners.forEach(listener => listener(status));
+};
+
+const buildChanges = (profileId: string, state: SyncState): SyncChange[] => {
+  const local = readLocalItems(profileId);
+  return Object.entries(state.outbox).map(([key, pending]) => {
+    const { collection, id } = parseItemKey(key);
+    const data = local[collection]?.get(id);
+    return {
+      collection,
+      id,
+      data: data ?? null,
+      deleted: data === undefined,
+      updatedAt: pending.updatedAt,
+      baseRevision: state.shadow[key]?.revision ?? 0
+    };
+  });
+};
+
+const runSync = async (settings: SyncSettings, profileId: string) => {
+  const state = loadState(profileId);
+  queueLocalChanges(profileId, state);
+  setStatus('syncing', state);
+
+  try {
+    const profile = getActiveProfile();
+    await request(settings, profilePath(profileId), { method: 'PUT', body: JSON.stringify(profile) });
+
+    const pulled = await request<SyncPullResponse>(settings, `${profilePath(profileId)}/changes?since=${state.revision}`);
+    applyRemote(profileId, state, pulled.records);
+    state.revision = Math.max(state.revision, pulled.revision);
+
+    for (let round = 0; round < MAX_PUSH_ROUNDS && Object.keys(state.outbox).length > 0; round++) {
+      const changes = buildChanges(profileId, state);
+      const sent = new Map(changes.map(change => [itemKey(change.collection, change.id), state.outbox[itemKey(change.collection, change.id)].hash]));
+      const pushed = await request<SyncPushResponse>(settings, `${profilePath(profileId)}/changes`, {
+        method: 'POST',
+        body: JSON.stringify({ changes })
+      });
+      pushed.applied.forEach(({ collection, id, revision }) => {
+        const key = itemKey(collection, id);
+        const hash = sent.get(key) ?? '';
+        state.shadow[key] = { hash, revision };
+        if (state.outbox[key]?.hash === hash) delete state.outbox[key];
+      });
+      applyRemote(profileId, state, pushed.conflicts);
+      if (pushed.conflicts.length === 0) break;
+    }
+
+    state.lastSyncAt = Date.now();
+    saveState(profileId, state);
+    setStatus('idle', state);
+  } catch (error) {
+    // Whatever was received is kept; the outbox still holds everything not yet accepted
+    saveState(profileId, state);
+    if (error instanceof SyncUnreachableError) setStatus('offline', state, error.message);
+    else setStatus('error', state, error instanceof Error ? error.message : String(error));
+  }
+};
+
+let running: Promise<void> | null = null;
+
+// Syncs the active profile now; concurrent calls share the cycle in progress
+export const syncNow = (): Promise<void> => {
+  const settings = loadSyncSettings();
+  const profileId = getActiveProfileId();
+  if (!settings.enabled || !settings.serverUrl) {
+    setStatus('disabled', loadState(profileId));
+    return Promise.resolve();
+  }
+  if (!running) {
+    running = runSync(settings, profileId).finally(() => { running = null; });
+  }
+  return running;
+};
+
+export const clearSyncConflicts = () => {
+  const profileId = getActiveProfileId();
+  const state = loadState(profileId);
+  state.conflicts = [];
+  saveState(profileId, state);
+  setStatus(status.phase, state, status.message);
+};
+
+// Forgets what was synced so the next cycle starts from scratch, e.g. after pointing the
+// app at another server. Local data is kept and uploaded again.
+export const resetSyncState = () => {
+  const profileId = getActiveProfileId();
+  saveState(profileId, emptyState());
+  setStatus(loadSyncSettings().enabled ? 'idle' : 'disabled', emptyState());
+};
+
+let started = false;
+
+// Called once after the store is loaded: syncs at startup, on an interval, when the browser
+// comes back online and shortly after local edits
+export const startSync = () => {
+  if (started) return;
+  started = true;
+  let queueTimer: ReturnType<typeof setTimeout> | null = null;
+
+  subscribeStorageWrites((key, profileId) => {
+    if (applyingRemote || profileId !== getActiveProfileId() || (!SYNCED_STORAGE_KEYS.has(key) && !isMaterialKey(key))) return;
+    if (queueTimer) clearTimeout(queueTimer);
+    // Every cycle queues local changes first; an edit made during a cycle waits for it to end
+    queueTimer = setTimeout(() => {
+      queueTimer = null;
+      (running ?? Promise.resolve()).then(() => syncNow());
+    }, QUEUE_DELAY_MS);
+  });
+
+  window.addEventListener('online', () => { syncNow(); });
+  setInterval(() => { syncNow(); }, SYNC_INTERVAL_MS);
+  syncNow();
+};
@@ -3,14 +3,21 @@ export enum AppView {
   TOPIC_LIST = 'TOPIC_LIST',
   STUDY = 'STUDY',
   QUIZ = 'QUIZ',
-  CHAT = 'CHAT'
+  CHAT = 'CHAT',
+  REVIEW = 'REVIEW',
+  SETTINGS = 'SETTINGS',
+  SYLLABUS = 'SYLLABUS',
+  PROFILES = 'PROFILES',
+  FLASHCARDS = 'FLASHCARDS',
+  ARTICLES = 'ARTICLES'
 }
 
 export interface ConstitutionTopic {
   id: string;
   title: string;
   description: string;
-  articles: string;
+  articles: ArticleRange[]; // Laws and article ranges the topic covers
+  otherLaws?: string[]; // Rules named by the temario that are not in the bundled corpus, e.g. "LAULA"
 }
 
 export interface ChatMessage {
@@ -18,11 +25,24 @@ export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   timestamp: number;
+  citations?: string[];
+}
+
+export interface ChatConversation {
+  id: string;
+  title: string;
+  titleEdited: boolean; // Renamed by the user, so automatic titling leaves it alone
+  messages: ChatMessage[];
+  summary: string; // Condensed version of the messages already folded out of the history
+  summarizedCount: number; // How many leading messages the summary covers
+  createdAt: number;
+  updatedAt: number;
 }
 
 export enum QuizMode {
-  REAL = 'REAL', // Exam mode: No immediate feedback, timer styled
-  REVIEW = 'REVIEW' // Review mode: Immediate feedback and explanations
+  REAL = 'REAL', // Exam mode: No immediate feedback, countdown timer and free navigation
+  REVIEW = 'REVIEW', // Review mode: Immediate feedback and explanations
+  PAPER = 'PAPER' // Printed exam: answered on paper and the marks typed in afterwards
 }
 
 export interface QuizQuestion {
@@ -30,6 +50,35 @@ export interface QuizQuestion {
   options: string[];
   correctAnswerIndex: number;
   explanation: string;
+  citations?: string[]; // LegalArticle ids the question is grounded on
+  articles?: string[]; // Article ids (`${law}-${number}`) the question tests, for the per-article mastery map
+  topicId?: string; // Set when the question belongs to a multi-topic exam
+  tags?: string[]; // Labels carried over from imported files, e.g. "Examen 2019"
+}
+
+export type BlankAnswerPolicy = 'neutral' | 'penalize';
+
+// 'bank' reuses stored questions and only asks the model for the shortfall; 'generate' always asks for new ones
+export type QuestionSource = 'bank' | 'generate';
+
+export interface ExamConfig {
+  topics: { topicId: string; weight: number }[];
+  questionCount: number;
+  penalty: number; // Fraction of a correct answer subtracted per wrong answer (1/3 is the usual tribunal rule)
+  blankPolicy: BlankAnswerPolicy; // Whether blank answers also carry the penalty
+  passMark: number; // Percentage of the maximum net score needed to pass
+  timeLimitMinutes: number; // REAL mode only (printed on PAPER exams), 0 = no limit
+  warningMinutes: number[]; // Remaining minutes at which a warning is shown
+  questionSource: QuestionSource;
+}
+
+export interface ExamScore {
+  correct: number;
+  wrong: number;
+  blank: number;
+  net: number; // correct - penalty * (wrong [+ blank])
+  percentage: number; // Net score over the number of questions, clamped to 0-100
+  isPassed: boolean;
 }
 
 export interface QuizState {
@@ -37,8 +86,14 @@ export interface QuizState {
   userAnswers: number[]; // Index of selected answer, -1 if unanswered
   currentQuestionIndex: number;
   isFinished: boolean;
-  score: number;
+  score: number; // Correct answers
   mode: QuizMode;
+  config: ExamConfig;
+  examScore: ExamScore | null; // Net score as the tribunal would compute it, set on finish
+  markedForReview: boolean[];
+  timeSpentMs: number[]; // Time spent on each question, accumulated across visits
+  startedAt: number;
+  finishedAt: number | null;
 }
 
 export interface OutlineRequest {
@@ -55,9 +110,293 @@ export interface FailedQuestion {
   date: number;
 }
 
+// SM-2 grade: 0-2 failed recall, 3 hard, 4 good, 5 easy
+export type SrsGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface SrsReview {
+  date: number;
+  grade: SrsGrade;
+  interval: number; // Days until the next review after this one
+  ease: number;
+}
+
+// SM-2 state shared by quiz cards and flashcards
+export interface SrsSchedule {
+  ease: number;
+  interval: number; // Days
+  repetitions: number; // Consecutive successful reviews
+  lapses: number;
+  due: number;
+  history: SrsReview[];
+}
+
+export interface SrsCard extends SrsSchedule {
+  id: string; // Stable key derived from the question text
+  topicId: string;
+  topicTitle: string;
+  question: QuizQuestion;
+}
+
+// Where a flashcard came from: a section of the study outline, a mind map node, an AI cloze
+// sentence or the student
+export type FlashcardSource = 'outline' | 'diagram' | 'cloze' | 'manual';
+
+export interface Flashcard extends SrsSchedule {
+  id: string;
+  topicId: string;
+  source: FlashcardSource;
+  front: string; // Cloze cards mark the hidden words as {{...}}
+  back: string;
+  citations?: string[];
+  // Generated cards: source and normalized front they were built from, kept through edits
+  origin?: string;
+  createdAt: number;
+  updatedAt: number; // Last edit of the text, not of the schedule
+}
+
+// Sentence returned by the model for a cloze card, before it is stored
+export interface ClozeDraft {
+  text: string;
+  explanation?: string;
+  articleIds?: string[];
+}
+
+// Every finished quiz, kept so past exams can be reviewed or retaken with the same questions
+export interface QuizAttempt {
+  id: string;
+  topicIds: string[]; // Every tema included in the exam
+  date: number; // When it was handed in
+  mode: QuizMode;
+  config: ExamConfig;
+  questions: QuizQuestion[];
+  userAnswers: number[];
+  examScore: ExamScore;
+  timeSpentMs: number[];
+  durationMs: number;
+}
+
+export interface BankedQuestion {
+  id: string; // Same key as the SRS card for this question
+  topicId: string;
+  question: QuizQuestion;
+  createdAt: number;
+  timesSeen: number;
+  timesCorrect: number;
+  lastSeen: number | null;
+}
+
 export interface TopicProgress {
   topicId: string;
   isPassed: boolean;
   bestScore: number; // Percentage 0-100
   lastAttempt: number;
-}
\ No newline at end of file
+}
+
+export type DiagramNodeLevel = 'main' | 'sub' | 'detail';
+
+export interface DiagramNode {
+  id: string;
+  label: string;
+  level: DiagramNodeLevel;
+  detail?: string; // Explanation shown when the node is clicked; may cite [[CE-140]] markers
+  parent?: string; // Missing only on the root
+}
+
+// Link between two nodes besides the parent → child hierarchy
+export interface DiagramEdge {
+  from: string;
+  to: string;
+  label?: string;
+}
+
+// Mind map as data; the Mermaid source is generated from it (services/diagram.ts)
+export interface InteractiveDiagram {
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface AISettings {
+  provider: AIProviderId;
+  gemini: {
+    model: string;
+    apiKey: string; // Optional override, falls back to GEMINI_API_KEY from .env.local
+  };
+  openai: {
+    baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+    model: string;
+    apiKey: string;
+  };
+  verifyQuizAnswers: boolean; // Second pass where the model answers each generated question blind
+}
+
+// Contract every AI backend must fulfil. Implementations may throw; callers in
+// geminiService are responsible for turning failures into user-facing messages.
+// `sources` are the corpus articles and study-document passages retrieved for the request;
+// prompts must ground on them.
+export interface AIProvider {
+  id: AIProviderId;
+  generateStudyOutline: (topicTitle: string, sources: GroundingSource[], userQuery?: string) => Promise<string>;
+  generateInteractiveDiagram: (topicTitle: string, sources: GroundingSource[]) => Promise<InteractiveDiagram | null>;
+  // New nodes for one branch of a mind map: `branch` is the label path from the root to the node
+  // being expanded and `existingChildren` the labels already hanging from it
+  expandDiagramNode: (topicTitle: string, branch: string[], existingChildren: string[], sources: GroundingSource[]) => Promise<DiagramNode[]>;
+  generateQuizQuestions: (topicTitle: string, count: number, sources: GroundingSource[]) => Promise<QuizQuestion[]>;
+  generateClozeCards: (topicTitle: string, count: number, sources: GroundingSource[]) => Promise<ClozeDraft[]>;
+  // Answers the questions without seeing their key: one option index per question, -1 if unsure
+  answerQuizQuestions: (questions: QuizQuestion[], sources: GroundingSource[]) => Promise<number[]>;
+  chatWithTutor: (message: string, history: ChatTurn[], sources: GroundingSource[]) => Promise<string>;
+  // Streaming variants yield text deltas and stop when `signal` is aborted
+  streamStudyOutline: (topicTitle: string, sources: GroundingSource[], userQuery: string | undefined, signal: AbortSignal) => AsyncGenerator<string>;
+  streamChat: (message: string, history: ChatTurn[], sources: GroundingSource[], signal: AbortSignal) => AsyncGenerator<string>;
+}
+
+export type LawId = 'CE' | 'EAA' | 'LBRL' | 'TRLRHL' | 'LPRL' | 'LOI';
+
+export interface LegalArticle {
+  id: string; // `${law}-${number}`, e.g. "CE-140". Used as citation marker [[CE-140]]
+  law: LawId;
+  number: string;
+  title?: string;
+  text: string;
+}
+
+export type LawDivisionKind = 'titulo' | 'capitulo' | 'seccion';
+
+// Título / Capítulo / Sección of a law and the article numbers it spans (inclusive)
+export interface LawDivision {
+  kind: LawDivisionKind;
+  label: string; // "Título I", "Capítulo segundo", "Sección 1.ª"
+  title: string;
+  from: number;
+  to: number;
+  children?: LawDivision[];
+}
+
+// Part of a law a topic covers; the whole law when from/to are missing
+export interface ArticleRange {
+  law: LawId;
+  from?: number;
+  to?: number;
+}
+
+// Answers given in quizzes to questions that test one article
+export interface ArticleMastery {
+  articleId: string;
+  answered: number;
+  correct: number;
+  recent: boolean[]; // Latest answers, oldest first; blanks count as misses
+  lastAnswered: number;
+}
+
+export type DocumentKind = 'pdf' | 'docx' | 'txt' | 'md';
+
+// Study material uploaded by the user for a tema. Only the extracted text is kept;
+// PDF pages are separated by form feeds (\f) so passages can point back to their page.
+export interface TopicDocument {
+  id: string;
+  topicId: string;
+  name: string;
+  kind: DocumentKind;
+  size: number; // Bytes of the original file
+  uploadedAt: number;
+  text: string;
+}
+
+// Chunk of a TopicDocument used for retrieval. Cited as [[DOC-<documentId>-<index>]]
+export interface DocumentPassage {
+  id: string;
+  documentId: string;
+  documentName: string;
+  index: number; // 1-based position within the document
+  page?: number;
+  text: string;
+}
+
+export type GroundingSource = LegalArticle | DocumentPassage;
+
+// Text answer plus the corpus articles and passages it cites
+export interface GroundedAnswer {
+  text: string;
+  citations: string[];
+}
+
+// Partial answer of a stream; the last one is marked when the provider failed midway
+export interface StreamedAnswer extends GroundedAnswer {
+  failed?: boolean;
+}
+
+// Local learner sharing the device. Every stored key except the AI settings belongs to one profile.
+export interface LearnerProfile {
+  id: string;
+  name: string;
+  pinHash: string | null; // SHA-256 of the PIN salted with the profile id
+  createdAt: number;
+}
+
+// A profile as listed by the sync server, which never hands out PIN hashes in the list
+export interface RemoteProfile extends Omit<LearnerProfile, 'pinHash'> {
+  hasPin: boolean;
+}
+
+// ---- Sync with a self-hosted server (see server/) ----
+
+export type SyncCollection = 'progress' | 'attempts' | 'srs' | 'questions' | 'materials' | 'flashcards';
+
+// One synced item of a profile, e.g. an SRS card or a study guide. Deletions travel as tombstones.
+export interface SyncRecord {
+  collection: SyncCollection;
+  id: string;
+  data: unknown; // null when deleted
+  deleted: boolean;
+  updatedAt: number; // When the item was last changed on the device that sent it
+  revision: number; // Assigned by the server; grows with every accepted change
+}
+
+// A local change sent to the server. It is rejected as a conflict when the server holds a
+// newer revision of the item than baseRevision.
+export interface SyncChange extends Omit<SyncRecord, 'revision'> {
+  baseRevision: number; // 0 for items the device has never received
+}
+
+export interface SyncPullResponse {
+  revision: number;
+  records: SyncRecord[];
+}
+
+export interface SyncPushResponse {
+  applied: { collection: SyncCollection; id: string; revision: number }[];
+  conflicts: SyncRecord[]; // Current server copy of every rejected change
+}
+
+export interface SyncSettings {
+  enabled: boolean;
+  serverUrl: string;
+  token: string;
+}
+
+// A concurrent edit that could not be merged; one side was kept by last-write-wins
+export interface SyncConflict {
+  collection: SyncCollection;
+  id: string;
+  label: string;
+  kept: 'local' | 'remote';
+  date: number;
+}
+
+// Per-profile bookkeeping of the sync client
+export interface SyncState {
+  revision: number; // Server revision pulled so far
+  lastSyncAt: number | null;
+  // Last synced hash and server revision of every item, keyed "<collection>/<id>"
+  shadow: Record<string, { hash: string; revision: number }>;
+  // Local changes not yet accepted by the server
+  outbox: Record<string, { hash: string; updatedAt: number }>;
+  conflicts: SyncConflict[];
+}